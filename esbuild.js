@@ -39,6 +39,24 @@ async function main() {
     ]
   });
 
+  // Headless notebook runner: a plain Node entry point without the VS Code API
+  const runnerCtx = await esbuild.context({
+    entryPoints: ['src/runNotebook.ts'],
+    bundle: true,
+    format: 'cjs',
+    // jsonc-parser's UMD build requires its modules dynamically; bundle the ESM build instead
+    mainFields: ['module', 'main'],
+    minify: production,
+    sourcemap: !production,
+    sourcesContent: false,
+    platform: 'node',
+    outfile: 'out/runNotebook.js',
+    logLevel: 'silent',
+    plugins: [
+      esbuildProblemMatcherPlugin
+    ]
+  });
+
   // Build the renderer separately for webview context
   const rendererCtx = await esbuild.context({
     entryPoints: ['src/notebook/renderer.ts'],
@@ -57,11 +75,14 @@ async function main() {
 
   if (watch) {
     await ctx.watch();
+    await runnerCtx.watch();
     await rendererCtx.watch();
   } else {
     await ctx.rebuild();
+    await runnerCtx.rebuild();
     await rendererCtx.rebuild();
     await ctx.dispose();
+    await runnerCtx.dispose();
     await rendererCtx.dispose();
   }
 }
@@ -491,8 +491,10 @@ export class ApiExecutor {
     /**
      * Execute a DFC API method via the bridge.
      * The bridge handles backend type (DFC or REST) internally.
+     *
+     * @param signal Optional signal to abort the call
      */
-    async execute(request: ApiMethodRequest): Promise<ApiMethodResponse> {
+    async execute(request: ApiMethodRequest, signal?: AbortSignal): Promise<ApiMethodResponse> {
         const connection = this.connectionManager.getActiveConnection();
         if (!connection) {
             throw new Error('No active connection');
@@ -511,7 +513,8 @@ export class ApiExecutor {
             {
                 objectId: request.objectId,
                 args: request.args,
-                namedArgs: request.namedArgs
+                namedArgs: request.namedArgs,
+                signal
             }
         );
 
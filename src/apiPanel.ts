@@ -30,6 +30,19 @@ function extractObjectId(arg: unknown): string | undefined {
     return undefined;
 }
 
+/**
+ * Extract the owning connection name from a tree item or node data, if present
+ */
+function extractConnectionName(arg: unknown): string | undefined {
+    if (arg && typeof arg === 'object') {
+        const item = arg as { data?: { connectionName?: string } };
+        if (item.data && typeof item.data.connectionName === 'string') {
+            return item.data.connectionName;
+        }
+    }
+    return undefined;
+}
+
 /**
  * Webview panel for executing DFC API methods
  */
@@ -837,7 +850,7 @@ export function registerApiPanel(
                 return;
             }
 
-            const connection = connectionManager.getActiveConnection();
+            const connection = connectionManager.getConnectionFor(extractConnectionName(arg));
             if (!connection?.sessionId) {
                 vscode.window.showErrorMessage('No active connection');
                 return;
@@ -868,7 +881,7 @@ export function registerApiPanel(
                 return;
             }
 
-            const connection = connectionManager.getActiveConnection();
+            const connection = connectionManager.getConnectionFor(extractConnectionName(arg));
             if (!connection?.sessionId) {
                 vscode.window.showErrorMessage('No active connection');
                 return;
@@ -909,7 +922,7 @@ export function registerApiPanel(
                 return;
             }
 
-            const connection = connectionManager.getActiveConnection();
+            const connection = connectionManager.getConnectionFor(extractConnectionName(arg));
             if (!connection?.sessionId) {
                 vscode.window.showErrorMessage('No active connection');
                 return;
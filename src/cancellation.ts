@@ -0,0 +1,25 @@
+import * as vscode from 'vscode';
+
+/**
+ * An AbortSignal tied to a VS Code CancellationToken
+ */
+export interface TokenAbortSignal extends vscode.Disposable {
+    signal: AbortSignal;
+}
+
+/**
+ * Bridge a VS Code CancellationToken to an AbortSignal so that bridge
+ * (axios) requests can be aborted from the UI, e.g. the notebook stop button.
+ * Dispose the result once the request has finished.
+ */
+export function toAbortSignal(token: vscode.CancellationToken): TokenAbortSignal {
+    const controller = new AbortController();
+    if (token.isCancellationRequested) {
+        controller.abort();
+    }
+    const listener = token.onCancellationRequested(() => controller.abort());
+    return {
+        signal: controller.signal,
+        dispose: () => listener.dispose()
+    };
+}
@@ -1,5 +1,7 @@
 import * as vscode from 'vscode';
-import { DctmBridge } from './dctmBridge';
+import { DctmBridge, BridgeSettings, DEFAULT_BRIDGE_SETTINGS } from './dctmBridge';
+import { CredentialStore } from './credentialStore';
+import { isAuthenticationError } from './errorUtils';
 
 export interface DocumentumConnection {
     name: string;
@@ -41,6 +43,13 @@ type NotebookConnectionChangeCallback = (
     username?: string
 ) => void;
 
+/**
+ * Callback type for transparent session recovery.
+ * Called after a lost bridge session was re-established with cached credentials.
+ * notebookUri is set when the recovered session belongs to a notebook-bound connection.
+ */
+type SessionRecoveredCallback = (connectionName: string, username: string, notebookUri?: string) => void;
+
 /**
  * Manages Documentum connections via the DFC Bridge.
  *
@@ -49,15 +58,28 @@ type NotebookConnectionChangeCallback = (
  * know about the backend type.
  *
  * Supports two types of connections:
- * 1. Global active connection - used by default for all operations
+ * 1. Global connections - any number of configured connections can be live at
+ *    once (e.g. DEV and UAT side by side). One of them is the active connection,
+ *    used by default for all operations.
  * 2. Notebook-bound connections - per-notebook sessions identified by notebook URI
  */
 export class ConnectionManager {
     private context: vscode.ExtensionContext;
-    private activeConnection: ActiveConnection | null = null;
+    /**
+     * Live global connections: Map from connection name to ActiveConnection.
+     */
+    private liveConnections: Map<string, ActiveConnection> = new Map();
+
+    /**
+     * Name of the live connection used by default (status bar, DQL editor, browsers).
+     */
+    private activeConnectionName: string | null = null;
+
     private connectionChangeCallbacks: ConnectionChangeCallback[] = [];
     private notebookConnectionCallbacks: NotebookConnectionChangeCallback[] = [];
+    private sessionRecoveredCallbacks: SessionRecoveredCallback[] = [];
     private dctmBridge: DctmBridge;
+    private credentialStore: CredentialStore;
 
     /**
      * Notebook-bound connections: Map from notebook URI to ActiveConnection.
@@ -67,7 +89,43 @@ export class ConnectionManager {
 
     constructor(context: vscode.ExtensionContext) {
         this.context = context;
-        this.dctmBridge = new DctmBridge(context);
+        this.dctmBridge = new DctmBridge(context, () => this.getBridgeSettings());
+        this.credentialStore = new CredentialStore(context.secrets, context.globalState);
+
+        // Keep connection records in step when the bridge re-establishes a session
+        this.dctmBridge.onSessionRecovered((oldSessionId, newSessionId) => {
+            this.handleSessionRecovered(oldSessionId, newSessionId);
+        });
+    }
+
+    /**
+     * Register a callback for when a lost session is transparently re-established.
+     */
+    onSessionRecovered(callback: SessionRecoveredCallback): void {
+        this.sessionRecoveredCallbacks.push(callback);
+    }
+
+    /**
+     * Update the global and notebook-bound connections that used a recovered session.
+     */
+    private handleSessionRecovered(oldSessionId: string, newSessionId: string): void {
+        for (const connection of this.liveConnections.values()) {
+            if (connection.sessionId === oldSessionId) {
+                connection.sessionId = newSessionId;
+                this.sessionRecoveredCallbacks.forEach(cb =>
+                    cb(connection.config.name, connection.username)
+                );
+            }
+        }
+
+        for (const [notebookUri, connection] of this.notebookConnections) {
+            if (connection.sessionId === oldSessionId) {
+                connection.sessionId = newSessionId;
+                this.sessionRecoveredCallbacks.forEach(cb =>
+                    cb(connection.config.name, connection.username, notebookUri)
+                );
+            }
+        }
     }
 
     onConnectionChange(callback: ConnectionChangeCallback): void {
@@ -88,7 +146,25 @@ export class ConnectionManager {
         return config.get<Record<string, DfcProfile>>('dfc.profiles', {});
     }
 
-    async connect(): Promise<void> {
+    /**
+     * Bridge host and ports from the `documentum.bridge.*` settings
+     */
+    private getBridgeSettings(): BridgeSettings {
+        const config = vscode.workspace.getConfiguration('documentum');
+        return {
+            host: config.get<string>('bridge.host', DEFAULT_BRIDGE_SETTINGS.host),
+            port: config.get<number>('bridge.port', DEFAULT_BRIDGE_SETTINGS.port),
+            restPort: config.get<number>('bridge.restPort', DEFAULT_BRIDGE_SETTINGS.restPort)
+        };
+    }
+
+    /**
+     * Connect to a configured connection.
+     *
+     * @param connectionName Connection to open; prompts with a picker when omitted.
+     *                       If the connection is already live it becomes the active one.
+     */
+    async connect(connectionName?: string): Promise<void> {
         const connections = this.getConnections();
 
         if (connections.length === 0) {
@@ -117,15 +193,26 @@ export class ConnectionManager {
             connection: c
         }));
 
-        const selected = await vscode.window.showQuickPick(items, {
-            placeHolder: 'Select a Documentum connection'
-        });
+        let connection = connectionName
+            ? connections.find(c => c.name === connectionName)
+            : undefined;
 
-        if (!selected) {
-            return;
+        if (!connection) {
+            const selected = await vscode.window.showQuickPick(items, {
+                placeHolder: 'Select a Documentum connection'
+            });
+
+            if (!selected) {
+                return;
+            }
+            connection = selected.connection;
         }
 
-        const connection = selected.connection;
+        // Already connected - just make it the active connection
+        if (this.liveConnections.has(connection.name)) {
+            this.setActiveConnection(connection.name);
+            return;
+        }
 
         // Get credentials
         const username = connection.username || await vscode.window.showInputBox({
@@ -137,10 +224,7 @@ export class ConnectionManager {
             return;
         }
 
-        const password = await vscode.window.showInputBox({
-            prompt: 'Enter password',
-            password: true
-        });
+        const password = await this.getPassword(connection, username);
 
         if (!password) {
             return;
@@ -149,6 +233,45 @@ export class ConnectionManager {
         await this.connectToBridge(connection, username, password);
     }
 
+    /**
+     * Get the password for a connection and username.
+     * Uses the stored password if one exists, otherwise prompts the user.
+     */
+    async getPassword(connection: DocumentumConnection, username: string): Promise<string | undefined> {
+        const stored = await this.credentialStore.get(connection.name, username);
+        if (stored) {
+            return stored;
+        }
+
+        return vscode.window.showInputBox({
+            prompt: `Enter password for ${username}`,
+            password: true
+        });
+    }
+
+    /**
+     * Record the outcome of a connection attempt in the credential store.
+     * Successful logins are remembered (if enabled); authentication failures
+     * discard any stored password so the user is prompted next time.
+     */
+    private async updateStoredCredential(
+        connection: DocumentumConnection,
+        username: string,
+        password: string,
+        error?: unknown
+    ): Promise<void> {
+        try {
+            if (error === undefined) {
+                await this.credentialStore.store(connection.name, username, password);
+            } else if (isAuthenticationError(error)) {
+                await this.credentialStore.forget(connection.name, username);
+            }
+        } catch (storeError) {
+            // Credential storage is a convenience - never fail the connection over it
+            console.error('Error updating stored credential:', storeError);
+        }
+    }
+
     private async connectToBridge(
         connection: DocumentumConnection,
         username: string,
@@ -195,59 +318,121 @@ export class ConnectionManager {
                         }
                 );
 
-                this.activeConnection = {
+                this.liveConnections.set(connection.name, {
                     config: connection,
                     sessionId,
                     username
-                };
+                });
+                this.activeConnectionName = connection.name;
 
                 this.notifyConnectionChange(true, connection.name, username);
                 vscode.window.showInformationMessage(
                     `Connected to ${connection.name} as ${username}`
                 );
             });
+            await this.updateStoredCredential(connection, username, password);
         } catch (error) {
+            await this.updateStoredCredential(connection, username, password, error);
             if (error instanceof Error) {
                 vscode.window.showErrorMessage(`Connection failed: ${error.message}`);
             }
         }
     }
 
-    async disconnect(): Promise<void> {
-        if (this.activeConnection) {
-            const name = this.activeConnection.config.name;
+    /**
+     * Disconnect a live connection.
+     *
+     * @param connectionName Connection to close; defaults to the active connection.
+     *                       If the active connection is closed, another live
+     *                       connection (if any) becomes active.
+     */
+    async disconnect(connectionName?: string): Promise<void> {
+        const name = connectionName ?? this.activeConnectionName;
+        const connection = name ? this.liveConnections.get(name) : undefined;
+        if (!connection) {
+            return;
+        }
+
+        try {
+            await this.dctmBridge.disconnect(connection.sessionId);
+        } catch (error) {
+            // Log but don't fail
+            console.error('Error disconnecting:', error);
+        }
+
+        this.liveConnections.delete(connection.config.name);
 
-            try {
-                await this.dctmBridge.disconnect(this.activeConnection.sessionId);
-            } catch (error) {
-                // Log but don't fail
-                console.error('Error disconnecting:', error);
+        if (this.activeConnectionName === connection.config.name) {
+            const next = this.liveConnections.values().next().value as ActiveConnection | undefined;
+            this.activeConnectionName = next ? next.config.name : null;
+            if (next) {
+                this.notifyConnectionChange(true, next.config.name, next.username);
+            } else {
+                this.notifyConnectionChange(false);
             }
+        } else {
+            // Active connection is unchanged, but listeners (e.g. the Explorer) still need a refresh
+            const active = this.getActiveConnection();
+            this.notifyConnectionChange(active !== null, active?.config.name, active?.username);
+        }
+        vscode.window.showInformationMessage(`Disconnected from ${connection.config.name}`);
+    }
 
-            this.activeConnection = null;
-            this.notifyConnectionChange(false);
-            vscode.window.showInformationMessage(`Disconnected from ${name}`);
+    /**
+     * Disconnect every live global connection.
+     * Called during extension deactivation.
+     */
+    async disconnectAll(): Promise<void> {
+        const names = Array.from(this.liveConnections.keys());
+        for (const name of names) {
+            await this.disconnect(name);
         }
     }
 
+    /**
+     * Make a live connection the active one.
+     * The active connection drives the status bar, DQL editor execution and
+     * the Type, User and Group browsers.
+     *
+     * @returns false if the connection is not live
+     */
+    setActiveConnection(connectionName: string): boolean {
+        const connection = this.liveConnections.get(connectionName);
+        if (!connection) {
+            return false;
+        }
+        if (this.activeConnectionName !== connectionName) {
+            this.activeConnectionName = connectionName;
+            this.notifyConnectionChange(true, connection.config.name, connection.username);
+        }
+        return true;
+    }
+
     async showConnections(): Promise<void> {
         const connections = this.getConnections();
-        const currentName = this.activeConnection?.config.name;
-
-        const items: vscode.QuickPickItem[] = connections.map(c => ({
-            label: c.name === currentName ? `$(check) ${c.name}` : c.name,
-            description: c.type === 'rest'
-                ? c.endpoint || 'REST'
-                : c.docbroker
-                    ? `${c.docbroker}:${c.port || 1489}`
-                    : 'DFC',
-            detail: c.repository
-        }));
+        const currentName = this.activeConnectionName ?? undefined;
+
+        const items: (vscode.QuickPickItem & { connectionName?: string })[] = connections.map(c => {
+            const live = this.liveConnections.get(c.name);
+            const icon = c.name === currentName ? '$(check) ' : live ? '$(plug) ' : '';
+            return {
+                label: `${icon}${c.name}`,
+                description: c.type === 'rest'
+                    ? c.endpoint || 'REST'
+                    : c.docbroker
+                        ? `${c.docbroker}:${c.port || 1489}`
+                        : 'DFC',
+                detail: live
+                    ? `${c.repository} - connected as ${live.username}${c.name === currentName ? ' (active)' : ''}`
+                    : c.repository,
+                connectionName: c.name
+            };
+        });
 
         items.push({ label: '', kind: vscode.QuickPickItemKind.Separator });
         items.push({ label: '$(add) Add New Connection...', description: 'Open settings' });
 
-        if (this.activeConnection) {
+        if (currentName) {
             items.push({ label: '$(account) Switch User...', description: `Login as different user to ${currentName}` });
             items.push({ label: '$(debug-disconnect) Disconnect', description: currentName });
         }
@@ -271,51 +456,88 @@ export class ConnectionManager {
             await this.switchUser();
         } else if (selected.label.includes('Disconnect')) {
             await this.disconnect();
-        } else {
-            await this.connect();
+        } else if (selected.connectionName) {
+            // Connects, or makes an already-live connection active
+            await this.connect(selected.connectionName);
         }
     }
 
     getActiveConnection(): ActiveConnection | null {
-        return this.activeConnection;
+        if (!this.activeConnectionName) {
+            return null;
+        }
+        return this.liveConnections.get(this.activeConnectionName) || null;
+    }
+
+    /**
+     * Get a live global connection by name.
+     */
+    getConnection(connectionName: string): ActiveConnection | null {
+        return this.liveConnections.get(connectionName) || null;
+    }
+
+    /**
+     * Get a live connection by name, or the active connection when no name is given.
+     * Used by tree actions that know which connection their node belongs to; a node of a
+     * connection that is no longer live gets null rather than another repository's session.
+     */
+    getConnectionFor(connectionName?: string): ActiveConnection | null {
+        if (connectionName) {
+            return this.getConnection(connectionName);
+        }
+        return this.getActiveConnection();
+    }
+
+    /**
+     * Get all live global connections.
+     */
+    getLiveConnections(): ActiveConnection[] {
+        return Array.from(this.liveConnections.values());
     }
 
     getDctmBridge(): DctmBridge {
         return this.dctmBridge;
     }
 
+    getCredentialStore(): CredentialStore {
+        return this.credentialStore;
+    }
+
     isConnected(): boolean {
-        return this.activeConnection !== null;
+        return this.getActiveConnection() !== null;
     }
 
     /**
      * Get the current session ID
      */
     getSessionId(): string | undefined {
-        return this.activeConnection?.sessionId;
+        return this.getActiveConnection()?.sessionId;
     }
 
     /**
      * Get the current username
      */
     getUsername(): string | undefined {
-        return this.activeConnection?.username;
+        return this.getActiveConnection()?.username;
     }
 
     /**
      * Switch user - disconnect from current session and prompt for new credentials
      * on the same connection configuration
+     *
+     * @param connectionName Live connection to switch; defaults to the active connection
      */
-    async switchUser(): Promise<void> {
-        if (!this.activeConnection) {
+    async switchUser(connectionName?: string): Promise<void> {
+        const current = this.getConnectionFor(connectionName);
+        if (!current) {
             vscode.window.showWarningMessage('No active connection to switch user');
             return;
         }
 
-        const connection = this.activeConnection.config;
+        const connection = current.config;
 
         // Disconnect first
-        await this.disconnect();
+        await this.disconnect(connection.name);
 
         // Prompt for new credentials
         const username = await vscode.window.showInputBox({
@@ -327,10 +549,7 @@ export class ConnectionManager {
             return;
         }
 
-        const password = await vscode.window.showInputBox({
-            prompt: 'Enter password',
-            password: true
-        });
+        const password = await this.getPassword(connection, username);
 
         if (!password) {
             return;
@@ -399,22 +618,29 @@ export class ConnectionManager {
         );
 
         // Connect via bridge - route to DFC or REST based on connection type
-        const sessionId = await this.dctmBridge.connect(
-            connection.type === 'rest'
-                ? {
-                    endpoint: connection.endpoint,
-                    repository: connection.repository,
-                    username,
-                    password
-                }
-                : {
-                    docbroker: connection.docbroker || '',
-                    port: connection.port || 1489,
-                    repository: connection.repository,
-                    username,
-                    password
-                }
-        );
+        let sessionId: string;
+        try {
+            sessionId = await this.dctmBridge.connect(
+                connection.type === 'rest'
+                    ? {
+                        endpoint: connection.endpoint,
+                        repository: connection.repository,
+                        username,
+                        password
+                    }
+                    : {
+                        docbroker: connection.docbroker || '',
+                        port: connection.port || 1489,
+                        repository: connection.repository,
+                        username,
+                        password
+                    }
+            );
+        } catch (error) {
+            await this.updateStoredCredential(connection, username, password, error);
+            throw error;
+        }
+        await this.updateStoredCredential(connection, username, password);
 
         const activeConnection: ActiveConnection = {
             config: connection,
@@ -481,7 +707,7 @@ export class ConnectionManager {
                 return notebookConnection;
             }
         }
-        return this.activeConnection;
+        return this.getActiveConnection();
     }
 
     /**
@@ -0,0 +1,169 @@
+import * as vscode from 'vscode';
+
+/**
+ * Key under which the list of stored credentials is kept in global state.
+ * SecretStorage cannot enumerate its keys, so we track them ourselves.
+ * Only connection names and usernames are stored here - never passwords.
+ */
+const INDEX_KEY = 'dctm.credentials.index';
+
+/**
+ * Prefix for password entries in SecretStorage
+ */
+const SECRET_PREFIX = 'dctm.password';
+
+/**
+ * A stored credential reference (connection name + username)
+ */
+export interface StoredCredential {
+    connectionName: string;
+    username: string;
+}
+
+/**
+ * Stores connection passwords in VS Code SecretStorage.
+ *
+ * Passwords are keyed by connection name and username so that the same
+ * connection can remember several users. Storing is opt-in via the
+ * `documentum.credentials.rememberPasswords` setting; reading and forgetting
+ * always work so previously stored passwords can be cleared after opting out.
+ */
+export class CredentialStore {
+    private secrets: vscode.SecretStorage;
+    private state: vscode.Memento;
+
+    constructor(secrets: vscode.SecretStorage, state: vscode.Memento) {
+        this.secrets = secrets;
+        this.state = state;
+    }
+
+    /**
+     * Check whether the user has opted in to remembering passwords
+     */
+    isEnabled(): boolean {
+        const config = vscode.workspace.getConfiguration('documentum');
+        return config.get<boolean>('credentials.rememberPasswords', false);
+    }
+
+    /**
+     * Build the SecretStorage key for a connection/username pair
+     */
+    static getKey(connectionName: string, username: string): string {
+        return `${SECRET_PREFIX}/${encodeURIComponent(connectionName)}/${encodeURIComponent(username)}`;
+    }
+
+    /**
+     * Get the stored password for a connection and username, if any
+     */
+    async get(connectionName: string, username: string): Promise<string | undefined> {
+        return this.secrets.get(CredentialStore.getKey(connectionName, username));
+    }
+
+    /**
+     * Store a password. Does nothing unless remembering passwords is enabled.
+     *
+     * @returns true if the password was stored
+     */
+    async store(connectionName: string, username: string, password: string): Promise<boolean> {
+        if (!this.isEnabled()) {
+            return false;
+        }
+
+        await this.secrets.store(CredentialStore.getKey(connectionName, username), password);
+
+        const index = this.list();
+        if (!index.some(c => c.connectionName === connectionName && c.username === username)) {
+            index.push({ connectionName, username });
+            await this.state.update(INDEX_KEY, index);
+        }
+        return true;
+    }
+
+    /**
+     * Remove a stored password
+     */
+    async forget(connectionName: string, username: string): Promise<void> {
+        await this.secrets.delete(CredentialStore.getKey(connectionName, username));
+
+        const index = this.list().filter(
+            c => !(c.connectionName === connectionName && c.username === username)
+        );
+        await this.state.update(INDEX_KEY, index);
+    }
+
+    /**
+     * Remove every stored password
+     */
+    async forgetAll(): Promise<number> {
+        const index = this.list();
+        for (const credential of index) {
+            await this.secrets.delete(CredentialStore.getKey(credential.connectionName, credential.username));
+        }
+        await this.state.update(INDEX_KEY, []);
+        return index.length;
+    }
+
+    /**
+     * List stored credentials (connection name and username only)
+     */
+    list(): StoredCredential[] {
+        return [...this.state.get<StoredCredential[]>(INDEX_KEY, [])];
+    }
+}
+
+/**
+ * Register commands for managing stored credentials
+ */
+export function registerCredentialCommands(
+    context: vscode.ExtensionContext,
+    credentialStore: CredentialStore
+): void {
+    const forgetCommand = vscode.commands.registerCommand('dctm.forgetCredential', async () => {
+        const stored = credentialStore.list();
+        if (stored.length === 0) {
+            vscode.window.showInformationMessage('No stored Documentum passwords');
+            return;
+        }
+
+        const selected = await vscode.window.showQuickPick(
+            stored.map(c => ({
+                label: c.username,
+                description: c.connectionName,
+                credential: c
+            })),
+            { placeHolder: 'Select a stored password to forget' }
+        );
+
+        if (!selected) {
+            return;
+        }
+
+        await credentialStore.forget(selected.credential.connectionName, selected.credential.username);
+        vscode.window.showInformationMessage(
+            `Forgot password for ${selected.credential.username} on ${selected.credential.connectionName}`
+        );
+    });
+
+    const forgetAllCommand = vscode.commands.registerCommand('dctm.forgetAllCredentials', async () => {
+        const stored = credentialStore.list();
+        if (stored.length === 0) {
+            vscode.window.showInformationMessage('No stored Documentum passwords');
+            return;
+        }
+
+        const confirm = await vscode.window.showWarningMessage(
+            `Forget all ${stored.length} stored Documentum password(s)?`,
+            { modal: true },
+            'Forget All'
+        );
+
+        if (confirm !== 'Forget All') {
+            return;
+        }
+
+        const count = await credentialStore.forgetAll();
+        vscode.window.showInformationMessage(`Forgot ${count} stored password(s)`);
+    });
+
+    context.subscriptions.push(forgetCommand, forgetAllCommand);
+}
@@ -1,7 +1,7 @@
 import * as vscode from 'vscode';
-import axios, { AxiosInstance, AxiosError } from 'axios';
+import axios, { AxiosInstance, AxiosError, AxiosRequestConfig, AxiosResponse } from 'axios';
 import { DfcProfile } from './connectionManager';
-import { extractBridgeError } from './errorUtils';
+import { extractBridgeError, isSessionInvalidError, CancelledError } from './errorUtils';
 import {
     IUnifiedBridge,
     ObjectInfo,
@@ -32,8 +32,51 @@ export interface DqlQueryResult {
     rows: Record<string, unknown>[];
     rowCount: number;
     executionTime: number;
+    /** True when the bridge holds further rows behind `cursor` */
+    hasMore?: boolean;
+    /** Continuation token for the next page; only set when `hasMore` is true */
+    cursor?: string;
+    /** Total number of rows in the full result, if the bridge knows it */
+    totalCount?: number;
 }
 
+/**
+ * Paging options for DQL execution.
+ * Bridges that do not support paging ignore these and return every row.
+ */
+export interface DqlPageOptions {
+    /** Maximum number of rows to return; 0 or undefined returns every row */
+    pageSize?: number;
+    /** Continuation token from a previous page */
+    cursor?: string;
+    /** Request timeout in milliseconds; 0 waits indefinitely */
+    timeoutMs?: number;
+    /** Aborts the request (and asks the bridge to stop the query) */
+    signal?: AbortSignal;
+}
+
+/**
+ * Where the bridge processes listen.
+ * DFC connections use `port`, REST connections use `restPort`.
+ */
+export interface BridgeSettings {
+    host: string;
+    port: number;
+    restPort: number;
+}
+
+export const DEFAULT_BRIDGE_SETTINGS: BridgeSettings = {
+    host: 'localhost',
+    port: 9876,
+    restPort: 9877
+};
+
+/**
+ * Callback invoked after an invalid session has been transparently re-established.
+ * Receives the old (now dead) session ID and the replacement session ID.
+ */
+export type SessionRecoveredCallback = (oldSessionId: string, newSessionId: string) => void;
+
 // Re-export types for consumers
 export type { ObjectInfo, UserInfo, UserDetails, GroupInfo, GroupDetails, TypeSummary, TypeInfo };
 
@@ -58,7 +101,8 @@ export type { ObjectInfo, UserInfo, UserDetails, GroupInfo, GroupDetails, TypeSu
  * - Adding new connection types by implementing IUnifiedBridge
  */
 export class DctmBridge {
-    private context: vscode.ExtensionContext;
+    private context: vscode.ExtensionContext | undefined;
+    private getSettings: () => BridgeSettings;
     private dfcClient: AxiosInstance | null = null;
     private restClient: AxiosInstance | null = null;
     private bridgeProcess: unknown = null;
@@ -75,8 +119,131 @@ export class DctmBridge {
      */
     private sessionImpls: Map<string, IUnifiedBridge> = new Map();
 
-    constructor(context: vscode.ExtensionContext) {
+    /**
+     * Connect parameters per session, kept in memory so a session can be
+     * re-established if the bridge restarts or the repository session expires.
+     */
+    private sessionParams: Map<string, DfcConnectParams> = new Map();
+
+    /**
+     * Old session IDs that have been replaced by a recovered session.
+     * Callers holding an old ID are transparently routed to its replacement.
+     */
+    private sessionAliases: Map<string, string> = new Map();
+
+    /**
+     * In-flight recoveries keyed by the session being recovered, so concurrent
+     * failing requests share a single reconnect.
+     */
+    private pendingRecoveries: Map<string, Promise<string>> = new Map();
+
+    private sessionRecoveredCallbacks: SessionRecoveredCallback[] = [];
+
+    /**
+     * Counter for IDs attached to cancellable requests
+     */
+    private requestCounter = 0;
+
+    /**
+     * @param context Extension context; undefined when running outside VS Code
+     * @param getSettings Reads the bridge host and ports (the extension reads `documentum.bridge.*`)
+     */
+    constructor(
+        context: vscode.ExtensionContext | undefined,
+        getSettings: () => BridgeSettings = () => DEFAULT_BRIDGE_SETTINGS
+    ) {
         this.context = context;
+        this.getSettings = getSettings;
+    }
+
+    /**
+     * Register a callback for when a session is transparently re-established.
+     */
+    onSessionRecovered(callback: SessionRecoveredCallback): void {
+        this.sessionRecoveredCallbacks.push(callback);
+    }
+
+    /**
+     * Follow recovery aliases to the current session ID.
+     */
+    private resolveSessionId(sessionId: string): string {
+        let current = sessionId;
+        const seen = new Set<string>();
+        while (this.sessionAliases.has(current) && !seen.has(current)) {
+            seen.add(current);
+            current = this.sessionAliases.get(current)!;
+        }
+        return current;
+    }
+
+    /**
+     * Run a session-bound request, recovering the session once if the bridge
+     * reports it as expired or unknown.
+     *
+     * The request is retried exactly once with the new session ID. Sessions
+     * without cached connect parameters are not recovered.
+     */
+    private async withSessionRecovery<T>(
+        sessionId: string,
+        operation: (sessionId: string) => Promise<T>
+    ): Promise<T> {
+        const currentId = this.resolveSessionId(sessionId);
+        try {
+            return await operation(currentId);
+        } catch (error) {
+            if (!isSessionInvalidError(error) || !this.sessionParams.has(currentId)) {
+                throw error;
+            }
+            const newId = await this.recoverSession(currentId);
+            return operation(newId);
+        }
+    }
+
+    /**
+     * Re-establish a session with its cached connect parameters and remap
+     * the old session ID to the new one.
+     */
+    private recoverSession(oldSessionId: string): Promise<string> {
+        const pending = this.pendingRecoveries.get(oldSessionId);
+        if (pending) {
+            return pending;
+        }
+
+        const recovery = (async () => {
+            const params = this.sessionParams.get(oldSessionId)!;
+            const newSessionId = await this.connect(params);
+
+            this.sessionTypes.delete(oldSessionId);
+            this.sessionImpls.delete(oldSessionId);
+            this.sessionParams.delete(oldSessionId);
+            this.sessionAliases.set(oldSessionId, newSessionId);
+
+            for (const callback of this.sessionRecoveredCallbacks) {
+                callback(oldSessionId, newSessionId);
+            }
+            return newSessionId;
+        })();
+
+        this.pendingRecoveries.set(oldSessionId, recovery);
+        recovery.then(
+            () => this.pendingRecoveries.delete(oldSessionId),
+            () => this.pendingRecoveries.delete(oldSessionId)
+        );
+        return recovery;
+    }
+
+    /**
+     * Remove all tracking for a session, including aliases pointing at it.
+     */
+    private forgetSession(sessionId: string): void {
+        this.sessionTypes.delete(sessionId);
+        this.sessionImpls.delete(sessionId);
+        this.sessionParams.delete(sessionId);
+        for (const [alias, target] of Array.from(this.sessionAliases)) {
+            if (alias === sessionId || this.resolveSessionId(target) === sessionId) {
+                this.sessionAliases.delete(alias);
+            }
+        }
     }
 
     /**
@@ -111,6 +278,56 @@ export class DctmBridge {
         return this.getClientForType(connectionType);
     }
 
+    /**
+     * POST a request that can be aborted with an AbortSignal.
+     *
+     * The request body is tagged with a requestId. When the signal fires, the
+     * HTTP request is aborted and the bridge is asked (best effort) to cancel
+     * the server-side work, e.g. close an open DQL collection.
+     */
+    private async postCancellable(
+        sessionId: string,
+        url: string,
+        body: Record<string, unknown>,
+        signal?: AbortSignal,
+        config: AxiosRequestConfig = {}
+    ): Promise<AxiosResponse> {
+        const client = this.getClientForSession(sessionId);
+        if (!signal) {
+            return client.post(url, body, Object.keys(config).length > 0 ? config : undefined);
+        }
+        if (signal.aborted) {
+            throw new CancelledError();
+        }
+
+        const requestId = `req-${Date.now()}-${++this.requestCounter}`;
+        const onAbort = () => {
+            this.cancelRequest(sessionId, requestId);
+        };
+        signal.addEventListener('abort', onAbort, { once: true });
+        try {
+            return await client.post(url, { ...body, requestId }, { ...config, signal });
+        } finally {
+            signal.removeEventListener('abort', onAbort);
+        }
+    }
+
+    /**
+     * Ask the bridge to cancel a running request.
+     * Bridges without a cancel endpoint reject this; the error is ignored since
+     * the client side of the request has already been aborted.
+     */
+    private cancelRequest(sessionId: string, requestId: string): void {
+        try {
+            const client = this.getClientForSession(sessionId);
+            client.post('/api/v1/cancel', { sessionId, requestId }).catch(() => {
+                // Cancel endpoint not supported or request already finished
+            });
+        } catch {
+            // No client - nothing to cancel
+        }
+    }
+
     /**
      * Get the unified implementation for a session.
      * Returns the appropriate DfcBridgeImpl or RestBridgeImpl.
@@ -123,13 +340,8 @@ export class DctmBridge {
         return impl;
     }
 
-    private getConfig() {
-        const config = vscode.workspace.getConfiguration('documentum');
-        return {
-            host: config.get<string>('bridge.host', 'localhost'),
-            port: config.get<number>('bridge.port', 9876),
-            restPort: config.get<number>('bridge.restPort', 9877)
-        };
+    private getConfig(): BridgeSettings {
+        return this.getSettings();
     }
 
     /**
@@ -263,6 +475,9 @@ export class DctmBridge {
             : new DfcBridgeImpl(client);
         this.sessionImpls.set(sessionId, impl);
 
+        // Remember how to re-establish this session if it is lost
+        this.sessionParams.set(sessionId, { ...params });
+
         return sessionId;
     }
 
@@ -270,48 +485,74 @@ export class DctmBridge {
      * Disconnect a session and clean up tracking
      */
     async disconnect(sessionId: string): Promise<void> {
+        const currentId = this.resolveSessionId(sessionId);
         try {
-            const client = this.getClientForSession(sessionId);
-            await client.post('/api/v1/disconnect', { sessionId });
+            const client = this.getClientForSession(currentId);
+            await client.post('/api/v1/disconnect', { sessionId: currentId });
         } catch {
             // Ignore errors if client not available
         } finally {
             // Always clean up the session tracking
-            this.sessionTypes.delete(sessionId);
-            this.sessionImpls.delete(sessionId);
+            this.forgetSession(currentId);
         }
     }
 
     /**
      * Execute a DQL query
+     *
+     * With a page size, the bridge returns at most that many rows plus a
+     * continuation cursor; pass the cursor back (with the same query) to
+     * fetch the next page.
      */
-    async executeDql(sessionId: string, query: string): Promise<DqlQueryResult> {
-        const client = this.getClientForSession(sessionId);
-        const startTime = Date.now();
-
-        const response = await client.post('/api/v1/dql', { sessionId, query });
-        const executionTime = Date.now() - startTime;
+    async executeDql(sessionId: string, query: string, options: DqlPageOptions = {}): Promise<DqlQueryResult> {
+        return this.withSessionRecovery(sessionId, async (sid) => {
+            const startTime = Date.now();
 
-        // Bridge returns columns as ColumnInfo objects, extract just the names
-        const columns = (response.data.columns || []).map(
-            (col: { name: string }) => col.name
-        );
+            const body: Record<string, unknown> = { sessionId: sid, query };
+            if (options.pageSize && options.pageSize > 0) {
+                body.pageSize = options.pageSize;
+            }
+            if (options.cursor) {
+                body.cursor = options.cursor;
+            }
 
-        return {
-            columns,
-            rows: response.data.rows || [],
-            rowCount: response.data.rowCount || 0,
-            executionTime
-        };
+            const response = await this.postCancellable(
+                sid,
+                '/api/v1/dql',
+                body,
+                options.signal,
+                options.timeoutMs !== undefined ? { timeout: options.timeoutMs } : {}
+            );
+            const executionTime = Date.now() - startTime;
+
+            // Bridge returns columns as ColumnInfo objects, extract just the names
+            const columns = (response.data.columns || []).map(
+                (col: { name: string }) => col.name
+            );
+
+            const hasMore = Boolean(response.data.hasMore && response.data.cursor);
+
+            return {
+                columns,
+                rows: response.data.rows || [],
+                rowCount: response.data.rowCount || 0,
+                executionTime,
+                hasMore,
+                cursor: hasMore ? String(response.data.cursor) : undefined,
+                totalCount: typeof response.data.totalCount === 'number' ? response.data.totalCount : undefined
+            };
+        });
     }
 
     /**
      * Get session information
      */
     async getSessionInfo(sessionId: string): Promise<Record<string, unknown>> {
-        const client = this.getClientForSession(sessionId);
-        const response = await client.get(`/api/v1/session/${sessionId}`);
-        return response.data;
+        return this.withSessionRecovery(sessionId, async (sid) => {
+            const client = this.getClientForSession(sid);
+            const response = await client.get(`/api/v1/session/${sid}`);
+            return response.data;
+        });
     }
 
     /**
@@ -330,19 +571,21 @@ export class DctmBridge {
             objectId?: string;
             args?: unknown[];
             namedArgs?: Record<string, unknown>;
+            signal?: AbortSignal;
         }
     ): Promise<unknown> {
-        const client = this.getClientForSession(sessionId);
-        const response = await client.post('/api/v1/api', {
-            sessionId,
-            objectId: options.objectId,
-            typeName: typeName || undefined,
-            method,
-            args: options.args,
-            namedArgs: options.namedArgs
+        return this.withSessionRecovery(sessionId, async (sid) => {
+            const response = await this.postCancellable(sid, '/api/v1/api', {
+                sessionId: sid,
+                objectId: options.objectId,
+                typeName: typeName || undefined,
+                method,
+                args: options.args,
+                namedArgs: options.namedArgs
+            }, options.signal);
+
+            return response.data;
         });
-
-        return response.data;
     }
 
     /**
@@ -353,20 +596,28 @@ export class DctmBridge {
      * @param sessionId Active session ID
      * @param apiType Type of API call: 'get', 'exec', or 'set'
      * @param command The dmAPI command string (e.g., "getservermap,session")
+     * @param signal Optional signal to abort the call
      * @returns The API response with result and execution time
      */
     async executeDmApi(
         sessionId: string,
         apiType: 'get' | 'exec' | 'set',
-        command: string
+        command: string,
+        signal?: AbortSignal
     ): Promise<{
         result: unknown;
         resultType: string;
         executionTimeMs: number;
     }> {
-        const client = this.getClientForSession(sessionId);
-        const response = await client.post('/api/v1/dmapi', { sessionId, apiType, command });
-        return response.data;
+        return this.withSessionRecovery(sessionId, async (sid) => {
+            const response = await this.postCancellable(
+                sid,
+                '/api/v1/dmapi',
+                { sessionId: sid, apiType, command },
+                signal
+            );
+            return response.data;
+        });
     }
 
     /**
@@ -374,7 +625,9 @@ export class DctmBridge {
      * Delegates to the appropriate implementation (DFC or REST) for this session.
      */
     async getTypes(sessionId: string): Promise<TypeSummary[]> {
-        return this.getImplForSession(sessionId).getTypes(sessionId);
+        return this.withSessionRecovery(sessionId, sid =>
+            this.getImplForSession(sid).getTypes(sid)
+        );
     }
 
     /**
@@ -382,33 +635,41 @@ export class DctmBridge {
      * Delegates to the appropriate implementation (DFC or REST) for this session.
      */
     async getTypeDetails(sessionId: string, typeName: string): Promise<TypeInfo> {
-        return this.getImplForSession(sessionId).getTypeDetails(sessionId, typeName);
+        return this.withSessionRecovery(sessionId, sid =>
+            this.getImplForSession(sid).getTypeDetails(sid, typeName)
+        );
     }
 
     /**
      * Checkout (lock) an object for editing
      */
     async checkout(sessionId: string, objectId: string): Promise<unknown> {
-        const client = this.getClientForSession(sessionId);
-        const response = await client.put(`/api/v1/objects/${objectId}/lock`, null, { params: { sessionId } });
-        return response.data;
+        return this.withSessionRecovery(sessionId, async (sid) => {
+            const client = this.getClientForSession(sid);
+            const response = await client.put(`/api/v1/objects/${objectId}/lock`, null, { params: { sessionId: sid } });
+            return response.data;
+        });
     }
 
     /**
      * Cancel checkout (unlock) an object
      */
     async cancelCheckout(sessionId: string, objectId: string): Promise<void> {
-        const client = this.getClientForSession(sessionId);
-        await client.delete(`/api/v1/objects/${objectId}/lock`, { params: { sessionId } });
+        await this.withSessionRecovery(sessionId, async (sid) => {
+            const client = this.getClientForSession(sid);
+            await client.delete(`/api/v1/objects/${objectId}/lock`, { params: { sessionId: sid } });
+        });
     }
 
     /**
      * Checkin an object, creating a new version
      */
     async checkin(sessionId: string, objectId: string, versionLabel: string = 'CURRENT'): Promise<unknown> {
-        const client = this.getClientForSession(sessionId);
-        const response = await client.post(`/api/v1/objects/${objectId}/versions`, null, { params: { sessionId, versionLabel } });
-        return response.data;
+        return this.withSessionRecovery(sessionId, async (sid) => {
+            const client = this.getClientForSession(sid);
+            const response = await client.post(`/api/v1/objects/${objectId}/versions`, null, { params: { sessionId: sid, versionLabel } });
+            return response.data;
+        });
     }
 
     /**
@@ -425,9 +686,11 @@ export class DctmBridge {
         name: string;
         attributes: Record<string, unknown>;
     }> {
-        const client = this.getClientForSession(sessionId);
-        const response = await client.get(`/api/v1/objects/${objectId}`, { params: { sessionId } });
-        return response.data;
+        return this.withSessionRecovery(sessionId, async (sid) => {
+            const client = this.getClientForSession(sid);
+            const response = await client.get(`/api/v1/objects/${objectId}`, { params: { sessionId: sid } });
+            return response.data;
+        });
     }
 
     /**
@@ -438,7 +701,7 @@ export class DctmBridge {
      * @returns true if the session is using REST connection, false for DFC
      */
     isRestSession(sessionId: string): boolean {
-        return this.sessionTypes.get(sessionId) === 'rest';
+        return this.sessionTypes.get(this.resolveSessionId(sessionId)) === 'rest';
     }
 
     // ========================================
@@ -450,7 +713,9 @@ export class DctmBridge {
      * Delegates to the appropriate implementation (DFC or REST) for this session.
      */
     async getCabinets(sessionId: string): Promise<ObjectInfo[]> {
-        return this.getImplForSession(sessionId).getCabinets(sessionId);
+        return this.withSessionRecovery(sessionId, sid =>
+            this.getImplForSession(sid).getCabinets(sid)
+        );
     }
 
     /**
@@ -462,7 +727,9 @@ export class DctmBridge {
      * @param folderPath The folder path (required for DFC sessions)
      */
     async getFolderContents(sessionId: string, folderId: string, folderPath?: string): Promise<ObjectInfo[]> {
-        return this.getImplForSession(sessionId).getFolderContents(sessionId, folderId, folderPath);
+        return this.withSessionRecovery(sessionId, sid =>
+            this.getImplForSession(sid).getFolderContents(sid, folderId, folderPath)
+        );
     }
 
     /**
@@ -470,7 +737,9 @@ export class DctmBridge {
      * Delegates to the appropriate implementation (DFC or REST) for this session.
      */
     async getUsers(sessionId: string, pattern?: string): Promise<UserInfo[]> {
-        return this.getImplForSession(sessionId).getUsers(sessionId, pattern);
+        return this.withSessionRecovery(sessionId, sid =>
+            this.getImplForSession(sid).getUsers(sid, pattern)
+        );
     }
 
     /**
@@ -478,7 +747,9 @@ export class DctmBridge {
      * Delegates to the appropriate implementation (DFC or REST) for this session.
      */
     async getUser(sessionId: string, userName: string): Promise<UserDetails> {
-        return this.getImplForSession(sessionId).getUser(sessionId, userName);
+        return this.withSessionRecovery(sessionId, sid =>
+            this.getImplForSession(sid).getUser(sid, userName)
+        );
     }
 
     /**
@@ -486,7 +757,9 @@ export class DctmBridge {
      * Delegates to the appropriate implementation (DFC or REST) for this session.
      */
     async getGroups(sessionId: string, pattern?: string): Promise<GroupInfo[]> {
-        return this.getImplForSession(sessionId).getGroups(sessionId, pattern);
+        return this.withSessionRecovery(sessionId, sid =>
+            this.getImplForSession(sid).getGroups(sid, pattern)
+        );
     }
 
     /**
@@ -494,7 +767,9 @@ export class DctmBridge {
      * Delegates to the appropriate implementation (DFC or REST) for this session.
      */
     async getGroup(sessionId: string, groupName: string): Promise<GroupDetails> {
-        return this.getImplForSession(sessionId).getGroup(sessionId, groupName);
+        return this.withSessionRecovery(sessionId, sid =>
+            this.getImplForSession(sid).getGroup(sid, groupName)
+        );
     }
 
     /**
@@ -502,7 +777,9 @@ export class DctmBridge {
      * Delegates to the appropriate implementation (DFC or REST) for this session.
      */
     async getGroupsForUser(sessionId: string, userName: string): Promise<GroupInfo[]> {
-        return this.getImplForSession(sessionId).getGroupsForUser(sessionId, userName);
+        return this.withSessionRecovery(sessionId, sid =>
+            this.getImplForSession(sid).getGroupsForUser(sid, userName)
+        );
     }
 
     /**
@@ -510,7 +787,9 @@ export class DctmBridge {
      * Delegates to the appropriate implementation (DFC or REST) for this session.
      */
     async getParentGroups(sessionId: string, groupName: string): Promise<GroupInfo[]> {
-        return this.getImplForSession(sessionId).getParentGroups(sessionId, groupName);
+        return this.withSessionRecovery(sessionId, sid =>
+            this.getImplForSession(sid).getParentGroups(sid, groupName)
+        );
     }
 
     /**
@@ -524,5 +803,7 @@ export class DctmBridge {
         this.restClient = null;
         this.sessionTypes.clear();
         this.sessionImpls.clear();
+        this.sessionParams.clear();
+        this.sessionAliases.clear();
     }
 }
@@ -0,0 +1,182 @@
+/**
+ * Where the cursor is in a DQL statement and what fits there, for completion.
+ * No dependency on the VS Code API.
+ */
+
+import { DqlToken, isTrivia } from './dqlLexer';
+import {
+    DqlClauseKeyword,
+    DqlTypeReference,
+    collectTypeReferences,
+    findClauseAt,
+    findStatementAt,
+    findTokenAt,
+    parseDql
+} from './dqlParser';
+
+export interface DqlFunction {
+    name: string;
+    signature: string;
+    description: string;
+}
+
+/**
+ * DQL functions offered in select lists and conditions
+ */
+export const DQL_FUNCTIONS: DqlFunction[] = [
+    { name: 'COUNT', signature: 'COUNT(* | [DISTINCT] attribute)', description: 'Number of rows or non-null values' },
+    { name: 'SUM', signature: 'SUM([DISTINCT] attribute)', description: 'Sum of a numeric attribute' },
+    { name: 'AVG', signature: 'AVG([DISTINCT] attribute)', description: 'Average of a numeric attribute' },
+    { name: 'MIN', signature: 'MIN(attribute)', description: 'Smallest value' },
+    { name: 'MAX', signature: 'MAX(attribute)', description: 'Largest value' },
+    { name: 'UPPER', signature: 'UPPER(string)', description: 'Uppercase a string' },
+    { name: 'LOWER', signature: 'LOWER(string)', description: 'Lowercase a string' },
+    { name: 'SUBSTR', signature: 'SUBSTR(string, start[, length])', description: 'Part of a string, starting at 1' },
+    { name: 'DATEADD', signature: 'DATEADD(date_part, number, date)', description: 'Add a number of date parts to a date' },
+    { name: 'DATEDIFF', signature: 'DATEDIFF(date_part, date1, date2)', description: 'Number of date parts between two dates' },
+    { name: 'DATEFLOOR', signature: 'DATEFLOOR(date_part, date)', description: 'Round a date down to the date part' },
+    { name: 'DATETOSTRING', signature: 'DATETOSTRING(date, \'format\')', description: 'Format a date as a string' },
+    { name: 'DATE', signature: 'DATE(\'date\'[, \'format\'])', description: 'Date literal, or NOW, TODAY, TOMORROW, YESTERDAY' },
+    { name: 'ID', signature: 'ID(\'object_id\')', description: 'Object ID literal' },
+    { name: 'MFILE_URL', signature: 'MFILE_URL(\'format\', page, \'modifier\')', description: 'URLs of the content files' },
+    { name: 'TYPE', signature: 'TYPE(type_name)', description: 'Restrict a condition to a type and its subtypes' },
+    { name: 'FOLDER', signature: 'FOLDER(\'path\'[, DESCEND])', description: 'Objects linked to a folder' },
+    { name: 'CABINET', signature: 'CABINET(\'path\'[, DESCEND])', description: 'Objects linked to a cabinet' }
+];
+
+/**
+ * Keywords offered where no schema name fits
+ */
+export const DQL_COMPLETION_KEYWORDS: string[] = [
+    'SELECT', 'DISTINCT', 'ALL', 'FROM', 'WHERE', 'AND', 'OR', 'NOT', 'IN', 'IS', 'NULL', 'AS',
+    'ANY', 'EXISTS', 'LIKE', 'BETWEEN', 'ESCAPE', 'ORDER BY', 'GROUP BY', 'HAVING', 'ASC', 'DESC',
+    'UNION', 'ENABLE', 'SEARCH', 'DESCEND', 'UPDATE', 'SET', 'APPEND', 'INSERT', 'REMOVE', 'TRUNCATE',
+    'DELETE', 'OBJECT', 'OBJECTS', 'INTO', 'VALUES', 'CREATE', 'ALTER', 'DROP', 'TYPE', 'WITH',
+    'REGISTER', 'TABLE', 'GRANT', 'REVOKE', 'TRUE', 'FALSE', 'NULLDATE', 'NULLSTRING', 'NULLINT',
+    'NOW', 'TODAY', 'TOMORROW', 'YESTERDAY'
+];
+
+/**
+ * Attributes that hold a user or group name
+ */
+export const PRINCIPAL_ATTRIBUTES = new Set([
+    'owner_name', 'r_creator_name', 'r_modifier', 'r_lock_owner', 'acl_domain',
+    'group_name', 'users_names', 'groups_names', 'user_name', 'authors'
+]);
+
+export type DqlCompletionKind =
+    /** A type name, e.g. after FROM */
+    | 'type'
+    /** An attribute of the types in scope, a function or a keyword */
+    | 'attribute'
+    /** A user or group name, e.g. after owner_name = */
+    | 'principal'
+    /** Only keywords fit */
+    | 'keyword'
+    /** Inside a string or comment: nothing to offer */
+    | 'none';
+
+export interface DqlCompletionContext {
+    kind: DqlCompletionKind;
+    /** Types the statement queries or changes */
+    types: DqlTypeReference[];
+    /** Alias or type before a dot, e.g. `d` in `d.obj` */
+    qualifier?: string;
+    /** Attribute the principal is compared with */
+    attribute?: string;
+    /** Whether the cursor is inside a string literal */
+    inString: boolean;
+}
+
+/** Keywords right before the cursor that call for a type name */
+const TYPE_KEYWORDS = new Set(['from', 'join', 'update', 'delete', 'into', 'type']);
+
+/** Clauses whose expressions are made of attributes */
+const ATTRIBUTE_CLAUSES = new Set<DqlClauseKeyword>([
+    'select', 'where', 'order by', 'group by', 'having', 'set', 'append', 'insert', 'remove', 'truncate', 'on'
+]);
+
+const COMPARISON = new Set(['=', '<>', '!=']);
+
+/**
+ * The attribute a user or group name is being compared with: owner_name = '...' or
+ * owner_name IN ('a', '...
+ */
+function findPrincipalAttribute(before: DqlToken[]): string | undefined {
+    let index = before.length - 1;
+    if (before[index]?.kind === 'operator' && COMPARISON.has(before[index].text)) {
+        index--;
+    } else {
+        while (before[index]?.text === ',' && before[index - 1]?.kind === 'string') {
+            index -= 2;
+        }
+        if (before[index]?.text !== '(' || before[index - 1]?.lower !== 'in' || before[index - 1].kind !== 'keyword') {
+            return undefined;
+        }
+        index -= 2;
+    }
+    const attribute = before[index];
+    return attribute?.kind === 'identifier' && PRINCIPAL_ATTRIBUTES.has(attribute.lower) ? attribute.lower : undefined;
+}
+
+/**
+ * What to complete at `offset` in `text`
+ */
+export function getDqlCompletionContext(text: string, offset: number): DqlCompletionContext {
+    const script = parseDql(text);
+    const token = findTokenAt(script.tokens, offset);
+    if (token && isTrivia(token) && (token.kind === 'lineComment' || offset < token.end || !token.terminated)) {
+        return { kind: 'none', types: [], inString: false };
+    }
+    const inString = token?.kind === 'string' && (offset < token.end || !token.terminated);
+
+    const statement = findStatementAt(script, offset);
+    const types = statement ? collectTypeReferences(statement) : [];
+    // The code before the cursor, without the word or string being typed
+    const typed = token && (inString || token.kind === 'identifier' || token.kind === 'keyword') ? token.start : offset;
+    const before = (statement?.tokens ?? []).filter(t => !isTrivia(t) && t.end <= typed);
+
+    const attribute = findPrincipalAttribute(before);
+    if (attribute) {
+        return { kind: 'principal', types, attribute, inString };
+    }
+    if (inString) {
+        return { kind: 'none', types, inString };
+    }
+
+    const last = before[before.length - 1];
+    const previous = before[before.length - 2];
+    if (last?.text === '.' && previous?.kind === 'identifier') {
+        return { kind: 'attribute', types, qualifier: previous.text, inString };
+    }
+
+    // Right after a comma in the FROM list another type follows
+    const clause = statement ? findClauseAt(statement, typed) : undefined;
+    if ((last?.kind === 'keyword' && TYPE_KEYWORDS.has(last.lower))
+        || (last?.text === '(' && previous?.kind === 'keyword' && previous.lower === 'type')
+        || (last?.text === ',' && clause?.keyword === 'from')) {
+        return { kind: 'type', types, inString };
+    }
+
+    return { kind: clause && ATTRIBUTE_CLAUSES.has(clause.keyword) ? 'attribute' : 'keyword', types, inString };
+}
+
+/**
+ * The type names a completion should offer attributes of: the type or alias before the
+ * dot when there is one, else every type in the statement
+ */
+export function getTypesInScope(context: DqlCompletionContext): string[] {
+    if (context.qualifier) {
+        const qualifier = context.qualifier.toLowerCase();
+        const match = context.types.find(t => t.alias?.text.toLowerCase() === qualifier)
+            ?? context.types.find(t => t.name.text.toLowerCase() === qualifier);
+        return match ? [match.name.text] : [];
+    }
+    const names: string[] = [];
+    for (const type of context.types) {
+        if (!names.some(name => name.toLowerCase() === type.name.text.toLowerCase())) {
+            names.push(type.name.text);
+        }
+    }
+    return names;
+}
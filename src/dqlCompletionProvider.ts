@@ -0,0 +1,167 @@
+import * as vscode from 'vscode';
+import { TypeCache } from './typeCache';
+import { UserCache } from './userCache';
+import { GroupCache } from './groupCache';
+import {
+    DQL_COMPLETION_KEYWORDS,
+    DQL_FUNCTIONS,
+    DqlCompletionContext,
+    getDqlCompletionContext,
+    getTypesInScope
+} from './dqlCompletion';
+
+/**
+ * Completion provider for DQL files and notebook DQL cells.
+ * Offers type names after FROM/TYPE, the attributes of the types in the statement,
+ * DQL functions and keywords, and user and group names after owner_name =.
+ */
+export class DqlCompletionProvider implements vscode.CompletionItemProvider {
+    private typeCache: TypeCache;
+    private userCache: UserCache;
+    private groupCache: GroupCache;
+
+    constructor(typeCache: TypeCache, userCache: UserCache, groupCache: GroupCache) {
+        this.typeCache = typeCache;
+        this.userCache = userCache;
+        this.groupCache = groupCache;
+    }
+
+    async provideCompletionItems(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        _token: vscode.CancellationToken,
+        _context: vscode.CompletionContext
+    ): Promise<vscode.CompletionItem[]> {
+        const context = getDqlCompletionContext(document.getText(), document.offsetAt(position));
+
+        switch (context.kind) {
+            case 'type':
+                return this.getTypeCompletions();
+            case 'attribute': {
+                const attributes = await this.getAttributeCompletions(context);
+                // After alias. only attributes fit
+                return context.qualifier
+                    ? attributes
+                    : [...attributes, ...this.getFunctionCompletions(), ...this.getKeywordCompletions()];
+            }
+            case 'principal':
+                return this.getPrincipalCompletions(context);
+            case 'keyword':
+                return this.getKeywordCompletions();
+            default:
+                return [];
+        }
+    }
+
+    private getTypeCompletions(): vscode.CompletionItem[] {
+        return this.typeCache.getTypeNames().sort().map(name => {
+            const item = new vscode.CompletionItem(name, vscode.CompletionItemKind.Class);
+            const superType = this.typeCache.getType(name)?.superType;
+            item.detail = superType ? `Type (extends ${superType})` : 'Type';
+            // Custom types before the dm_ system types
+            item.sortText = `${name.startsWith('dm') ? '1' : '0'}${name}`;
+            return item;
+        });
+    }
+
+    /**
+     * Attributes of the types in scope, fetched from the repository the first time a
+     * type is needed
+     */
+    private async getAttributeCompletions(context: DqlCompletionContext): Promise<vscode.CompletionItem[]> {
+        const items: vscode.CompletionItem[] = [];
+        const seen = new Set<string>();
+        for (const typeName of getTypesInScope(context)) {
+            if (!this.typeCache.isTypeName(typeName)) {
+                continue;
+            }
+            const type = await this.typeCache.fetchTypeDetails(typeName);
+            for (const attr of type?.attributes ?? []) {
+                if (seen.has(attr.name)) {
+                    continue;
+                }
+                seen.add(attr.name);
+
+                const cardinality = attr.isRepeating ? 'repeating' : 'single';
+                const dataType = attr.length > 0 ? `${attr.dataType}(${attr.length})` : attr.dataType;
+                const item = new vscode.CompletionItem(
+                    { label: attr.name, description: cardinality },
+                    vscode.CompletionItemKind.Field
+                );
+                item.detail = `${dataType} · ${cardinality}`;
+                item.documentation = new vscode.MarkdownString(
+                    `${attr.isInherited ? 'Inherited attribute' : 'Attribute'} of \`${type!.name}\`` +
+                    (attr.isRepeating ? '\n\nRepeating: use `ANY` to compare it in a WHERE clause.' : '')
+                );
+                item.insertText = attr.name;
+                item.filterText = attr.name;
+                // Own attributes before inherited ones
+                item.sortText = `0${attr.isInherited ? '1' : '0'}${attr.name}`;
+                items.push(item);
+            }
+        }
+        return items;
+    }
+
+    private getFunctionCompletions(): vscode.CompletionItem[] {
+        return DQL_FUNCTIONS.map(fn => {
+            const item = new vscode.CompletionItem(fn.name, vscode.CompletionItemKind.Function);
+            item.detail = fn.signature;
+            item.documentation = fn.description;
+            item.insertText = new vscode.SnippetString(`${fn.name}($0)`);
+            item.sortText = `1${fn.name}`;
+            return item;
+        });
+    }
+
+    private getKeywordCompletions(): vscode.CompletionItem[] {
+        return DQL_COMPLETION_KEYWORDS.map(keyword => {
+            const item = new vscode.CompletionItem(keyword, vscode.CompletionItemKind.Keyword);
+            item.sortText = `2${keyword}`;
+            return item;
+        });
+    }
+
+    /**
+     * User and group names, quoted unless the cursor is already in a string
+     */
+    private getPrincipalCompletions(context: DqlCompletionContext): vscode.CompletionItem[] {
+        const quote = (name: string) => context.inString ? name.replace(/'/g, "''") : `'${name.replace(/'/g, "''")}'`;
+        const users = this.userCache.getUserNames().map(name => {
+            const item = new vscode.CompletionItem(name, vscode.CompletionItemKind.User);
+            item.detail = 'User';
+            item.insertText = quote(name);
+            item.sortText = `0${name}`;
+            return item;
+        });
+        const groups = this.groupCache.getGroupNames().map(name => {
+            const item = new vscode.CompletionItem(name, vscode.CompletionItemKind.Reference);
+            item.detail = 'Group';
+            item.insertText = quote(name);
+            item.sortText = `1${name}`;
+            return item;
+        });
+        return [...users, ...groups];
+    }
+}
+
+/**
+ * Register the DQL completion provider
+ */
+export function registerDqlCompletions(
+    context: vscode.ExtensionContext,
+    typeCache: TypeCache,
+    userCache: UserCache,
+    groupCache: GroupCache
+): void {
+    const provider = new DqlCompletionProvider(typeCache, userCache, groupCache);
+
+    // The dql language covers .dql files and notebook DQL cells
+    const disposable = vscode.languages.registerCompletionItemProvider(
+        { language: 'dql' },
+        provider,
+        '.', "'" // Trigger after alias. and in quoted names
+    );
+
+    context.subscriptions.push(disposable);
+}
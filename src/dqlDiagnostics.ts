@@ -0,0 +1,334 @@
+/**
+ * Checks of DQL text against the repository schema: unknown types and attributes,
+ * repeating attributes compared without ANY, unbalanced quotes and parentheses, and
+ * FOLDER()/CABINET() paths with unescaped quotes. No dependency on the VS Code API.
+ */
+
+import { TypeAttribute } from './bridgeTypes';
+import { DQL_KEYWORDS } from './dqlUtils';
+import { DqlToken, isTrivia, tokenizeDql } from './dqlLexer';
+import {
+    DqlClauseKeyword,
+    DqlSelectStatement,
+    DqlStatement,
+    DqlTypeReference,
+    collectAttributeReferences,
+    collectTypeReferences,
+    parseDql,
+    walkDql
+} from './dqlParser';
+
+export type DqlProblemCode =
+    | 'unknown-type'
+    | 'unknown-attribute'
+    | 'repeating-without-any'
+    | 'unbalanced-quote'
+    | 'unbalanced-parenthesis'
+    | 'unescaped-folder-quote';
+
+export interface DqlProblem {
+    code: DqlProblemCode;
+    message: string;
+    /** Offsets into the checked text */
+    start: number;
+    end: number;
+    severity: 'error' | 'warning';
+    /** The name the quick fix puts in place of the flagged text */
+    replacement?: string;
+}
+
+/**
+ * What the checks know of the repository
+ */
+export interface DqlSchema {
+    /** Undefined when no type list is loaded: types are then not checked */
+    isTypeName?: (name: string) => boolean;
+    /** Type names for suggestions */
+    typeNames?: string[];
+    /** Attributes of a type, or undefined when they are not loaded */
+    getAttributes: (typeName: string) => TypeAttribute[] | undefined;
+}
+
+/** Clauses whose names are attributes of the statement's types */
+const ATTRIBUTE_CLAUSES = new Set<DqlClauseKeyword>([
+    'select', 'where', 'group by', 'having', 'order by', 'on', 'set', 'append', 'insert', 'remove', 'truncate'
+]);
+
+/**
+ * Edit distance between two names, for suggesting the closest known one
+ */
+function editDistance(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(
+                previous[j] + 1,
+                current[j - 1] + 1,
+                previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+            );
+        }
+        previous = current;
+    }
+    return previous[b.length];
+}
+
+/**
+ * The candidate closest to a misspelt name, if it is close enough to be a likely typo
+ */
+export function findNearestName(name: string, candidates: Iterable<string>): string | undefined {
+    const lower = name.toLowerCase();
+    const limit = Math.max(2, Math.floor(lower.length / 3));
+    let best: string | undefined;
+    let bestDistance = limit + 1;
+    for (const candidate of candidates) {
+        const distance = editDistance(lower, candidate.toLowerCase());
+        if (distance < bestDistance) {
+            best = candidate;
+            bestDistance = distance;
+        }
+    }
+    return best;
+}
+
+/**
+ * FOLDER('...') and CABINET('...') paths whose single quotes are not doubled, e.g.
+ * FOLDER('/Temp/John's files'). Only a path string that does not end the call is
+ * suspect; the path then runs to the first quote before `)` or `, DESCEND)` on its line.
+ */
+function findUnescapedFolderPaths(text: string, tokens: DqlToken[]): DqlProblem[] {
+    const problems: DqlProblem[] = [];
+    const code = tokens.filter(token => !isTrivia(token));
+    code.forEach((token, index) => {
+        const [open, path, next, afterNext, close] = code.slice(index + 1, index + 6);
+        if ((token.lower !== 'folder' && token.lower !== 'cabinet') || token.kind === 'string'
+            || open?.text !== '(' || path?.kind !== 'string' || !path.terminated) {
+            return;
+        }
+        if (next?.text === ')' || (next?.text === ',' && afterNext?.lower === 'descend' && close?.text === ')')) {
+            return;
+        }
+
+        const pathStart = path.start + 1;
+        const lineEnd = text.indexOf('\n', pathStart);
+        const rest = text.slice(pathStart, lineEnd === -1 ? text.length : lineEnd);
+        const closing = rest.match(/^(.*?)'\s*(,\s*descend\s*)?\)/i);
+        if (!closing || closing[1].length < path.text.length - 1) {
+            return;
+        }
+        const value = closing[1];
+        problems.push({
+            code: 'unescaped-folder-quote',
+            message: `${token.text.toUpperCase()} path has unescaped quotes; double them ('')`,
+            start: pathStart,
+            end: pathStart + value.length,
+            severity: 'error',
+            replacement: value.split("''").map(part => part.replace(/'/g, "''")).join("''")
+        });
+    });
+    return problems;
+}
+
+function checkParentheses(tokens: DqlToken[]): DqlProblem[] {
+    const open: DqlToken[] = [];
+    const problems: DqlProblem[] = [];
+    for (const token of tokens) {
+        if (token.kind !== 'punctuation') {
+            continue;
+        }
+        if (token.text === '(') {
+            open.push(token);
+        } else if (token.text === ')') {
+            if (open.length === 0) {
+                problems.push({
+                    code: 'unbalanced-parenthesis',
+                    message: 'Closing parenthesis without a matching opening one',
+                    start: token.start,
+                    end: token.end,
+                    severity: 'error'
+                });
+            } else {
+                open.pop();
+            }
+        }
+    }
+    for (const token of open) {
+        problems.push({
+            code: 'unbalanced-parenthesis',
+            message: 'Parenthesis is never closed',
+            start: token.start,
+            end: token.end,
+            severity: 'error'
+        });
+    }
+    return problems;
+}
+
+/**
+ * The types a statement reads or changes. Created types and registered tables are not
+ * types the schema knows.
+ */
+function findTypeUses(statement: DqlStatement): DqlTypeReference[] {
+    if (statement.kind === 'register' || statement.kind === 'unregister' || statement.kind === 'insert') {
+        return [];
+    }
+    return collectTypeReferences(statement)
+        .filter(reference => !reference.definition && !DQL_KEYWORDS.has(reference.name.text.toLowerCase()));
+}
+
+/**
+ * Column aliases of the select lists, which ORDER BY may use
+ */
+function findColumnAliases(statement: DqlStatement): Set<string> {
+    const aliases = new Set<string>();
+    const add = (query: DqlSelectStatement) => {
+        for (const item of query.selectList) {
+            if (item.alias) {
+                aliases.add(item.alias.text.toLowerCase());
+            }
+        }
+        if (query.union) {
+            add(query.union);
+        }
+    };
+    if (statement.kind === 'select') {
+        add(statement);
+    }
+    walkDql(statement, node => {
+        if (node.kind === 'subquery') {
+            add(node.query);
+        }
+    });
+    return aliases;
+}
+
+function checkStatement(statement: DqlStatement, schema: DqlSchema): DqlProblem[] {
+    const problems: DqlProblem[] = [];
+    const uses = findTypeUses(statement);
+    const aliases = new Map<string, string>();
+
+    // Unknown types; owner-qualified names are registered tables
+    const knownTypes: string[] = [];
+    for (const use of uses) {
+        const name = use.owner ? `${use.owner.text}.${use.name.text}` : use.name.text;
+        if (use.alias) {
+            aliases.set(use.alias.text.toLowerCase(), name);
+        }
+        if (!schema.isTypeName || use.owner || schema.isTypeName(name)) {
+            knownTypes.push(name);
+            continue;
+        }
+        const nearest = findNearestName(name, schema.typeNames ?? []);
+        problems.push({
+            code: 'unknown-type',
+            message: `Unknown type '${name}'` + (nearest ? `. Did you mean '${nearest}'?` : ''),
+            start: use.name.start,
+            end: use.name.end,
+            severity: 'warning',
+            replacement: nearest
+        });
+    }
+
+    // Attributes are checked only when every type of the statement is known and loaded
+    const attributesByType = new Map<string, TypeAttribute[]>();
+    for (const name of knownTypes) {
+        const attributes = name.includes('.') ? undefined : schema.getAttributes(name);
+        if (!attributes || attributes.length === 0) {
+            return problems;
+        }
+        attributesByType.set(name.toLowerCase(), attributes);
+    }
+    if (attributesByType.size === 0 || knownTypes.length !== uses.length) {
+        return problems;
+    }
+    const allAttributes = [...attributesByType.values()].flat();
+    const columnAliases = findColumnAliases(statement);
+
+    for (const reference of collectAttributeReferences(statement)) {
+        if (!ATTRIBUTE_CLAUSES.has(reference.clause)) {
+            continue;
+        }
+        const lower = reference.name.text.toLowerCase();
+
+        // alias.attribute: check the attribute on the alias's type
+        let attributes = allAttributes;
+        let typeName: string | undefined;
+        if (reference.qualifier) {
+            const qualifier = reference.qualifier.text.toLowerCase();
+            typeName = aliases.get(qualifier) ?? (attributesByType.has(qualifier) ? qualifier : undefined);
+            if (!typeName) {
+                continue;
+            }
+            attributes = attributesByType.get(typeName.toLowerCase()) ?? [];
+        } else if (
+            DQL_KEYWORDS.has(lower)
+            || aliases.has(lower)
+            || attributesByType.has(lower)
+            || (reference.clause === 'order by' && columnAliases.has(lower))
+            // Computed attributes such as _permit
+            || lower.startsWith('_')
+        ) {
+            continue;
+        }
+
+        const attribute = attributes.find(attr => attr.name.toLowerCase() === lower);
+        if (!attribute) {
+            const nearest = findNearestName(reference.name.text, new Set(attributes.map(attr => attr.name)));
+            const typeText = typeName ?? [...attributesByType.keys()].join(', ');
+            problems.push({
+                code: 'unknown-attribute',
+                message: `Attribute '${reference.name.text}' does not exist on ${typeText}` + (nearest ? `. Did you mean '${nearest}'?` : ''),
+                start: reference.name.start,
+                end: reference.name.end,
+                severity: 'warning',
+                replacement: nearest
+            });
+            continue;
+        }
+
+        if (reference.clause === 'where' && attribute.isRepeating && !reference.any) {
+            problems.push({
+                code: 'repeating-without-any',
+                message: `'${attribute.name}' is a repeating attribute; use ANY to compare it in WHERE`,
+                start: reference.start,
+                end: reference.name.end,
+                severity: 'error'
+            });
+        }
+    }
+    return problems;
+}
+
+/**
+ * Check DQL text, possibly several statements, against the schema
+ */
+export function checkDql(text: string, schema: DqlSchema): DqlProblem[] {
+    const folderProblems = findUnescapedFolderPaths(text, tokenizeDql(text));
+
+    // Blank the quotes already reported so that they do not also unbalance the rest
+    let checked = text;
+    for (const problem of folderProblems) {
+        const path = text.slice(problem.start, problem.end).replace(/'/g, ' ');
+        checked = checked.slice(0, problem.start) + path + checked.slice(problem.end);
+    }
+
+    const script = parseDql(checked);
+    const problems: DqlProblem[] = [...folderProblems];
+    for (const token of script.tokens) {
+        if ((token.kind === 'string' || token.kind === 'quotedIdentifier') && !token.terminated) {
+            problems.push({
+                code: 'unbalanced-quote',
+                message: token.kind === 'string' ? 'String is never closed' : 'Quoted name is never closed',
+                start: token.start,
+                end: token.start + 1,
+                severity: 'error'
+            });
+        }
+    }
+    problems.push(...checkParentheses(script.tokens));
+
+    for (const statement of script.statements) {
+        problems.push(...checkStatement(statement, schema));
+    }
+    return problems;
+}
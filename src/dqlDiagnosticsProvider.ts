@@ -0,0 +1,206 @@
+import * as vscode from 'vscode';
+import { TypeCache } from './typeCache';
+import { DqlProblem, checkDql } from './dqlDiagnostics';
+import { collectTypeReferences, parseDql } from './dqlParser';
+
+const DIAGNOSTIC_SOURCE = 'DQL';
+
+/** Delay after the last edit before a document is checked again */
+const CHECK_DELAY_MS = 400;
+
+/**
+ * Checks open DQL documents and notebook DQL cells against the type cache and shows
+ * the problems as diagnostics
+ */
+export class DqlDiagnosticsProvider implements vscode.Disposable {
+    private typeCache: TypeCache;
+    private collection: vscode.DiagnosticCollection;
+    private timers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+    private problems: Map<string, DqlProblem[]> = new Map();
+    /** Types whose attributes were requested, so that a failing fetch is not repeated per keystroke */
+    private requestedTypes: Set<string> = new Set();
+
+    constructor(typeCache: TypeCache) {
+        this.typeCache = typeCache;
+        this.collection = vscode.languages.createDiagnosticCollection('dql');
+    }
+
+    /**
+     * Check a document after a short pause in typing
+     */
+    schedule(document: vscode.TextDocument): void {
+        if (document.languageId !== 'dql') {
+            return;
+        }
+        const key = document.uri.toString();
+        const pending = this.timers.get(key);
+        if (pending) {
+            clearTimeout(pending);
+        }
+        this.timers.set(key, setTimeout(() => {
+            this.timers.delete(key);
+            this.check(document);
+        }, CHECK_DELAY_MS));
+    }
+
+    /**
+     * Check a document now
+     */
+    async check(document: vscode.TextDocument): Promise<void> {
+        if (document.isClosed || document.languageId !== 'dql') {
+            return;
+        }
+        const text = document.getText();
+        const version = document.version;
+
+        // Load the attributes of the types the document uses
+        const references = parseDql(text).statements.flatMap(statement => collectTypeReferences(statement));
+        for (const { name } of references) {
+            const key = name.text.toLowerCase();
+            if (this.typeCache.isTypeName(key) && !this.requestedTypes.has(key)) {
+                this.requestedTypes.add(key);
+                await this.typeCache.fetchTypeDetails(name.text);
+            }
+        }
+        if (document.isClosed || document.version !== version) {
+            return; // Edited meanwhile; the newer check wins
+        }
+
+        const hasTypes = this.typeCache.hasData();
+        const problems = checkDql(text, {
+            isTypeName: hasTypes ? name => this.typeCache.isTypeName(name) : undefined,
+            typeNames: hasTypes ? this.typeCache.getTypeNames() : undefined,
+            getAttributes: typeName => {
+                const attributes = this.typeCache.getAttributes(typeName);
+                return attributes.length > 0 ? attributes : undefined;
+            }
+        });
+
+        this.problems.set(document.uri.toString(), problems);
+        this.collection.set(document.uri, problems.map(problem => {
+            const diagnostic = new vscode.Diagnostic(
+                new vscode.Range(document.positionAt(problem.start), document.positionAt(problem.end)),
+                problem.message,
+                problem.severity === 'error' ? vscode.DiagnosticSeverity.Error : vscode.DiagnosticSeverity.Warning
+            );
+            diagnostic.source = DIAGNOSTIC_SOURCE;
+            diagnostic.code = problem.code;
+            return diagnostic;
+        }));
+    }
+
+    /**
+     * Check every open DQL document again, e.g. after the type cache was refreshed
+     */
+    checkAll(): void {
+        this.requestedTypes.clear();
+        for (const document of vscode.workspace.textDocuments) {
+            this.schedule(document);
+        }
+    }
+
+    /**
+     * The problem a diagnostic was made from, as of the last check
+     */
+    getProblem(document: vscode.TextDocument, diagnostic: vscode.Diagnostic): DqlProblem | undefined {
+        const start = document.offsetAt(diagnostic.range.start);
+        return this.problems.get(document.uri.toString())
+            ?.find(problem => problem.code === diagnostic.code && problem.start === start);
+    }
+
+    forget(document: vscode.TextDocument): void {
+        const key = document.uri.toString();
+        const pending = this.timers.get(key);
+        if (pending) {
+            clearTimeout(pending);
+            this.timers.delete(key);
+        }
+        this.problems.delete(key);
+        this.collection.delete(document.uri);
+    }
+
+    dispose(): void {
+        for (const timer of this.timers.values()) {
+            clearTimeout(timer);
+        }
+        this.timers.clear();
+        this.collection.dispose();
+    }
+}
+
+/**
+ * Quick fixes for DQL diagnostics: insert ANY before a repeating attribute, use the
+ * nearest type or attribute name, double the quotes of a FOLDER() path
+ */
+export class DqlQuickFixProvider implements vscode.CodeActionProvider {
+    public static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+    private diagnostics: DqlDiagnosticsProvider;
+
+    constructor(diagnostics: DqlDiagnosticsProvider) {
+        this.diagnostics = diagnostics;
+    }
+
+    provideCodeActions(
+        document: vscode.TextDocument,
+        _range: vscode.Range,
+        context: vscode.CodeActionContext
+    ): vscode.CodeAction[] {
+        const actions: vscode.CodeAction[] = [];
+        for (const diagnostic of context.diagnostics) {
+            if (diagnostic.source !== DIAGNOSTIC_SOURCE) {
+                continue;
+            }
+            const problem = this.diagnostics.getProblem(document, diagnostic);
+            if (!problem) {
+                continue;
+            }
+
+            let action: vscode.CodeAction | undefined;
+            const edit = new vscode.WorkspaceEdit();
+            if (problem.code === 'repeating-without-any') {
+                action = new vscode.CodeAction('Insert ANY', vscode.CodeActionKind.QuickFix);
+                edit.insert(document.uri, diagnostic.range.start, 'ANY ');
+            } else if (problem.replacement !== undefined) {
+                const title = problem.code === 'unescaped-folder-quote'
+                    ? 'Double the quotes in the path'
+                    : `Change to '${problem.replacement}'`;
+                action = new vscode.CodeAction(title, vscode.CodeActionKind.QuickFix);
+                edit.replace(document.uri, diagnostic.range, problem.replacement);
+            }
+            if (action) {
+                action.edit = edit;
+                action.diagnostics = [diagnostic];
+                action.isPreferred = true;
+                actions.push(action);
+            }
+        }
+        return actions;
+    }
+}
+
+/**
+ * Register DQL diagnostics and their quick fixes
+ */
+export function registerDqlDiagnostics(
+    context: vscode.ExtensionContext,
+    typeCache: TypeCache
+): void {
+    const diagnostics = new DqlDiagnosticsProvider(typeCache);
+
+    // The dql language covers .dql files and notebook DQL cells
+    context.subscriptions.push(
+        diagnostics,
+        vscode.languages.registerCodeActionsProvider(
+            { language: 'dql' },
+            new DqlQuickFixProvider(diagnostics),
+            { providedCodeActionKinds: DqlQuickFixProvider.providedCodeActionKinds }
+        ),
+        vscode.workspace.onDidOpenTextDocument(document => diagnostics.schedule(document)),
+        vscode.workspace.onDidChangeTextDocument(event => diagnostics.schedule(event.document)),
+        vscode.workspace.onDidCloseTextDocument(document => diagnostics.forget(document))
+    );
+
+    typeCache.onRefresh(() => diagnostics.checkAll());
+    diagnostics.checkAll();
+}
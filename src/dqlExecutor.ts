@@ -1,4 +1,7 @@
+import * as vscode from 'vscode';
 import { ConnectionManager } from './connectionManager';
+import { toAbortSignal } from './cancellation';
+import { DqlStatementText, splitDqlStatements } from './dqlParser';
 
 export interface DqlResult {
     columns: string[];
@@ -6,11 +9,101 @@ export interface DqlResult {
     rowCount: number;
     executionTime: number;
     query: string;
+    /** True when more rows can be fetched with `cursor` */
+    hasMore?: boolean;
+    /** Continuation token for the next page */
+    cursor?: string;
+    /** Total number of rows in the full result, if the bridge knows it */
+    totalCount?: number;
+}
+
+/**
+ * Loads the rows after a cursor - the next page, or every remaining row when `all` is true.
+ */
+export type DqlPageLoader = (cursor: string, all: boolean) => Promise<DqlResult>;
+
+/**
+ * Append a later page to a result.
+ * Rows are concatenated and paging state is taken from the later page.
+ */
+export function mergeDqlPages(first: DqlResult, next: DqlResult): DqlResult {
+    const rows = [...first.rows, ...next.rows];
+    return {
+        columns: first.columns.length > 0 ? first.columns : next.columns,
+        rows,
+        rowCount: rows.length,
+        executionTime: first.executionTime + next.executionTime,
+        query: first.query,
+        hasMore: next.hasMore,
+        cursor: next.cursor,
+        totalCount: next.totalCount ?? first.totalCount
+    };
+}
+
+/**
+ * Outcome of one statement of a script
+ */
+export interface DqlStatementResult {
+    /** The statement as sent, without comments */
+    query: string;
+    /** Offsets of the statement in the script */
+    start: number;
+    end: number;
+    result?: DqlResult;
+    error?: string;
+    /** Milliseconds until the result or error arrived */
+    executionTime: number;
+    /** Not run, because an earlier statement failed or the run was cancelled */
+    skipped?: boolean;
+}
+
+export interface DqlScriptOptions {
+    /** Run the statements after a failed one instead of stopping; executeScript() defaults it from the settings */
+    continueOnError?: boolean;
+    /** Cancels the running statement and skips the rest */
+    token?: vscode.CancellationToken;
+    /** Called before each statement runs */
+    onStatement?: (index: number, total: number, statement: DqlStatementText) => void;
+}
+
+/**
+ * Run statements one after the other, collecting each one's result or error.
+ */
+export async function runDqlStatements(
+    statements: DqlStatementText[],
+    execute: (query: string) => Promise<DqlResult>,
+    options: DqlScriptOptions = {}
+): Promise<DqlStatementResult[]> {
+    const results: DqlStatementResult[] = [];
+    let stopped = false;
+    for (const [index, statement] of statements.entries()) {
+        const outcome: DqlStatementResult = { query: statement.query, start: statement.start, end: statement.end, executionTime: 0 };
+        results.push(outcome);
+        if (stopped || options.token?.isCancellationRequested) {
+            outcome.skipped = true;
+            continue;
+        }
+
+        options.onStatement?.(index, statements.length, statement);
+        const started = Date.now();
+        try {
+            outcome.result = await execute(statement.query);
+            outcome.executionTime = outcome.result.executionTime;
+        } catch (error) {
+            outcome.error = error instanceof Error ? error.message : String(error);
+            outcome.executionTime = Date.now() - started;
+            stopped = !options.continueOnError;
+        }
+    }
+    return results;
 }
 
 /**
  * Executes DQL queries via the DFC Bridge.
  * The bridge handles backend type (DFC or REST) internally.
+ *
+ * Results are fetched in pages of `documentum.query.pageSize` rows; the
+ * remaining rows are loaded on demand with fetchPage() / fetchRemaining().
  */
 export class DqlExecutor {
     private connectionManager: ConnectionManager;
@@ -19,6 +112,30 @@ export class DqlExecutor {
         this.connectionManager = connectionManager;
     }
 
+    /**
+     * Number of rows to fetch per page (0 fetches everything at once)
+     */
+    getPageSize(): number {
+        const config = vscode.workspace.getConfiguration('documentum');
+        return Math.max(0, config.get<number>('query.pageSize', 500));
+    }
+
+    /**
+     * Timeout for a single DQL request in milliseconds (0 waits indefinitely)
+     */
+    private getTimeoutMs(): number {
+        const config = vscode.workspace.getConfiguration('documentum');
+        return Math.max(0, config.get<number>('query.timeout', 120)) * 1000;
+    }
+
+    /**
+     * Whether a script goes on after a failed statement (`documentum.query.scriptErrors`)
+     */
+    private getContinueOnError(): boolean {
+        const config = vscode.workspace.getConfiguration('documentum');
+        return config.get<string>('query.scriptErrors', 'stop') === 'continue';
+    }
+
     /**
      * Execute a DQL query using the global active connection.
      */
@@ -32,27 +149,101 @@ export class DqlExecutor {
         return this.executeWithSession(query, connection.sessionId);
     }
 
+    /**
+     * Execute a script of statements separated by `;` or `go` lines, in order, using the
+     * global active connection. Failed statements are reported in the results, not thrown.
+     */
+    async executeScript(script: string, options: DqlScriptOptions = {}): Promise<DqlStatementResult[]> {
+        const connection = this.connectionManager.getActiveConnection();
+
+        if (!connection) {
+            throw new Error('Not connected to Documentum. Use "Documentum: Connect" first.');
+        }
+
+        return runDqlStatements(
+            splitDqlStatements(script),
+            query => this.executeWithSession(query, connection.sessionId, options.token),
+            { continueOnError: this.getContinueOnError(), ...options }
+        );
+    }
+
     /**
      * Execute a DQL query using a specific session ID.
      * Used for notebook-bound connections where each notebook has its own session.
+     * Returns the first page of rows; check `hasMore` for further pages.
      *
      * @param query The DQL query to execute
      * @param sessionId The session ID to use for execution
+     * @param token Optional token to cancel the query (aborts the bridge request)
      */
-    async executeWithSession(query: string, sessionId: string): Promise<DqlResult> {
+    async executeWithSession(
+        query: string,
+        sessionId: string,
+        token?: vscode.CancellationToken
+    ): Promise<DqlResult> {
+        return this.fetchPage(query, sessionId, undefined, token);
+    }
+
+    /**
+     * Fetch one page of a query's results.
+     *
+     * @param cursor Continuation token from the previous page; omit for the first page
+     * @param token Optional token to cancel the request
+     */
+    async fetchPage(
+        query: string,
+        sessionId: string,
+        cursor?: string,
+        token?: vscode.CancellationToken
+    ): Promise<DqlResult> {
         if (!sessionId) {
             throw new Error('No active session');
         }
 
         const bridge = this.connectionManager.getDctmBridge();
-        const result = await bridge.executeDql(sessionId, query);
+        const abort = token ? toAbortSignal(token) : undefined;
+        let result;
+        try {
+            result = await bridge.executeDql(sessionId, query, {
+                pageSize: this.getPageSize(),
+                cursor,
+                timeoutMs: this.getTimeoutMs(),
+                signal: abort?.signal
+            });
+        } finally {
+            abort?.dispose();
+        }
 
         return {
             columns: result.columns,
             rows: result.rows,
             rowCount: result.rowCount,
             executionTime: result.executionTime,
-            query: query.trim()
+            query: query.trim(),
+            hasMore: result.hasMore,
+            cursor: result.cursor,
+            totalCount: result.totalCount
         };
     }
+
+    /**
+     * Fetch every row after a cursor, page by page.
+     */
+    async fetchRemaining(query: string, sessionId: string, cursor: string): Promise<DqlResult> {
+        let result = await this.fetchPage(query, sessionId, cursor);
+        while (result.hasMore && result.cursor) {
+            const next = await this.fetchPage(query, sessionId, result.cursor);
+            result = mergeDqlPages(result, next);
+        }
+        return result;
+    }
+
+    /**
+     * Create a loader that fetches further pages of a query on a given session.
+     */
+    createPageLoader(query: string, sessionId: string): DqlPageLoader {
+        return (cursor, all) => all
+            ? this.fetchRemaining(query, sessionId, cursor)
+            : this.fetchPage(query, sessionId, cursor);
+    }
 }
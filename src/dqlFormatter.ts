@@ -0,0 +1,333 @@
+/**
+ * Formatting of DQL text: keyword case, a line per clause, aligned select lists and
+ * spacing around operators. Works on the parser's tokens, so strings, comments and
+ * hints are kept as written. No dependency on the VS Code API.
+ */
+
+import { DqlToken, isTrivia } from './dqlLexer';
+import { DqlClauseKeyword, DqlRange, DqlScript, DqlSelectStatement, DqlStatement, parseDql, walkDql } from './dqlParser';
+import { DQL_FUNCTIONS } from './dqlCompletion';
+
+export interface DqlFormatOptions {
+    /** Case of keywords and DQL function names; `go` separators are kept as written */
+    keywordCase: 'upper' | 'lower' | 'preserve';
+    /** Start FROM, WHERE, ORDER BY and the other clauses on a line of their own */
+    clauseLineBreaks: boolean;
+    /** Put each select list item on its own line, aligned with the first */
+    alignSelectList: boolean;
+    /** One space on both sides of =, <>, ||, + and the other binary operators */
+    operatorSpacing: boolean;
+    /** Indentation of continued lines, e.g. four spaces or a tab */
+    indent: string;
+}
+
+export const DEFAULT_DQL_FORMAT_OPTIONS: DqlFormatOptions = {
+    keywordCase: 'upper',
+    clauseLineBreaks: true,
+    alignSelectList: true,
+    operatorSpacing: true,
+    indent: '    '
+};
+
+/** Clauses that start a new line; the others, such as GRANT ... TO, stay on the line */
+const LINE_CLAUSES = new Set<DqlClauseKeyword>([
+    'select', 'from', 'where', 'group by', 'having', 'order by', 'union', 'enable', 'search', 'in document',
+    'in assembly', 'join', 'set', 'append', 'insert', 'remove', 'truncate', 'link', 'unlink', 'move', 'values',
+    'with supertype'
+]);
+
+/** Clauses that start an indented line, under the clause they belong to */
+const INDENTED_CLAUSES = new Set<DqlClauseKeyword>(['on']);
+
+const FUNCTION_NAMES = new Set(DQL_FUNCTIONS.map(fn => fn.name.toLowerCase()));
+
+/**
+ * What the parser tells about the tokens, by token start offset
+ */
+interface Layout {
+    /** First code token of each statement */
+    statementStarts: Set<number>;
+    /** Clause keywords that start a line, and whether it is indented */
+    lineBreaks: Map<number, 'clause' | 'indented'>;
+    /** Items of select lists with more than one item */
+    selectItems: Map<number, 'first' | 'next'>;
+    /** Names directly followed by the ( of their arguments */
+    calls: Set<number>;
+    /** DQL function names, cased like keywords */
+    functionNames: Set<number>;
+    binaryOperators: Set<number>;
+    /** + and - signs of numbers and expressions */
+    signs: Set<number>;
+    /** Code after a missing ; or go, which is kept as written */
+    unparsed: DqlRange[];
+}
+
+function addSelectItems(layout: Layout, query: DqlSelectStatement | undefined): void {
+    if (!query) {
+        return;
+    }
+    if (query.selectList.length > 1) {
+        query.selectList.forEach((item, index) => layout.selectItems.set(item.start, index === 0 ? 'first' : 'next'));
+    }
+    addSelectItems(layout, query.union);
+}
+
+function addStatement(layout: Layout, statement: DqlStatement): void {
+    const first = statement.tokens.find(token => !isTrivia(token));
+    if (first) {
+        layout.statementStarts.add(first.start);
+    }
+    // Subqueries stay on the line of their condition
+    for (const clause of statement.clauses) {
+        if (clause.depth === 0 && clause.start !== first?.start) {
+            if (LINE_CLAUSES.has(clause.keyword)) {
+                layout.lineBreaks.set(clause.start, 'clause');
+            } else if (INDENTED_CLAUSES.has(clause.keyword)) {
+                layout.lineBreaks.set(clause.start, 'indented');
+            }
+        }
+    }
+    addSelectItems(layout, statement.kind === 'select' ? statement : statement.kind === 'insert' ? statement.query : undefined);
+    if (statement.unparsed) {
+        // With the comments before it, which belong to the statement that follows
+        const { start, end } = statement.unparsed;
+        const parsed = statement.tokens.filter(token => !isTrivia(token) && token.end <= start);
+        layout.unparsed.push({ start: parsed[parsed.length - 1]?.end ?? start, end });
+    }
+
+    // SET title = 'x' is an assignment, spaced like a comparison
+    if (statement.kind === 'update') {
+        for (const { attribute, end } of statement.operations) {
+            const assignment = attribute && statement.tokens.find(token =>
+                token.kind === 'operator' && token.text === '=' && token.start >= attribute.end && token.end <= end);
+            if (assignment) {
+                layout.binaryOperators.add(assignment.start);
+            }
+        }
+    }
+
+    walkDql(statement, node => {
+        switch (node.kind) {
+            case 'functionCall':
+                layout.calls.add(node.name.start);
+                if (FUNCTION_NAMES.has(node.name.text.toLowerCase())) {
+                    layout.functionNames.add(node.name.start);
+                }
+                break;
+            case 'predicate':
+                layout.calls.add(node.start);
+                layout.functionNames.add(node.start);
+                break;
+            case 'binary':
+                layout.binaryOperators.add(node.operatorRange.start);
+                break;
+            case 'unary':
+                if (node.operator === '-' || node.operator === '+') {
+                    layout.signs.add(node.start);
+                }
+                break;
+        }
+    });
+}
+
+function buildLayout(script: DqlScript): Layout {
+    const layout: Layout = {
+        statementStarts: new Set(),
+        lineBreaks: new Map(),
+        selectItems: new Map(),
+        calls: new Set(),
+        functionNames: new Set(),
+        binaryOperators: new Set(),
+        signs: new Set(),
+        unparsed: []
+    };
+    for (const statement of script.statements) {
+        addStatement(layout, statement);
+    }
+    return layout;
+}
+
+function isPunctuation(token: DqlToken, text: string): boolean {
+    return token.kind === 'punctuation' && token.text === text;
+}
+
+class Formatter {
+    private output = '';
+    /** Column of the first select list item, while the select list is being written */
+    private alignColumn: number | undefined;
+    /** Whether the current statement has code yet, as opposed to only leading comments */
+    private inStatement = false;
+
+    constructor(
+        private readonly text: string,
+        private readonly tokens: DqlToken[],
+        private readonly layout: Layout,
+        private readonly options: DqlFormatOptions
+    ) {}
+
+    format(): string {
+        this.tokens.forEach((token, index) => {
+            const previous = this.tokens[index - 1];
+            if (previous) {
+                this.output += this.whitespace(previous, token, index);
+            }
+            this.write(token, previous);
+        });
+        return this.output;
+    }
+
+    private write(token: DqlToken, previous: DqlToken | undefined): void {
+        if (this.layout.statementStarts.has(token.start)) {
+            this.alignColumn = undefined;
+        }
+        if (this.layout.selectItems.get(token.start) === 'first') {
+            this.alignColumn = this.column();
+        }
+        if (token.kind === 'separator') {
+            this.inStatement = false;
+            this.alignColumn = undefined;
+        } else if (!isTrivia(token)) {
+            this.inStatement = true;
+        }
+        this.output += this.caseOf(token, previous);
+    }
+
+    private isUnparsed(token: DqlToken): boolean {
+        return this.layout.unparsed.some(range => token.start >= range.start && token.end <= range.end);
+    }
+
+    private caseOf(token: DqlToken, previous: DqlToken | undefined): string {
+        const keywordCase = this.options.keywordCase;
+        if (this.isUnparsed(token)) {
+            return token.text;
+        }
+        const isKeyword = (token.kind === 'keyword' && !(previous && isPunctuation(previous, '.')))
+            || this.layout.functionNames.has(token.start);
+        if (keywordCase === 'preserve' || !isKeyword) {
+            return token.text;
+        }
+        return keywordCase === 'upper' ? token.text.toUpperCase() : token.text.toLowerCase();
+    }
+
+    private column(): number {
+        return this.output.length - (this.output.lastIndexOf('\n') + 1);
+    }
+
+    /** Line break(s) in the original text between two tokens */
+    private newlinesBetween(previous: DqlToken, token: DqlToken): number {
+        return this.text.slice(previous.end, token.start).split('\n').length - 1;
+    }
+
+    private newline(indent: string, blankLine = false): string {
+        return (blankLine ? '\n\n' : '\n') + indent;
+    }
+
+    /**
+     * What goes between two tokens
+     */
+    private whitespace(previous: DqlToken, token: DqlToken, index: number): string {
+        const newlines = this.newlinesBetween(previous, token);
+
+        if (this.isUnparsed(token)) {
+            return this.text.slice(previous.end, token.start);
+        }
+        if (previous.kind === 'separator') {
+            // A comment on the line of the ; stays there
+            if (isTrivia(token) && newlines === 0) {
+                return ' ';
+            }
+            return this.newline('', newlines > 1);
+        }
+        if (token.kind === 'separator') {
+            return token.text === ';' ? '' : this.newline('');
+        }
+        // Comments on a line of their own stay on a line of their own
+        if (previous.kind === 'lineComment' || (isTrivia(token) && newlines > 0) || (isTrivia(previous) && newlines > 0)) {
+            return this.newline(this.indentBefore(index), newlines > 1);
+        }
+        if (isTrivia(token)) {
+            return ' ';
+        }
+        const lineBreak = this.layout.lineBreaks.get(token.start);
+        if (lineBreak && this.options.clauseLineBreaks) {
+            this.alignColumn = undefined;
+            return this.newline(lineBreak === 'indented' ? this.options.indent : '');
+        }
+        if (this.layout.selectItems.get(token.start) === 'next' && this.options.alignSelectList && this.alignColumn !== undefined) {
+            return this.newline(' '.repeat(this.alignColumn));
+        }
+        return this.spacing(previous, token);
+    }
+
+    /**
+     * Indentation of a line that starts at a token for another reason than its clause,
+     * such as a comment before it
+     */
+    private indentBefore(index: number): string {
+        const next = this.tokens.slice(index).find(token => !isTrivia(token));
+        if (!next || !this.inStatement || next.kind === 'separator' || this.layout.statementStarts.has(next.start)) {
+            return '';
+        }
+        const lineBreak = this.layout.lineBreaks.get(next.start);
+        if (lineBreak && this.options.clauseLineBreaks) {
+            return lineBreak === 'indented' ? this.options.indent : '';
+        }
+        if (this.alignColumn !== undefined && this.options.alignSelectList) {
+            return ' '.repeat(this.alignColumn);
+        }
+        return this.options.indent;
+    }
+
+    /**
+     * Spacing between two tokens on the same line
+     */
+    private spacing(previous: DqlToken, token: DqlToken): string {
+        const original = previous.end === token.start ? '' : ' ';
+
+        if (isPunctuation(previous, '(') || isPunctuation(previous, '.') || isPunctuation(previous, '[')) {
+            return '';
+        }
+        if (isPunctuation(token, ')') || isPunctuation(token, ',') || isPunctuation(token, '.')
+            || isPunctuation(token, '[') || isPunctuation(token, ']')) {
+            return '';
+        }
+        if (this.layout.signs.has(previous.start)) {
+            return '';
+        }
+        if (isPunctuation(token, '(')) {
+            if (this.layout.calls.has(previous.start)) {
+                return '';
+            }
+            // string(32), dm_document (ALL) and other uses the parser does not model
+            return previous.kind === 'identifier' || previous.kind === 'quotedIdentifier' ? original : ' ';
+        }
+        if (this.layout.binaryOperators.has(token.start) || this.layout.binaryOperators.has(previous.start)) {
+            return this.options.operatorSpacing ? ' ' : original;
+        }
+        if ((token.kind === 'operator' && token.text !== '*') || (previous.kind === 'operator' && previous.text !== '*')) {
+            return original;
+        }
+        return ' ';
+    }
+}
+
+/**
+ * Format DQL text, possibly several statements
+ */
+export function formatDql(text: string, options: DqlFormatOptions = DEFAULT_DQL_FORMAT_OPTIONS): string {
+    const script = parseDql(text);
+    const formatted = new Formatter(text, script.tokens, buildLayout(script), options).format();
+    return /\n\s*$/.test(text) && formatted ? formatted + '\n' : formatted;
+}
+
+/**
+ * The part of a script to format for a selection: from the start of the first statement
+ * it touches to the end of the last, or undefined when it touches none
+ */
+export function getDqlFormatRange(text: string, start: number, end: number): { start: number; end: number } | undefined {
+    const touched = parseDql(text).statements.filter(statement => statement.start <= end && start <= statement.end);
+    if (touched.length === 0) {
+        return undefined;
+    }
+    return { start: touched[0].start, end: touched[touched.length - 1].end };
+}
@@ -0,0 +1,69 @@
+import * as vscode from 'vscode';
+import { DqlFormatOptions, formatDql, getDqlFormatRange } from './dqlFormatter';
+
+/**
+ * Read the formatting style from the documentum.dql.format.* settings and the editor's
+ * indentation
+ */
+export function getDqlFormatOptions(formatting: vscode.FormattingOptions): DqlFormatOptions {
+    const config = vscode.workspace.getConfiguration('documentum.dql.format');
+    const keywordCase = config.get<string>('keywordCase', 'upper');
+    return {
+        keywordCase: keywordCase === 'lower' || keywordCase === 'preserve' ? keywordCase : 'upper',
+        clauseLineBreaks: config.get<boolean>('clauseLineBreaks', true),
+        alignSelectList: config.get<boolean>('alignSelectList', true),
+        operatorSpacing: config.get<boolean>('operatorSpacing', true),
+        indent: formatting.insertSpaces ? ' '.repeat(formatting.tabSize) : '\t'
+    };
+}
+
+/**
+ * Formats DQL files and notebook DQL cells, as a whole or the statements a selection
+ * touches
+ */
+export class DqlFormattingProvider implements vscode.DocumentFormattingEditProvider, vscode.DocumentRangeFormattingEditProvider {
+    provideDocumentFormattingEdits(
+        document: vscode.TextDocument,
+        options: vscode.FormattingOptions
+    ): vscode.TextEdit[] {
+        const text = document.getText();
+        const formatted = formatDql(text, getDqlFormatOptions(options));
+        if (formatted === text) {
+            return [];
+        }
+        const all = new vscode.Range(document.positionAt(0), document.positionAt(text.length));
+        return [vscode.TextEdit.replace(all, formatted)];
+    }
+
+    provideDocumentRangeFormattingEdits(
+        document: vscode.TextDocument,
+        range: vscode.Range,
+        options: vscode.FormattingOptions
+    ): vscode.TextEdit[] {
+        const text = document.getText();
+        const statements = getDqlFormatRange(text, document.offsetAt(range.start), document.offsetAt(range.end));
+        if (!statements) {
+            return [];
+        }
+        const original = text.slice(statements.start, statements.end);
+        const formatted = formatDql(original, getDqlFormatOptions(options));
+        if (formatted === original) {
+            return [];
+        }
+        const replaced = new vscode.Range(document.positionAt(statements.start), document.positionAt(statements.end));
+        return [vscode.TextEdit.replace(replaced, formatted)];
+    }
+}
+
+/**
+ * Register the DQL formatter for Format Document and Format Selection
+ */
+export function registerDqlFormatter(context: vscode.ExtensionContext): void {
+    const provider = new DqlFormattingProvider();
+
+    // The dql language covers .dql files and notebook DQL cells
+    context.subscriptions.push(
+        vscode.languages.registerDocumentFormattingEditProvider({ language: 'dql' }, provider),
+        vscode.languages.registerDocumentRangeFormattingEditProvider({ language: 'dql' }, provider)
+    );
+}
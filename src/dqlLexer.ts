@@ -0,0 +1,171 @@
+/**
+ * Tokenizer for DQL. Never fails: unterminated strings and comments run to the end of
+ * the text and are marked as such, and unknown characters become operator tokens.
+ * No dependency on the VS Code API.
+ */
+
+export type DqlTokenKind =
+    /** A reserved word, see RESERVED_WORDS */
+    | 'keyword'
+    /** Any other word: type, attribute, alias or function name */
+    | 'identifier'
+    /** "quoted name" */
+    | 'quotedIdentifier'
+    | 'string'
+    | 'number'
+    /** =, <>, !=, <, <=, >, >=, +, -, *, /, || and anything unrecognised */
+    | 'operator'
+    /** ( ) [ ] , . */
+    | 'punctuation'
+    /** `;` or a line holding only `go`, both ending a statement */
+    | 'separator'
+    | 'lineComment'
+    | 'blockComment'
+    /** A block comment starting with a plus: optimizer hint */
+    | 'hint';
+
+export interface DqlToken {
+    kind: DqlTokenKind;
+    text: string;
+    /** Offsets into the tokenized text; end is exclusive */
+    start: number;
+    end: number;
+    /** Lowercased text of words, for matching keywords */
+    lower: string;
+    /** False for strings, quoted names and block comments that are never closed */
+    terminated: boolean;
+}
+
+/**
+ * Words that are always keywords, never type or attribute names. Words such as `type`
+ * in TYPE(...) or `count` in COUNT(*) are recognised by the parser from their position.
+ */
+export const RESERVED_WORDS = new Set([
+    'select', 'distinct', 'all', 'from', 'where', 'and', 'or', 'not', 'in', 'is', 'null', 'as',
+    'any', 'exists', 'like', 'between', 'escape', 'order', 'group', 'by', 'having', 'asc', 'desc',
+    'union', 'enable', 'search', 'topic', 'document', 'contains', 'descend', 'update', 'set',
+    'append', 'insert', 'remove', 'truncate', 'link', 'unlink', 'move', 'delete', 'object', 'objects',
+    'into', 'values', 'create', 'alter', 'drop', 'type', 'supertype', 'with', 'repeating', 'single',
+    'register', 'unregister', 'table', 'grant', 'revoke', 'to', 'on', 'join', 'inner', 'left', 'right',
+    'outer', 'true', 'false', 'nulldate', 'nullstring', 'nullint', 'now', 'today', 'tomorrow',
+    'yesterday', 'synonym', 'key', 'add', 'modify', 'default', 'assemblies', 'assembly', 'deleted'
+]);
+
+const WORD_START = /[a-z_]/i;
+const WORD_PART = /[\w$#]/;
+const DIGIT = /[0-9]/;
+const OPERATORS = ['<>', '!=', '<=', '>=', '||', '=', '<', '>', '+', '-', '*', '/'];
+
+function isLineStart(text: string, index: number): boolean {
+    for (let i = index - 1; i >= 0; i--) {
+        if (text[i] === '\n') {
+            return true;
+        }
+        if (text[i] !== ' ' && text[i] !== '\t' && text[i] !== '\r') {
+            return false;
+        }
+    }
+    return true;
+}
+
+/**
+ * Split DQL text into tokens, leaving out whitespace
+ */
+export function tokenizeDql(text: string): DqlToken[] {
+    const tokens: DqlToken[] = [];
+    const push = (kind: DqlTokenKind, start: number, end: number, terminated = true) => {
+        const tokenText = text.slice(start, end);
+        tokens.push({ kind, text: tokenText, start, end, lower: tokenText.toLowerCase(), terminated });
+    };
+
+    let index = 0;
+    while (index < text.length) {
+        const char = text[index];
+        const next = text[index + 1];
+
+        if (/\s/.test(char)) {
+            index++;
+            continue;
+        }
+
+        // Quoted strings and names; quotes are escaped by doubling them
+        if (char === '\'' || char === '"') {
+            let close = index + 1;
+            while (close < text.length && !(text[close] === char && text[close + 1] !== char)) {
+                close += text[close] === char ? 2 : 1;
+            }
+            const terminated = close < text.length;
+            const end = terminated ? close + 1 : text.length;
+            push(char === '\'' ? 'string' : 'quotedIdentifier', index, end, terminated);
+            index = end;
+            continue;
+        }
+
+        if (char === '-' && next === '-') {
+            const newline = text.indexOf('\n', index);
+            let end = newline === -1 ? text.length : newline;
+            if (text[end - 1] === '\r') {
+                end--;
+            }
+            push('lineComment', index, end);
+            index = newline === -1 ? text.length : newline;
+            continue;
+        }
+
+        if (char === '/' && next === '*') {
+            const close = text.indexOf('*/', index + 2);
+            const end = close === -1 ? text.length : close + 2;
+            push(text[index + 2] === '+' ? 'hint' : 'blockComment', index, end, close !== -1);
+            index = end;
+            continue;
+        }
+
+        if (WORD_START.test(char)) {
+            let end = index + 1;
+            while (end < text.length && WORD_PART.test(text[end])) {
+                end++;
+            }
+            const lower = text.slice(index, end).toLowerCase();
+            // `go` alone on a line ends a statement, as in idql scripts
+            if (lower === 'go' && isLineStart(text, index) && /^[ \t]*(\r?\n|$)/.test(text.slice(end))) {
+                push('separator', index, end);
+            } else {
+                push(RESERVED_WORDS.has(lower) ? 'keyword' : 'identifier', index, end);
+            }
+            index = end;
+            continue;
+        }
+
+        if (DIGIT.test(char) || (char === '.' && DIGIT.test(next ?? ''))) {
+            const match = text.slice(index).match(/^(\d*\.?\d+|\d+\.)(e[+-]?\d+)?/i);
+            const end = index + (match ? match[0].length : 1);
+            push('number', index, end);
+            index = end;
+            continue;
+        }
+
+        if (char === ';') {
+            push('separator', index, index + 1);
+            index++;
+            continue;
+        }
+
+        if ('()[],.'.includes(char)) {
+            push('punctuation', index, index + 1);
+            index++;
+            continue;
+        }
+
+        const operator = OPERATORS.find(op => text.startsWith(op, index)) ?? char;
+        push('operator', index, index + operator.length);
+        index += operator.length;
+    }
+    return tokens;
+}
+
+/**
+ * Whether a token is a comment or hint, which the parser skips
+ */
+export function isTrivia(token: DqlToken): boolean {
+    return token.kind === 'lineComment' || token.kind === 'blockComment' || token.kind === 'hint';
+}
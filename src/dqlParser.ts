@@ -0,0 +1,1562 @@
+/**
+ * Tolerant DQL parser. Turns a script into statements with an AST whose nodes carry
+ * text offsets, for semantic tokens, completion, diagnostics, formatting and statement
+ * splitting. Syntax errors are collected, never thrown: the parser skips what it does
+ * not understand and carries on with the next clause or statement.
+ * No dependency on the VS Code API.
+ */
+
+import { DqlToken, isTrivia, tokenizeDql } from './dqlLexer';
+
+export interface DqlRange {
+    /** Offsets into the parsed text; end is exclusive */
+    start: number;
+    end: number;
+}
+
+export interface DqlName extends DqlRange {
+    text: string;
+}
+
+/**
+ * A type or registered table: FROM dm_document (ALL) d, UPDATE my_type, REGISTER TABLE dm_dbo.t
+ */
+export interface DqlTypeReference extends DqlRange {
+    kind: 'typeReference';
+    name: DqlName;
+    /** Owner of a registered table: dm_dbo in dm_dbo.my_table */
+    owner?: DqlName;
+    alias?: DqlName;
+    /** (ALL) or (DELETED) after the type */
+    modifier?: 'all' | 'deleted';
+    /** The type being created, rather than one that must exist */
+    definition?: boolean;
+}
+
+/**
+ * An attribute (or column alias) in an expression: object_name, d.keywords, keywords[0]
+ */
+export interface DqlAttributeReference extends DqlRange {
+    kind: 'attributeReference';
+    /** Alias or type before the dot */
+    qualifier?: DqlName;
+    name: DqlName;
+    /** Index of a repeating value: keywords[0] */
+    index?: DqlExpression;
+    /** Whether ANY applies, directly or to an enclosing group */
+    any: boolean;
+    clause: DqlClauseKeyword;
+}
+
+export interface DqlLiteral extends DqlRange {
+    kind: 'literal';
+    literalType: 'string' | 'number' | 'boolean' | 'null' | 'date' | 'star';
+    text: string;
+}
+
+export interface DqlFunctionCall extends DqlRange {
+    kind: 'functionCall';
+    name: DqlName;
+    args: DqlExpression[];
+    distinct?: boolean;
+}
+
+/**
+ * FOLDER('/path', DESCEND), CABINET('/path') and TYPE(dm_document) conditions
+ */
+export interface DqlPredicate extends DqlRange {
+    kind: 'predicate';
+    predicate: 'folder' | 'cabinet' | 'type';
+    path?: DqlLiteral;
+    type?: DqlTypeReference;
+    descend: boolean;
+}
+
+export interface DqlBinaryExpression extends DqlRange {
+    kind: 'binary';
+    /** Uppercased operator: AND, OR, =, <>, LIKE, NOT LIKE, IN, NOT IN, IS, IS NOT, BETWEEN, +, ... */
+    operator: string;
+    operatorRange: DqlRange;
+    left: DqlExpression;
+    right: DqlExpression;
+}
+
+export interface DqlUnaryExpression extends DqlRange {
+    kind: 'unary';
+    /** NOT, ANY, EXISTS or a sign */
+    operator: string;
+    operand: DqlExpression;
+}
+
+/** (a, b, c) after IN, or the two bounds of BETWEEN */
+export interface DqlListExpression extends DqlRange {
+    kind: 'list';
+    items: DqlExpression[];
+}
+
+export interface DqlSubquery extends DqlRange {
+    kind: 'subquery';
+    query: DqlSelectStatement;
+}
+
+export interface DqlParenthesized extends DqlRange {
+    kind: 'parenthesized';
+    expression: DqlExpression;
+}
+
+/** Something the parser could not make sense of */
+export interface DqlErrorExpression extends DqlRange {
+    kind: 'error';
+}
+
+export type DqlExpression =
+    | DqlAttributeReference
+    | DqlLiteral
+    | DqlFunctionCall
+    | DqlPredicate
+    | DqlBinaryExpression
+    | DqlUnaryExpression
+    | DqlListExpression
+    | DqlSubquery
+    | DqlParenthesized
+    | DqlErrorExpression;
+
+export interface DqlSelectItem extends DqlRange {
+    expression: DqlExpression;
+    alias?: DqlName;
+}
+
+export interface DqlOrderItem extends DqlRange {
+    expression: DqlExpression;
+    direction?: 'asc' | 'desc';
+}
+
+/**
+ * Optimizer hints: ENABLE (RETURN_TOP 10, FETCH_ALL_RESULTS 0) or a /*+ ... *\/ comment
+ */
+export interface DqlHint extends DqlRange {
+    style: 'enable' | 'comment';
+    /** The hints inside the parentheses or comment */
+    hints: DqlName[];
+}
+
+export type DqlClauseKeyword =
+    | 'select' | 'from' | 'where' | 'group by' | 'having' | 'order by' | 'union' | 'enable' | 'search'
+    | 'in document' | 'in assembly' | 'update' | 'set' | 'append' | 'insert' | 'remove' | 'truncate'
+    | 'link' | 'unlink' | 'move' | 'delete' | 'insert into' | 'values' | 'create type' | 'alter type'
+    | 'drop type' | 'with supertype' | 'register' | 'unregister' | 'grant' | 'revoke' | 'to' | 'on' | 'join';
+
+/**
+ * A clause of a statement, from its keyword to the start of the next clause
+ */
+export interface DqlClause extends DqlRange {
+    keyword: DqlClauseKeyword;
+    /** Range of the keyword itself, e.g. ORDER BY */
+    keywordRange: DqlRange;
+    /** Nesting depth: 0 for the statement, 1 inside a subquery, ... */
+    depth: number;
+}
+
+interface DqlStatementBase extends DqlRange {
+    /** Tokens of the statement, comments included, without the separator */
+    tokens: DqlToken[];
+    /** The `;` or `go` that ends the statement */
+    separator?: DqlToken;
+    clauses: DqlClause[];
+    hints: DqlHint[];
+    /** Code after a missing `;` or `go`, from the next statement's keyword on; not parsed */
+    unparsed?: DqlRange;
+}
+
+export interface DqlSelectStatement extends DqlStatementBase {
+    kind: 'select';
+    distinct: boolean;
+    selectList: DqlSelectItem[];
+    from: DqlTypeReference[];
+    joins: { type: DqlTypeReference; on?: DqlExpression }[];
+    where?: DqlExpression;
+    groupBy: DqlExpression[];
+    having?: DqlExpression;
+    orderBy: DqlOrderItem[];
+    union?: DqlSelectStatement;
+}
+
+export interface DqlUpdateOperation extends DqlRange {
+    operation: 'set' | 'append' | 'insert' | 'remove' | 'truncate' | 'link' | 'unlink' | 'move';
+    attribute?: DqlAttributeReference;
+    value?: DqlExpression;
+}
+
+export interface DqlUpdateStatement extends DqlStatementBase {
+    kind: 'update';
+    type?: DqlTypeReference;
+    operations: DqlUpdateOperation[];
+    where?: DqlExpression;
+}
+
+export interface DqlDeleteStatement extends DqlStatementBase {
+    kind: 'delete';
+    type?: DqlTypeReference;
+    where?: DqlExpression;
+}
+
+export interface DqlInsertStatement extends DqlStatementBase {
+    kind: 'insert';
+    table?: DqlTypeReference;
+    columns: DqlName[];
+    values: DqlExpression[];
+    query?: DqlSelectStatement;
+}
+
+export interface DqlAttributeDefinition extends DqlRange {
+    name: DqlName;
+    dataType?: DqlName;
+    repeating: boolean;
+}
+
+export interface DqlTypeStatement extends DqlStatementBase {
+    kind: 'createType' | 'alterType' | 'dropType';
+    type?: DqlTypeReference;
+    attributes: DqlAttributeDefinition[];
+    supertype?: DqlTypeReference;
+}
+
+export interface DqlRegisterStatement extends DqlStatementBase {
+    kind: 'register' | 'unregister';
+    table?: DqlTypeReference;
+    columns: DqlAttributeDefinition[];
+}
+
+export interface DqlGrantStatement extends DqlStatementBase {
+    kind: 'grant' | 'revoke';
+    privileges: DqlName[];
+    principals: DqlName[];
+}
+
+/** A statement the parser does not know, e.g. EXECUTE */
+export interface DqlUnknownStatement extends DqlStatementBase {
+    kind: 'unknown';
+}
+
+export type DqlStatement =
+    | DqlSelectStatement
+    | DqlUpdateStatement
+    | DqlDeleteStatement
+    | DqlInsertStatement
+    | DqlTypeStatement
+    | DqlRegisterStatement
+    | DqlGrantStatement
+    | DqlUnknownStatement;
+
+export interface DqlSyntaxError extends DqlRange {
+    message: string;
+}
+
+export interface DqlScript {
+    text: string;
+    /** Every token of the text, comments and separators included */
+    tokens: DqlToken[];
+    statements: DqlStatement[];
+    errors: DqlSyntaxError[];
+}
+
+/** Words that start a clause and so end an expression or list */
+const CLAUSE_STARTERS = new Set([
+    'from', 'where', 'group', 'having', 'order', 'union', 'enable', 'search', 'set', 'append', 'insert',
+    'remove', 'truncate', 'link', 'unlink', 'move', 'values', 'with', 'join', 'inner', 'left', 'right',
+    'outer', 'on', 'to'
+]);
+
+/** Words that start a statement, so that a missing separator is reported where it is */
+const STATEMENT_STARTERS = new Set([
+    'select', 'update', 'delete', 'insert', 'create', 'alter', 'drop', 'register', 'unregister', 'grant', 'revoke'
+]);
+
+const COMPARISON_OPERATORS = new Set(['=', '<>', '!=', '<', '<=', '>', '>=']);
+
+/** Precedence of binary operators, higher binds tighter */
+const PRECEDENCE: Record<string, number> = {
+    'or': 1,
+    'and': 2,
+    'comparison': 4,
+    '||': 5, '+': 5, '-': 5,
+    '*': 6, '/': 6
+};
+
+class Parser {
+    private index = 0;
+    private depth = 0;
+    private anyDepth = 0;
+    private clause: DqlClauseKeyword = 'select';
+    /** The clause being parsed at each subquery depth */
+    private openClauses: Map<number, DqlClause> = new Map();
+    readonly clauses: DqlClause[] = [];
+    readonly hints: DqlHint[] = [];
+    /** Code after a missing separator */
+    private unparsed: DqlRange | undefined;
+
+    constructor(
+        private readonly tokens: DqlToken[],
+        private readonly errors: DqlSyntaxError[],
+        /** Where the statement ends: its separator, or the end of the text */
+        private readonly endOffset: number
+    ) {}
+
+    // --- Token access -----------------------------------------------------------
+
+    private peek(ahead = 0): DqlToken | undefined {
+        return this.tokens[this.index + ahead];
+    }
+
+    private atEnd(): boolean {
+        return this.index >= this.tokens.length;
+    }
+
+    private advance(): DqlToken {
+        return this.tokens[this.index++];
+    }
+
+    private isWord(word: string, ahead = 0): boolean {
+        const token = this.peek(ahead);
+        return token !== undefined && (token.kind === 'keyword' || token.kind === 'identifier') && token.lower === word;
+    }
+
+    private isText(text: string, ahead = 0): boolean {
+        const token = this.peek(ahead);
+        return token !== undefined && token.kind !== 'string' && token.kind !== 'quotedIdentifier' && token.text === text;
+    }
+
+    private acceptWord(word: string): DqlToken | undefined {
+        return this.isWord(word) ? this.advance() : undefined;
+    }
+
+    private acceptText(text: string): DqlToken | undefined {
+        return this.isText(text) ? this.advance() : undefined;
+    }
+
+    private expectText(text: string): DqlToken | undefined {
+        const token = this.acceptText(text);
+        if (!token) {
+            this.error(`Expected '${text}'`);
+        }
+        return token;
+    }
+
+    private previousEnd(): number {
+        return this.tokens[this.index - 1]?.end ?? this.peek()?.start ?? 0;
+    }
+
+    private error(message: string, token: DqlToken | undefined = this.peek()): void {
+        if (token) {
+            this.errors.push({ message, start: token.start, end: token.end });
+            return;
+        }
+        // At the end of the statement: point at its last token
+        const last = this.tokens[this.tokens.length - 1];
+        this.errors.push({ message: `${message} at end of statement`, start: last?.start ?? 0, end: last?.end ?? 0 });
+    }
+
+    /**
+     * Whether the next token starts another statement, as when the separator is left out.
+     * Queries, updates and deletes stop there, so that the error is reported at the keyword
+     * and not as a misread clause. Statements end only at `;` and `go`.
+     */
+    atNextStatement(): boolean {
+        const token = this.peek();
+        if (this.depth > 0 || token?.kind !== 'keyword' || !STATEMENT_STARTERS.has(token.lower)) {
+            return false;
+        }
+        // UPDATE ... INSERT keywords[0] = 'x' is an update operation
+        return token.lower !== 'insert' || this.isWord('into', 1);
+    }
+
+    private isName(ahead = 0): boolean {
+        const token = this.peek(ahead);
+        return token !== undefined && (token.kind === 'identifier' || token.kind === 'quotedIdentifier');
+    }
+
+    private name(token: DqlToken): DqlName {
+        return { text: token.text, start: token.start, end: token.end };
+    }
+
+    /**
+     * Start a clause; the open clause at the same depth ends where this one starts
+     */
+    private startClause(keyword: DqlClauseKeyword, first: DqlToken, last: DqlToken = first): void {
+        this.closeClause(first.start);
+        this.clause = keyword;
+        const clause: DqlClause = { keyword, keywordRange: { start: first.start, end: last.end }, start: first.start, end: last.end, depth: this.depth };
+        this.clauses.push(clause);
+        this.openClauses.set(this.depth, clause);
+    }
+
+    private closeClause(end: number): void {
+        const open = this.openClauses.get(this.depth);
+        if (open) {
+            open.end = Math.max(open.keywordRange.end, end);
+            this.openClauses.delete(this.depth);
+        }
+    }
+
+    /** Skip to the next clause keyword at this level, reporting what was skipped */
+    private skipToClause(message: string): void {
+        const first = this.peek();
+        let nesting = 0;
+        while (!this.atEnd() && !this.atNextStatement()) {
+            const token = this.peek()!;
+            if (nesting === 0 && token.kind === 'keyword' && CLAUSE_STARTERS.has(token.lower)) {
+                break;
+            }
+            if (nesting === 0 && token.text === ')') {
+                break;
+            }
+            if (token.text === '(') {
+                nesting++;
+            } else if (token.text === ')') {
+                nesting--;
+            }
+            this.advance();
+        }
+        if (first && this.peek() !== first) {
+            this.errors.push({ message, start: first.start, end: this.previousEnd() });
+        }
+    }
+
+    // --- Shared pieces ------------------------------------------------------------
+
+    /**
+     * A type or table name with optional owner, (ALL)/(DELETED) and alias
+     */
+    private typeReference(options: { alias?: boolean; definition?: boolean } = {}): DqlTypeReference | undefined {
+        let modifier = this.modifier();
+        if (!this.isName()) {
+            this.error('Expected a type name');
+            return undefined;
+        }
+        let nameToken = this.advance();
+        let owner: DqlName | undefined;
+        if (this.isText('.') && this.isName(1)) {
+            owner = this.name(nameToken);
+            this.advance();
+            nameToken = this.advance();
+        }
+        modifier = modifier ?? this.modifier();
+
+        let alias: DqlName | undefined;
+        if (options.alias) {
+            if (this.isWord('as') && this.isName(1)) {
+                this.advance();
+                alias = this.name(this.advance());
+            } else if (this.isName() && !CLAUSE_STARTERS.has(this.peek()!.lower)) {
+                alias = this.name(this.advance());
+            }
+        }
+
+        const reference: DqlTypeReference = {
+            kind: 'typeReference',
+            name: this.name(nameToken),
+            start: owner?.start ?? nameToken.start,
+            end: alias?.end ?? this.previousEnd()
+        };
+        if (owner) {
+            reference.owner = owner;
+        }
+        if (alias) {
+            reference.alias = alias;
+        }
+        if (modifier) {
+            reference.modifier = modifier;
+        }
+        if (options.definition) {
+            reference.definition = true;
+        }
+        return reference;
+    }
+
+    /** (ALL) or (DELETED) */
+    private modifier(): 'all' | 'deleted' | undefined {
+        if (this.isText('(') && (this.isWord('all', 1) || this.isWord('deleted', 1)) && this.isText(')', 2)) {
+            this.advance();
+            const word = this.advance().lower as 'all' | 'deleted';
+            this.advance();
+            return word;
+        }
+        return undefined;
+    }
+
+    private typeList(): DqlTypeReference[] {
+        const types: DqlTypeReference[] = [];
+        do {
+            const type = this.typeReference({ alias: true });
+            if (!type) {
+                break;
+            }
+            types.push(type);
+        } while (this.acceptText(','));
+        return types;
+    }
+
+    /** ENABLE (hint, hint) */
+    private enableClause(): void {
+        const keyword = this.advance();
+        this.startClause('enable', keyword);
+        const hints: DqlName[] = [];
+        if (this.expectText('(')) {
+            while (!this.atEnd() && !this.isText(')')) {
+                const first = this.advance();
+                let last = first;
+                while (!this.atEnd() && !this.isText(',') && !this.isText(')')) {
+                    last = this.advance();
+                }
+                hints.push({ text: this.textBetween(first, last), start: first.start, end: last.end });
+                this.acceptText(',');
+            }
+            this.expectText(')');
+        }
+        this.hints.push({ style: 'enable', hints, start: keyword.start, end: this.previousEnd() });
+    }
+
+    private textBetween(first: DqlToken, last: DqlToken): string {
+        const from = this.tokens.indexOf(first);
+        const to = this.tokens.indexOf(last);
+        return this.tokens.slice(from, to + 1).map(token => token.text).join(' ');
+    }
+
+    /** WHERE condition */
+    private whereClause(): DqlExpression | undefined {
+        const keyword = this.advance();
+        this.startClause('where', keyword);
+        return this.expression();
+    }
+
+    // --- Expressions --------------------------------------------------------------
+
+    expression(minPrecedence = 0): DqlExpression {
+        let left = this.unary();
+        for (;;) {
+            const operator = this.binaryOperator();
+            if (!operator || operator.precedence < minPrecedence || operator.precedence === 0) {
+                break;
+            }
+            this.index += operator.tokens;
+            const operatorRange = { start: operator.start, end: this.previousEnd() };
+            let right: DqlExpression;
+            if (operator.text === 'BETWEEN' || operator.text === 'NOT BETWEEN') {
+                const low = this.expression(PRECEDENCE.comparison + 1);
+                const and = this.acceptWord('and');
+                if (!and) {
+                    this.error('Expected AND in BETWEEN');
+                }
+                const high = this.expression(PRECEDENCE.comparison + 1);
+                right = { kind: 'list', items: [low, high], start: low.start, end: high.end };
+            } else if (operator.text.endsWith('IN') && this.isText('(')) {
+                right = this.parenthesized(true);
+            } else {
+                right = this.expression(operator.precedence + 1);
+            }
+            left = { kind: 'binary', operator: operator.text, operatorRange, left, right, start: left.start, end: right.end };
+        }
+        return left;
+    }
+
+    /**
+     * The binary operator at the cursor, without consuming it
+     */
+    private binaryOperator(): { text: string; precedence: number; tokens: number; start: number } | undefined {
+        const token = this.peek();
+        if (!token) {
+            return undefined;
+        }
+        const start = token.start;
+        if (token.kind === 'operator') {
+            if (COMPARISON_OPERATORS.has(token.text)) {
+                return { text: token.text, precedence: PRECEDENCE.comparison, tokens: 1, start };
+            }
+            const precedence = PRECEDENCE[token.text];
+            return precedence ? { text: token.text, precedence, tokens: 1, start } : undefined;
+        }
+        if (token.kind !== 'keyword') {
+            return undefined;
+        }
+        switch (token.lower) {
+            case 'and':
+            case 'or':
+                return { text: token.lower.toUpperCase(), precedence: PRECEDENCE[token.lower], tokens: 1, start };
+            case 'like':
+            case 'in':
+            case 'between':
+                return { text: token.lower.toUpperCase(), precedence: PRECEDENCE.comparison, tokens: 1, start };
+            case 'is':
+                return this.isWord('not', 1)
+                    ? { text: 'IS NOT', precedence: PRECEDENCE.comparison, tokens: 2, start }
+                    : { text: 'IS', precedence: PRECEDENCE.comparison, tokens: 1, start };
+            case 'not':
+                for (const word of ['like', 'in', 'between']) {
+                    if (this.isWord(word, 1)) {
+                        return { text: `NOT ${word.toUpperCase()}`, precedence: PRECEDENCE.comparison, tokens: 2, start };
+                    }
+                }
+                return undefined;
+            case 'escape':
+                return { text: 'ESCAPE', precedence: PRECEDENCE.comparison, tokens: 1, start };
+            default:
+                return undefined;
+        }
+    }
+
+    private unary(): DqlExpression {
+        const token = this.peek();
+        if (!token) {
+            this.error('Expected an expression');
+            const end = this.previousEnd();
+            return { kind: 'error', start: end, end };
+        }
+
+        if (token.kind === 'keyword' && (token.lower === 'not' || token.lower === 'exists')) {
+            this.advance();
+            const operand = token.lower === 'not' ? this.expression(PRECEDENCE.and + 1) : this.primary();
+            return { kind: 'unary', operator: token.lower.toUpperCase(), operand, start: token.start, end: operand.end };
+        }
+        if (token.kind === 'keyword' && token.lower === 'any') {
+            this.advance();
+            this.anyDepth++;
+            const operand = this.isText('(') ? this.parenthesized(false) : this.expression(PRECEDENCE.comparison);
+            this.anyDepth--;
+            return { kind: 'unary', operator: 'ANY', operand, start: token.start, end: operand.end };
+        }
+        if (token.kind === 'operator' && (token.text === '-' || token.text === '+')) {
+            this.advance();
+            const operand = this.unary();
+            return { kind: 'unary', operator: token.text, operand, start: token.start, end: operand.end };
+        }
+        return this.primary();
+    }
+
+    /**
+     * ( subquery ), ( expression ) or, after IN, ( list )
+     */
+    private parenthesized(asList: boolean): DqlExpression {
+        const open = this.advance();
+        if (this.isWord('select')) {
+            this.depth++;
+            const saved = this.clause;
+            const query = this.select();
+            // The subquery's last clause runs to the closing parenthesis
+            this.closeClause(this.peek()?.start ?? this.endOffset);
+            this.depth--;
+            this.clause = saved;
+            const close = this.expectText(')');
+            return { kind: 'subquery', query, start: open.start, end: close?.end ?? this.previousEnd() };
+        }
+
+        const items: DqlExpression[] = [];
+        if (!this.isText(')')) {
+            do {
+                items.push(this.expression());
+            } while (this.acceptText(','));
+        }
+        const close = this.expectText(')');
+        const end = close?.end ?? this.previousEnd();
+        if (asList || items.length !== 1) {
+            return { kind: 'list', items, start: open.start, end };
+        }
+        return { kind: 'parenthesized', expression: items[0], start: open.start, end };
+    }
+
+    private primary(): DqlExpression {
+        const token = this.peek()!;
+
+        if (token.text === '(' && token.kind === 'punctuation') {
+            return this.parenthesized(false);
+        }
+        if (token.kind === 'string') {
+            this.advance();
+            return { kind: 'literal', literalType: 'string', text: token.text, start: token.start, end: token.end };
+        }
+        if (token.kind === 'number') {
+            this.advance();
+            return { kind: 'literal', literalType: 'number', text: token.text, start: token.start, end: token.end };
+        }
+        if (token.kind === 'operator' && token.text === '*') {
+            this.advance();
+            return { kind: 'literal', literalType: 'star', text: '*', start: token.start, end: token.end };
+        }
+        if (token.kind === 'keyword') {
+            switch (token.lower) {
+                case 'true':
+                case 'false':
+                    this.advance();
+                    return { kind: 'literal', literalType: 'boolean', text: token.text, start: token.start, end: token.end };
+                case 'null':
+                case 'nulldate':
+                case 'nullstring':
+                case 'nullint':
+                    this.advance();
+                    return { kind: 'literal', literalType: 'null', text: token.text, start: token.start, end: token.end };
+                case 'now':
+                case 'today':
+                case 'tomorrow':
+                case 'yesterday':
+                    this.advance();
+                    return { kind: 'literal', literalType: 'date', text: token.text, start: token.start, end: token.end };
+                case 'type':
+                    if (this.isText('(', 1)) {
+                        return this.typePredicate();
+                    }
+                    break;
+            }
+        }
+        if (token.kind === 'identifier' && this.isText('(', 1)) {
+            if (token.lower === 'folder' || token.lower === 'cabinet') {
+                return this.folderPredicate();
+            }
+            return this.functionCall();
+        }
+        if (this.isName()) {
+            return this.attributeReference();
+        }
+
+        // Not an expression: leave clause keywords and closing parentheses to the caller
+        if ((token.kind === 'keyword' && CLAUSE_STARTERS.has(token.lower)) || token.text === ')' || token.text === ','
+            || this.atNextStatement()) {
+            this.error('Expected an expression');
+            const end = this.previousEnd();
+            return { kind: 'error', start: end, end };
+        }
+        this.advance();
+        this.error('Unexpected ' + (token.kind === 'keyword' ? `keyword ${token.text.toUpperCase()}` : `'${token.text}'`), token);
+        return { kind: 'error', start: token.start, end: token.end };
+    }
+
+    private attributeReference(): DqlAttributeReference {
+        let nameToken = this.advance();
+        let qualifier: DqlName | undefined;
+        // d.type is an attribute, but in `d. FROM` the attribute is still being typed
+        const next = this.peek(1);
+        if (this.isText('.') && (this.isName(1) || (next?.kind === 'keyword' && !CLAUSE_STARTERS.has(next.lower)))) {
+            qualifier = this.name(nameToken);
+            this.advance();
+            nameToken = this.advance();
+        }
+        const reference: DqlAttributeReference = {
+            kind: 'attributeReference',
+            name: this.name(nameToken),
+            any: this.anyDepth > 0,
+            clause: this.clause,
+            start: qualifier?.start ?? nameToken.start,
+            end: nameToken.end
+        };
+        if (qualifier) {
+            reference.qualifier = qualifier;
+        }
+        if (this.acceptText('[')) {
+            reference.index = this.expression();
+            this.expectText(']');
+            reference.end = this.previousEnd();
+        }
+        return reference;
+    }
+
+    private functionCall(): DqlFunctionCall {
+        const nameToken = this.advance();
+        this.advance(); // (
+        const call: DqlFunctionCall = { kind: 'functionCall', name: this.name(nameToken), args: [], start: nameToken.start, end: nameToken.end };
+        if (this.acceptWord('distinct')) {
+            call.distinct = true;
+        }
+        // DATEADD(day, ...) and friends take a date part first, not an attribute
+        const datePart = /^date(add|diff|floor)$/.test(nameToken.lower);
+        if (!this.isText(')')) {
+            do {
+                if (datePart && call.args.length === 0 && this.isName() && (this.isText(',', 1) || this.isText(')', 1))) {
+                    const part = this.advance();
+                    call.args.push({ kind: 'literal', literalType: 'string', text: part.text, start: part.start, end: part.end });
+                } else {
+                    call.args.push(this.expression());
+                }
+            } while (this.acceptText(','));
+        }
+        this.expectText(')');
+        call.end = this.previousEnd();
+        return call;
+    }
+
+    private folderPredicate(): DqlPredicate {
+        const nameToken = this.advance();
+        this.advance(); // (
+        const predicate: DqlPredicate = {
+            kind: 'predicate',
+            predicate: nameToken.lower as 'folder' | 'cabinet',
+            descend: false,
+            start: nameToken.start,
+            end: nameToken.end
+        };
+        const pathToken = this.peek();
+        if (pathToken?.kind === 'string') {
+            this.advance();
+            predicate.path = { kind: 'literal', literalType: 'string', text: pathToken.text, start: pathToken.start, end: pathToken.end };
+        } else if (this.isWord('id') || this.isName()) {
+            // FOLDER(ID('0b...'))
+            this.expression();
+        } else {
+            this.error('Expected a folder path');
+        }
+        if (this.acceptText(',')) {
+            if (this.acceptWord('descend')) {
+                predicate.descend = true;
+            } else {
+                this.error('Expected DESCEND');
+            }
+        }
+        this.expectText(')');
+        predicate.end = this.previousEnd();
+        return predicate;
+    }
+
+    private typePredicate(): DqlPredicate {
+        const keyword = this.advance();
+        this.advance(); // (
+        const predicate: DqlPredicate = { kind: 'predicate', predicate: 'type', descend: false, start: keyword.start, end: keyword.end };
+        const type = this.typeReference();
+        if (type) {
+            predicate.type = type;
+        }
+        this.expectText(')');
+        predicate.end = this.previousEnd();
+        return predicate;
+    }
+
+    // --- Statements ---------------------------------------------------------------
+
+    select(withoutSelectList = false): DqlSelectStatement {
+        const first = this.peek()!;
+        const statement: DqlSelectStatement = {
+            kind: 'select', distinct: false, selectList: [], from: [], joins: [], groupBy: [], orderBy: [],
+            tokens: [], clauses: [], hints: [], start: first.start, end: first.end
+        };
+        if (!withoutSelectList) {
+            this.selectList(statement);
+        }
+        this.selectClauses(statement);
+        statement.end = this.previousEnd();
+        return statement;
+    }
+
+    private selectList(statement: DqlSelectStatement): void {
+        this.startClause('select', this.advance());
+        if (this.acceptWord('distinct')) {
+            statement.distinct = true;
+        } else {
+            this.acceptWord('all');
+        }
+
+        do {
+            const expression = this.expression();
+            const item: DqlSelectItem = { expression, start: expression.start, end: expression.end };
+            if (this.acceptWord('as')) {
+                if (this.isName() || this.peek()?.kind === 'keyword') {
+                    item.alias = this.name(this.advance());
+                } else {
+                    this.error('Expected a column alias');
+                }
+            } else if (this.isName()) {
+                item.alias = this.name(this.advance());
+            }
+            item.end = this.previousEnd();
+            statement.selectList.push(item);
+        } while (this.acceptText(','));
+    }
+
+    private selectClauses(statement: DqlSelectStatement): void {
+        while (!this.atEnd() && !this.isText(')') && !this.atNextStatement()) {
+            const token = this.peek()!;
+            if (this.isWord('from')) {
+                this.startClause('from', this.advance());
+                statement.from.push(...this.typeList());
+            } else if (this.isWord('join') || ((this.isWord('inner') || this.isWord('left') || this.isWord('right')) && this.joinAhead())) {
+                const first = this.advance();
+                let joinKeyword = first;
+                if (first.lower !== 'join') {
+                    // INNER JOIN, LEFT OUTER JOIN, ...
+                    while (!this.isWord('join') && !this.atEnd()) {
+                        this.advance();
+                    }
+                    joinKeyword = this.advance();
+                }
+                this.startClause('join', first, joinKeyword);
+                const type = this.typeReference({ alias: true });
+                if (type) {
+                    const join: { type: DqlTypeReference; on?: DqlExpression } = { type };
+                    if (this.isWord('on')) {
+                        this.startClause('on', this.advance());
+                        join.on = this.expression();
+                    }
+                    statement.joins.push(join);
+                }
+            } else if (this.isWord('where')) {
+                statement.where = this.whereClause();
+            } else if (this.isWord('group') && this.isWord('by', 1)) {
+                const first = this.advance();
+                this.startClause('group by', first, this.advance());
+                do {
+                    statement.groupBy.push(this.expression());
+                } while (this.acceptText(','));
+            } else if (this.isWord('having')) {
+                this.startClause('having', this.advance());
+                statement.having = this.expression();
+            } else if (this.isWord('order') && this.isWord('by', 1)) {
+                const first = this.advance();
+                this.startClause('order by', first, this.advance());
+                do {
+                    const expression = this.expression();
+                    const item: DqlOrderItem = { expression, start: expression.start, end: expression.end };
+                    const direction = this.acceptWord('asc') ?? this.acceptWord('desc');
+                    if (direction) {
+                        item.direction = direction.lower as 'asc' | 'desc';
+                        item.end = direction.end;
+                    }
+                    statement.orderBy.push(item);
+                } while (this.acceptText(','));
+            } else if (this.isWord('union')) {
+                this.startClause('union', this.advance());
+                this.acceptWord('all');
+                if (this.isWord('select')) {
+                    statement.union = this.select();
+                } else {
+                    this.error('Expected SELECT after UNION');
+                }
+            } else if (this.isWord('enable')) {
+                this.enableClause();
+            } else if (this.isWord('search')) {
+                this.startClause('search', this.advance());
+                this.skipUntilClause();
+            } else if (this.isWord('in') && (this.isWord('document', 1) || this.isWord('assembly', 1))) {
+                const first = this.advance();
+                const second = this.advance();
+                this.startClause(second.lower === 'document' ? 'in document' : 'in assembly', first, second);
+                this.skipUntilClause();
+            } else {
+                this.skipToClause(`Unexpected ${token.kind === 'keyword' ? `keyword ${token.text.toUpperCase()}` : `'${token.text}'`}`);
+                if (this.peek() === token) {
+                    this.advance();
+                }
+            }
+        }
+    }
+
+    private joinAhead(): boolean {
+        for (let ahead = 1; ahead <= 2; ahead++) {
+            if (this.isWord('join', ahead)) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    /** Skip the body of a clause the parser does not model, such as SEARCH */
+    private skipUntilClause(): void {
+        let nesting = 0;
+        while (!this.atEnd() && !this.atNextStatement()) {
+            const token = this.peek()!;
+            if (nesting === 0 && (token.text === ')' || (token.kind === 'keyword' && CLAUSE_STARTERS.has(token.lower) && token.lower !== 'with'))) {
+                break;
+            }
+            if (token.text === '(') {
+                nesting++;
+            } else if (token.text === ')') {
+                nesting--;
+            }
+            this.advance();
+        }
+    }
+
+    update(): DqlUpdateStatement {
+        const keyword = this.advance();
+        this.startClause('update', keyword);
+        const statement: DqlUpdateStatement = {
+            kind: 'update', operations: [], tokens: [], clauses: [], hints: [], start: keyword.start, end: keyword.end
+        };
+        const type = this.typeReference();
+        if (type) {
+            statement.type = type;
+        }
+        if (!this.acceptWord('objects') && !this.acceptWord('object')) {
+            this.error('Expected OBJECT or OBJECTS');
+        }
+
+        while (!this.atEnd() && !this.atNextStatement()) {
+            const token = this.peek()!;
+            const operation = ['set', 'append', 'insert', 'remove', 'truncate', 'link', 'unlink', 'move'].find(op => this.isWord(op));
+            if (operation) {
+                this.advance();
+                this.startClause(operation as DqlClauseKeyword, token);
+                statement.operations.push(this.updateOperation(operation as DqlUpdateOperation['operation'], token));
+                this.acceptText(',');
+            } else if (this.isWord('where')) {
+                statement.where = this.whereClause();
+            } else if (this.isWord('enable')) {
+                this.enableClause();
+            } else {
+                this.skipToClause(`Unexpected '${token.text}'`);
+                if (this.peek() === token) {
+                    this.advance();
+                }
+            }
+        }
+        statement.end = this.previousEnd();
+        return statement;
+    }
+
+    private updateOperation(operation: DqlUpdateOperation['operation'], keyword: DqlToken): DqlUpdateOperation {
+        const result: DqlUpdateOperation = { operation, start: keyword.start, end: keyword.end };
+        if (operation === 'link' || operation === 'unlink' || operation === 'move') {
+            // LINK '/Temp', MOVE TO '/Temp'
+            this.acceptWord('to');
+            result.value = this.expression(PRECEDENCE.comparison + 1);
+        } else if (this.isName()) {
+            result.attribute = this.attributeReference();
+            if ((operation !== 'truncate' && operation !== 'remove') || this.isText('=')) {
+                if (this.expectText('=')) {
+                    result.value = this.expression(PRECEDENCE.comparison + 1);
+                }
+            }
+        } else {
+            this.error('Expected an attribute name');
+        }
+        result.end = this.previousEnd();
+        return result;
+    }
+
+    delete(): DqlDeleteStatement {
+        const keyword = this.advance();
+        this.startClause('delete', keyword);
+        const statement: DqlDeleteStatement = { kind: 'delete', tokens: [], clauses: [], hints: [], start: keyword.start, end: keyword.end };
+        const type = this.typeReference({ alias: true });
+        if (type) {
+            statement.type = type;
+        }
+        if (!this.acceptWord('objects') && !this.acceptWord('object')) {
+            this.error('Expected OBJECT or OBJECTS');
+        }
+        while (!this.atEnd() && !this.atNextStatement()) {
+            const token = this.peek()!;
+            if (this.isWord('where')) {
+                statement.where = this.whereClause();
+            } else if (this.isWord('enable')) {
+                this.enableClause();
+            } else {
+                this.skipToClause(`Unexpected '${token.text}'`);
+                if (this.peek() === token) {
+                    this.advance();
+                }
+            }
+        }
+        statement.end = this.previousEnd();
+        return statement;
+    }
+
+    insert(): DqlInsertStatement {
+        const keyword = this.advance();
+        const into = this.acceptWord('into');
+        this.startClause('insert into', keyword, into ?? keyword);
+        if (!into) {
+            this.error('Expected INTO');
+        }
+        const statement: DqlInsertStatement = {
+            kind: 'insert', columns: [], values: [], tokens: [], clauses: [], hints: [], start: keyword.start, end: keyword.end
+        };
+        const table = this.typeReference();
+        if (table) {
+            statement.table = table;
+        }
+        if (this.acceptText('(')) {
+            while (this.isName()) {
+                statement.columns.push(this.name(this.advance()));
+                if (!this.acceptText(',')) {
+                    break;
+                }
+            }
+            this.expectText(')');
+        }
+        if (this.isWord('values')) {
+            this.startClause('values', this.advance());
+            if (this.expectText('(')) {
+                if (!this.isText(')')) {
+                    do {
+                        statement.values.push(this.expression());
+                    } while (this.acceptText(','));
+                }
+                this.expectText(')');
+            }
+        } else if (this.isWord('select')) {
+            statement.query = this.select();
+        } else if (!this.atEnd()) {
+            this.error('Expected VALUES or SELECT');
+        }
+        this.skipRest();
+        statement.end = this.previousEnd();
+        return statement;
+    }
+
+    /**
+     * CREATE TYPE t (attr string(32) REPEATING, ...) WITH SUPERTYPE s, ALTER TYPE t ..., DROP TYPE t
+     */
+    typeStatement(): DqlTypeStatement {
+        const verb = this.advance();
+        const typeKeyword = this.advance();
+        const kind = verb.lower === 'create' ? 'createType' : verb.lower === 'alter' ? 'alterType' : 'dropType';
+        this.startClause(`${verb.lower} type` as DqlClauseKeyword, verb, typeKeyword);
+        const statement: DqlTypeStatement = { kind, attributes: [], tokens: [], clauses: [], hints: [], start: verb.start, end: verb.end };
+        const type = this.typeReference({ definition: kind === 'createType' });
+        if (type) {
+            statement.type = type;
+        }
+
+        // ALTER TYPE t DROP attr and ALTER TYPE t ALTER attr ... are actions, not statements
+        while (!this.atEnd()) {
+            if (this.isText('(')) {
+                statement.attributes.push(...this.attributeDefinitions());
+            } else if (this.isWord('with') && this.isWord('supertype', 1)) {
+                const first = this.advance();
+                this.startClause('with supertype', first, this.advance());
+                if (this.isWord('null')) {
+                    this.advance();
+                } else {
+                    const supertype = this.typeReference();
+                    if (supertype) {
+                        statement.supertype = supertype;
+                    }
+                }
+            } else if (this.isWord('add') || this.isWord('modify')) {
+                this.advance();
+                if (this.isName() && !this.isText('(', 1)) {
+                    statement.attributes.push(this.attributeDefinition());
+                }
+            } else {
+                // Other ALTER TYPE actions and type options are kept as they are
+                this.advance();
+            }
+        }
+        statement.end = this.previousEnd();
+        return statement;
+    }
+
+    private attributeDefinitions(): DqlAttributeDefinition[] {
+        const definitions: DqlAttributeDefinition[] = [];
+        this.advance(); // (
+        while (!this.atEnd() && !this.isText(')')) {
+            if (this.isName()) {
+                definitions.push(this.attributeDefinition());
+            } else {
+                this.advance();
+            }
+            // Skip attribute options up to the next definition
+            let nesting = 0;
+            while (!this.atEnd() && !(nesting === 0 && (this.isText(',') || this.isText(')')))) {
+                const token = this.advance();
+                nesting += token.text === '(' ? 1 : token.text === ')' ? -1 : 0;
+            }
+            this.acceptText(',');
+        }
+        this.expectText(')');
+        return definitions;
+    }
+
+    /** attr_name string(32) [REPEATING] */
+    private attributeDefinition(): DqlAttributeDefinition {
+        const nameToken = this.advance();
+        const definition: DqlAttributeDefinition = { name: this.name(nameToken), repeating: false, start: nameToken.start, end: nameToken.end };
+        const typeToken = this.peek();
+        if (typeToken && (typeToken.kind === 'identifier' || typeToken.kind === 'keyword') && !CLAUSE_STARTERS.has(typeToken.lower)) {
+            this.advance();
+            definition.dataType = this.name(typeToken);
+            if (this.isText('(') && this.peek(1)?.kind === 'number' && this.isText(')', 2)) {
+                this.index += 3;
+                definition.dataType = { text: `${typeToken.text}(${this.tokens[this.index - 2].text})`, start: typeToken.start, end: this.previousEnd() };
+            }
+        }
+        if (this.acceptWord('repeating')) {
+            definition.repeating = true;
+        }
+        definition.end = this.previousEnd();
+        return definition;
+    }
+
+    /**
+     * REGISTER TABLE [owner.]table (column type, ...) [[WITH] KEY (...)] [SYNONYM [FOR] 'name'], UNREGISTER [TABLE] t
+     */
+    register(): DqlRegisterStatement {
+        const keyword = this.advance();
+        const kind = keyword.lower === 'register' ? 'register' : 'unregister';
+        this.startClause(kind, keyword);
+        if (!this.acceptWord('table')) {
+            this.acceptWord('as');
+        }
+        const statement: DqlRegisterStatement = { kind, columns: [], tokens: [], clauses: [], hints: [], start: keyword.start, end: keyword.end };
+        const table = this.typeReference();
+        if (table) {
+            statement.table = table;
+        }
+        if (kind === 'register' && this.isText('(')) {
+            statement.columns = this.attributeDefinitions();
+        }
+        // KEY (...) and SYNONYM FOR '...' are kept as they are
+        this.skipRest(false);
+        statement.end = this.previousEnd();
+        return statement;
+    }
+
+    /**
+     * GRANT privilege[, ...] TO user[, ...] and REVOKE privilege[, ...] FROM user[, ...]
+     */
+    grant(): DqlGrantStatement {
+        const keyword = this.advance();
+        const kind = keyword.lower === 'grant' ? 'grant' : 'revoke';
+        this.startClause(kind, keyword);
+        const statement: DqlGrantStatement = { kind, privileges: [], principals: [], tokens: [], clauses: [], hints: [], start: keyword.start, end: keyword.end };
+        // GRANT CREATE TYPE, CREATE CABINET TO ... names privileges, not statements
+        while (!this.atEnd() && !this.isWord('to') && !this.isWord('from')) {
+            const token = this.advance();
+            if (token.text !== ',') {
+                statement.privileges.push(this.name(token));
+            }
+        }
+        const target = this.acceptWord('to') ?? this.acceptWord('from');
+        if (target) {
+            this.startClause(target.lower === 'to' ? 'to' : 'from', target);
+            while (!this.atEnd()) {
+                const token = this.advance();
+                if (token.text !== ',') {
+                    statement.principals.push(this.name(token));
+                }
+            }
+        } else {
+            this.error(kind === 'grant' ? 'Expected TO' : 'Expected FROM');
+        }
+        statement.end = this.previousEnd();
+        return statement;
+    }
+
+    /**
+     * Skip the tokens after the statement, reporting them, or the missing separator when
+     * the next statement follows
+     */
+    private skipRest(report = true): void {
+        if (this.atEnd()) {
+            return;
+        }
+        const first = this.peek()!;
+        const missingSeparator = this.atNextStatement();
+        this.index = this.tokens.length;
+        if (missingSeparator) {
+            this.errors.push({ message: "Expected ';' or go before the next statement", start: first.start, end: first.end });
+            this.unparsed = { start: first.start, end: this.previousEnd() };
+        } else if (report) {
+            this.errors.push({ message: `Unexpected '${first.text}'`, start: first.start, end: this.previousEnd() });
+        }
+    }
+
+    /**
+     * Parse the statement at the start of the tokens (without comments and separator)
+     */
+    statement(): Omit<DqlStatement, 'tokens' | 'separator'> {
+        let statement: Omit<DqlStatement, 'tokens' | 'separator'>;
+        if (this.isWord('select')) {
+            statement = this.select();
+        } else if (this.isWord('from')) {
+            // A query without its select list, e.g. while it is being typed
+            this.error('Expected SELECT');
+            statement = this.select(true);
+        } else if (this.isWord('update')) {
+            statement = this.update();
+        } else if (this.isWord('delete')) {
+            statement = this.delete();
+        } else if (this.isWord('insert')) {
+            statement = this.insert();
+        } else if ((this.isWord('create') || this.isWord('alter') || this.isWord('drop')) && this.isWord('type', 1)) {
+            statement = this.typeStatement();
+        } else if (this.isWord('register') || this.isWord('unregister')) {
+            statement = this.register();
+        } else if (this.isWord('grant') || this.isWord('revoke')) {
+            statement = this.grant();
+        } else {
+            // ALTER GROUP g DROP u and other statements the parser does not model run to the separator
+            const first = this.peek();
+            this.index = this.tokens.length;
+            statement = { kind: 'unknown', clauses: [], hints: [], start: first?.start ?? 0, end: first ? this.previousEnd() : 0 };
+        }
+        // A stray ), or the next statement after a missing separator
+        this.skipRest();
+        if (this.unparsed) {
+            statement.unparsed = this.unparsed;
+        }
+
+        // Clauses still open, e.g. in an unclosed subquery, run to the end of the statement
+        const end = this.atEnd() ? this.endOffset : this.previousEnd();
+        for (const clause of this.openClauses.values()) {
+            clause.end = Math.max(clause.keywordRange.end, end);
+        }
+        this.openClauses.clear();
+        statement.clauses = this.clauses.sort((a, b) => a.start - b.start);
+        statement.hints = this.hints;
+        return statement;
+    }
+}
+
+function commentHint(token: DqlToken): DqlHint {
+    const body = token.text.replace(/^\/\*\+/, '').replace(/\*\/$/, '');
+    let offset = token.start + 3;
+    const hints: DqlName[] = [];
+    for (const part of body.split(',')) {
+        const trimmed = part.trim();
+        if (trimmed) {
+            const start = offset + part.indexOf(trimmed);
+            hints.push({ text: trimmed, start, end: start + trimmed.length });
+        }
+        offset += part.length + 1;
+    }
+    return { style: 'comment', hints, start: token.start, end: token.end };
+}
+
+/**
+ * Parse the tokens between two separators as one statement
+ */
+function parseStatement(
+    tokens: DqlToken[],
+    separator: DqlToken | undefined,
+    textLength: number,
+    errors: DqlSyntaxError[]
+): DqlStatement {
+    const code = tokens.filter(token => !isTrivia(token));
+    const statementErrors: DqlSyntaxError[] = [];
+    const parser = new Parser(code, statementErrors, separator?.start ?? textLength);
+    const statement = parser.statement() as DqlStatement;
+
+    if (separator) {
+        statement.separator = separator;
+    }
+    statement.tokens = tokens;
+    // Comments before the statement belong to it, so that it is formatted and run with them
+    statement.start = Math.min(statement.start, tokens[0].start);
+    statement.end = Math.max(statement.end, tokens[tokens.length - 1].end);
+    statement.hints = [...tokens.filter(token => token.kind === 'hint').map(commentHint), ...statement.hints]
+        .sort((a, b) => a.start - b.start);
+    errors.push(...statementErrors);
+    return statement;
+}
+
+/**
+ * Parse DQL text into statements. Statements end at `;` and at a line holding only `go`.
+ */
+export function parseDql(text: string): DqlScript {
+    const tokens = tokenizeDql(text);
+    const statements: DqlStatement[] = [];
+    const errors: DqlSyntaxError[] = [];
+
+    let current: DqlToken[] = [];
+    for (const token of tokens) {
+        if (token.kind === 'separator') {
+            if (current.length > 0) {
+                statements.push(parseStatement(current, token, text.length, errors));
+            }
+            current = [];
+        } else {
+            current.push(token);
+        }
+    }
+    if (current.length > 0) {
+        statements.push(parseStatement(current, undefined, text.length, errors));
+    }
+
+    // Statements that hold only comments have nothing to run
+    return {
+        text,
+        tokens,
+        statements: statements.filter(statement => statement.tokens.some(token => !isTrivia(token))),
+        errors
+    };
+}
+
+export interface DqlStatementText extends DqlRange {
+    /** The statement as written, with its leading comments */
+    text: string;
+    /** The statement as sent to the repository: without comments and blank lines, hints kept */
+    query: string;
+}
+
+/**
+ * The statements of a script as text, without their separators or empty statements
+ */
+export function splitDqlStatements(text: string): DqlStatementText[] {
+    return parseDql(text).statements.map(statement => {
+        // Comments go, and the space between tokens becomes a line break or stays as
+        // written, so strings running over several lines are kept intact
+        let query = '';
+        let previous: DqlToken | undefined;
+        for (const token of statement.tokens) {
+            if (token.kind === 'lineComment' || token.kind === 'blockComment') {
+                continue;
+            }
+            if (previous) {
+                const gap = text.slice(previous.end, token.start);
+                if (/\n/.test(gap)) {
+                    query += '\n';
+                } else if (gap.length > 0) {
+                    query += /^\s*$/.test(gap) ? gap : ' ';
+                }
+            }
+            query += token.text;
+            previous = token;
+        }
+        return {
+            text: text.slice(statement.start, statement.end),
+            query,
+            start: statement.start,
+            end: statement.end
+        };
+    });
+}
+
+/**
+ * The statement containing an offset, or the one the offset follows
+ */
+export function findStatementAt(script: DqlScript, offset: number): DqlStatement | undefined {
+    let found: DqlStatement | undefined;
+    for (const statement of script.statements) {
+        if (statement.start > offset) {
+            break;
+        }
+        if (!statement.separator || offset <= statement.separator.start) {
+            found = statement;
+        } else {
+            found = undefined;
+        }
+    }
+    return found;
+}
+
+/**
+ * The innermost clause of a statement containing an offset
+ */
+export function findClauseAt(statement: DqlStatement, offset: number): DqlClause | undefined {
+    let found: DqlClause | undefined;
+    for (const clause of statement.clauses) {
+        if (clause.start <= offset && offset <= clause.end && (!found || clause.depth >= found.depth)) {
+            found = clause;
+        }
+    }
+    return found;
+}
+
+/**
+ * The token containing an offset, or ending right at it
+ */
+export function findTokenAt(tokens: DqlToken[], offset: number): DqlToken | undefined {
+    return tokens.find(token => token.start < offset && offset <= token.end);
+}
+
+type DqlNode = DqlStatement | DqlExpression | DqlTypeReference | DqlSelectItem | DqlOrderItem | DqlUpdateOperation;
+
+/**
+ * Visit every type reference, attribute reference and other expression in a statement,
+ * subqueries included
+ */
+export function walkDql(
+    node: DqlNode,
+    visit: (node: DqlExpression | DqlTypeReference) => void
+): void {
+    const walkAll = (nodes: (DqlNode | undefined)[]) => nodes.forEach(child => child && walkDql(child, visit));
+
+    if ('expression' in node && !('kind' in node)) {
+        walkDql(node.expression, visit);
+        return;
+    }
+    if (!('kind' in node)) {
+        // Update operations
+        const operation = node as DqlUpdateOperation;
+        walkAll([operation.attribute, operation.value]);
+        return;
+    }
+    switch (node.kind) {
+        case 'select':
+            walkAll([...node.selectList, ...node.from, ...node.joins.flatMap(join => [join.type, join.on]), node.where,
+                ...node.groupBy, node.having, ...node.orderBy, node.union]);
+            return;
+        case 'update':
+            walkAll([node.type, ...node.operations, node.where]);
+            return;
+        case 'delete':
+            walkAll([node.type, node.where]);
+            return;
+        case 'insert':
+            walkAll([node.table, ...node.values, node.query]);
+            return;
+        case 'createType':
+        case 'alterType':
+        case 'dropType':
+            walkAll([node.type, node.supertype]);
+            return;
+        case 'register':
+        case 'unregister':
+            walkAll([node.table]);
+            return;
+        case 'grant':
+        case 'revoke':
+        case 'unknown':
+            return;
+    }
+
+    visit(node);
+    switch (node.kind) {
+        case 'attributeReference':
+            walkAll([node.index]);
+            break;
+        case 'functionCall':
+            walkAll(node.args);
+            break;
+        case 'predicate':
+            walkAll([node.type]);
+            break;
+        case 'binary':
+            walkAll([node.left, node.right]);
+            break;
+        case 'unary':
+            walkAll([node.operand]);
+            break;
+        case 'list':
+            walkAll(node.items);
+            break;
+        case 'subquery':
+            walkAll([node.query]);
+            break;
+        case 'parenthesized':
+            walkAll([node.expression]);
+            break;
+    }
+}
+
+/**
+ * Every type and table a statement refers to, subqueries included
+ */
+export function collectTypeReferences(statement: DqlStatement): DqlTypeReference[] {
+    const references: DqlTypeReference[] = [];
+    walkDql(statement, node => {
+        if (node.kind === 'typeReference') {
+            references.push(node);
+        }
+    });
+    return references;
+}
+
+/**
+ * Every attribute a statement refers to in expressions, subqueries included
+ */
+export function collectAttributeReferences(statement: DqlStatement): DqlAttributeReference[] {
+    const references: DqlAttributeReference[] = [];
+    walkDql(statement, node => {
+        if (node.kind === 'attributeReference') {
+            references.push(node);
+        }
+    });
+    return references;
+}
@@ -0,0 +1,99 @@
+/**
+ * DQL string helpers with no dependency on the VS Code API
+ */
+
+/**
+ * Escape a string for use in DQL queries.
+ * Escapes single quotes by doubling them to prevent SQL injection.
+ *
+ * @param value The string to escape
+ * @returns The escaped string safe for use in DQL
+ */
+export function escapeDqlString(value: string): string {
+    if (!value) {
+        return value;
+    }
+    return value.replace(/'/g, "''");
+}
+
+/**
+ * DQL keywords: not highlighted as types, nor checked as attribute names
+ * Expanded from Repoint source code analysis (Issue #26)
+ */
+export const DQL_KEYWORDS = new Set([
+    // Query structure
+    'select', 'from', 'where', 'and', 'or', 'not', 'in', 'is', 'as',
+    'order', 'by', 'asc', 'desc', 'group', 'having', 'union', 'all',
+    'distinct', 'only', 'first', 'for', 'of', 'to', 'with', 'without',
+
+    // Joins
+    'inner', 'outer', 'left', 'right', 'join', 'on',
+
+    // Comparison operators
+    'like', 'between', 'exists', 'some', 'any', 'escape',
+
+    // Boolean/null values
+    'true', 'false', 'null', 'nulldate', 'nullstring', 'nullint',
+
+    // Data types
+    'bool', 'boolean', 'int', 'integer', 'smallint', 'double', 'float',
+    'string', 'character', 'characters', 'time', 'date', 'id',
+
+    // Date functions
+    'dateadd', 'datediff', 'datefloor', 'datetostring', 'now', 'today',
+    'tomorrow', 'yesterday', 'day', 'week', 'month', 'year',
+
+    // String functions
+    'upper', 'lower', 'substr', 'substring',
+
+    // Aggregate functions
+    'count', 'sum', 'avg', 'min', 'max',
+
+    // DML statements
+    'update', 'set', 'delete', 'insert', 'into', 'values',
+
+    // DDL statements
+    'create', 'alter', 'drop', 'register', 'unregister', 'change', 'modify',
+    'add', 'remove', 'truncate', 'append',
+
+    // Type-related
+    'type', 'supertype', 'repeating', 'attr', 'default', 'primary',
+    'foreign', 'key', 'references', 'unique', 'computed',
+
+    // Repository objects
+    'folder', 'cabinet', 'document', 'object', 'objects', 'acl', 'user',
+    'owner', 'policy', 'state', 'version', 'assembly', 'assemblies',
+    'component', 'components', 'composite',
+
+    // Full-text search
+    'ftindex', 'add_ftindex', 'drop_ftindex', 'search', 'score', 'hits',
+    'mhits', 'mscore', 'verity', 'contains', 'ft_optimizer', 'topic', 'summary',
+
+    // Permissions
+    'grant', 'revoke', 'permit', 'privileges', 'read', 'write', 'private',
+    'public', 'world',
+
+    // Transaction control
+    'begin', 'commit', 'tran', 'transaction', 'abort',
+
+    // Control flow
+    'if', 'else', 'elseif', 'execute', 'exec', 'enable', 'disable',
+
+    // Content-related
+    'content_id', 'content_format', 'contain_id', 'mcontentid', 'mfile_url',
+    'setfile', 'path', 'link', 'unlink',
+
+    // System/internal
+    'system', 'internal', 'sysobj_id', 'sysadmin', 'superuser', 'server',
+    'dm_session_dd_locale', 'language', 'table', 'rdbms', 'storage',
+
+    // Miscellaneous
+    'current', 'latest', 'last', 'iscurrent', 'ispublic', 'isreplica',
+    'complete', 'deleted', 'display', 'report', 'estimate', 'browse',
+    'caching', 'depth', 'descend', 'node', 'nodesort', 'parent',
+    'mapping', 'members', 'note', 'page_no', 'position', 'separator',
+    'synonym', 'tag', 'text', 'using', 'value', 'violation', 'within',
+    'address', 'application', 'assistance', 'business', 'check', 'comment',
+    'dependency', 'docbasic', 'enforce', 'list', 'move', 'none', 'qry',
+    'relate', 'replaceif'
+]);
@@ -1,4 +1,4 @@
-import { isAxiosError } from 'axios';
+import { isAxiosError, isCancel } from 'axios';
 
 /**
  * Bridge error response structure.
@@ -38,6 +38,17 @@ export class BridgeError extends Error {
     }
 }
 
+/**
+ * Error raised when a bridge request was aborted by the user
+ * (e.g. the notebook stop button) rather than failing.
+ */
+export class CancelledError extends Error {
+    constructor(message: string = 'Request cancelled') {
+        super(message);
+        this.name = 'CancelledError';
+    }
+}
+
 /**
  * Type guard to check if data matches BridgeErrorResponse structure.
  */
@@ -57,6 +68,11 @@ function isBridgeErrorResponse(data: unknown): data is BridgeErrorResponse {
  * @returns A user-friendly Error with meaningful message
  */
 export function extractBridgeError(error: unknown): Error {
+    // Requests aborted via AbortSignal - keep them distinguishable from failures
+    if (isCancel(error)) {
+        return new CancelledError();
+    }
+
     // Handle axios errors with response data
     if (isAxiosError(error) && error.response?.data) {
         const data = error.response.data;
@@ -106,3 +122,54 @@ export function extractBridgeError(error: unknown): Error {
     // Handle unknown error types
     return new Error(String(error));
 }
+
+/**
+ * Bridge error codes for a failed login
+ */
+const AUTHENTICATION_FAILURE_CODE = /AUTH(ENTICATION)?_FAIL/i;
+
+/**
+ * Check whether an error is an authentication failure reported by the bridge.
+ * Used to discard stored passwords that the repository no longer accepts.
+ *
+ * Matches HTTP 401 responses and bridge error codes for a failed login
+ * (e.g. AUTHENTICATION_FAILED, DM_SESSION_E_AUTH_FAIL). Authorization and
+ * permission codes such as E_NOT_AUTHORIZED do not match: the password was fine.
+ */
+export function isAuthenticationError(error: unknown): boolean {
+    if (!(error instanceof BridgeError)) {
+        return false;
+    }
+    if (error.httpStatus === 401) {
+        return true;
+    }
+    return AUTHENTICATION_FAILURE_CODE.test(error.code || '');
+}
+
+/**
+ * Check whether an error means the bridge no longer knows the session.
+ * This happens when the bridge restarts or the repository session times out;
+ * the session can be re-established with the original credentials.
+ *
+ * Matches bridge error codes such as SESSION_NOT_FOUND / SESSION_EXPIRED and
+ * messages like "Session not found" or "Invalid session".
+ */
+export function isSessionInvalidError(error: unknown): boolean {
+    if (!(error instanceof BridgeError)) {
+        return false;
+    }
+    const code = (error.code || '').toUpperCase();
+    if (/SESSION_?(NOT_?FOUND|EXPIRED|INVALID|UNKNOWN|TIMED_?OUT|CLOSED)/.test(code)) {
+        return true;
+    }
+    const message = error.message.toLowerCase();
+    return /\bsession\s+(\S+\s+)?(not found|(has )?expired|is invalid|is unknown|(has )?timed out|is closed)/.test(message) ||
+        /\b(unknown|invalid|expired) session/.test(message);
+}
+
+/**
+ * Check whether an error means the request was cancelled by the user.
+ */
+export function isCancelledError(error: unknown): boolean {
+    return error instanceof CancelledError;
+}
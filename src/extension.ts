@@ -2,6 +2,7 @@ import * as vscode from 'vscode';
 import { ConnectionManager } from './connectionManager';
 import { DqlExecutor } from './dqlExecutor';
 import { ResultsPanel } from './resultsPanel';
+import { splitDqlStatements } from './dqlParser';
 import { registerObjectBrowser } from './objectBrowser';
 import { ApiExecutor } from './apiExecutor';
 import { registerApiPanel } from './apiPanel';
@@ -12,9 +13,13 @@ import { registerUserBrowser } from './userBrowser';
 import { GroupCache } from './groupCache';
 import { registerGroupBrowser } from './groupBrowser';
 import { registerDqlSemanticTokens } from './dqlSemanticTokens';
+import { registerDqlCompletions } from './dqlCompletionProvider';
+import { registerDqlDiagnostics } from './dqlDiagnosticsProvider';
+import { registerDqlFormatter } from './dqlFormatterProvider';
 import { registerApiMethodReference } from './apiMethodReference';
 import { registerNotebook } from './notebook';
 import { registerObjectDumpView } from './objectDumpView';
+import { registerCredentialCommands } from './credentialStore';
 
 let connectionManager: ConnectionManager;
 let dqlExecutor: DqlExecutor;
@@ -58,14 +63,24 @@ export function activate(context: vscode.ExtensionContext) {
             ? editor.document.getText()
             : editor.document.getText(selection);
 
-        if (!query.trim()) {
+        const statements = splitDqlStatements(query);
+        if (statements.length === 0) {
             vscode.window.showWarningMessage('No DQL query to execute');
             return;
         }
 
         try {
-            const results = await dqlExecutor.execute(query);
-            ResultsPanel.createOrShow(context.extensionUri, results);
+            if (statements.length > 1) {
+                await executeDqlScript(context, query, statements.length);
+                return;
+            }
+            const results = await dqlExecutor.execute(statements[0].query);
+            const sessionId = connectionManager.getSessionId();
+            ResultsPanel.createOrShow(
+                context.extensionUri,
+                results,
+                results.hasMore && sessionId ? dqlExecutor.createPageLoader(results.query, sessionId) : undefined
+            );
         } catch (error) {
             if (error instanceof Error) {
                 vscode.window.showErrorMessage(`DQL Error: ${error.message}`);
@@ -100,7 +115,10 @@ export function activate(context: vscode.ExtensionContext) {
     connectionManager.onConnectionChange((connected, name, username) => {
         if (connected) {
             const displayText = username ? `${name} (${username})` : name;
-            statusBarItem.text = `$(database) Documentum: ${displayText}`;
+            // Mention other live connections; the status bar always shows the active one
+            const others = connectionManager.getLiveConnections().length - 1;
+            const othersText = others > 0 ? ` +${others}` : '';
+            statusBarItem.text = `$(database) Documentum: ${displayText}${othersText}`;
             statusBarItem.backgroundColor = undefined;
         } else {
             statusBarItem.text = '$(database) Documentum: Disconnected';
@@ -108,6 +126,18 @@ export function activate(context: vscode.ExtensionContext) {
         }
     });
 
+    // Report transparent session recovery (bridge restart or session timeout)
+    connectionManager.onSessionRecovered((name, username, notebookUri) => {
+        const scope = notebookUri ? 'Notebook session' : 'Session';
+        vscode.window.setStatusBarMessage(
+            `$(sync) Documentum: ${scope} for ${name} (${username}) was re-established`,
+            5000
+        );
+    });
+
+    // Register stored credential commands
+    registerCredentialCommands(context, connectionManager.getCredentialStore());
+
     // Register Object Browser tree view
     registerObjectBrowser(context, connectionManager);
 
@@ -124,17 +154,33 @@ export function activate(context: vscode.ExtensionContext) {
     // Register Group Browser
     registerGroupBrowser(context, groupCache, connectionManager);
 
+    // Register DQL completion (types, attributes, functions, users and groups)
+    registerDqlCompletions(context, typeCache, userCache, groupCache);
+
+    // Register DQL diagnostics (unknown types and attributes, repeating attributes without ANY)
+    registerDqlDiagnostics(context, typeCache);
+
+    // Register DQL formatter (Format Document and Format Selection)
+    registerDqlFormatter(context);
+
     // Register API method reference (autocomplete and hover for dmAPI methods)
     const apiReference = registerApiMethodReference(context);
 
     // Register notebook support for .dctmbook files
-    registerNotebook(context, connectionManager, dqlExecutor, apiExecutor, apiReference);
+    registerNotebook(context, connectionManager, dqlExecutor, apiExecutor, apiReference, userCache, typeCache);
 
     // Register Object Dump sidebar view
     registerObjectDumpView(context, connectionManager);
 
     // Auto-refresh caches on connection
-    connectionManager.onConnectionChange(async (connected) => {
+    // Caches follow the active connection; only reload when it actually changes
+    let cachedFor: string | undefined;
+    connectionManager.onConnectionChange(async (connected, name, username) => {
+        const key = connected ? `${name}/${username}` : undefined;
+        if (key === cachedFor) {
+            return;
+        }
+        cachedFor = key;
         if (connected) {
             // Refresh all caches in parallel
             await Promise.allSettled([
@@ -150,11 +196,42 @@ export function activate(context: vscode.ExtensionContext) {
     });
 }
 
+/**
+ * Run the statements of a script in order and show a results tab per statement
+ */
+async function executeDqlScript(context: vscode.ExtensionContext, script: string, count: number): Promise<void> {
+    const outcomes = await vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: `Executing ${count} DQL statements`,
+        cancellable: true
+    }, (progress, token) => dqlExecutor.executeScript(script, {
+        token,
+        onStatement: (index, total) => progress.report({ message: `statement ${index + 1} of ${total}`, increment: 100 / total })
+    }));
+
+    const sessionId = connectionManager.getSessionId();
+    ResultsPanel.showScript(
+        context.extensionUri,
+        outcomes,
+        results => sessionId ? dqlExecutor.createPageLoader(results.query, sessionId) : undefined
+    );
+
+    const failed = outcomes.filter(outcome => outcome.error !== undefined).length;
+    const skipped = outcomes.filter(outcome => outcome.skipped).length;
+    if (failed > 0 || skipped > 0) {
+        const parts = [`${failed} of ${outcomes.length} statements failed`];
+        if (skipped > 0) {
+            parts.push(`${skipped} skipped`);
+        }
+        vscode.window.showWarningMessage(`DQL script: ${parts.join(', ')}`);
+    }
+}
+
 export async function deactivate() {
     if (connectionManager) {
         // Disconnect all notebook sessions first
         await connectionManager.disconnectAllNotebooks();
-        // Then disconnect the global connection
-        await connectionManager.disconnect();
+        // Then disconnect all global connections
+        await connectionManager.disconnectAll();
     }
 }
@@ -0,0 +1,77 @@
+import { parseResultName } from './notebookVariables';
+
+/**
+ * The parts of a cell needed to work out its dependencies
+ */
+export interface DependencyCell {
+    source: string;
+    metadata?: { [key: string]: unknown };
+}
+
+/**
+ * Matches a `-- @depends docs, users` directive on its own line
+ */
+const DEPENDS_DIRECTIVE = /^\s*--\s*@depends\s+([A-Za-z_][A-Za-z0-9_]*(?:\s*,\s*[A-Za-z_][A-Za-z0-9_]*)*)\s*$/gm;
+
+/**
+ * Get the named cells a cell depends on, from `-- @depends` directives
+ * and the `dependsOn` cell metadata (a list of names).
+ */
+export function parseDependencies(source: string, metadata?: { [key: string]: unknown }): string[] {
+    const names: string[] = [];
+    for (const match of source.matchAll(DEPENDS_DIRECTIVE)) {
+        names.push(...match[1].split(',').map(name => name.trim()));
+    }
+
+    const fromMetadata = metadata?.dependsOn;
+    if (Array.isArray(fromMetadata)) {
+        names.push(...fromMetadata.filter((name): name is string => typeof name === 'string'));
+    }
+    return [...new Set(names)];
+}
+
+/**
+ * Work out which cells to run, in notebook order, so that a cell runs after
+ * every cell it depends on, directly or indirectly.
+ * A dependency must name a cell above the dependent cell; the nearest one wins
+ * when several cells share a name.
+ *
+ * @param cells Cells of the notebook, in order
+ * @param target Index of the cell to run
+ * @returns Indexes of the cells to run, ending with target
+ * @throws Error if a dependency does not name a cell above its dependent
+ */
+export function resolveRunOrder(cells: DependencyCell[], target: number): number[] {
+    const required = new Set<number>();
+    const pending = [target];
+
+    while (pending.length > 0) {
+        const index = pending.pop()!;
+        if (required.has(index)) {
+            continue;
+        }
+        required.add(index);
+
+        for (const name of parseDependencies(cells[index].source, cells[index].metadata)) {
+            const provider = findNamedCell(cells, name, index);
+            if (provider === undefined) {
+                throw new Error(`Cell ${index + 1} depends on "${name}", but no cell above it is named ${name}`);
+            }
+            pending.push(provider);
+        }
+    }
+
+    return [...required].sort((a, b) => a - b);
+}
+
+/**
+ * Index of the nearest cell above `before` whose result is stored under `name`
+ */
+function findNamedCell(cells: DependencyCell[], name: string, before: number): number | undefined {
+    for (let i = before - 1; i >= 0; i--) {
+        if (parseResultName(cells[i].source, cells[i].metadata) === name) {
+            return i;
+        }
+    }
+    return undefined;
+}
@@ -0,0 +1,503 @@
+import { randomUUID } from 'crypto';
+import { DqlResult } from '../dqlExecutor';
+import { ApiMethodRequest, ApiMethodResponse } from '../apiExecutor';
+import { DctmBridge } from '../dctmBridge';
+import { isCancelledError } from '../errorUtils';
+import { NotebookVariables, parseResultName, API_RESULT_COLUMN } from './notebookVariables';
+import { ERROR_MIME } from './notebookFormat';
+import {
+    parseAssertions,
+    evaluateAssertions,
+    formatAssertionMarkdown,
+    formatAssertionText
+} from './notebookAssertions';
+import { ChartSettings, getChartSettings } from './notebookChart';
+import { getQueryType } from './resultEdits';
+import { tokenizeDql } from '../dqlLexer';
+
+/**
+ * MIME type rendered by the DQL result renderer
+ */
+export const RESULT_MIME = 'application/x-dctm-result';
+
+/**
+ * Output metadata key holding the ID of a DQL result, which the renderer
+ * sends back to identify the cell it belongs to
+ */
+export const RESULT_ID_METADATA = 'resultId';
+
+/**
+ * Output metadata keys naming the connection and repository a DQL result came from
+ */
+export const CONNECTION_METADATA = 'connection';
+export const REPOSITORY_METADATA = 'repository';
+
+/**
+ * Cell languages the runner executes: DQL queries, dmAPI / object API commands
+ * and assertions on the previous DQL result
+ */
+export const CELL_LANGUAGES = ['dql', 'dmapi', 'dqlassert'];
+
+/**
+ * Label used in error messages per cell language
+ */
+const LANGUAGE_LABELS: Record<string, string> = {
+    dql: 'DQL',
+    dmapi: 'API',
+    dqlassert: 'Assertion'
+};
+
+/**
+ * One representation of a cell result.
+ * `data` is a string for text/plain, `{ name, message }` for errors and a JSON value otherwise.
+ */
+export interface CellOutputItem {
+    mime: string;
+    data: unknown;
+}
+
+export type CellRunStatus = 'success' | 'failed' | 'cancelled';
+
+/**
+ * Result of running one cell
+ */
+export interface CellRunOutcome {
+    status: CellRunStatus;
+    /** Items of the cell's single output; empty when the cell has nothing to run */
+    items: CellOutputItem[];
+    /** Message of a failed cell */
+    error?: string;
+    /** DQL result with the query that produced it (after variable substitution), for paging */
+    dql?: { result: DqlResult; query: string; resultName?: string };
+    /** Metadata of the cell's output */
+    outputMetadata?: { [key: string]: unknown };
+}
+
+/**
+ * Executes cell commands on one session.
+ * The extension routes these through DqlExecutor / ApiExecutor; the headless runner
+ * calls the bridge directly.
+ */
+export interface CellBackend {
+    executeDql(query: string, signal?: AbortSignal): Promise<DqlResult>;
+    executeDmApi(apiType: 'get' | 'exec' | 'set', command: string, signal?: AbortSignal): Promise<ApiMethodResponse>;
+    executeApi(request: ApiMethodRequest, signal?: AbortSignal): Promise<ApiMethodResponse>;
+}
+
+/**
+ * Paging and timeout settings for a bridge-backed CellBackend
+ */
+export interface BridgeBackendOptions {
+    /** Rows per DQL page; 0 fetches every row */
+    pageSize?: number;
+    /** Timeout for a single DQL request in milliseconds; 0 waits indefinitely */
+    timeoutMs?: number;
+}
+
+/**
+ * A CellBackend that sends every command straight to the bridge on one session
+ */
+export function createBridgeBackend(
+    bridge: DctmBridge,
+    sessionId: string,
+    options: BridgeBackendOptions = {}
+): CellBackend {
+    return {
+        executeDql: async (query, signal) => {
+            const result = await bridge.executeDql(sessionId, query, {
+                pageSize: options.pageSize,
+                timeoutMs: options.timeoutMs,
+                signal
+            });
+            return { ...result, query: query.trim() };
+        },
+        executeDmApi: (apiType, command, signal) => executeDmApi(bridge, sessionId, apiType, command, signal),
+        executeApi: async (request, signal) => {
+            const response = await bridge.executeApi(sessionId, request.typeName || '', request.method, {
+                objectId: request.objectId,
+                args: request.args,
+                namedArgs: request.namedArgs,
+                signal
+            }) as Partial<ApiMethodResponse>;
+            return {
+                result: response.result,
+                resultType: response.resultType || 'unknown',
+                executionTimeMs: response.executionTimeMs || 0
+            };
+        }
+    };
+}
+
+/**
+ * Execute a dmAPI command via the bridge's /dmapi endpoint
+ *
+ * @param apiType The type of dmAPI call: 'get', 'exec', or 'set'
+ * @param command The full command string from inside the quotes
+ * @param signal Optional signal to abort the call
+ */
+export async function executeDmApi(
+    bridge: DctmBridge,
+    sessionId: string,
+    apiType: 'get' | 'exec' | 'set',
+    command: string,
+    signal?: AbortSignal
+): Promise<ApiMethodResponse> {
+    if (!sessionId) {
+        throw new Error('No active session');
+    }
+
+    // Check if this is a REST connection - REST doesn't support dmAPI
+    if (bridge.isRestSession(sessionId)) {
+        throw new Error(
+            'dmAPI commands are not available with REST connections. ' +
+            'dmAPI requires a DFC connection to the repository.'
+        );
+    }
+
+    const result = await bridge.executeDmApi(sessionId, apiType, command, signal);
+
+    return {
+        result: result.result,
+        resultType: result.resultType,
+        executionTimeMs: result.executionTimeMs
+    };
+}
+
+export interface CellRunContext {
+    /** Notebook the cell belongs to; scopes variables and parameters */
+    notebookUri: string;
+    /** Cell metadata (outputFormat, chart, resultName) */
+    metadata?: { [key: string]: unknown };
+    backend: CellBackend;
+    /** Connection the backend runs on, recorded in the output metadata of DQL results */
+    connection?: { name: string; repository: string };
+    signal?: AbortSignal;
+}
+
+/**
+ * Strip comments from code. Comment markers inside quoted strings and /*+ hints *\/ are kept.
+ * @param code The code to strip comments from
+ * @param includeBlockComments Whether to also strip block comments
+ */
+export function stripComments(code: string, includeBlockComments: boolean = false): string {
+    let stripped = '';
+    let index = 0;
+    for (const token of tokenizeDql(code)) {
+        const isComment = token.kind === 'lineComment'
+            || (includeBlockComments && token.kind === 'blockComment');
+        if (isComment) {
+            stripped += code.slice(index, token.start);
+            index = token.end;
+        }
+    }
+    stripped += code.slice(index);
+
+    // Clean up extra whitespace and empty lines
+    return stripped
+        .split('\n')
+        .map(line => line.trim())
+        .filter(line => line.length > 0)
+        .join('\n')
+        .trim();
+}
+
+/**
+ * Parse an API command string into a request object
+ *
+ * Supports simple format: method arg1 arg2
+ * (dmAPI format is handled separately)
+ */
+export function parseApiCommand(command: string): ApiMethodRequest {
+    const trimmed = command.trim();
+
+    // Match simple format: method arg1 arg2
+    const parts = trimmed.split(/\s+/);
+    if (parts.length > 0) {
+        // Args are strings from the command line format
+        const args: unknown[] = parts.slice(1);
+        return {
+            method: parts[0],
+            args
+        };
+    }
+
+    throw new Error(`Invalid API command format: ${command}`);
+}
+
+/**
+ * Format a value for display
+ */
+export function formatValue(value: unknown): string {
+    if (value === null || value === undefined) {
+        return 'null';
+    }
+    if (typeof value === 'object') {
+        return JSON.stringify(value, null, 2);
+    }
+    return String(value);
+}
+
+/**
+ * Runs DQL, dmAPI and assertion cells: strips comments, substitutes notebook variables
+ * and parameters, executes through a CellBackend and formats the output.
+ *
+ * Shared by DctmNotebookController and the headless runner so both produce
+ * the same outputs.
+ */
+export class NotebookCellRunner {
+    constructor(private readonly variables: NotebookVariables) {}
+
+    /**
+     * Run one cell. Errors are reported in the outcome rather than thrown.
+     *
+     * @param language Cell language (one of CELL_LANGUAGES)
+     * @param source Cell text
+     */
+    async run(language: string, source: string, context: CellRunContext): Promise<CellRunOutcome> {
+        const content = source.trim();
+        if (!content) {
+            return { status: 'success', items: [] };
+        }
+
+        if (!CELL_LANGUAGES.includes(language)) {
+            return failed(`Unsupported language: ${language}`);
+        }
+
+        try {
+            switch (language) {
+                case 'dql':
+                    return await this.runDql(content, context);
+                case 'dqlassert':
+                    return this.runAssertions(content, context);
+                default:
+                    return await this.runApi(content, context);
+            }
+        } catch (error) {
+            if (isCancelledError(error) || context.signal?.aborted) {
+                return cancelled();
+            }
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            return failed(`${LANGUAGE_LABELS[language]} Error: ${errorMessage}`);
+        }
+    }
+
+    /**
+     * Execute a DQL query
+     */
+    private async runDql(query: string, context: CellRunContext): Promise<CellRunOutcome> {
+        // Strip comments before execution (DQL supports block comments)
+        const cleanQuery = stripComments(query, true);
+        if (!cleanQuery) {
+            return { status: 'success', items: [] };
+        }
+
+        // Substitute ${name...} references to earlier named results and parameters
+        const resolvedQuery = this.variables.interpolate(context.notebookUri, cleanQuery, 'dql');
+        const resultName = parseResultName(query, context.metadata);
+
+        // Assertion cells check the latest query; a failed query leaves nothing to check
+        this.variables.setPreviousResult(context.notebookUri, undefined);
+        const result = await context.backend.executeDql(resolvedQuery, context.signal);
+        this.variables.setPreviousResult(context.notebookUri, {
+            columns: result.columns,
+            rows: result.rows,
+            hasMore: result.hasMore === true,
+            cursor: result.cursor,
+            totalCount: result.totalCount
+        });
+        if (resultName) {
+            this.variables.set(context.notebookUri, {
+                name: resultName,
+                columns: result.columns,
+                rows: result.rows
+            });
+        }
+
+        const resultId = randomUUID();
+        return {
+            status: 'success',
+            items: formatDqlItems(result, getOutputFormat(context.metadata), {
+                resultName,
+                chart: getChartSettings(context.metadata),
+                resultId,
+                queryType: getQueryType(resolvedQuery)
+            }),
+            dql: { result, query: resolvedQuery, resultName },
+            outputMetadata: {
+                [RESULT_ID_METADATA]: resultId,
+                ...(context.connection && {
+                    [CONNECTION_METADATA]: context.connection.name,
+                    [REPOSITORY_METADATA]: context.connection.repository
+                })
+            }
+        };
+    }
+
+    /**
+     * Check `expect ...` assertions against the notebook's previous DQL result
+     */
+    private runAssertions(source: string, context: CellRunContext): CellRunOutcome {
+        // Parameters and named results can supply expected values, e.g. `all in (${owner})`
+        const resolved = source
+            .split('\n')
+            .map(line => line.trim().startsWith('--') ? line : this.variables.interpolate(context.notebookUri, line, 'dql'))
+            .join('\n');
+        const assertions = parseAssertions(resolved);
+        const previous = this.variables.getPreviousResult(context.notebookUri);
+        if (!previous) {
+            throw new Error('No DQL result to check. Run a DQL cell before this one.');
+        }
+
+        const results = evaluateAssertions(assertions, previous);
+        const failedCount = results.filter(r => !r.passed).length;
+        return {
+            status: failedCount === 0 ? 'success' : 'failed',
+            items: [
+                { mime: 'text/markdown', data: formatAssertionMarkdown(results, previous.columns) },
+                { mime: 'text/plain', data: formatAssertionText(results) }
+            ],
+            error: failedCount > 0 ? `${failedCount} of ${results.length} assertion(s) failed` : undefined
+        };
+    }
+
+    /**
+     * Execute a dmAPI command or an object API method call
+     */
+    private async runApi(command: string, context: CellRunContext): Promise<CellRunOutcome> {
+        // Strip comments before execution (dmAPI only supports line comments)
+        const cleanCommand = stripComments(command);
+        if (!cleanCommand) {
+            return { status: 'success', items: [] };
+        }
+
+        // Substitute ${name...} references to earlier named results and parameters
+        const resolvedCommand = this.variables.interpolate(context.notebookUri, cleanCommand, 'dmapi');
+        const resultName = parseResultName(command, context.metadata);
+
+        // Check if this is a dmAPI command (dmAPIGet, dmAPIExec, dmAPISet)
+        const dmApiMatch = resolvedCommand.match(/^dmAPI(Get|Exec|Set)\s*\(\s*["'](.+?)["']\s*\)$/i);
+
+        const result = dmApiMatch
+            // Use the dmAPI endpoint for server-level API calls
+            ? await context.backend.executeDmApi(
+                dmApiMatch[1].toLowerCase() as 'get' | 'exec' | 'set',
+                dmApiMatch[2],
+                context.signal
+            )
+            // Use the object API endpoint for method invocations
+            : await context.backend.executeApi(parseApiCommand(resolvedCommand), context.signal);
+
+        if (resultName) {
+            this.variables.set(context.notebookUri, {
+                name: resultName,
+                columns: [API_RESULT_COLUMN],
+                rows: [{ [API_RESULT_COLUMN]: result.result }]
+            });
+        }
+
+        return { status: 'success', items: formatApiItems(result, getOutputFormat(context.metadata)) };
+    }
+}
+
+/**
+ * Output format preference from cell metadata ('html' or 'json'), default 'html'
+ */
+function getOutputFormat(metadata?: { [key: string]: unknown }): string {
+    return (metadata?.outputFormat as string) || 'html';
+}
+
+function failed(message: string): CellRunOutcome {
+    return {
+        status: 'failed',
+        items: [{ mime: ERROR_MIME, data: { name: 'Error', message } }],
+        error: message
+    };
+}
+
+/**
+ * A cell stopped by the user shows a plain note instead of an error
+ */
+function cancelled(): CellRunOutcome {
+    return { status: 'cancelled', items: [{ mime: 'text/plain', data: 'Execution cancelled.' }] };
+}
+
+/**
+ * What the result renderer gets besides the rows of a DQL result
+ */
+export interface DqlOutputOptions {
+    /** Variable the result was stored under, if the cell is named */
+    resultName?: string;
+    /** Chart the renderer opens the result as, from the cell metadata */
+    chart?: ChartSettings;
+    /** ID the renderer refers to the result by (see RESULT_ID_METADATA) */
+    resultId?: string;
+    /** Type in the query's FROM clause, for updating edited rows */
+    queryType?: string;
+}
+
+/**
+ * Format DQL results as output items
+ */
+export function formatDqlItems(
+    result: DqlResult,
+    outputFormat: string,
+    options: DqlOutputOptions = {}
+): CellOutputItem[] {
+    const { resultName, chart, resultId, queryType } = options;
+    // Plain text summary
+    let text = `${result.rowCount} row(s) returned in ${result.executionTime}ms`;
+    if (result.hasMore) {
+        const total = result.totalCount !== undefined ? ` of ${result.totalCount}` : '';
+        text = `First ${result.rows.length}${total} row(s) returned in ${result.executionTime}ms (more available)`;
+    }
+    if (resultName) {
+        text += ` - stored as ${resultName}`;
+    }
+
+    const resultData = {
+        columns: result.columns,
+        rows: result.rows,
+        rowCount: result.rowCount,
+        executionTime: result.executionTime,
+        hasMore: result.hasMore === true,
+        cursor: result.cursor,
+        totalCount: result.totalCount
+    };
+
+    // First item is the default rendered view: JSON, or the custom renderer
+    // with an interactive table and object ID click support
+    return [
+        outputFormat === 'json'
+            ? { mime: 'application/json', data: resultData }
+            : { mime: RESULT_MIME, data: { ...resultData, chart, resultId, queryType } },
+        { mime: 'text/plain', data: text }
+    ];
+}
+
+/**
+ * Format an API response as output items
+ */
+export function formatApiItems(result: ApiMethodResponse, outputFormat: string): CellOutputItem[] {
+    const formattedResult = formatValue(result.result);
+    const text = `${result.resultType}: ${formattedResult}`;
+
+    if (outputFormat === 'json') {
+        return [
+            { mime: 'application/json', data: result },
+            { mime: 'text/plain', data: text }
+        ];
+    }
+
+    // Default to custom renderer with clickable object IDs
+    // Use the same MIME type as DQL results so the custom renderer handles it
+    const apiResultData = {
+        type: 'api',
+        result: formattedResult,
+        resultType: result.resultType,
+        executionTimeMs: result.executionTimeMs
+    };
+    return [
+        { mime: RESULT_MIME, data: apiResultData },
+        { mime: 'text/plain', data: text }
+    ];
+}
@@ -1,13 +1,16 @@
 /**
  * Export functionality for notebook results
  *
- * Provides Excel and JSON export capabilities for DQL query results.
+ * Exports DQL query results through a registry of formats (Excel, CSV, TSV,
+ * Markdown, HTML, JSON and DQL scripts), and result comparisons to Excel.
  */
 
 import * as vscode from 'vscode';
 import * as ExcelJS from 'exceljs';
 import * as os from 'os';
 import * as path from 'path';
+import { DiffLabels, ResultDiff } from './resultDiff';
+import { formatDqlLiteral, getValueKind, isEditableColumn } from './resultEdits';
 
 /**
  * Get the default directory for saving exported files.
@@ -79,28 +82,80 @@ export function isDateColumn(columnName: string, rows: Record<string, unknown>[]
 }
 
 /**
- * Export data to Excel file (.xlsx)
+ * How repeating attribute values (arrays) are written to a flat export
+ */
+export interface RepeatingValueOptions {
+    /** 'join' writes one cell with the values joined; 'rows' writes one row per value */
+    mode: 'join' | 'rows';
+    /** Separator for 'join' */
+    separator: string;
+}
+
+/**
+ * Read the repeating value options from the documentum.export.* settings
+ */
+export function getRepeatingValueOptions(): RepeatingValueOptions {
+    const config = vscode.workspace.getConfiguration('documentum.export');
+    return {
+        mode: config.get<string>('repeatingValues', 'join') === 'rows' ? 'rows' : 'join',
+        separator: config.get<string>('repeatingSeparator', ', ')
+    };
+}
+
+/**
+ * Replace repeating attribute values with single values.
  *
- * All non-date columns are formatted as Text to preserve leading zeroes
- * (e.g., revisions 00, 01, 02) and prevent Excel from auto-formatting.
+ * In 'join' mode each array becomes one string. In 'rows' mode a row becomes as many
+ * rows as its longest array: row i holds value i of each repeating attribute (empty
+ * when that attribute has fewer values) and repeats the single-valued attributes.
  */
-export async function exportToExcel(
+export function flattenRepeatingValues(
     columns: string[],
-    rows: Record<string, unknown>[]
-): Promise<void> {
-    // Show save dialog with default location
-    const defaultPath = path.join(getDefaultSaveDirectory(), 'query_results.xlsx');
-    const uri = await vscode.window.showSaveDialog({
-        defaultUri: vscode.Uri.file(defaultPath),
-        filters: {
-            'Excel Files': ['xlsx']
-        },
-        saveLabel: 'Export to Excel'
+    rows: Record<string, unknown>[],
+    options: RepeatingValueOptions
+): Record<string, unknown>[] {
+    const text = (value: unknown): string => value === null || value === undefined ? '' : String(value);
+
+    return rows.flatMap(row => {
+        const repeating = columns.filter(col => Array.isArray(row[col]));
+        if (repeating.length === 0) {
+            return [row];
+        }
+
+        if (options.mode === 'join') {
+            const joined = { ...row };
+            for (const col of repeating) {
+                joined[col] = (row[col] as unknown[]).map(text).join(options.separator);
+            }
+            return [joined];
+        }
+
+        const count = Math.max(1, ...repeating.map(col => (row[col] as unknown[]).length));
+        return Array.from({ length: count }, (_, idx) => {
+            const expanded = { ...row };
+            for (const col of repeating) {
+                expanded[col] = (row[col] as unknown[])[idx] ?? null;
+            }
+            return expanded;
+        });
     });
+}
 
-    if (!uri) {
-        return; // User cancelled
-    }
+/**
+ * Add a worksheet of query results to a workbook
+ *
+ * All non-date columns are formatted as Text to preserve leading zeroes
+ * (e.g., revisions 00, 01, 02) and prevent Excel from auto-formatting.
+ * Repeating attribute values are joined or spread over several rows (see flattenRepeatingValues).
+ */
+export function addResultSheet(
+    workbook: ExcelJS.Workbook,
+    name: string,
+    columns: string[],
+    resultRows: Record<string, unknown>[],
+    repeating: RepeatingValueOptions
+): ExcelJS.Worksheet {
+    const rows = flattenRepeatingValues(columns, resultRows, repeating);
 
     // Determine which columns are date columns
     const dateColumns = new Set<string>();
@@ -110,12 +165,7 @@ export async function exportToExcel(
         }
     }
 
-    // Create workbook and worksheet
-    const workbook = new ExcelJS.Workbook();
-    workbook.creator = 'Documentum VS Code Extension';
-    workbook.created = new Date();
-
-    const worksheet = workbook.addWorksheet('Query Results');
+    const worksheet = workbook.addWorksheet(name);
 
     // Set up columns with proper formatting
     worksheet.columns = columns.map(col => ({
@@ -182,46 +232,504 @@ export async function exportToExcel(
         column.width = Math.min(maxLength + 2, 50); // Cap at 50 characters
     });
 
-    // Write to buffer and save
-    const buffer = await workbook.xlsx.writeBuffer();
-    await vscode.workspace.fs.writeFile(uri, new Uint8Array(buffer as ArrayBuffer));
+    return worksheet;
+}
 
-    vscode.window.showInformationMessage(`Exported ${rows.length} rows to ${uri.fsPath}`);
+function cellText(value: unknown): string {
+    return value === null || value === undefined ? '' : String(value);
+}
+
+/**
+ * Rows as RFC 4180 CSV: CRLF line breaks, and fields containing commas, quotes
+ * or line breaks quoted with their quotes doubled
+ */
+export function formatCsv(columns: string[], rows: Record<string, unknown>[]): string {
+    const csvValue = (value: unknown): string => {
+        const str = cellText(value);
+        return /[",\r\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+    };
+    return [
+        columns.map(csvValue).join(','),
+        ...rows.map(row => columns.map(col => csvValue(row[col])).join(','))
+    ].join('\r\n') + '\r\n';
+}
+
+/**
+ * Rows as tab-separated values. TSV has no quoting, so tabs and line breaks in values become spaces.
+ */
+export function formatTsv(columns: string[], rows: Record<string, unknown>[]): string {
+    const tsvValue = (value: unknown): string => cellText(value).replace(/\r\n|[\t\r\n]/g, ' ');
+    return [
+        columns.map(tsvValue).join('\t'),
+        ...rows.map(row => columns.map(col => tsvValue(row[col])).join('\t'))
+    ].join('\n') + '\n';
+}
+
+/**
+ * Rows as a GitHub-flavoured Markdown table. Pipes are escaped and < is written
+ * as &lt; so values are not read as HTML.
+ */
+export function formatMarkdownTable(columns: string[], rows: Record<string, unknown>[]): string {
+    const mdValue = (value: unknown): string => cellText(value)
+        .replace(/\\/g, '\\\\')
+        .replace(/\|/g, '\\|')
+        .replace(/</g, '&lt;')
+        .replace(/\r?\n/g, '<br>');
+    const line = (cells: string[]): string => `| ${cells.join(' | ')} |`;
+    return [
+        line(columns.map(mdValue)),
+        line(columns.map(() => '---')),
+        ...rows.map(row => line(columns.map(col => mdValue(row[col]))))
+    ].join('\n') + '\n';
+}
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#039;');
+}
+
+/**
+ * Rows as an HTML table
+ */
+export function formatHtmlTable(columns: string[], rows: Record<string, unknown>[]): string {
+    const header = columns.map(col => `<th>${escapeHtml(col)}</th>`).join('');
+    const body = rows.map(row =>
+        `    <tr>${columns.map(col => `<td>${escapeHtml(cellText(row[col]))}</td>`).join('')}</tr>`);
+    return [
+        '<table>',
+        `  <thead>\n    <tr>${header}</tr>\n  </thead>`,
+        '  <tbody>',
+        ...body,
+        '  </tbody>',
+        '</table>'
+    ].join('\n') + '\n';
+}
+
+const DQL_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+/** Type or registered table name, optionally qualified by its owner (e.g. dm_dbo.my_table) */
+const DQL_TARGET = /^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z_][A-Za-z0-9_]*)?$/;
+
+/**
+ * Rows as a DQL script of INSERT statements into a registered table, each followed by a
+ * "go" line as in idql scripts. Columns that are not plain names (e.g. count(*)) are left out.
+ */
+export function formatDqlInsert(columns: string[], rows: Record<string, unknown>[], tableName: string): string {
+    const names = columns.filter(col => DQL_NAME.test(col));
+    return rows.map(row => {
+        const values = names.map(col => formatDqlLiteral(row[col], getValueKind(row[col])));
+        return `INSERT INTO ${tableName} (${names.join(', ')}) VALUES (${values.join(', ')})\ngo\n`;
+    }).join('');
+}
+
+/**
+ * Rows as a DQL script creating one object per row, each statement followed by a "go" line.
+ * Only user-settable attributes with a value are set (see isEditableColumn); repeating
+ * attribute values are appended one by one.
+ */
+export function formatDqlCreateObject(columns: string[], rows: Record<string, unknown>[], typeName: string): string {
+    const names = columns.filter(isEditableColumn);
+    return rows.map(row => {
+        const updates = names.flatMap(col => {
+            const value = row[col];
+            const kind = getValueKind(value);
+            if (Array.isArray(value)) {
+                return value.map(v => `APPEND ${col} = ${formatDqlLiteral(v, kind)}`);
+            }
+            return value === null || value === undefined ? [] : [`SET ${col} = ${formatDqlLiteral(value, kind)}`];
+        });
+        return `CREATE ${typeName} OBJECT${updates.length > 0 ? ' ' + updates.join(', ') : ''}\ngo\n`;
+    }).join('');
+}
+
+/**
+ * What an export format is given besides the rows
+ */
+export interface ExportContext {
+    repeating: RepeatingValueOptions;
+    /** Type or registered table the DQL formats write to */
+    typeName?: string;
+}
+
+/**
+ * A file format results can be exported to
+ */
+export interface ExportFormat {
+    id: string;
+    /** Shown in the format picker and the save dialog */
+    label: string;
+    /** File extension, without the dot */
+    extension: string;
+    /** Whether the format writes DQL statements and so needs a type or table name */
+    needsTypeName?: boolean;
+    write(columns: string[], rows: Record<string, unknown>[], context: ExportContext): string | Uint8Array | Promise<Uint8Array>;
+}
+
+const exportFormats = new Map<string, ExportFormat>();
+
+/**
+ * Make a format available to every export: the notebook renderer, the DQL Results panel
+ * and the "Export Last Result As..." command. A format with the same ID is replaced.
+ */
+export function registerExportFormat(format: ExportFormat): void {
+    exportFormats.set(format.id, format);
+}
+
+/**
+ * Registered formats in registration order
+ */
+export function getExportFormats(): ExportFormat[] {
+    return Array.from(exportFormats.values());
+}
+
+export function getExportFormat(id: string): ExportFormat | undefined {
+    return exportFormats.get(id);
+}
+
+const flat = (columns: string[], rows: Record<string, unknown>[], context: ExportContext) =>
+    flattenRepeatingValues(columns, rows, context.repeating);
+
+registerExportFormat({
+    id: 'excel',
+    label: 'Excel',
+    extension: 'xlsx',
+    write: async (columns, rows, context) => {
+        const workbook = new ExcelJS.Workbook();
+        workbook.creator = 'Documentum VS Code Extension';
+        workbook.created = new Date();
+        addResultSheet(workbook, 'Query Results', columns, rows, context.repeating);
+        return new Uint8Array(await workbook.xlsx.writeBuffer() as ArrayBuffer);
+    }
+});
+registerExportFormat({
+    id: 'csv',
+    label: 'CSV',
+    extension: 'csv',
+    write: (columns, rows, context) => formatCsv(columns, flat(columns, rows, context))
+});
+registerExportFormat({
+    id: 'tsv',
+    label: 'TSV',
+    extension: 'tsv',
+    write: (columns, rows, context) => formatTsv(columns, flat(columns, rows, context))
+});
+registerExportFormat({
+    id: 'markdown',
+    label: 'Markdown',
+    extension: 'md',
+    write: (columns, rows, context) => formatMarkdownTable(columns, flat(columns, rows, context))
+});
+registerExportFormat({
+    id: 'html',
+    label: 'HTML',
+    extension: 'html',
+    write: (columns, rows, context) => formatHtmlTable(columns, flat(columns, rows, context))
+});
+registerExportFormat({
+    // Repeating values stay arrays
+    id: 'json',
+    label: 'JSON',
+    extension: 'json',
+    write: (columns, rows) => JSON.stringify({
+        exportedAt: new Date().toISOString(),
+        columns: columns,
+        rowCount: rows.length,
+        rows: rows
+    }, null, 2)
+});
+registerExportFormat({
+    id: 'dql-insert',
+    label: 'DQL INSERT',
+    extension: 'dql',
+    needsTypeName: true,
+    write: (columns, rows, context) => formatDqlInsert(columns, flat(columns, rows, context), context.typeName ?? '')
+});
+registerExportFormat({
+    id: 'dql-create',
+    label: 'DQL CREATE OBJECT',
+    extension: 'dql',
+    needsTypeName: true,
+    write: (columns, rows, context) => formatDqlCreateObject(columns, rows, context.typeName ?? '')
+});
+
+/**
+ * Ask which format to export to
+ */
+export async function pickExportFormat(): Promise<ExportFormat | undefined> {
+    const picked = await vscode.window.showQuickPick(
+        getExportFormats().map(format => ({ label: format.label, description: `.${format.extension}`, format })),
+        { placeHolder: 'Export as' }
+    );
+    return picked?.format;
 }
 
 /**
- * Export data to JSON file (.json)
+ * Export data to a file in a registered format
+ *
+ * DQL formats first ask for the type or table to write to, suggesting the queried type.
+ *
+ * @param format Format or format ID; when omitted the user picks one
+ * @param typeName Type the rows were selected from
+ * @throws Error for an unknown format ID
  */
-export async function exportToJson(
+export async function exportResults(
+    format: ExportFormat | string | undefined,
     columns: string[],
-    rows: Record<string, unknown>[]
+    rows: Record<string, unknown>[],
+    typeName?: string,
+    repeating: RepeatingValueOptions = getRepeatingValueOptions()
 ): Promise<void> {
+    const exportFormat = typeof format === 'string' ? getExportFormat(format) : format ?? await pickExportFormat();
+    if (typeof format === 'string' && !exportFormat) {
+        throw new Error(`Unknown export format: ${format}`);
+    }
+    if (!exportFormat) {
+        return; // User cancelled
+    }
+
+    if (exportFormat.needsTypeName) {
+        typeName = await vscode.window.showInputBox({
+            prompt: `Type or registered table the ${exportFormat.label} statements write to`,
+            value: typeName ?? 'dm_document',
+            validateInput: value => DQL_TARGET.test(value.trim()) ? null : 'Enter a type or table name, e.g. dm_document or dm_dbo.my_table'
+        });
+        if (!typeName) {
+            return; // User cancelled
+        }
+        typeName = typeName.trim();
+    }
+
     // Show save dialog with default location
-    const defaultPath = path.join(getDefaultSaveDirectory(), 'query_results.json');
+    const defaultPath = path.join(getDefaultSaveDirectory(), `query_results.${exportFormat.extension}`);
     const uri = await vscode.window.showSaveDialog({
         defaultUri: vscode.Uri.file(defaultPath),
         filters: {
-            'JSON Files': ['json']
+            [`${exportFormat.label} Files`]: [exportFormat.extension]
         },
-        saveLabel: 'Export to JSON'
+        saveLabel: `Export to ${exportFormat.label}`
     });
 
     if (!uri) {
         return; // User cancelled
     }
 
-    // Create JSON structure with metadata
-    const exportData = {
-        exportedAt: new Date().toISOString(),
-        columns: columns,
-        rowCount: rows.length,
-        rows: rows
+    const content = await exportFormat.write(columns, rows, { repeating, typeName });
+    await vscode.workspace.fs.writeFile(uri, typeof content === 'string' ? new TextEncoder().encode(content) : content);
+
+    vscode.window.showInformationMessage(`Exported ${rows.length} rows to ${uri.fsPath}`);
+}
+
+/**
+ * A result written to its own worksheet by exportResultSheets
+ */
+export interface ResultSheet {
+    /** Worksheet name; made valid and unique by toSheetName */
+    name: string;
+    query: string;
+    columns: string[];
+    rows: Record<string, unknown>[];
+    executionTime?: number;
+    /** True when further rows were not loaded */
+    hasMore?: boolean;
+    totalCount?: number;
+    connection?: string;
+    repository?: string;
+}
+
+const SUMMARY_SHEET = 'Summary';
+
+/**
+ * Turn a name into a valid worksheet name that is not in use yet: at most 31 characters,
+ * none of \ / ? * [ ] :, and unique ignoring case. Adds the name to `used`.
+ */
+export function toSheetName(name: string, used: Set<string>): string {
+    const base = name
+        .replace(/[\\/?*[\]:]/g, ' ')
+        .replace(/\s+/g, ' ')
+        .replace(/^'+|'+$/g, '')
+        .trim() || 'Sheet';
+    let candidate = base.slice(0, 31).trim();
+    for (let n = 2; used.has(candidate.toLowerCase()); n++) {
+        const suffix = ` (${n})`;
+        candidate = base.slice(0, 31 - suffix.length).trim() + suffix;
+    }
+    used.add(candidate.toLowerCase());
+    return candidate;
+}
+
+/**
+ * Export several results to one Excel workbook: a Summary sheet listing each result's
+ * query, row count, execution time and connection, then one worksheet per result with
+ * the date and text column handling of addResultSheet.
+ */
+export async function exportResultSheets(
+    sheets: ResultSheet[],
+    fileName: string,
+    repeating: RepeatingValueOptions = getRepeatingValueOptions()
+): Promise<void> {
+    const defaultPath = path.join(getDefaultSaveDirectory(), fileName);
+    const uri = await vscode.window.showSaveDialog({
+        defaultUri: vscode.Uri.file(defaultPath),
+        filters: {
+            'Excel Files': ['xlsx']
+        },
+        saveLabel: 'Export to Excel'
+    });
+
+    if (!uri) {
+        return; // User cancelled
+    }
+
+    const workbook = new ExcelJS.Workbook();
+    workbook.creator = 'Documentum VS Code Extension';
+    workbook.created = new Date();
+
+    const summary = workbook.addWorksheet(SUMMARY_SHEET);
+    summary.columns = [
+        { header: 'Sheet', key: 'sheet', width: 24 },
+        { header: 'Query', key: 'query', width: 60 },
+        { header: 'Rows', key: 'rows', width: 10 },
+        { header: 'Execution Time (ms)', key: 'time', width: 20 },
+        { header: 'Connection', key: 'connection', width: 20 },
+        { header: 'Repository', key: 'repository', width: 20 },
+        { header: 'Note', key: 'note', width: 40 }
+    ];
+    const headerRow = summary.getRow(1);
+    headerRow.font = { bold: true };
+    headerRow.fill = solidFill('FFE0E0E0');
+    summary.getColumn('query').alignment = { wrapText: true, vertical: 'top' };
+
+    const used = new Set([SUMMARY_SHEET.toLowerCase()]);
+    for (const sheet of sheets) {
+        const name = toSheetName(sheet.name, used);
+        addResultSheet(workbook, name, sheet.columns, sheet.rows, repeating);
+
+        const total = sheet.totalCount !== undefined ? ` of ${sheet.totalCount}` : '';
+        summary.addRow({
+            sheet: { text: name, hyperlink: `#'${name.replace(/'/g, "''")}'!A1` },
+            query: sheet.query,
+            rows: sheet.rows.length,
+            time: sheet.executionTime,
+            connection: sheet.connection,
+            repository: sheet.repository,
+            note: sheet.hasMore ? `First ${sheet.rows.length}${total} rows; more were not loaded` : undefined
+        });
+    }
+
+    const buffer = await workbook.xlsx.writeBuffer();
+    await vscode.workspace.fs.writeFile(uri, new Uint8Array(buffer as ArrayBuffer));
+
+    vscode.window.showInformationMessage(`Exported ${sheets.length} results to ${uri.fsPath}`);
+}
+
+/** Row fills for added and removed rows and changed cells of a comparison */
+const DIFF_FILLS = {
+    added: 'FFC6EFCE',
+    removed: 'FFFFC7CE',
+    changed: 'FFFFEB9C'
+};
+
+function solidFill(argb: string): ExcelJS.Fill {
+    return { type: 'pattern', pattern: 'solid', fgColor: { argb } };
+}
+
+/**
+ * Export a result comparison to Excel file (.xlsx)
+ *
+ * The Diff sheet has a Status column and the values of each row: the second result's,
+ * or the first result's for removed rows. Added and removed rows are filled green and red;
+ * changed cells are filled yellow with the first result's value in a cell note.
+ * The Summary sheet names both results and counts the rows by status.
+ * Values are written as text, with repeating attribute values joined.
+ */
+export async function exportDiffToExcel(diff: ResultDiff, labels: DiffLabels): Promise<void> {
+    const defaultPath = path.join(getDefaultSaveDirectory(), 'result_diff.xlsx');
+    const uri = await vscode.window.showSaveDialog({
+        defaultUri: vscode.Uri.file(defaultPath),
+        filters: {
+            'Excel Files': ['xlsx']
+        },
+        saveLabel: 'Export to Excel'
+    });
+
+    if (!uri) {
+        return; // User cancelled
+    }
+
+    const { separator } = getRepeatingValueOptions();
+    const text = (row: Record<string, unknown> | undefined, col: string): string => {
+        if (!row) {
+            return '';
+        }
+        const value = flattenRepeatingValues([col], [row], { mode: 'join', separator })[0][col];
+        return value === null || value === undefined ? '' : String(value);
     };
 
-    // Write JSON with pretty formatting
-    const jsonContent = JSON.stringify(exportData, null, 2);
-    const encoder = new TextEncoder();
-    await vscode.workspace.fs.writeFile(uri, encoder.encode(jsonContent));
+    const workbook = new ExcelJS.Workbook();
+    workbook.creator = 'Documentum VS Code Extension';
+    workbook.created = new Date();
 
-    vscode.window.showInformationMessage(`Exported ${rows.length} rows to ${uri.fsPath}`);
+    const summary = workbook.addWorksheet('Summary');
+    summary.columns = [{ width: 16 }, { width: 50 }];
+    summary.addRows([
+        ['First result', labels.left],
+        ['Second result', labels.right],
+        ['Key column', diff.keyColumn],
+        ['Added', diff.counts.added],
+        ['Removed', diff.counts.removed],
+        ['Changed', diff.counts.changed],
+        ['Unchanged', diff.counts.unchanged]
+    ]);
+    if (diff.duplicateKeys.length > 0) {
+        summary.addRow(['Duplicate keys', diff.duplicateKeys.join(', ')]);
+    }
+    summary.getColumn(1).font = { bold: true };
+
+    const worksheet = workbook.addWorksheet('Diff');
+    worksheet.columns = [
+        { header: 'Status', key: 'status', width: 12 },
+        ...diff.columns.map(col => ({ header: col, key: col, width: Math.max(col.length + 2, 15) }))
+    ];
+    worksheet.views = [{ state: 'frozen', ySplit: 1 }];
+
+    const headerRow = worksheet.getRow(1);
+    headerRow.font = { bold: true };
+    headerRow.fill = solidFill('FFE0E0E0');
+
+    for (const diffRow of diff.rows) {
+        const values = diffRow.right ?? diffRow.left;
+        const rowData: Record<string, unknown> = { status: diffRow.status };
+        for (const col of diff.columns) {
+            rowData[col] = text(values, col);
+        }
+        const row = worksheet.addRow(rowData);
+
+        if (diffRow.status === 'added' || diffRow.status === 'removed') {
+            row.fill = solidFill(DIFF_FILLS[diffRow.status]);
+        }
+        for (const col of diffRow.changedColumns) {
+            const cell = row.getCell(col);
+            cell.fill = solidFill(DIFF_FILLS.changed);
+            cell.note = `${labels.left}: ${text(diffRow.left, col) || 'NULL'}`;
+        }
+    }
+
+    // Text format keeps leading zeroes; widths fit the content, capped at 50 characters
+    for (let colIdx = 2; colIdx <= diff.columns.length + 1; colIdx++) {
+        const column = worksheet.getColumn(colIdx);
+        column.numFmt = '@';
+        let maxLength = String(column.header ?? '').length;
+        column.eachCell({ includeEmpty: false }, cell => {
+            maxLength = Math.max(maxLength, String(cell.value ?? '').length);
+        });
+        column.width = Math.min(maxLength + 2, 50);
+    }
+
+    const buffer = await workbook.xlsx.writeBuffer();
+    await vscode.workspace.fs.writeFile(uri, new Uint8Array(buffer as ArrayBuffer));
+
+    vscode.window.showInformationMessage(`Exported ${diff.rows.length} compared rows to ${uri.fsPath}`);
 }
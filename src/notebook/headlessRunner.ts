@@ -0,0 +1,377 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { ParseError, parse as parseJsonc, printParseErrorCode } from 'jsonc-parser';
+import { DctmBridge, BridgeSettings, DEFAULT_BRIDGE_SETTINGS } from '../dctmBridge';
+import { DocumentumConnection } from '../connectionManager';
+import { NotebookVariables } from './notebookVariables';
+import { NotebookParameter, getNotebookParameters, validateParameterValue } from './notebookParameters';
+import { NotebookCellRunner, CellBackend, CellOutputItem, CellRunStatus, createBridgeBackend } from './cellRunner';
+import {
+    RawNotebookData,
+    RawCellOutput,
+    ERROR_MIME,
+    getStopOnError,
+    parseNotebook,
+    stringifyNotebook,
+    encodeOutputItem
+} from './notebookFormat';
+
+/**
+ * Environment variables the runner reads credentials from
+ */
+export const USERNAME_ENV = 'DCTM_USERNAME';
+export const PASSWORD_ENV = 'DCTM_PASSWORD';
+
+/**
+ * Options for a headless notebook run
+ */
+export interface HeadlessRunOptions {
+    /** The .dctmbook file to run */
+    notebookPath: string;
+    /** Where to write the notebook with its outputs; defaults to notebookPath */
+    outputPath?: string;
+    /** Connection from the settings file; defaults to the notebook's bound connection */
+    connectionName?: string;
+    /** JSON settings file holding `documentum.connections` (e.g. a workspace settings.json) */
+    settingsPath: string;
+    /** Values for the notebook's declared parameters */
+    parameters: Record<string, string>;
+    username?: string;
+    password?: string;
+}
+
+/**
+ * Result of running one code cell
+ */
+export interface HeadlessCellResult {
+    /** Index of the cell in the notebook */
+    index: number;
+    language: string;
+    /** 'skipped' when the notebook stops on errors and an earlier cell failed */
+    status: CellRunStatus | 'skipped';
+    error?: string;
+}
+
+/**
+ * Thrown for problems that stop a run before any cell executes
+ * (bad arguments, unknown connection, missing credentials)
+ */
+export class HeadlessRunError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'HeadlessRunError';
+    }
+}
+
+/**
+ * The parts of the extension settings the runner uses
+ */
+interface RunnerSettings {
+    connections: DocumentumConnection[];
+    bridge: BridgeSettings;
+    pageSize: number;
+    timeoutMs: number;
+}
+
+const USAGE = `Usage: run-notebook <notebook.dctmbook> [options]
+
+Options:
+  --connection <name>    Connection to use (default: the notebook's bound connection)
+  --settings <file>      JSON file with documentum.* settings (default: .vscode/settings.json)
+  --param <name=value>   Value for a notebook parameter; repeat for each parameter
+  --output <file>        Write the notebook with outputs here instead of in place
+  --help                 Show this help
+
+Credentials are read from ${USERNAME_ENV} (defaults to the connection's username) and ${PASSWORD_ENV}.`;
+
+/**
+ * Parse command line arguments.
+ *
+ * @returns undefined when help was requested
+ * @throws HeadlessRunError for invalid arguments
+ */
+export function parseRunnerArgs(
+    argv: string[],
+    env: Record<string, string | undefined>
+): HeadlessRunOptions | undefined {
+    const options: HeadlessRunOptions = {
+        notebookPath: '',
+        settingsPath: path.join('.vscode', 'settings.json'),
+        parameters: {},
+        username: env[USERNAME_ENV] || undefined,
+        password: env[PASSWORD_ENV]
+    };
+
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        if (arg === '--help' || arg === '-h') {
+            return undefined;
+        }
+        if (!arg.startsWith('--')) {
+            if (options.notebookPath) {
+                throw new HeadlessRunError(`Unexpected argument: ${arg}`);
+            }
+            options.notebookPath = arg;
+            continue;
+        }
+
+        const value = argv[++i];
+        if (value === undefined) {
+            throw new HeadlessRunError(`Missing value for ${arg}`);
+        }
+        switch (arg) {
+            case '--connection':
+                options.connectionName = value;
+                break;
+            case '--settings':
+                options.settingsPath = value;
+                break;
+            case '--output':
+                options.outputPath = value;
+                break;
+            case '--param': {
+                const separator = value.indexOf('=');
+                if (separator <= 0) {
+                    throw new HeadlessRunError(`Expected --param name=value, got "${value}"`);
+                }
+                options.parameters[value.slice(0, separator)] = value.slice(separator + 1);
+                break;
+            }
+            default:
+                throw new HeadlessRunError(`Unknown option: ${arg}`);
+        }
+    }
+
+    if (!options.notebookPath) {
+        throw new HeadlessRunError('No notebook given');
+    }
+    return options;
+}
+
+/**
+ * Help text for the command line
+ */
+export function getRunnerUsage(): string {
+    return USAGE;
+}
+
+/**
+ * Combine the given parameter values with the declared defaults.
+ *
+ * @throws HeadlessRunError if a value is missing, invalid or not declared
+ */
+export function resolveParameterValues(
+    declared: NotebookParameter[],
+    given: Record<string, string>
+): Record<string, string> {
+    for (const name of Object.keys(given)) {
+        if (!declared.some(p => p.name === name)) {
+            throw new HeadlessRunError(`The notebook does not declare a parameter "${name}"`);
+        }
+    }
+
+    const values: Record<string, string> = {};
+    for (const parameter of declared) {
+        const value = given[parameter.name]
+            ?? (parameter.default !== undefined ? String(parameter.default) : undefined);
+        if (value === undefined) {
+            throw new HeadlessRunError(`No value for parameter "${parameter.name}"; pass --param ${parameter.name}=<value>`);
+        }
+        const problem = validateParameterValue(parameter.type, value);
+        if (problem) {
+            throw new HeadlessRunError(`Invalid value for parameter "${parameter.name}": ${problem}`);
+        }
+        values[parameter.name] = value;
+    }
+    return values;
+}
+
+/**
+ * Convert cell runner output items to the file format.
+ * Items are encoded the way VS Code's NotebookCellOutputItem.text/json/error do.
+ */
+export function toRawOutput(items: CellOutputItem[], metadata?: Record<string, unknown>): RawCellOutput {
+    const encoder = new TextEncoder();
+    return {
+        items: items.map(item => {
+            const text = typeof item.data === 'string' && item.mime !== ERROR_MIME
+                ? item.data
+                : JSON.stringify(item.data, undefined, '\t');
+            return encodeOutputItem(item.mime, encoder.encode(text));
+        }),
+        metadata
+    };
+}
+
+/**
+ * Run every code cell of a notebook in order and replace its outputs.
+ * Markdown cells are left untouched. A failing cell only stops the run when
+ * the notebook metadata sets `stopOnError`; the remaining cells are then skipped.
+ *
+ * @param notebookUri Scopes variables and parameters while the cells run
+ * @param connection Connection the backend runs on, recorded with each DQL result
+ */
+export async function runNotebookCells(
+    notebook: RawNotebookData,
+    backend: CellBackend,
+    parameterValues: Record<string, string>,
+    notebookUri: string,
+    connection?: DocumentumConnection
+): Promise<HeadlessCellResult[]> {
+    const variables = new NotebookVariables();
+    const runner = new NotebookCellRunner(variables);
+    variables.setParameters(notebookUri, getNotebookParameters(notebook.metadata), parameterValues);
+
+    const stopOnError = getStopOnError(notebook.metadata);
+    const results: HeadlessCellResult[] = [];
+    let failedCell: number | undefined;
+    for (let index = 0; index < notebook.cells.length; index++) {
+        const cell = notebook.cells[index];
+        if (cell.kind !== 'code') {
+            continue;
+        }
+        if (failedCell !== undefined) {
+            cell.outputs = [toRawOutput([{ mime: 'text/plain', data: `Skipped: cell ${failedCell + 1} failed.` }])];
+            results.push({ index, language: cell.language, status: 'skipped' });
+            continue;
+        }
+
+        const outcome = await runner.run(cell.language, cell.content, {
+            notebookUri,
+            metadata: cell.metadata,
+            backend,
+            connection
+        });
+        cell.outputs = outcome.items.length > 0 ? [toRawOutput(outcome.items, outcome.outputMetadata)] : undefined;
+        results.push({ index, language: cell.language, status: outcome.status, error: outcome.error });
+        if (stopOnError && outcome.status !== 'success') {
+            failedCell = index;
+        }
+    }
+    return results;
+}
+
+/**
+ * Run a .dctmbook file against the bridge and write the outputs back.
+ *
+ * @returns The result of each code cell
+ * @throws HeadlessRunError if the run cannot start
+ */
+export async function runNotebookFile(
+    options: HeadlessRunOptions,
+    createBridge: (settings: BridgeSettings) => DctmBridge = settings => new DctmBridge(undefined, () => settings)
+): Promise<HeadlessCellResult[]> {
+    const notebook = readNotebook(options.notebookPath);
+    const settings = readSettings(options.settingsPath);
+
+    const connectionName = options.connectionName ?? notebook.metadata?.connection;
+    if (!connectionName) {
+        throw new HeadlessRunError('The notebook is not bound to a connection; pass --connection <name>');
+    }
+    const connection = settings.connections.find(c => c.name === connectionName);
+    if (!connection) {
+        throw new HeadlessRunError(`Connection "${connectionName}" not found in ${options.settingsPath}`);
+    }
+
+    const username = options.username ?? connection.username;
+    if (!username) {
+        throw new HeadlessRunError(`No username for "${connectionName}"; set ${USERNAME_ENV}`);
+    }
+    if (options.password === undefined) {
+        throw new HeadlessRunError(`No password for "${connectionName}"; set ${PASSWORD_ENV}`);
+    }
+
+    const parameterValues = resolveParameterValues(getNotebookParameters(notebook.metadata), options.parameters);
+
+    const bridge = createBridge(settings.bridge);
+    await bridge.ensureRunning(undefined, connection.type);
+    const sessionId = await bridge.connect(
+        connection.type === 'rest'
+            ? {
+                endpoint: connection.endpoint,
+                repository: connection.repository,
+                username,
+                password: options.password
+            }
+            : {
+                docbroker: connection.docbroker || '',
+                port: connection.port || 1489,
+                repository: connection.repository,
+                username,
+                password: options.password
+            }
+    );
+
+    let results: HeadlessCellResult[];
+    try {
+        const backend = createBridgeBackend(bridge, sessionId, {
+            pageSize: settings.pageSize,
+            timeoutMs: settings.timeoutMs
+        });
+        const notebookUri = pathToFileURL(path.resolve(options.notebookPath)).toString();
+        results = await runNotebookCells(notebook, backend, parameterValues, notebookUri, connection);
+    } finally {
+        await bridge.disconnect(sessionId);
+    }
+
+    fs.writeFileSync(options.outputPath ?? options.notebookPath, stringifyNotebook(notebook));
+    return results;
+}
+
+function readNotebook(notebookPath: string): RawNotebookData {
+    let text: string;
+    try {
+        text = fs.readFileSync(notebookPath, 'utf8');
+    } catch (error) {
+        throw new HeadlessRunError(`Cannot read ${notebookPath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    try {
+        return parseNotebook(text);
+    } catch (error) {
+        throw new HeadlessRunError(`Cannot parse ${notebookPath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+/**
+ * Parse settings.json text, which VS Code allows to hold comments and trailing commas
+ *
+ * @throws Error naming the first syntax error and its offset
+ */
+export function parseSettings(text: string): Record<string, unknown> {
+    const errors: ParseError[] = [];
+    const raw = parseJsonc(text, errors, { allowTrailingComma: true, disallowComments: false });
+    if (errors.length > 0) {
+        throw new Error(`${printParseErrorCode(errors[0].error)} at offset ${errors[0].offset}`);
+    }
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+        throw new Error('Expected an object of settings');
+    }
+    return raw as Record<string, unknown>;
+}
+
+/**
+ * Read the documentum.* settings, with the same defaults as the extension
+ */
+function readSettings(settingsPath: string): RunnerSettings {
+    let raw: Record<string, unknown>;
+    try {
+        raw = parseSettings(fs.readFileSync(settingsPath, 'utf8'));
+    } catch (error) {
+        throw new HeadlessRunError(`Cannot read settings from ${settingsPath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const get = <T>(key: string, defaultValue: T): T =>
+        raw[`documentum.${key}`] !== undefined ? raw[`documentum.${key}`] as T : defaultValue;
+
+    return {
+        connections: get<DocumentumConnection[]>('connections', []),
+        bridge: {
+            host: get('bridge.host', DEFAULT_BRIDGE_SETTINGS.host),
+            port: get('bridge.port', DEFAULT_BRIDGE_SETTINGS.port),
+            restPort: get('bridge.restPort', DEFAULT_BRIDGE_SETTINGS.restPort)
+        },
+        pageSize: Math.max(0, get('query.pageSize', 500)),
+        timeoutMs: Math.max(0, get('query.timeout', 120)) * 1000
+    };
+}
@@ -2,12 +2,23 @@ import * as vscode from 'vscode';
 import { DctmNotebookSerializer } from './notebookSerializer';
 import { DctmNotebookController } from './notebookController';
 import { registerNotebookCompletions } from './notebookCompletionProvider';
-import { ConnectionManager } from '../connectionManager';
+import { ConnectionManager, ActiveConnection } from '../connectionManager';
 import { DqlExecutor } from '../dqlExecutor';
 import { ApiExecutor } from '../apiExecutor';
 import { ApiMethodReference } from '../apiMethodReference';
-import { ObjectDumpPanel } from '../objectDumpPanel';
-import { exportToExcel, exportToJson } from './exporter';
+import { ObjectDumpPanel, groupAttributes } from '../objectDumpPanel';
+import { exportResults } from './exporter';
+import { exportNotebookResults, exportNotebookReport } from './notebookExport';
+import { getNotebookParameters } from './notebookParameters';
+import { getStopOnError } from './notebookFormat';
+import { ChartSettings, getChartSettings } from './notebookChart';
+import { RESULT_ID_METADATA, RESULT_MIME } from './cellRunner';
+import { RowEdit, buildUpdateDql, getQueryType } from './resultEdits';
+import { DiffInput, diffResults, getKeyCandidates } from './resultDiff';
+import { ResultDiffPanel } from '../resultDiffPanel';
+import { ResultsPanel } from '../resultsPanel';
+import { UserCache } from '../userCache';
+import { TypeCache } from '../typeCache';
 
 export { DctmNotebookSerializer } from './notebookSerializer';
 export { DctmNotebookController } from './notebookController';
@@ -26,7 +37,9 @@ export function registerNotebook(
     connectionManager: ConnectionManager,
     dqlExecutor: DqlExecutor,
     apiExecutor: ApiExecutor,
-    apiReference?: ApiMethodReference
+    apiReference?: ApiMethodReference,
+    userCache?: UserCache,
+    typeCache?: TypeCache
 ): void {
     // Register the notebook serializer
     const serializer = new DctmNotebookSerializer();
@@ -44,7 +57,8 @@ export function registerNotebook(
     const controller = new DctmNotebookController(
         connectionManager,
         dqlExecutor,
-        apiExecutor
+        apiExecutor,
+        { userCache, typeCache }
     );
     context.subscriptions.push({
         dispose: () => controller.dispose()
@@ -56,14 +70,48 @@ export function registerNotebook(
         const message = e.message as {
             command: string;
             objectId?: string;
+            requestId?: string;
+            cursor?: string;
+            all?: boolean;
             data?: {
                 columns: string[];
                 rows: Record<string, unknown>[];
-                format: 'excel' | 'json';
+                /** Export format ID; the user picks one when omitted */
+                format?: string;
+                typeName?: string;
             };
+            resultId?: string;
+            chart?: ChartSettings | null;
+            mime?: string;
+            image?: string;
+            edits?: RowEdit[];
         };
 
-        if (message.command === 'dumpObject' && message.objectId) {
+        if (message.command === 'dumpObject' && message.objectId && message.requestId) {
+            // The row detail drawer shows the dump inline instead of opening a panel
+            try {
+                // The notebook's bound connection, else the active one
+                const connection = connectionManager.getEffectiveConnection(e.editor.notebook.uri.toString());
+                const dump = await ObjectDumpPanel.fetchDump(connectionManager, message.objectId, connection);
+                rendererMessaging.postMessage({
+                    command: 'objectDump',
+                    requestId: message.requestId,
+                    dump: {
+                        objectId: dump.objectId,
+                        objectName: dump.objectName,
+                        typeName: dump.typeName,
+                        sections: groupAttributes(dump.attributes)
+                    }
+                }, e.editor);
+            } catch (error) {
+                const errorMsg = error instanceof Error ? error.message : String(error);
+                rendererMessaging.postMessage({
+                    command: 'objectDump',
+                    requestId: message.requestId,
+                    error: errorMsg
+                }, e.editor);
+            }
+        } else if (message.command === 'dumpObject' && message.objectId) {
             const connection = connectionManager.getActiveConnection();
             if (!connection) {
                 vscode.window.showErrorMessage('Not connected to Documentum. Use "Documentum: Connect" first.');
@@ -75,13 +123,82 @@ export function registerNotebook(
                 const errorMsg = error instanceof Error ? error.message : String(error);
                 vscode.window.showErrorMessage(`Failed to dump object: ${errorMsg}`);
             }
-        } else if (message.command === 'exportData' && message.data) {
+        } else if (message.command === 'loadMoreRows' && message.cursor && message.requestId) {
+            // Reply to the requesting renderer with the next page (or all remaining rows)
+            try {
+                const result = await controller.fetchMoreRows(message.cursor, message.all === true);
+                rendererMessaging.postMessage({
+                    command: 'moreRows',
+                    requestId: message.requestId,
+                    rows: result.rows,
+                    hasMore: result.hasMore === true,
+                    cursor: result.cursor,
+                    totalCount: result.totalCount,
+                    executionTime: result.executionTime
+                }, e.editor);
+            } catch (error) {
+                const errorMsg = error instanceof Error ? error.message : String(error);
+                rendererMessaging.postMessage({
+                    command: 'moreRows',
+                    requestId: message.requestId,
+                    error: errorMsg
+                }, e.editor);
+            }
+        } else if (message.command === 'getChart' && message.resultId) {
+            const cell = findCellByResultId(e.editor.notebook, message.resultId);
+            if (cell) {
+                rendererMessaging.postMessage({
+                    command: 'chartSettings',
+                    resultId: message.resultId,
+                    chart: getChartSettings(cell.metadata) ?? null
+                }, e.editor);
+            }
+        } else if (message.command === 'saveChartSettings' && message.resultId) {
+            // Stored next to outputFormat; the next run passes it to the renderer
+            const cell = findCellByResultId(e.editor.notebook, message.resultId);
+            if (cell) {
+                const metadata: Record<string, unknown> = { ...cell.metadata };
+                if (message.chart) {
+                    metadata.chart = message.chart;
+                } else {
+                    delete metadata.chart;
+                }
+                const edit = new vscode.WorkspaceEdit();
+                edit.set(cell.notebook.uri, [vscode.NotebookEdit.updateCellMetadata(cell.index, metadata)]);
+                await vscode.workspace.applyEdit(edit);
+            }
+        } else if (message.command === 'saveChartImage' && message.resultId && message.mime && message.image) {
+            const cell = findCellByResultId(e.editor.notebook, message.resultId);
+            if (cell) {
+                const data = message.mime === 'image/png'
+                    ? new Uint8Array(Buffer.from(message.image, 'base64'))
+                    : new TextEncoder().encode(message.image);
+                controller.attachChartImage(cell, message.mime, data);
+            }
+        } else if (message.command === 'applyEdits' && message.requestId && message.edits) {
+            // The renderer has previewed the statements; confirm the whole batch once
+            const edits = message.edits;
             try {
-                if (message.data.format === 'excel') {
-                    await exportToExcel(message.data.columns, message.data.rows);
-                } else if (message.data.format === 'json') {
-                    await exportToJson(message.data.columns, message.data.rows);
+                const changeCount = edits.reduce((count, edit) => count + Object.keys(edit.changes).length, 0);
+                const choice = await vscode.window.showWarningMessage(
+                    `Apply ${changeCount} change(s) to ${edits.length} object(s)?`,
+                    { modal: true, detail: edits.map(buildUpdateDql).join('\n\n') },
+                    'Apply'
+                );
+                if (choice !== 'Apply') {
+                    rendererMessaging.postMessage({ command: 'editsApplied', requestId: message.requestId, cancelled: true }, e.editor);
+                    return;
                 }
+                const results = await controller.applyResultEdits(e.editor.notebook, edits);
+                rendererMessaging.postMessage({ command: 'editsApplied', requestId: message.requestId, results }, e.editor);
+            } catch (error) {
+                const errorMsg = error instanceof Error ? error.message : String(error);
+                rendererMessaging.postMessage({ command: 'editsApplied', requestId: message.requestId, error: errorMsg }, e.editor);
+            }
+        } else if (message.command === 'exportData' && message.data) {
+            try {
+                const { format, columns, rows, typeName } = message.data;
+                await exportResults(format, columns, rows, typeName);
             } catch (error) {
                 const errorMsg = error instanceof Error ? error.message : String(error);
                 vscode.window.showErrorMessage(`Export failed: ${errorMsg}`);
@@ -91,7 +208,7 @@ export function registerNotebook(
     context.subscriptions.push(messageDisposable);
 
     // Register notebook-specific commands
-    registerNotebookCommands(context, connectionManager);
+    registerNotebookCommands(context, connectionManager, controller);
 
     // Register notebook connection status bar
     registerNotebookStatusBar(context, connectionManager);
@@ -102,6 +219,148 @@ export function registerNotebook(
     }
 }
 
+/**
+ * Find the cell that shows a DQL result, by the result ID in its output metadata
+ */
+function findCellByResultId(notebook: vscode.NotebookDocument, resultId: string): vscode.NotebookCell | undefined {
+    return notebook.getCells().find(cell =>
+        cell.outputs.some(output => output.metadata?.[RESULT_ID_METADATA] === resultId));
+}
+
+/**
+ * DQL result shown in a cell's output, from the result renderer or JSON output
+ */
+function getCellResult(cell: vscode.NotebookCell): (DiffInput & { hasMore: boolean }) | undefined {
+    for (const output of cell.outputs) {
+        const item = output.items.find(i => i.mime === RESULT_MIME || i.mime === 'application/json');
+        if (!item) {
+            continue;
+        }
+        try {
+            const data = JSON.parse(new TextDecoder().decode(item.data)) as Partial<DiffInput> & { hasMore?: boolean };
+            if (Array.isArray(data.columns) && Array.isArray(data.rows)) {
+                return { columns: data.columns, rows: data.rows, hasMore: data.hasMore === true };
+            }
+        } catch {
+            // Not a DQL result
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Pick two results to compare - a second cell, or the first cell's query run on
+ * another connection - and a key column, then show the differences
+ */
+async function compareResults(
+    notebook: vscode.NotebookDocument,
+    connectionManager: ConnectionManager,
+    controller: DctmNotebookController,
+    firstCell?: vscode.NotebookCell
+): Promise<void> {
+    const resultCells = notebook.getCells().filter(cell => getCellResult(cell));
+    const cellItem = (cell: vscode.NotebookCell) => ({
+        label: `Cell ${cell.index + 1}`,
+        description: cell.document.lineAt(0).text,
+        detail: `${getCellResult(cell)?.rows.length} row(s)`,
+        cell
+    });
+
+    let leftCell = firstCell && getCellResult(firstCell) ? firstCell : undefined;
+    if (!leftCell) {
+        if (resultCells.length === 0) {
+            vscode.window.showWarningMessage('No cell has a DQL result to compare. Run a DQL cell first.');
+            return;
+        }
+        leftCell = (await vscode.window.showQuickPick(resultCells.map(cellItem), {
+            placeHolder: 'Select the first result'
+        }))?.cell;
+        if (!leftCell) {
+            return;
+        }
+    }
+    const left = getCellResult(leftCell) as DiffInput & { hasMore: boolean };
+    let leftLabel = `Cell ${leftCell.index + 1}`;
+
+    // The same query can be run on any other connected repository
+    const current = connectionManager.getEffectiveConnection(notebook.uri.toString());
+    const connections = new Map<string, ActiveConnection>();
+    if (leftCell.document.languageId === 'dql') {
+        for (const connection of [
+            ...connectionManager.getLiveConnections(),
+            ...connectionManager.getAllNotebookConnections().values()
+        ]) {
+            if (connection.sessionId !== current?.sessionId) {
+                connections.set(connection.sessionId, connection);
+            }
+        }
+    }
+
+    type SecondItem = vscode.QuickPickItem & { cell?: vscode.NotebookCell; connection?: ActiveConnection };
+    const items: SecondItem[] = [
+        ...resultCells.filter(cell => cell !== leftCell).map(cellItem),
+        ...[...connections.values()].map(connection => ({
+            label: `$(database) ${leftLabel} on ${connection.config.name}`,
+            description: connection.username,
+            detail: 'Run the same query on this connection',
+            connection
+        }))
+    ];
+    if (items.length === 0) {
+        vscode.window.showWarningMessage('Nothing to compare with: run another DQL cell or connect to a second repository.');
+        return;
+    }
+    const second = await vscode.window.showQuickPick(items, {
+        placeHolder: `Compare ${leftLabel} with...`
+    });
+    if (!second) {
+        return;
+    }
+
+    let right: DiffInput & { hasMore?: boolean };
+    let rightLabel: string;
+    if (second.cell) {
+        right = getCellResult(second.cell) as DiffInput & { hasMore: boolean };
+        rightLabel = `Cell ${second.cell.index + 1}`;
+    } else if (second.connection) {
+        const connection = second.connection;
+        const cell = leftCell;
+        try {
+            right = await vscode.window.withProgress(
+                { location: vscode.ProgressLocation.Notification, title: `Running ${leftLabel} on ${connection.config.name}...` },
+                () => controller.runQueryOn(cell, connection)
+            );
+        } catch (error) {
+            const errorMsg = error instanceof Error ? error.message : String(error);
+            vscode.window.showErrorMessage(`Failed to run the query on ${connection.config.name}: ${errorMsg}`);
+            return;
+        }
+        rightLabel = `${leftLabel} on ${connection.config.name}`;
+        if (current) {
+            leftLabel += ` on ${current.config.name}`;
+        }
+    } else {
+        return;
+    }
+
+    const keys = getKeyCandidates(left, right);
+    if (keys.length === 0) {
+        vscode.window.showWarningMessage(`${leftLabel} and ${rightLabel} have no column in common to match rows by.`);
+        return;
+    }
+    const keyColumn = await vscode.window.showQuickPick(keys, {
+        placeHolder: 'Select the key column that identifies a row in both results'
+    });
+    if (!keyColumn) {
+        return;
+    }
+
+    if (left.hasMore || right.hasMore) {
+        vscode.window.showWarningMessage('Only the loaded rows are compared. Use "Load all" in the cell output to compare every row.');
+    }
+    ResultDiffPanel.createOrShow(diffResults(left, right, keyColumn), { left: leftLabel, right: rightLabel });
+}
+
 /**
  * Register status bar item for notebook connection status
  */
@@ -215,7 +474,8 @@ function registerNotebookStatusBar(
  */
 function registerNotebookCommands(
     context: vscode.ExtensionContext,
-    connectionManager: ConnectionManager
+    connectionManager: ConnectionManager,
+    controller: DctmNotebookController
 ): void {
     // Command to insert a new DQL cell
     const insertDqlCell = vscode.commands.registerCommand(
@@ -242,6 +502,31 @@ function registerNotebookCommands(
         }
     );
 
+    // Command to insert a new assertion cell
+    const insertAssertionCell = vscode.commands.registerCommand(
+        'dctm.notebook.insertAssertionCell',
+        async () => {
+            const editor = vscode.window.activeNotebookEditor;
+            if (!editor || editor.notebook.notebookType !== 'dctmbook') {
+                return;
+            }
+
+            const cell = new vscode.NotebookCellData(
+                vscode.NotebookCellKind.Code,
+                '-- Assertions on the previous DQL result\n-- Examples: expect rowCount == 0, expect r_object_id not null\nexpect rowCount > 0\n',
+                'dqlassert'
+            );
+
+            const edit = new vscode.WorkspaceEdit();
+            const cellIndex = editor.selection.end;
+            edit.set(editor.notebook.uri, [
+                vscode.NotebookEdit.insertCells(cellIndex, [cell])
+            ]);
+
+            await vscode.workspace.applyEdit(edit);
+        }
+    );
+
     // Command to insert a new API cell
     const insertApiCell = vscode.commands.registerCommand(
         'dctm.notebook.insertApiCell',
@@ -342,19 +627,24 @@ function registerNotebookCommands(
     // - No argument (prompts for object ID)
     const dumpObject = vscode.commands.registerCommand(
         'dctm.dumpObject',
-        async (arg?: string | { objectId?: string } | { data?: { objectId?: string } }) => {
+        async (arg?: string
+            | { objectId?: string; connectionName?: string }
+            | { data?: { objectId?: string; connectionName?: string } }) => {
             let objectId: string | undefined;
+            let connectionName: string | undefined;
 
-            // Extract objectId from argument
+            // Extract objectId (and owning connection, for tree nodes) from argument
             if (typeof arg === 'string') {
                 objectId = arg;
             } else if (arg && typeof arg === 'object') {
                 // Check for ObjectBrowserItem (has data.objectId)
                 if ('data' in arg && arg.data && typeof arg.data === 'object' && 'objectId' in arg.data) {
                     objectId = arg.data.objectId;
+                    connectionName = arg.data.connectionName;
                 } else if ('objectId' in arg) {
                     // Node data object with objectId directly
                     objectId = arg.objectId;
+                    connectionName = 'connectionName' in arg ? arg.connectionName : undefined;
                 }
             }
 
@@ -377,14 +667,19 @@ function registerNotebookCommands(
             }
 
             // Check connection
-            const connection = connectionManager.getActiveConnection();
+            const connection = connectionManager.getConnectionFor(connectionName);
             if (!connection) {
                 vscode.window.showErrorMessage('Not connected to Documentum. Use "Documentum: Connect" first.');
                 return;
             }
 
             try {
-                await ObjectDumpPanel.createOrShow(context.extensionUri, connectionManager, objectId);
+                await ObjectDumpPanel.createOrShow(
+                    context.extensionUri,
+                    connectionManager,
+                    objectId,
+                    connection.config.name
+                );
             } catch (error) {
                 const message = error instanceof Error ? error.message : String(error);
                 vscode.window.showErrorMessage(`Failed to dump object: ${message}`);
@@ -550,10 +845,7 @@ function registerNotebookCommands(
                 return;
             }
 
-            const password = await vscode.window.showInputBox({
-                prompt: 'Enter password',
-                password: true
-            });
+            const password = await connectionManager.getPassword(connection, username);
 
             if (!password) {
                 return;
@@ -607,15 +899,177 @@ function registerNotebookCommands(
         }
     );
 
+    // Command to (re-)enter the values of the notebook's declared parameters
+    const setParameters = vscode.commands.registerCommand(
+        'dctm.notebook.setParameters',
+        async () => {
+            const editor = vscode.window.activeNotebookEditor;
+            if (!editor || editor.notebook.notebookType !== 'dctmbook') {
+                vscode.window.showWarningMessage('No Documentum notebook is active');
+                return;
+            }
+
+            if (getNotebookParameters(editor.notebook.metadata).length === 0) {
+                vscode.window.showInformationMessage(
+                    'This notebook declares no parameters. Add them to the "parameters" list in the notebook metadata.'
+                );
+                return;
+            }
+
+            if (await controller.promptParameters(editor.notebook)) {
+                vscode.window.showInformationMessage('Notebook parameters set. Re-run cells to apply.');
+            }
+        }
+    );
+
+    // Command to toggle halting Run All at the first failed cell (stored in notebook metadata)
+    const toggleStopOnError = vscode.commands.registerCommand(
+        'dctm.notebook.toggleStopOnError',
+        async () => {
+            const editor = vscode.window.activeNotebookEditor;
+            if (!editor || editor.notebook.notebookType !== 'dctmbook') {
+                vscode.window.showWarningMessage('No Documentum notebook is active');
+                return;
+            }
+
+            const stopOnError = !getStopOnError(editor.notebook.metadata);
+            const edit = new vscode.WorkspaceEdit();
+            edit.set(editor.notebook.uri, [
+                vscode.NotebookEdit.updateNotebookMetadata({ ...editor.notebook.metadata, stopOnError })
+            ]);
+            await vscode.workspace.applyEdit(edit);
+
+            vscode.window.showInformationMessage(stopOnError
+                ? 'Run All now stops at the first failed cell and skips the rest.'
+                : 'Run All now runs every cell, even after a failure.');
+        }
+    );
+
+    // Command to run a cell after the named cells it depends on
+    const runWithDependencies = vscode.commands.registerCommand(
+        'dctm.notebook.runWithDependencies',
+        async (cell?: vscode.NotebookCell) => {
+            const editor = vscode.window.activeNotebookEditor;
+            if (!editor || editor.notebook.notebookType !== 'dctmbook') {
+                return;
+            }
+
+            // Get the cell - either passed as argument or from current selection
+            let targetCell = cell;
+            if (!targetCell && editor.selection.start < editor.notebook.cellCount) {
+                targetCell = editor.notebook.cellAt(editor.selection.start);
+            }
+            if (!targetCell || targetCell.kind !== vscode.NotebookCellKind.Code) {
+                return;
+            }
+
+            await controller.runWithDependencies(targetCell);
+        }
+    );
+
+    // Command to compare a cell's result with another cell or another connection
+    const compareResultsCommand = vscode.commands.registerCommand(
+        'dctm.notebook.compareResults',
+        async (cell?: vscode.NotebookCell) => {
+            const editor = vscode.window.activeNotebookEditor;
+            if (!editor || editor.notebook.notebookType !== 'dctmbook') {
+                return;
+            }
+
+            let firstCell = cell;
+            if (!firstCell && editor.selection.start < editor.notebook.cellCount) {
+                firstCell = editor.notebook.cellAt(editor.selection.start);
+            }
+            await compareResults(editor.notebook, connectionManager, controller, firstCell);
+        }
+    );
+
+    // Command to export the latest result: the active notebook's, otherwise the DQL Results panel's
+    const exportLastResult = vscode.commands.registerCommand(
+        'dctm.exportLastResult',
+        async () => {
+            const editor = vscode.window.activeNotebookEditor;
+            const notebookResult = editor && editor.notebook.notebookType === 'dctmbook'
+                ? controller.getLastResult(editor.notebook)
+                : undefined;
+            const panelResult = ResultsPanel.getCurrentResults();
+            const result = notebookResult ?? panelResult;
+            if (!result) {
+                vscode.window.showWarningMessage('No query result to export. Run a DQL query first.');
+                return;
+            }
+
+            try {
+                const typeName = !notebookResult && panelResult ? getQueryType(panelResult.query) : undefined;
+                await exportResults(undefined, result.columns, result.rows, typeName);
+            } catch (error) {
+                const errorMsg = error instanceof Error ? error.message : String(error);
+                vscode.window.showErrorMessage(`Export failed: ${errorMsg}`);
+            }
+        }
+    );
+
+    // Command to export every DQL result of the notebook to one workbook
+    const exportAllResults = vscode.commands.registerCommand(
+        'dctm.notebook.exportAllResults',
+        async () => {
+            const editor = vscode.window.activeNotebookEditor;
+            if (!editor || editor.notebook.notebookType !== 'dctmbook') {
+                return;
+            }
+
+            try {
+                await exportNotebookResults(editor.notebook);
+            } catch (error) {
+                const errorMsg = error instanceof Error ? error.message : String(error);
+                vscode.window.showErrorMessage(`Export failed: ${errorMsg}`);
+            }
+        }
+    );
+
+    // Command to save the notebook with its outputs as a report for readers without the extension
+    const exportReport = vscode.commands.registerCommand(
+        'dctm.notebook.exportReport',
+        async () => {
+            const editor = vscode.window.activeNotebookEditor;
+            if (!editor || editor.notebook.notebookType !== 'dctmbook') {
+                return;
+            }
+
+            const picked = await vscode.window.showQuickPick([
+                { label: 'HTML', description: 'A self-contained web page', format: 'html' as const },
+                { label: 'Markdown', description: 'GitHub-flavoured Markdown', format: 'markdown' as const }
+            ], { placeHolder: 'Export the notebook and its outputs as' });
+            if (!picked) {
+                return;
+            }
+
+            try {
+                await exportNotebookReport(editor.notebook, picked.format);
+            } catch (error) {
+                const errorMsg = error instanceof Error ? error.message : String(error);
+                vscode.window.showErrorMessage(`Export failed: ${errorMsg}`);
+            }
+        }
+    );
+
     context.subscriptions.push(
         insertDqlCell,
         insertApiCell,
+        insertAssertionCell,
         insertMarkdownCell,
         toggleOutputFormat,
         dumpObject,
         bindConnection,
         unbindConnection,
         connectNotebook,
-        disconnectNotebook
+        disconnectNotebook,
+        setParameters,
+        toggleStopOnError,
+        runWithDependencies,
+        compareResultsCommand,
+        exportLastResult,
+        exportAllResults,
+        exportReport
     );
 }
@@ -0,0 +1,289 @@
+import { PreviousResult } from './notebookVariables';
+
+/**
+ * Comparison operators for `expect rowCount <op> <n>`
+ */
+export type ComparisonOperator = '==' | '!=' | '<' | '<=' | '>' | '>=';
+
+/**
+ * One `expect ...` line of an assertion cell:
+ *
+ *   expect rowCount == 0
+ *   expect column owner_name all in ('dmadmin', 'dm_bof_registry')
+ *   expect column r_object_type none in ('dm_sysobject')
+ *   expect r_object_id not null
+ *   expect object_name unique
+ */
+export type Assertion = { text: string } & (
+    | { kind: 'rowCount'; operator: ComparisonOperator; value: number }
+    | { kind: 'in'; column: string; values: unknown[]; negated: boolean }
+    | { kind: 'notNull'; column: string }
+    | { kind: 'unique'; column: string }
+);
+
+/**
+ * Outcome of checking one assertion
+ */
+export interface AssertionResult {
+    assertion: Assertion;
+    passed: boolean;
+    /** Why the assertion failed, or a short summary when it passed */
+    message: string;
+    /** Rows that broke the assertion */
+    offendingRows: Record<string, unknown>[];
+}
+
+/**
+ * Offending rows shown per failed assertion; the rest are counted
+ */
+export const MAX_REPORTED_ROWS = 20;
+
+const ROW_COUNT = /^expect\s+row_?count\s*(==|=|!=|<>|<=|>=|<|>)\s*(\d+)$/i;
+const IN_LIST = /^expect\s+(?:column\s+)?([A-Za-z_][A-Za-z0-9_]*)\s+(all|none)\s+in\s*\((.*)\)$/i;
+const NOT_NULL = /^expect\s+(?:column\s+)?([A-Za-z_][A-Za-z0-9_]*)\s+(?:is\s+)?not\s+null$/i;
+const UNIQUE = /^expect\s+(?:column\s+)?([A-Za-z_][A-Za-z0-9_]*)\s+(?:is\s+)?unique$/i;
+
+/**
+ * Parse the source of an assertion cell.
+ * Blank lines and `--` comment lines are ignored; every other line must be an `expect`.
+ *
+ * @throws Error naming the first line that is not a valid assertion
+ */
+export function parseAssertions(source: string): Assertion[] {
+    const assertions: Assertion[] = [];
+    const lines = source.split('\n');
+
+    for (let i = 0; i < lines.length; i++) {
+        const text = lines[i].trim();
+        if (!text || text.startsWith('--')) {
+            continue;
+        }
+
+        let match = text.match(ROW_COUNT);
+        if (match) {
+            assertions.push({ text, kind: 'rowCount', operator: normalizeOperator(match[1]), value: Number(match[2]) });
+            continue;
+        }
+        match = text.match(IN_LIST);
+        if (match) {
+            assertions.push({
+                text,
+                kind: 'in',
+                column: match[1],
+                values: parseValueList(match[3], i + 1),
+                negated: match[2].toLowerCase() === 'none'
+            });
+            continue;
+        }
+        match = text.match(NOT_NULL);
+        if (match) {
+            assertions.push({ text, kind: 'notNull', column: match[1] });
+            continue;
+        }
+        match = text.match(UNIQUE);
+        if (match) {
+            assertions.push({ text, kind: 'unique', column: match[1] });
+            continue;
+        }
+
+        throw new Error(`Line ${i + 1}: not an assertion: ${text}`);
+    }
+
+    if (assertions.length === 0) {
+        throw new Error('No assertions found; write e.g. "expect rowCount == 0"');
+    }
+    return assertions;
+}
+
+function normalizeOperator(operator: string): ComparisonOperator {
+    if (operator === '=') {
+        return '==';
+    }
+    if (operator === '<>') {
+        return '!=';
+    }
+    return operator as ComparisonOperator;
+}
+
+/**
+ * Parse a DQL-style value list: 'quoted strings' (quotes doubled), numbers and NULL
+ */
+function parseValueList(list: string, line: number): unknown[] {
+    const values: unknown[] = [];
+    const item = /\s*(?:'((?:[^']|'')*)'|(-?\d+(?:\.\d+)?)|(NULL))\s*(,|$)/iy;
+    let position = 0;
+
+    while (position < list.length) {
+        item.lastIndex = position;
+        const match = item.exec(list);
+        if (!match) {
+            throw new Error(`Line ${line}: invalid value list (${list})`);
+        }
+        if (match[1] !== undefined) {
+            values.push(match[1].replace(/''/g, "'"));
+        } else if (match[2] !== undefined) {
+            values.push(Number(match[2]));
+        } else {
+            values.push(null);
+        }
+        position = item.lastIndex;
+        if (!match[4]) {
+            break;
+        }
+    }
+
+    if (values.length === 0) {
+        throw new Error(`Line ${line}: empty value list`);
+    }
+    return values;
+}
+
+/**
+ * Whether a value counts as null: no value, an empty string or an empty repeating attribute
+ */
+function isNullValue(value: unknown): boolean {
+    return value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+/**
+ * Compare a result value with a listed value; numbers and strings compare by their text
+ */
+function valuesMatch(actual: unknown, expected: unknown): boolean {
+    if (isNullValue(expected)) {
+        return isNullValue(actual);
+    }
+    return !isNullValue(actual) && String(actual) === String(expected);
+}
+
+/**
+ * Check assertions against a DQL result
+ */
+export function evaluateAssertions(assertions: Assertion[], result: PreviousResult): AssertionResult[] {
+    return assertions.map(assertion => evaluate(assertion, result));
+}
+
+function evaluate(assertion: Assertion, result: PreviousResult): AssertionResult {
+    if (assertion.kind === 'rowCount') {
+        const rowCount = result.hasMore ? result.totalCount : result.rows.length;
+        if (rowCount === undefined) {
+            return fail(assertion, `Only the first ${result.rows.length} row(s) are loaded and the total is unknown; load all rows first`);
+        }
+        const passed = compare(rowCount, assertion.operator, assertion.value);
+        return { assertion, passed, message: `rowCount is ${rowCount}`, offendingRows: [] };
+    }
+
+    const column = result.columns.find(c => c.toLowerCase() === assertion.column.toLowerCase());
+    if (!column) {
+        return fail(assertion, `Column ${assertion.column} is not in the result (${result.columns.join(', ')})`);
+    }
+    if (result.hasMore) {
+        return fail(assertion, `Only the first ${result.rows.length} row(s) are loaded; load all rows before checking a column`);
+    }
+
+    let offendingRows: Record<string, unknown>[];
+    switch (assertion.kind) {
+        case 'in':
+            offendingRows = result.rows.filter(row => {
+                // Repeating attributes are checked value by value
+                const values = Array.isArray(row[column]) ? row[column] as unknown[] : [row[column]];
+                return assertion.negated
+                    ? values.some(v => assertion.values.some(e => valuesMatch(v, e)))
+                    : !values.every(v => assertion.values.some(e => valuesMatch(v, e)));
+            });
+            break;
+        case 'notNull':
+            offendingRows = result.rows.filter(row => isNullValue(row[column]));
+            break;
+        case 'unique': {
+            const counts = new Map<string, number>();
+            for (const row of result.rows) {
+                const key = JSON.stringify(row[column] ?? null);
+                counts.set(key, (counts.get(key) ?? 0) + 1);
+            }
+            offendingRows = result.rows.filter(row => (counts.get(JSON.stringify(row[column] ?? null)) ?? 0) > 1);
+            break;
+        }
+    }
+
+    const passed = offendingRows.length === 0;
+    return {
+        assertion,
+        passed,
+        message: passed
+            ? `${result.rows.length} row(s) checked`
+            : `${offendingRows.length} of ${result.rows.length} row(s) fail`,
+        offendingRows
+    };
+}
+
+function fail(assertion: Assertion, message: string): AssertionResult {
+    return { assertion, passed: false, message, offendingRows: [] };
+}
+
+function compare(actual: number, operator: ComparisonOperator, expected: number): boolean {
+    switch (operator) {
+        case '==': return actual === expected;
+        case '!=': return actual !== expected;
+        case '<': return actual < expected;
+        case '<=': return actual <= expected;
+        case '>': return actual > expected;
+        case '>=': return actual >= expected;
+    }
+}
+
+/**
+ * Plain text report: one PASS/FAIL line per assertion
+ */
+export function formatAssertionText(results: AssertionResult[]): string {
+    return results
+        .map(r => `${r.passed ? 'PASS' : 'FAIL'} ${r.assertion.text} - ${r.message}`)
+        .join('\n');
+}
+
+/**
+ * Markdown report: one PASS/FAIL line per assertion, followed by a table
+ * of the offending rows of each failed assertion
+ *
+ * @param columns Columns of the checked result, in display order
+ */
+export function formatAssertionMarkdown(results: AssertionResult[], columns: string[]): string {
+    const failed = results.filter(r => !r.passed).length;
+    const lines = [
+        failed === 0
+            ? `**All ${results.length} assertion(s) passed**`
+            : `**${failed} of ${results.length} assertion(s) failed**`,
+        ''
+    ];
+
+    for (const result of results) {
+        lines.push(`- ${result.passed ? 'PASS' : '**FAIL**'} \`${result.assertion.text}\` - ${escapeMarkdown(result.message)}`);
+        if (result.offendingRows.length > 0) {
+            lines.push('', ...formatRowTable(result.offendingRows, columns), '');
+        }
+    }
+    return lines.join('\n').trimEnd();
+}
+
+function formatRowTable(rows: Record<string, unknown>[], columns: string[]): string[] {
+    const shown = rows.slice(0, MAX_REPORTED_ROWS);
+    const lines = [
+        `  | ${columns.map(escapeMarkdown).join(' | ')} |`,
+        `  | ${columns.map(() => '---').join(' | ')} |`,
+        ...shown.map(row => `  | ${columns.map(c => escapeMarkdown(formatCell(row[c]))).join(' | ')} |`)
+    ];
+    if (rows.length > shown.length) {
+        lines.push('', `  ...and ${rows.length - shown.length} more row(s)`);
+    }
+    return lines;
+}
+
+function formatCell(value: unknown): string {
+    if (value === null || value === undefined) {
+        return 'NULL';
+    }
+    return Array.isArray(value) ? value.map(v => String(v)).join(', ') : String(value);
+}
+
+function escapeMarkdown(text: string): string {
+    return text.replace(/([\\|*_`[\]<>])/g, '\\$1').replace(/\r?\n/g, ' ');
+}
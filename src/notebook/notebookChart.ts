@@ -0,0 +1,359 @@
+/**
+ * Charts of DQL results: settings, data points and SVG drawing.
+ *
+ * Used by the notebook renderer (in the webview) and the cell runner, so this
+ * module must not use the VS Code or DOM APIs.
+ */
+
+import { valueText } from './resultView';
+
+export type ChartType = 'bar' | 'line' | 'pie' | 'timeseries';
+
+export const CHART_TYPES: ChartType[] = ['bar', 'line', 'pie', 'timeseries'];
+
+export const CHART_LABELS: Record<ChartType, string> = {
+    bar: 'Bar',
+    line: 'Line',
+    pie: 'Pie',
+    timeseries: 'Time series'
+};
+
+/**
+ * Chart choice stored in the `chart` cell metadata
+ */
+export interface ChartSettings {
+    type: ChartType;
+    /** Column whose values label the bars, points or slices */
+    category: string;
+    /** Numeric column summed per category; undefined counts the rows per category */
+    value?: string;
+}
+
+/**
+ * One bar, point or slice
+ */
+export interface ChartPoint {
+    label: string;
+    value: number;
+    /** Time of the category, for time series */
+    time?: number;
+}
+
+/**
+ * Colours and size of a drawn chart
+ */
+export interface ChartStyle {
+    width: number;
+    height: number;
+    /** Text and axis colour */
+    foreground: string;
+    /** Grid line colour */
+    grid: string;
+    /** Fill behind the chart; transparent when not set */
+    background?: string;
+}
+
+/**
+ * Series colours (Tableau 10), chosen to stay distinguishable on light and dark themes
+ */
+const PALETTE = ['#4e79a7', '#f28e2b', '#e15759', '#76b7b2', '#59a14f', '#edc948', '#b07aa1', '#ff9da7', '#9c755f', '#bab0ac'];
+
+const MARGIN = { top: 16, right: 16, bottom: 56, left: 56 };
+const MAX_LABEL_LENGTH = 16;
+const DATE_VALUE = /^\d{4}-\d{2}-\d{2}/;
+
+/**
+ * Read chart settings from cell metadata, ignoring malformed ones
+ */
+export function getChartSettings(metadata?: { [key: string]: unknown }): ChartSettings | undefined {
+    const chart = metadata?.chart as Partial<ChartSettings> | undefined;
+    if (!chart || typeof chart !== 'object'
+        || !CHART_TYPES.includes(chart.type as ChartType)
+        || typeof chart.category !== 'string'
+        || (chart.value !== undefined && typeof chart.value !== 'string')) {
+        return undefined;
+    }
+    return { type: chart.type as ChartType, category: chart.category, value: chart.value };
+}
+
+function toNumber(value: unknown): number | undefined {
+    const first = Array.isArray(value) ? value[0] : value;
+    if (typeof first === 'number') {
+        return first;
+    }
+    if (typeof first === 'string' && first.trim() !== '') {
+        const n = Number(first);
+        return Number.isNaN(n) ? undefined : n;
+    }
+    return undefined;
+}
+
+function toTime(label: string): number | undefined {
+    if (!DATE_VALUE.test(label)) {
+        return undefined;
+    }
+    const time = Date.parse(label.replace(' ', 'T'));
+    return Number.isNaN(time) ? undefined : time;
+}
+
+/**
+ * Columns whose non-empty values are all numbers
+ */
+export function getNumericColumns(columns: string[], rows: Record<string, unknown>[]): string[] {
+    return columns.filter(col => {
+        const values = rows.map(row => row[col]).filter(v => v !== null && v !== undefined && v !== '');
+        return values.length > 0 && values.every(v => toNumber(v) !== undefined);
+    });
+}
+
+/**
+ * Pick a chart for a result: the first non-numeric column as categories and the
+ * first numeric column as values, as a time series when the categories are dates
+ */
+export function suggestChartSettings(columns: string[], rows: Record<string, unknown>[]): ChartSettings | undefined {
+    if (columns.length === 0) {
+        return undefined;
+    }
+    const numeric = getNumericColumns(columns, rows);
+    const category = columns.find(col => !numeric.includes(col)) ?? columns[0];
+    const value = numeric.find(col => col !== category);
+    const isDate = rows.length > 0 && rows.every(row => toTime(valueText(row[category])) !== undefined);
+    return { type: isDate ? 'timeseries' : 'bar', category, value };
+}
+
+/**
+ * Group rows into chart points, in order of first appearance (by time for time series).
+ * Values of the same category are summed; rows whose value is not a number are skipped.
+ */
+export function buildChartPoints(rows: Record<string, unknown>[], settings: ChartSettings): ChartPoint[] {
+    const points = new Map<string, ChartPoint>();
+    for (const row of rows) {
+        const value = settings.value === undefined ? 1 : toNumber(row[settings.value]);
+        if (value === undefined) {
+            continue;
+        }
+        const label = valueText(row[settings.category]) || '(null)';
+        const point = points.get(label);
+        if (point) {
+            point.value += value;
+        } else {
+            points.set(label, { label, value });
+        }
+    }
+
+    const result = [...points.values()];
+    if (settings.type !== 'timeseries') {
+        return result;
+    }
+    return result
+        .map(point => ({ ...point, time: toTime(point.label) }))
+        .filter((point): point is ChartPoint & { time: number } => point.time !== undefined)
+        .sort((a, b) => a.time - b.time);
+}
+
+function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+function truncate(label: string): string {
+    return label.length > MAX_LABEL_LENGTH ? `${label.slice(0, MAX_LABEL_LENGTH - 1)}…` : label;
+}
+
+function formatNumber(n: number): string {
+    const abs = Math.abs(n);
+    if (abs >= 1e9) {
+        return `${Number((n / 1e9).toPrecision(3))}B`;
+    }
+    if (abs >= 1e6) {
+        return `${Number((n / 1e6).toPrecision(3))}M`;
+    }
+    if (abs >= 1e4) {
+        return `${Number((n / 1e3).toPrecision(3))}k`;
+    }
+    return String(Number(n.toPrecision(4)));
+}
+
+function formatDate(time: number): string {
+    return new Date(time).toISOString().slice(0, 10);
+}
+
+/**
+ * Round axis ticks covering min..max (1, 2 or 5 times a power of ten apart)
+ */
+export function niceTicks(min: number, max: number, count = 5): number[] {
+    if (min === max) {
+        max = min + 1;
+    }
+    const rough = (max - min) / count;
+    const magnitude = Math.pow(10, Math.floor(Math.log10(rough)));
+    const step = [1, 2, 5, 10].map(m => m * magnitude).find(s => s >= rough) ?? 10 * magnitude;
+    // The last tick is the first one at or above max
+    const ticks: number[] = [];
+    const first = Math.floor(min / step);
+    for (let i = 0; ; i++) {
+        const tick = Number(((first + i) * step).toPrecision(12));
+        ticks.push(tick);
+        if (tick >= max) {
+            return ticks;
+        }
+    }
+}
+
+/**
+ * Draw a chart as a standalone SVG document
+ */
+export function renderChartSvg(points: ChartPoint[], settings: ChartSettings, style: ChartStyle): string {
+    const { width, height } = style;
+    const parts: string[] = [];
+    if (style.background) {
+        parts.push(`<rect width="${width}" height="${height}" fill="${style.background}"/>`);
+    }
+
+    if (points.length === 0) {
+        parts.push(text(width / 2, height / 2, 'No data to chart', style.foreground, 'middle'));
+    } else if (settings.type === 'pie') {
+        parts.push(...drawPie(points, style));
+    } else {
+        parts.push(...drawAxes(points, settings, style));
+    }
+
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" `
+        + `font-family="sans-serif" font-size="11">${parts.join('')}</svg>`;
+}
+
+function text(x: number, y: number, content: string, fill: string, anchor: 'start' | 'middle' | 'end', extra = ''): string {
+    return `<text x="${round(x)}" y="${round(y)}" fill="${fill}" text-anchor="${anchor}"${extra}>${escapeXml(content)}</text>`;
+}
+
+function round(n: number): number {
+    return Math.round(n * 10) / 10;
+}
+
+/**
+ * Bar, line and time series charts: a value axis with grid lines and a category or time axis
+ */
+function drawAxes(points: ChartPoint[], settings: ChartSettings, style: ChartStyle): string[] {
+    const parts: string[] = [];
+    const left = MARGIN.left;
+    const top = MARGIN.top;
+    const plotWidth = style.width - MARGIN.left - MARGIN.right;
+    const plotHeight = style.height - MARGIN.top - MARGIN.bottom;
+    const bottom = top + plotHeight;
+
+    const values = points.map(p => p.value);
+    const ticks = niceTicks(Math.min(0, ...values), Math.max(0, ...values));
+    const yMin = ticks[0];
+    const yMax = ticks[ticks.length - 1];
+    const y = (v: number): number => bottom - ((v - yMin) / (yMax - yMin)) * plotHeight;
+
+    for (const tick of ticks) {
+        parts.push(`<line x1="${left}" x2="${left + plotWidth}" y1="${round(y(tick))}" y2="${round(y(tick))}" stroke="${style.grid}"/>`);
+        parts.push(text(left - 6, y(tick) + 4, formatNumber(tick), style.foreground, 'end'));
+    }
+    parts.push(`<line x1="${left}" x2="${left + plotWidth}" y1="${round(y(0))}" y2="${round(y(0))}" stroke="${style.foreground}"/>`);
+
+    if (settings.type === 'timeseries') {
+        const times = points.map(p => p.time ?? 0);
+        const tMin = Math.min(...times);
+        const tMax = Math.max(...times);
+        const x = (t: number): number => tMax === tMin ? left + plotWidth / 2 : left + ((t - tMin) / (tMax - tMin)) * plotWidth;
+
+        const tickCount = Math.min(5, points.length);
+        for (let i = 0; i < tickCount; i++) {
+            const t = tickCount === 1 ? tMin : tMin + (i / (tickCount - 1)) * (tMax - tMin);
+            parts.push(text(x(t), bottom + 16, formatDate(t), style.foreground, 'middle'));
+        }
+        parts.push(drawLine(points.map(p => [x(p.time ?? 0), y(p.value)]), points, PALETTE[0]));
+        return parts;
+    }
+
+    const band = plotWidth / points.length;
+    const x = (i: number): number => left + band * i + band / 2;
+
+    // Show every label when they fit, otherwise every n-th, rotated
+    const step = Math.max(1, Math.ceil(points.length / Math.max(1, Math.floor(plotWidth / 24))));
+    const rotate = band * step < 70;
+    points.forEach((point, i) => {
+        if (i % step === 0) {
+            parts.push(rotate
+                ? text(x(i), bottom + 12, truncate(point.label), style.foreground, 'end', ` transform="rotate(-40 ${round(x(i))} ${bottom + 12})"`)
+                : text(x(i), bottom + 16, truncate(point.label), style.foreground, 'middle'));
+        }
+    });
+
+    if (settings.type === 'bar') {
+        const barWidth = Math.max(1, band * 0.7);
+        points.forEach((point, i) => {
+            const y0 = y(Math.max(0, point.value));
+            const barHeight = Math.abs(y(point.value) - y(0));
+            parts.push(`<rect x="${round(x(i) - barWidth / 2)}" y="${round(y0)}" width="${round(barWidth)}" height="${round(barHeight)}" `
+                + `fill="${PALETTE[0]}"><title>${escapeXml(`${point.label}: ${point.value}`)}</title></rect>`);
+        });
+    } else {
+        parts.push(drawLine(points.map((p, i) => [x(i), y(p.value)]), points, PALETTE[0]));
+    }
+    return parts;
+}
+
+function drawLine(coordinates: number[][], points: ChartPoint[], colour: string): string {
+    const path = coordinates.map(([x, y]) => `${round(x)},${round(y)}`).join(' ');
+    const markers = coordinates.map(([x, y], i) =>
+        `<circle cx="${round(x)}" cy="${round(y)}" r="3" fill="${colour}"><title>${escapeXml(`${points[i].label}: ${points[i].value}`)}</title></circle>`
+    ).join('');
+    return `<polyline points="${path}" fill="none" stroke="${colour}" stroke-width="2"/>${markers}`;
+}
+
+/**
+ * Pie chart with a legend; categories with zero or negative values are left out
+ */
+function drawPie(points: ChartPoint[], style: ChartStyle): string[] {
+    const slices = points.filter(p => p.value > 0);
+    const total = slices.reduce((sum, p) => sum + p.value, 0);
+    if (total === 0) {
+        return [text(style.width / 2, style.height / 2, 'No positive values to chart', style.foreground, 'middle')];
+    }
+
+    const legendWidth = Math.min(220, style.width / 2);
+    const radius = Math.max(10, Math.min(style.height, style.width - legendWidth) / 2 - MARGIN.top);
+    const cx = (style.width - legendWidth) / 2;
+    const cy = style.height / 2;
+    const parts: string[] = [];
+
+    let angle = -Math.PI / 2;
+    slices.forEach((point, i) => {
+        const colour = PALETTE[i % PALETTE.length];
+        const title = `<title>${escapeXml(`${point.label}: ${point.value}`)}</title>`;
+        if (slices.length === 1) {
+            parts.push(`<circle cx="${round(cx)}" cy="${round(cy)}" r="${round(radius)}" fill="${colour}">${title}</circle>`);
+            return;
+        }
+        const sweep = (point.value / total) * 2 * Math.PI;
+        const x1 = cx + radius * Math.cos(angle);
+        const y1 = cy + radius * Math.sin(angle);
+        angle += sweep;
+        const x2 = cx + radius * Math.cos(angle);
+        const y2 = cy + radius * Math.sin(angle);
+        const large = sweep > Math.PI ? 1 : 0;
+        parts.push(`<path d="M${round(cx)},${round(cy)} L${round(x1)},${round(y1)} A${round(radius)},${round(radius)} 0 ${large} 1 ${round(x2)},${round(y2)} Z" `
+            + `fill="${colour}" stroke="${style.background ?? 'none'}">${title}</path>`);
+    });
+
+    // Legend, as many entries as fit
+    const legendX = style.width - legendWidth + 8;
+    const fitting = Math.max(1, Math.floor((style.height - MARGIN.top) / 18));
+    const shown = slices.length > fitting ? Math.max(1, fitting - 1) : slices.length;
+    slices.slice(0, shown).forEach((point, i) => {
+        const ly = MARGIN.top + i * 18;
+        const percent = Math.round((point.value / total) * 1000) / 10;
+        parts.push(`<rect x="${round(legendX)}" y="${ly}" width="10" height="10" fill="${PALETTE[i % PALETTE.length]}"/>`);
+        parts.push(text(legendX + 16, ly + 9, `${truncate(point.label)} (${percent}%)`, style.foreground, 'start'));
+    });
+    if (slices.length > shown) {
+        parts.push(text(legendX, MARGIN.top + shown * 18 + 9, `+${slices.length - shown} more`, style.foreground, 'start'));
+    }
+    return parts;
+}
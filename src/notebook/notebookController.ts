@@ -1,7 +1,29 @@
 import * as vscode from 'vscode';
 import { ConnectionManager, ActiveConnection } from '../connectionManager';
-import { DqlExecutor, DqlResult } from '../dqlExecutor';
-import { ApiExecutor, ApiMethodRequest, ApiMethodResponse } from '../apiExecutor';
+import { DqlExecutor, DqlResult, DqlPageLoader, mergeDqlPages } from '../dqlExecutor';
+import { ApiExecutor } from '../apiExecutor';
+import { toAbortSignal } from '../cancellation';
+import { NotebookVariables, PreviousResult } from './notebookVariables';
+import {
+    NotebookCellRunner,
+    CELL_LANGUAGES,
+    CellBackend,
+    CellOutputItem,
+    CellRunOutcome,
+    CellRunStatus,
+    executeDmApi,
+    stripComments
+} from './cellRunner';
+import { ERROR_MIME, getStopOnError } from './notebookFormat';
+import { resolveRunOrder } from './cellDependencies';
+import { getNotebookParameters } from './notebookParameters';
+import { promptForParameters, ParameterPickSources } from './parameterPrompt';
+import { RowEdit, RowEditResult, buildUpdateDql, buildRefreshDql } from './resultEdits';
+
+/**
+ * Output metadata flag marking a chart image saved from the renderer
+ */
+const CHART_IMAGE_METADATA = 'chartImage';
 
 /**
  * Notebook controller for executing DQL queries and API commands
@@ -13,7 +35,7 @@ export class DctmNotebookController {
     readonly controllerId = 'dctm-notebook-controller';
     readonly notebookType = 'dctmbook';
     readonly label = 'Documentum Notebook';
-    readonly supportedLanguages = ['dql', 'dmapi'];
+    readonly supportedLanguages = CELL_LANGUAGES;
 
     private readonly controller: vscode.NotebookController;
     private executionOrder = 0;
@@ -21,15 +43,36 @@ export class DctmNotebookController {
     private connectionManager: ConnectionManager;
     private dqlExecutor: DqlExecutor;
     private apiExecutor: ApiExecutor;
+    private parameterSources: ParameterPickSources;
+
+    /**
+     * Open result cursors: Map from cursor to the cell that produced it and its page loader.
+     * Lets the renderer's "Load next rows" / "Load all" buttons continue a paged result.
+     */
+    private openCursors: Map<string, {
+        cellUri: string;
+        loadPage: DqlPageLoader;
+        notebookUri: string;
+        variable?: string;
+    }> = new Map();
+
+    /**
+     * Named cell results (`-- @name docs`) that later cells reference as `${docs...}`
+     */
+    private variables = new NotebookVariables();
+    private cellRunner = new NotebookCellRunner(this.variables);
+    private notebookCloseListener: vscode.Disposable;
 
     constructor(
         connectionManager: ConnectionManager,
         dqlExecutor: DqlExecutor,
-        apiExecutor: ApiExecutor
+        apiExecutor: ApiExecutor,
+        parameterSources: ParameterPickSources = {}
     ) {
         this.connectionManager = connectionManager;
         this.dqlExecutor = dqlExecutor;
         this.apiExecutor = apiExecutor;
+        this.parameterSources = parameterSources;
 
         this.controller = vscode.notebooks.createNotebookController(
             this.controllerId,
@@ -40,6 +83,10 @@ export class DctmNotebookController {
         this.controller.supportedLanguages = this.supportedLanguages;
         this.controller.supportsExecutionOrder = true;
         this.controller.executeHandler = this.executeHandler.bind(this);
+
+        this.notebookCloseListener = vscode.workspace.onDidCloseNotebookDocument(notebook => {
+            this.variables.clear(notebook.uri.toString());
+        });
     }
 
     /**
@@ -47,185 +94,330 @@ export class DctmNotebookController {
      */
     private async executeHandler(
         cells: vscode.NotebookCell[],
-        _notebook: vscode.NotebookDocument,
+        notebook: vscode.NotebookDocument,
         _controller: vscode.NotebookController
     ): Promise<void> {
-        for (const cell of cells) {
-            await this.executeCell(cell);
+        // Collect parameter values before Run All, or before the first run of a parameterised notebook
+        const notebookUri = notebook.uri.toString();
+        if (getNotebookParameters(notebook.metadata).length > 0
+            && (cells.length > 1 || !this.variables.getParameterValues(notebookUri))) {
+            if (!await this.promptParameters(notebook)) {
+                return;
+            }
         }
+
+        await this.executeCells(cells, getStopOnError(notebook.metadata));
     }
 
     /**
-     * Execute a single notebook cell
+     * Execute cells in order.
+     *
+     * @param stopOnError Once a cell fails or is cancelled, mark the rest as skipped instead of running them
      */
-    private async executeCell(cell: vscode.NotebookCell): Promise<void> {
-        const execution = this.controller.createNotebookCellExecution(cell);
-        execution.executionOrder = ++this.executionOrder;
-        execution.start(Date.now());
-
-        try {
-            // Get notebook URI for connection lookup
-            const notebookUri = cell.notebook.uri.toString();
-
-            // Check for notebook-bound connection first, then fall back to global
-            const connection = this.connectionManager.getEffectiveConnection(notebookUri);
-            if (!connection) {
-                // Check if notebook has a connection binding in metadata but isn't connected yet
-                const boundConnection = cell.notebook.metadata?.connection as string | undefined;
-                if (boundConnection) {
-                    execution.replaceOutput([
-                        new vscode.NotebookCellOutput([
-                            vscode.NotebookCellOutputItem.error(
-                                new Error(`Notebook is bound to "${boundConnection}" but not connected. Use "Documentum: Connect Notebook" to connect.`)
-                            )
-                        ])
-                    ]);
-                } else {
-                    execution.replaceOutput([
-                        new vscode.NotebookCellOutput([
-                            vscode.NotebookCellOutputItem.error(
-                                new Error('Not connected to Documentum. Use "Documentum: Connect" first.')
-                            )
-                        ])
-                    ]);
-                }
-                execution.end(false, Date.now());
+    private async executeCells(cells: vscode.NotebookCell[], stopOnError: boolean): Promise<void> {
+        for (let i = 0; i < cells.length; i++) {
+            const status = await this.executeCell(cells[i]);
+            if (stopOnError && status !== 'success') {
+                const reason = `Skipped: cell ${cells[i].index + 1} ${status === 'cancelled' ? 'was cancelled' : 'failed'}.`;
+                cells.slice(i + 1).forEach(cell => this.markSkipped(cell, reason));
                 return;
             }
+        }
+    }
+
+    /**
+     * Run a cell after the named cells it depends on (`-- @depends` or `dependsOn`
+     * metadata), stopping at the first prerequisite that fails.
+     */
+    async runWithDependencies(cell: vscode.NotebookCell): Promise<void> {
+        const notebook = cell.notebook;
+        const cells = notebook.getCells();
 
-            const content = cell.document.getText().trim();
-            if (!content) {
-                execution.replaceOutput([]);
-                execution.end(true, Date.now());
+        let order: number[];
+        try {
+            order = resolveRunOrder(cells.map(c => ({
+                source: c.kind === vscode.NotebookCellKind.Code ? c.document.getText() : '',
+                metadata: c.metadata
+            })), cell.index);
+        } catch (error) {
+            vscode.window.showErrorMessage(error instanceof Error ? error.message : String(error));
+            return;
+        }
+
+        if (getNotebookParameters(notebook.metadata).length > 0
+            && !this.variables.getParameterValues(notebook.uri.toString())) {
+            if (!await this.promptParameters(notebook)) {
                 return;
             }
+        }
 
-            // Get output format preference from cell metadata, default to 'html'
-            const outputFormat = (cell.metadata?.outputFormat as string) || 'html';
-
-            // Execute based on language
-            const language = cell.document.languageId;
-
-            if (language === 'dql') {
-                await this.executeDql(content, execution, outputFormat, connection);
-            } else if (language === 'dmapi') {
-                await this.executeApi(content, execution, outputFormat, connection);
-            } else {
-                execution.replaceOutput([
-                    new vscode.NotebookCellOutput([
-                        vscode.NotebookCellOutputItem.error(
-                            new Error(`Unsupported language: ${language}`)
-                        )
-                    ])
-                ]);
-                execution.end(false, Date.now());
-            }
-        } catch (error) {
-            const errorMessage = error instanceof Error ? error.message : String(error);
+        await this.executeCells(order.map(index => cells[index]), true);
+    }
+
+    /**
+     * Ask for the values of the notebook's declared parameters.
+     *
+     * @returns false if the notebook has no parameters or the user cancelled
+     */
+    async promptParameters(notebook: vscode.NotebookDocument): Promise<boolean> {
+        const parameters = getNotebookParameters(notebook.metadata);
+        if (parameters.length === 0) {
+            return false;
+        }
+
+        const notebookUri = notebook.uri.toString();
+        const values = await promptForParameters(
+            parameters,
+            this.variables.getParameterValues(notebookUri),
+            this.parameterSources
+        );
+        if (!values) {
+            return false;
+        }
+        this.variables.setParameters(notebookUri, parameters, values);
+        return true;
+    }
+
+    /**
+     * Execute a single notebook cell
+     */
+    private async executeCell(cell: vscode.NotebookCell): Promise<CellRunStatus> {
+        const execution = this.controller.createNotebookCellExecution(cell);
+        execution.executionOrder = ++this.executionOrder;
+        execution.start(Date.now());
+
+        // Cell was stopped while still queued
+        if (execution.token.isCancellationRequested) {
+            this.endCancelled(execution);
+            return 'cancelled';
+        }
+
+        // Get notebook URI for connection lookup
+        const notebookUri = cell.notebook.uri.toString();
+
+        // Check for notebook-bound connection first, then fall back to global
+        const connection = this.connectionManager.getEffectiveConnection(notebookUri);
+        if (!connection) {
+            // Check if notebook has a connection binding in metadata but isn't connected yet
+            const boundConnection = cell.notebook.metadata?.connection as string | undefined;
+            const message = boundConnection
+                ? `Notebook is bound to "${boundConnection}" but not connected. Use "Documentum: Connect Notebook" to connect.`
+                : 'Not connected to Documentum. Use "Documentum: Connect" first.';
             execution.replaceOutput([
                 new vscode.NotebookCellOutput([
-                    vscode.NotebookCellOutputItem.error(
-                        new Error(errorMessage)
-                    )
+                    vscode.NotebookCellOutputItem.error(new Error(message))
                 ])
             ]);
             execution.end(false, Date.now());
+            return 'failed';
         }
+
+        // Re-running a cell abandons the cursor of its previous result
+        const cellUri = cell.document.uri.toString();
+        this.releaseCursors(cellUri);
+
+        const abort = toAbortSignal(execution.token);
+        let outcome: CellRunOutcome;
+        try {
+            outcome = await this.cellRunner.run(cell.document.languageId, cell.document.getText(), {
+                notebookUri,
+                metadata: cell.metadata,
+                backend: this.createBackend(connection, execution.token),
+                connection: connection.config,
+                signal: abort.signal
+            });
+        } finally {
+            abort.dispose();
+        }
+
+        if (outcome.status === 'cancelled') {
+            this.endCancelled(execution);
+            return outcome.status;
+        }
+
+        const dql = outcome.dql;
+        if (dql && dql.result.hasMore && dql.result.cursor) {
+            this.openCursors.set(dql.result.cursor, {
+                cellUri,
+                loadPage: this.dqlExecutor.createPageLoader(dql.query, connection.sessionId),
+                notebookUri,
+                variable: dql.resultName
+            });
+        }
+
+        execution.replaceOutput(outcome.items.length > 0 ? [toNotebookOutput(outcome.items, outcome.outputMetadata)] : []);
+        execution.end(outcome.status === 'success', Date.now());
+        return outcome.status;
     }
 
     /**
-     * Strip comments from code.
-     * @param code The code to strip comments from
-     * @param includeBlockComments Whether to also strip block comments
+     * Route cell commands for a connection: DQL through the DqlExecutor (paging
+     * and timeout settings), object API calls through the ApiExecutor and dmAPI
+     * commands straight to the bridge session.
      */
-    private stripComments(code: string, includeBlockComments: boolean = false): string {
-        let stripped = code;
+    private createBackend(connection: ActiveConnection, token: vscode.CancellationToken): CellBackend {
+        return {
+            executeDql: query => this.dqlExecutor.executeWithSession(query, connection.sessionId, token),
+            executeDmApi: (apiType, command, signal) => executeDmApi(
+                this.connectionManager.getDctmBridge(),
+                connection.sessionId,
+                apiType,
+                command,
+                signal
+            ),
+            executeApi: (request, signal) => this.apiExecutor.execute(request, signal)
+        };
+    }
 
-        // Remove block comments (/* ... */) if requested - non-greedy match across lines
-        if (includeBlockComments) {
-            stripped = stripped.replace(/\/\*[\s\S]*?\*\//g, '');
+    /**
+     * End an execution that was stopped by the user.
+     * Shows a plain "cancelled" note instead of an error, and leaves the
+     * success state unset so the cell is neither marked passed nor failed.
+     */
+    private endCancelled(execution: vscode.NotebookCellExecution): void {
+        execution.replaceOutput([
+            new vscode.NotebookCellOutput([
+                vscode.NotebookCellOutputItem.text('Execution cancelled.', 'text/plain')
+            ])
+        ]);
+        execution.end(undefined, Date.now());
+    }
+
+    /**
+     * Show a cell as skipped: a note in place of its output and no success state
+     */
+    private markSkipped(cell: vscode.NotebookCell, reason: string): void {
+        const execution = this.controller.createNotebookCellExecution(cell);
+        execution.start(Date.now());
+        execution.replaceOutput([
+            new vscode.NotebookCellOutput([
+                vscode.NotebookCellOutputItem.text(reason, 'text/plain')
+            ])
+        ]);
+        execution.end(undefined, Date.now());
+    }
+
+    /**
+     * Add a chart image to a cell's outputs, replacing one saved before.
+     * The result output is left alone so the renderer keeps its loaded rows,
+     * and the cell keeps its previous run state.
+     */
+    attachChartImage(cell: vscode.NotebookCell, mime: string, data: Uint8Array): void {
+        const summary = cell.executionSummary;
+        const execution = this.controller.createNotebookCellExecution(cell);
+        execution.executionOrder = summary?.executionOrder;
+        execution.start(summary?.timing?.startTime ?? Date.now());
+
+        const item = new vscode.NotebookCellOutputItem(data, mime);
+        const previous = cell.outputs.find(output => output.metadata?.[CHART_IMAGE_METADATA] === true);
+        if (previous) {
+            execution.replaceOutputItems([item], previous);
+        } else {
+            execution.appendOutput(new vscode.NotebookCellOutput([item], { [CHART_IMAGE_METADATA]: true }));
         }
+        execution.end(summary?.success, summary?.timing?.endTime ?? Date.now());
+    }
 
-        // Remove line comments (-- to end of line)
-        stripped = stripped.replace(/--.*$/gm, '');
+    /**
+     * Fetch further rows of a paged cell result.
+     * Called from the renderer's "Load next rows" and "Load all" buttons.
+     *
+     * @param cursor Continuation token from the cell output
+     * @param all Fetch every remaining row instead of the next page
+     */
+    async fetchMoreRows(cursor: string, all: boolean): Promise<DqlResult> {
+        const entry = this.openCursors.get(cursor);
+        if (!entry) {
+            throw new Error('These results are no longer available. Re-run the cell to load more rows.');
+        }
 
-        // Clean up extra whitespace and empty lines
-        return stripped
-            .split('\n')
-            .map(line => line.trim())
-            .filter(line => line.length > 0)
-            .join('\n')
-            .trim();
+        const result = await entry.loadPage(cursor, all);
+        this.openCursors.delete(cursor);
+        if (entry.variable) {
+            // Keep the named result in step with the rows shown in the cell
+            this.variables.appendRows(entry.notebookUri, entry.variable, result.rows);
+        }
+        this.variables.extendPreviousResult(entry.notebookUri, cursor, {
+            rows: result.rows,
+            hasMore: result.hasMore === true,
+            cursor: result.cursor,
+            totalCount: result.totalCount
+        });
+        if (result.hasMore && result.cursor) {
+            this.openCursors.set(result.cursor, entry);
+        }
+        return result;
     }
 
     /**
-     * Execute a DQL query and render results
+     * Apply the cell edits of a result grid: one DQL UPDATE per object, then the changed
+     * attributes are selected again so the renderer can refresh the rows.
+     * Called from the renderer's "Apply" button once the user has confirmed.
      *
-     * @param query The DQL query to execute
-     * @param execution The notebook cell execution context
-     * @param outputFormat The output format preference ('html' or 'json')
-     * @param connection The active connection to use for execution
+     * @returns The outcome of each edit; a failed edit does not stop the others
      */
-    private async executeDql(
-        query: string,
-        execution: vscode.NotebookCellExecution,
-        outputFormat: string,
-        connection: ActiveConnection
-    ): Promise<void> {
-        try {
-            // Strip comments before execution (DQL supports block comments)
-            const cleanQuery = this.stripComments(query, true);
-            if (!cleanQuery) {
-                execution.replaceOutput([]);
-                execution.end(true, Date.now());
-                return;
-            }
-            // Use the session ID from the provided connection
-            const result = await this.dqlExecutor.executeWithSession(cleanQuery, connection.sessionId);
-            const output = this.formatDqlOutput(result, outputFormat);
+    async applyResultEdits(notebook: vscode.NotebookDocument, edits: RowEdit[]): Promise<RowEditResult[]> {
+        const connection = this.connectionManager.getEffectiveConnection(notebook.uri.toString());
+        if (!connection) {
+            throw new Error('Not connected to Documentum. Use "Documentum: Connect" first.');
+        }
 
-            execution.replaceOutput([output]);
-            execution.end(true, Date.now());
-        } catch (error) {
-            const errorMessage = error instanceof Error ? error.message : String(error);
-            execution.replaceOutput([
-                new vscode.NotebookCellOutput([
-                    vscode.NotebookCellOutputItem.error(
-                        new Error(`DQL Error: ${errorMessage}`)
-                    )
-                ])
-            ]);
-            execution.end(false, Date.now());
+        const results: RowEditResult[] = [];
+        for (const edit of edits) {
+            try {
+                const update = await this.dqlExecutor.executeWithSession(buildUpdateDql(edit), connection.sessionId);
+                // UPDATE reports how many objects it changed; none means the type or ID did not match
+                const updated = update.rows[0]?.objects_updated;
+                if (updated !== undefined && Number(updated) === 0) {
+                    throw new Error(`No object updated: ${edit.objectId} was not found as ${edit.typeName}`);
+                }
+                const refreshed = await this.dqlExecutor.executeWithSession(buildRefreshDql(edit), connection.sessionId);
+                results.push({ objectId: edit.objectId, success: true, values: refreshed.rows[0] });
+            } catch (error) {
+                results.push({
+                    objectId: edit.objectId,
+                    success: false,
+                    error: error instanceof Error ? error.message : String(error)
+                });
+            }
         }
+        return results;
     }
 
     /**
-     * Format DQL results as notebook output
+     * The latest DQL result of a notebook, including rows loaded since it ran
      */
-    private formatDqlOutput(result: DqlResult, outputFormat: string): vscode.NotebookCellOutput {
-        // Plain text summary
-        const text = `${result.rowCount} row(s) returned in ${result.executionTime}ms`;
+    getLastResult(notebook: vscode.NotebookDocument): PreviousResult | undefined {
+        return this.variables.getPreviousResult(notebook.uri.toString());
+    }
 
-        const resultData = {
-            columns: result.columns,
-            rows: result.rows,
-            rowCount: result.rowCount,
-            executionTime: result.executionTime
-        };
+    /**
+     * Run a DQL cell's query on a given connection and fetch every row.
+     * The cell's outputs and the notebook variables are left alone; used to
+     * compare the cell's result between repositories.
+     */
+    async runQueryOn(cell: vscode.NotebookCell, connection: ActiveConnection): Promise<DqlResult> {
+        const cleanQuery = stripComments(cell.document.getText(), true);
+        if (!cleanQuery) {
+            throw new Error('The cell has no query to run.');
+        }
 
-        // Emit output based on format preference
-        // First item in the array is the default rendered view
-        if (outputFormat === 'json') {
-            return new vscode.NotebookCellOutput([
-                vscode.NotebookCellOutputItem.json(resultData, 'application/json'),
-                vscode.NotebookCellOutputItem.text(text, 'text/plain')
-            ]);
-        } else {
-            // Use custom renderer for interactive table with object ID click support
-            return new vscode.NotebookCellOutput([
-                vscode.NotebookCellOutputItem.json(resultData, 'application/x-dctm-result'),
-                vscode.NotebookCellOutputItem.text(text, 'text/plain')
-            ]);
+        const query = this.variables.interpolate(cell.notebook.uri.toString(), cleanQuery, 'dql');
+        const result = await this.dqlExecutor.executeWithSession(query, connection.sessionId);
+        if (!result.hasMore || !result.cursor) {
+            return result;
+        }
+        return mergeDqlPages(result, await this.dqlExecutor.fetchRemaining(query, connection.sessionId, result.cursor));
+    }
+
+    /**
+     * Forget the open cursors of a cell
+     */
+    private releaseCursors(cellUri: string): void {
+        for (const [cursor, entry] of this.openCursors) {
+            if (entry.cellUri === cellUri) {
+                this.openCursors.delete(cursor);
+            }
         }
     }
 
@@ -720,168 +912,6 @@ export class DctmNotebookController {
         `;
     }
 
-    /**
-     * Execute an API command
-     *
-     * @param command The API command to execute
-     * @param execution The notebook cell execution context
-     * @param outputFormat The output format preference ('html' or 'json')
-     * @param connection The active connection to use for execution
-     */
-    private async executeApi(
-        command: string,
-        execution: vscode.NotebookCellExecution,
-        outputFormat: string,
-        connection: ActiveConnection
-    ): Promise<void> {
-        try {
-            // Strip comments before execution (dmAPI only supports line comments)
-            const cleanCommand = this.stripComments(command);
-            if (!cleanCommand) {
-                execution.replaceOutput([]);
-                execution.end(true, Date.now());
-                return;
-            }
-
-            // Check if this is a dmAPI command (dmAPIGet, dmAPIExec, dmAPISet)
-            const dmApiMatch = cleanCommand.match(/^dmAPI(Get|Exec|Set)\s*\(\s*["'](.+?)["']\s*\)$/i);
-
-            let result: ApiMethodResponse;
-
-            if (dmApiMatch) {
-                // Use the new dmAPI endpoint for server-level API calls
-                result = await this.executeDmApiCommand(
-                    dmApiMatch[1].toLowerCase() as 'get' | 'exec' | 'set',
-                    dmApiMatch[2],
-                    connection
-                );
-            } else {
-                // Use the object API endpoint for method invocations
-                const request = this.parseApiCommand(command);
-                result = await this.apiExecutor.execute(request);
-            }
-
-            const output = this.formatApiOutput(result, outputFormat);
-
-            execution.replaceOutput([output]);
-            execution.end(true, Date.now());
-        } catch (error) {
-            const errorMessage = error instanceof Error ? error.message : String(error);
-            execution.replaceOutput([
-                new vscode.NotebookCellOutput([
-                    vscode.NotebookCellOutputItem.error(
-                        new Error(`API Error: ${errorMessage}`)
-                    )
-                ])
-            ]);
-            execution.end(false, Date.now());
-        }
-    }
-
-    /**
-     * Execute a dmAPI command via the bridge's /dmapi endpoint
-     *
-     * @param apiType The type of dmAPI call: 'get', 'exec', or 'set'
-     * @param commandString The full command string from inside the quotes
-     * @param connection The active connection to use for execution
-     */
-    private async executeDmApiCommand(
-        apiType: 'get' | 'exec' | 'set',
-        commandString: string,
-        connection: ActiveConnection
-    ): Promise<ApiMethodResponse> {
-        if (!connection.sessionId) {
-            throw new Error('No active session');
-        }
-
-        const bridge = this.connectionManager.getDctmBridge();
-
-        // Check if this is a REST connection - REST doesn't support dmAPI
-        if (bridge.isRestSession(connection.sessionId)) {
-            throw new Error(
-                'dmAPI commands are not available with REST connections. ' +
-                'dmAPI requires a DFC connection to the repository.'
-            );
-        }
-
-        const result = await bridge.executeDmApi(connection.sessionId, apiType, commandString);
-
-        return {
-            result: result.result,
-            resultType: result.resultType,
-            executionTimeMs: result.executionTimeMs
-        };
-    }
-
-    /**
-     * Parse an API command string into a request object
-     *
-     * Supports simple format: method arg1 arg2
-     * (dmAPI format is handled separately in executeApi)
-     */
-    private parseApiCommand(command: string): ApiMethodRequest {
-        const trimmed = command.trim();
-
-        // Match simple format: method arg1 arg2
-        const parts = trimmed.split(/\s+/);
-        if (parts.length > 0) {
-            // Args are strings from the command line format
-            const args: unknown[] = parts.slice(1);
-            return {
-                method: parts[0],
-                args
-            };
-        }
-
-        throw new Error(`Invalid API command format: ${command}`);
-    }
-
-    /**
-     * Format API response as notebook output
-     */
-    private formatApiOutput(
-        result: ApiMethodResponse,
-        outputFormat: string
-    ): vscode.NotebookCellOutput {
-        const formattedResult = this.formatValue(result.result);
-        const text = `${result.resultType}: ${formattedResult}`;
-
-        // Emit output based on format preference
-        // First item in the array is the default rendered view
-        if (outputFormat === 'json') {
-            return new vscode.NotebookCellOutput([
-                vscode.NotebookCellOutputItem.json(result, 'application/json'),
-                vscode.NotebookCellOutputItem.text(text, 'text/plain')
-            ]);
-        } else {
-            // Default to custom renderer with clickable object IDs
-            // Use the same MIME type as DQL results so the custom renderer handles it
-            const apiResultData = {
-                type: 'api',
-                result: formattedResult,
-                resultType: result.resultType,
-                executionTimeMs: result.executionTimeMs
-            };
-            return new vscode.NotebookCellOutput([
-                vscode.NotebookCellOutputItem.json(apiResultData, 'application/x-dctm-result'),
-                vscode.NotebookCellOutputItem.text(text, 'text/plain')
-            ]);
-        }
-    }
-
-    /**
-     * Format a value for display
-     */
-    private formatValue(value: unknown): string {
-        if (value === null || value === undefined) {
-            return 'null';
-        }
-        if (typeof value === 'object') {
-            return JSON.stringify(value, null, 2);
-        }
-        return String(value);
-    }
-
     /**
      * Escape HTML special characters
      */
@@ -908,6 +938,24 @@ export class DctmNotebookController {
      * Dispose of the controller
      */
     dispose(): void {
+        this.openCursors.clear();
+        this.notebookCloseListener.dispose();
         this.controller.dispose();
     }
 }
+
+/**
+ * Convert cell runner output items to a notebook cell output
+ */
+export function toNotebookOutput(items: CellOutputItem[], metadata?: { [key: string]: unknown }): vscode.NotebookCellOutput {
+    return new vscode.NotebookCellOutput(items.map(item => {
+        if (item.mime === ERROR_MIME) {
+            const error = item.data as { message: string };
+            return vscode.NotebookCellOutputItem.error(new Error(error.message));
+        }
+        if (typeof item.data === 'string') {
+            return vscode.NotebookCellOutputItem.text(item.data, item.mime);
+        }
+        return vscode.NotebookCellOutputItem.json(item.data, item.mime);
+    }), metadata);
+}
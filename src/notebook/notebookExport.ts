@@ -0,0 +1,176 @@
+/**
+ * Exports of a whole notebook: every result to one Excel workbook, or the
+ * notebook with its outputs as an HTML or Markdown report
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { RESULT_MIME, CONNECTION_METADATA, REPOSITORY_METADATA } from './cellRunner';
+import { parseResultName } from './notebookVariables';
+import { ResultSheet, exportResultSheets, getRepeatingValueOptions } from './exporter';
+import { DctmNotebookSerializer } from './notebookSerializer';
+import { RawNotebookData } from './notebookFormat';
+import { renderHtmlReport, renderMarkdownReport } from './notebookReport';
+
+/**
+ * Text of the last heading in markdown source, without the #s
+ */
+export function getLastHeading(markdown: string): string | undefined {
+    let heading: string | undefined;
+    for (const line of markdown.split(/\r?\n/)) {
+        const match = line.match(/^ {0,3}#{1,6}\s+(.*?)(\s+#+)?\s*$/);
+        if (match && match[1]) {
+            heading = match[1];
+        }
+    }
+    return heading;
+}
+
+/**
+ * Worksheet name for a cell's result: `sheetName` in the cell metadata, else the last
+ * heading of the markdown cells right above it, else its result name, else "Cell N"
+ */
+function getSheetTitle(cell: vscode.NotebookCell): string {
+    const fromMetadata = cell.metadata?.sheetName;
+    if (typeof fromMetadata === 'string' && fromMetadata.trim() !== '') {
+        return fromMetadata;
+    }
+    for (let index = cell.index - 1; index >= 0; index--) {
+        const previous = cell.notebook.cellAt(index);
+        if (previous.kind !== vscode.NotebookCellKind.Markup) {
+            break;
+        }
+        const heading = getLastHeading(previous.document.getText());
+        if (heading) {
+            return heading;
+        }
+    }
+    return parseResultName(cell.document.getText(), cell.metadata) ?? `Cell ${cell.index + 1}`;
+}
+
+/**
+ * The DQL results shown in a notebook's cell outputs, in cell order
+ */
+export function collectResultSheets(notebook: vscode.NotebookDocument): ResultSheet[] {
+    const boundConnection = notebook.metadata?.connection as string | undefined;
+    const sheets: ResultSheet[] = [];
+    for (const cell of notebook.getCells()) {
+        if (cell.kind !== vscode.NotebookCellKind.Code) {
+            continue;
+        }
+        for (const output of cell.outputs) {
+            const item = output.items.find(i => i.mime === RESULT_MIME);
+            if (!item) {
+                continue;
+            }
+            const data = JSON.parse(new TextDecoder().decode(item.data)) as {
+                type?: string;
+                columns?: string[];
+                rows?: Record<string, unknown>[];
+                executionTime?: number;
+                hasMore?: boolean;
+                totalCount?: number;
+            };
+            // API results share the MIME type but have no table
+            if (data.type === 'api' || !Array.isArray(data.columns) || !Array.isArray(data.rows)) {
+                continue;
+            }
+            sheets.push({
+                name: getSheetTitle(cell),
+                query: cell.document.getText(),
+                columns: data.columns,
+                rows: data.rows,
+                executionTime: data.executionTime,
+                hasMore: data.hasMore,
+                totalCount: data.totalCount,
+                // Outputs saved before the connection was recorded fall back to the notebook's binding
+                connection: (output.metadata?.[CONNECTION_METADATA] as string | undefined) ?? boundConnection,
+                repository: output.metadata?.[REPOSITORY_METADATA] as string | undefined
+            });
+        }
+    }
+    return sheets;
+}
+
+/**
+ * Export every DQL result of a notebook to one workbook named after the notebook
+ */
+export async function exportNotebookResults(notebook: vscode.NotebookDocument): Promise<void> {
+    const sheets = collectResultSheets(notebook);
+    if (sheets.length === 0) {
+        vscode.window.showInformationMessage('The notebook has no DQL results to export. Run its cells first.');
+        return;
+    }
+
+    const baseName = path.basename(notebook.uri.fsPath, path.extname(notebook.uri.fsPath)) || 'notebook';
+    await exportResultSheets(sheets, `${baseName}_results.xlsx`);
+}
+
+/**
+ * The notebook as currently shown, including unsaved edits, in the file format
+ */
+function toRawNotebook(notebook: vscode.NotebookDocument): RawNotebookData {
+    const data = new vscode.NotebookData(notebook.getCells().map(cell => {
+        const cellData = new vscode.NotebookCellData(cell.kind, cell.document.getText(), cell.document.languageId);
+        cellData.metadata = cell.metadata;
+        cellData.outputs = [...cell.outputs];
+        return cellData;
+    }));
+    data.metadata = notebook.metadata;
+    return new DctmNotebookSerializer().toRawNotebook(data);
+}
+
+/**
+ * Render markdown with VS Code's built-in Markdown extension, keyed by source.
+ * Sources it cannot render are left out, so the report shows them as text.
+ */
+async function renderMarkdownSources(sources: string[]): Promise<Map<string, string>> {
+    const rendered = new Map<string, string>();
+    for (const source of new Set(sources)) {
+        try {
+            const html = await vscode.commands.executeCommand<string>('markdown.api.render', source);
+            if (typeof html === 'string') {
+                rendered.set(source, html);
+            }
+        } catch {
+            // Markdown extension disabled
+        }
+    }
+    return rendered;
+}
+
+/**
+ * Save a notebook with its stored outputs as a standalone HTML page or a Markdown file
+ */
+export async function exportNotebookReport(notebook: vscode.NotebookDocument, format: 'html' | 'markdown'): Promise<void> {
+    const raw = toRawNotebook(notebook);
+    const baseName = path.basename(notebook.uri.fsPath, path.extname(notebook.uri.fsPath)) || 'notebook';
+    const extension = format === 'html' ? 'html' : 'md';
+
+    const uri = await vscode.window.showSaveDialog({
+        defaultUri: vscode.Uri.file(path.join(path.dirname(notebook.uri.fsPath), `${baseName}.${extension}`)),
+        filters: format === 'html' ? { 'HTML Files': ['html'] } : { 'Markdown Files': ['md'] },
+        saveLabel: 'Export Report'
+    });
+    if (!uri) {
+        return; // User cancelled
+    }
+
+    const options = { title: baseName, separator: getRepeatingValueOptions().separator };
+    let content: string;
+    if (format === 'html') {
+        const markdownSources = raw.cells.flatMap(cell => cell.kind === 'markdown'
+            ? [cell.content]
+            : (cell.outputs ?? []).flatMap(output => output.items.filter(item => item.mime === 'text/markdown').map(item => item.data)));
+        const rendered = await renderMarkdownSources(markdownSources);
+        content = renderHtmlReport(raw, {
+            ...options,
+            renderMarkdown: source => rendered.get(source)
+        });
+    } else {
+        content = renderMarkdownReport(raw, options);
+    }
+    await vscode.workspace.fs.writeFile(uri, new TextEncoder().encode(content));
+
+    vscode.window.showInformationMessage(`Exported report to ${uri.fsPath}`);
+}
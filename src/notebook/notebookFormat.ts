@@ -0,0 +1,136 @@
+import { NotebookParameter } from './notebookParameters';
+
+/**
+ * The .dctmbook file format, independent of the VS Code API so that it can be
+ * read and written both by DctmNotebookSerializer and by the headless runner.
+ */
+
+/**
+ * MIME type VS Code uses for error outputs
+ */
+export const ERROR_MIME = 'application/vnd.code.notebook.error';
+
+/**
+ * One item of a cell output. Text-based MIME types are stored as UTF-8 text,
+ * binary ones (e.g. image/png) as base64.
+ */
+export interface RawOutputItem {
+    mime: string;
+    data: string;
+    encoding?: 'base64';
+}
+
+/**
+ * A cell output: alternative representations of the same result
+ */
+export interface RawCellOutput {
+    items: RawOutputItem[];
+    metadata?: Record<string, unknown>;
+}
+
+/**
+ * Cell data structure for .dctmbook file format
+ */
+export interface RawNotebookCell {
+    kind: 'code' | 'markdown';
+    language: string;
+    content: string;
+    metadata?: Record<string, unknown>;
+    outputs?: RawCellOutput[];
+}
+
+/**
+ * .dctmbook file format structure
+ */
+export interface RawNotebookData {
+    version: number;
+    cells: RawNotebookCell[];
+    metadata?: {
+        connection?: string;
+        repository?: string;
+        parameters?: NotebookParameter[];
+        /** Halt Run All at the first cell that fails */
+        stopOnError?: boolean;
+        [key: string]: unknown;
+    };
+}
+
+/**
+ * Parse the text of a .dctmbook file
+ *
+ * @throws Error if the text is not a notebook
+ */
+export function parseNotebook(text: string): RawNotebookData {
+    const raw = JSON.parse(text) as RawNotebookData;
+    if (!raw || !Array.isArray(raw.cells)) {
+        throw new Error('Not a .dctmbook notebook: missing "cells"');
+    }
+    return raw;
+}
+
+/**
+ * Write a notebook as .dctmbook text
+ */
+export function stringifyNotebook(raw: RawNotebookData): string {
+    return JSON.stringify(raw, null, 2);
+}
+
+/**
+ * Whether Run All should stop at the first failed cell
+ */
+export function getStopOnError(metadata?: { [key: string]: unknown }): boolean {
+    return metadata?.stopOnError === true;
+}
+
+/**
+ * Whether output data of a MIME type is stored as text rather than base64
+ */
+export function isTextMime(mime: string): boolean {
+    return mime.startsWith('text/')
+        || mime === 'image/svg+xml'
+        || mime === ERROR_MIME
+        || mime === 'application/json'
+        || mime.endsWith('+json')
+        || mime.startsWith('application/x-dctm-');
+}
+
+/**
+ * Leave the paging cursor out of a saved result: the bridge forgets it with the session,
+ * so after a reload the result is shown as truncated instead of offering to load more
+ */
+function withoutCursor(mime: string, text: string): string {
+    if (!(mime === 'application/json' || mime.startsWith('application/x-dctm-')) || !text.includes('"cursor"')) {
+        return text;
+    }
+    try {
+        const value = JSON.parse(text) as unknown;
+        if (!value || typeof value !== 'object' || !('cursor' in value)) {
+            return text;
+        }
+        const saved = { ...(value as Record<string, unknown>) };
+        delete saved.cursor;
+        return JSON.stringify(saved, undefined, '\t');
+    } catch {
+        return text;
+    }
+}
+
+/**
+ * Encode output bytes for the file
+ */
+export function encodeOutputItem(mime: string, data: Uint8Array): RawOutputItem {
+    if (isTextMime(mime)) {
+        return { mime, data: withoutCursor(mime, new TextDecoder().decode(data)) };
+    }
+    return { mime, data: Buffer.from(data).toString('base64'), encoding: 'base64' };
+}
+
+/**
+ * Decode output bytes from the file
+ */
+export function decodeOutputItem(item: RawOutputItem): Uint8Array {
+    if (item.encoding === 'base64') {
+        return new Uint8Array(Buffer.from(item.data, 'base64'));
+    }
+    return new TextEncoder().encode(item.data);
+}
@@ -0,0 +1,135 @@
+import { escapeDqlString } from '../dqlUtils';
+import { InterpolationTarget } from './notebookVariables';
+
+/**
+ * Supported notebook parameter types
+ */
+export const PARAMETER_TYPES = ['string', 'int', 'date', 'id', 'user', 'type'] as const;
+
+export type ParameterType = typeof PARAMETER_TYPES[number];
+
+/**
+ * A parameter declared in the notebook metadata:
+ *
+ * "metadata": {
+ *   "parameters": [
+ *     { "name": "folder", "type": "string", "default": "/Temp" },
+ *     { "name": "since", "type": "date", "default": "2024-01-01" }
+ *   ]
+ * }
+ */
+export interface NotebookParameter {
+    name: string;
+    type: ParameterType;
+    default?: string | number;
+    description?: string;
+}
+
+/**
+ * Date keywords DQL understands inside DATE(...)
+ */
+const DATE_KEYWORDS = ['NOW', 'TODAY', 'YESTERDAY', 'TOMORROW'];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DATETIME_PATTERN = /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}(:\d{2})?$/;
+const NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Read the parameter declarations from notebook metadata.
+ * Entries without a valid name are skipped; an unknown type is treated as string.
+ */
+export function getNotebookParameters(metadata?: { [key: string]: unknown }): NotebookParameter[] {
+    const declared = metadata?.parameters;
+    if (!Array.isArray(declared)) {
+        return [];
+    }
+
+    const parameters: NotebookParameter[] = [];
+    for (const entry of declared) {
+        if (!entry || typeof entry !== 'object') {
+            continue;
+        }
+        const { name, type, description } = entry as Record<string, unknown>;
+        const defaultValue = (entry as Record<string, unknown>).default;
+        if (typeof name !== 'string' || !NAME_PATTERN.test(name) || parameters.some(p => p.name === name)) {
+            continue;
+        }
+        parameters.push({
+            name,
+            type: PARAMETER_TYPES.includes(type as ParameterType) ? type as ParameterType : 'string',
+            default: typeof defaultValue === 'string' || typeof defaultValue === 'number' ? defaultValue : undefined,
+            description: typeof description === 'string' ? description : undefined
+        });
+    }
+    return parameters;
+}
+
+/**
+ * Check a value entered for a parameter.
+ *
+ * @returns An error message, or undefined if the value is valid
+ */
+export function validateParameterValue(type: ParameterType, value: string): string | undefined {
+    const trimmed = value.trim();
+    switch (type) {
+        case 'int':
+            return /^-?\d+$/.test(trimmed) ? undefined : 'Enter a whole number';
+        case 'date':
+            return DATE_KEYWORDS.includes(trimmed.toUpperCase())
+                || DATE_PATTERN.test(trimmed)
+                || DATETIME_PATTERN.test(trimmed)
+                ? undefined
+                : 'Enter a date as YYYY-MM-DD or YYYY-MM-DD HH:MM[:SS], or TODAY, NOW, YESTERDAY, TOMORROW';
+        case 'id':
+            return /^[0-9a-f]{16}$/i.test(trimmed) ? undefined : 'Object ID must be a 16-character hex string';
+        case 'type':
+            return NAME_PATTERN.test(trimmed) ? undefined : 'Enter a type name such as dm_document';
+        case 'user':
+            return trimmed ? undefined : 'Enter a user name';
+        default:
+            return /[\r\n]/.test(value) ? 'Value must be a single line' : undefined;
+    }
+}
+
+/**
+ * Write a parameter value into a cell.
+ *
+ * In DQL, strings, users and IDs become quoted literals, ints and type names
+ * are written as-is and dates become DATE(...) expressions. dmAPI cells get the
+ * raw value; commas are rejected there since they separate dmAPI arguments.
+ *
+ * @throws Error if the value is not valid for the type
+ */
+export function formatParameterValue(
+    parameter: Pick<NotebookParameter, 'name' | 'type'>,
+    value: string,
+    target: InterpolationTarget
+): string {
+    const problem = validateParameterValue(parameter.type, value);
+    if (problem) {
+        throw new Error(`Invalid value for parameter "${parameter.name}": ${problem}`);
+    }
+    const trimmed = parameter.type === 'string' ? value : value.trim();
+
+    if (target === 'dmapi') {
+        if (trimmed.includes(',')) {
+            throw new Error(`Parameter "${parameter.name}" cannot contain a comma in a dmAPI cell`);
+        }
+        return trimmed;
+    }
+
+    switch (parameter.type) {
+        case 'int':
+        case 'type':
+            return trimmed;
+        case 'date':
+            if (DATE_KEYWORDS.includes(trimmed.toUpperCase())) {
+                return `DATE(${trimmed.toUpperCase()})`;
+            }
+            return DATE_PATTERN.test(trimmed)
+                ? `DATE('${trimmed}','yyyy-mm-dd')`
+                : `DATE('${trimmed.length === 16 ? `${trimmed}:00` : trimmed}','yyyy-mm-dd hh:mi:ss')`;
+        default:
+            return `'${escapeDqlString(trimmed)}'`;
+    }
+}
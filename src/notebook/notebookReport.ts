@@ -0,0 +1,269 @@
+/**
+ * Standalone HTML and Markdown reports of a notebook.
+ *
+ * Built from the .dctmbook format (see notebookFormat.ts) and the result payloads
+ * the cells store, so that a notebook with its outputs can be read without the
+ * extension, e.g. attached to a ticket.
+ */
+
+import { RawNotebookData, RawNotebookCell, RawCellOutput, RawOutputItem, ERROR_MIME } from './notebookFormat';
+import { RESULT_MIME } from './cellRunner';
+import { flattenRepeatingValues, formatHtmlTable, formatMarkdownTable } from './exporter';
+
+export interface ReportOptions {
+    /** Heading of the report, usually the notebook's file name */
+    title: string;
+    /** Convert markdown to HTML; markdown it leaves undefined is shown as preformatted text */
+    renderMarkdown?: (markdown: string) => string | undefined;
+    /** Separator between repeating attribute values in tables */
+    separator?: string;
+    /** When the report was made; defaults to now */
+    generatedAt?: Date;
+}
+
+/**
+ * What a cell output shows in a report, from its most readable item
+ */
+type ReportOutput =
+    | { kind: 'table'; columns: string[]; rows: Record<string, unknown>[]; summary?: string }
+    | { kind: 'api'; text: string; summary?: string }
+    | { kind: 'error'; text: string }
+    | { kind: 'image'; mime: string; base64: string }
+    | { kind: 'markdown'; text: string }
+    | { kind: 'text'; text: string; language?: string };
+
+const LANGUAGE_LABELS: Record<string, string> = {
+    dql: 'DQL',
+    dmapi: 'dmAPI',
+    dqlassert: 'Assertions'
+};
+
+/** Fence languages that give cell sources syntax highlighting on GitHub */
+const FENCE_LANGUAGES: Record<string, string> = {
+    dql: 'sql'
+};
+
+function parseJson(item: RawOutputItem): unknown {
+    try {
+        return JSON.parse(item.data);
+    } catch {
+        return undefined;
+    }
+}
+
+function readOutput(output: RawCellOutput): ReportOutput | undefined {
+    const find = (mime: string) => output.items.find(item => item.mime === mime);
+    const summary = find('text/plain')?.data;
+
+    const result = find(RESULT_MIME);
+    const data = result && parseJson(result) as {
+        type?: string;
+        columns?: string[];
+        rows?: Record<string, unknown>[];
+        result?: string;
+        resultType?: string;
+    } | undefined;
+    if (data && data.type === 'api') {
+        return { kind: 'api', text: data.result ?? '', summary: data.resultType };
+    }
+    if (data && Array.isArray(data.columns) && Array.isArray(data.rows)) {
+        return { kind: 'table', columns: data.columns, rows: data.rows, summary };
+    }
+
+    const error = find(ERROR_MIME);
+    if (error) {
+        const parsed = parseJson(error) as { name?: string; message?: string } | undefined;
+        return { kind: 'error', text: parsed?.message ?? error.data };
+    }
+
+    const image = find('image/png') ?? find('image/svg+xml');
+    if (image) {
+        const base64 = image.encoding === 'base64' ? image.data : Buffer.from(image.data).toString('base64');
+        return { kind: 'image', mime: image.mime, base64 };
+    }
+
+    const markdown = find('text/markdown');
+    if (markdown) {
+        return { kind: 'markdown', text: markdown.data };
+    }
+    const json = find('application/json');
+    if (json) {
+        const parsed = parseJson(json);
+        return { kind: 'text', text: parsed === undefined ? json.data : JSON.stringify(parsed, null, 2), language: 'json' };
+    }
+    return summary !== undefined ? { kind: 'text', text: summary } : undefined;
+}
+
+function flatRows(columns: string[], rows: Record<string, unknown>[], options: ReportOptions): Record<string, unknown>[] {
+    return flattenRepeatingValues(columns, rows, { mode: 'join', separator: options.separator ?? ', ' });
+}
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#039;');
+}
+
+function describeSource(notebook: RawNotebookData, generatedAt: Date): string[] {
+    const parts: string[] = [];
+    if (notebook.metadata?.connection) {
+        parts.push(`Connection: ${notebook.metadata.connection}`);
+    }
+    if (notebook.metadata?.repository) {
+        parts.push(`Repository: ${notebook.metadata.repository}`);
+    }
+    parts.push(`Exported ${generatedAt.toISOString().replace('T', ' ').slice(0, 19)} UTC`);
+    return parts;
+}
+
+function cellLabel(cell: RawNotebookCell, index: number): string {
+    return `${LANGUAGE_LABELS[cell.language] ?? cell.language} · Cell ${index + 1}`;
+}
+
+const REPORT_STYLE = `
+    body { font-family: -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; font-size: 14px;
+        line-height: 1.5; color: #1f2328; background: #ffffff; max-width: 1200px; margin: 0 auto; padding: 24px; }
+    header { border-bottom: 1px solid #d0d7de; margin-bottom: 24px; }
+    .meta { color: #656d76; }
+    .cell { margin: 16px 0; }
+    .cell-label { color: #656d76; font-size: 12px; margin-bottom: 4px; }
+    pre { background: #f6f8fa; border: 1px solid #d0d7de; border-radius: 6px; padding: 12px; overflow-x: auto; }
+    code, pre { font-family: ui-monospace, SFMono-Regular, Consolas, monospace; font-size: 12px; }
+    .output { margin-top: 8px; overflow-x: auto; }
+    .summary { color: #656d76; font-style: italic; margin: 4px 0; }
+    .error { border-left: 4px solid #cf222e; background: #ffebe9; padding: 8px 12px; white-space: pre-wrap; }
+    table { border-collapse: collapse; font-size: 12px; }
+    th, td { border: 1px solid #d0d7de; padding: 4px 8px; text-align: left; vertical-align: top; }
+    th { background: #f6f8fa; }
+    img { max-width: 100%; }
+    @media (prefers-color-scheme: dark) {
+        body { color: #e6edf3; background: #0d1117; }
+        header, pre, th, td { border-color: #30363d; }
+        pre, th { background: #161b22; }
+        .meta, .cell-label, .summary { color: #8d96a0; }
+        .error { background: #3c1618; }
+    }`;
+
+function markdownToHtml(markdown: string, options: ReportOptions): string {
+    return options.renderMarkdown?.(markdown) ?? `<pre>${escapeHtml(markdown)}</pre>`;
+}
+
+function outputToHtml(output: ReportOutput, options: ReportOptions): string {
+    switch (output.kind) {
+        case 'table': {
+            const summary = output.summary ? `<p class="summary">${escapeHtml(output.summary)}</p>\n` : '';
+            return summary + formatHtmlTable(output.columns, flatRows(output.columns, output.rows, options));
+        }
+        case 'api': {
+            const summary = output.summary ? `<p class="summary">${escapeHtml(output.summary)}</p>\n` : '';
+            return `${summary}<pre>${escapeHtml(output.text)}</pre>`;
+        }
+        case 'error':
+            return `<div class="error">${escapeHtml(output.text)}</div>`;
+        case 'image':
+            return `<img src="data:${output.mime};base64,${output.base64}" alt="Chart">`;
+        case 'markdown':
+            return markdownToHtml(output.text, options);
+        case 'text':
+            return `<pre>${escapeHtml(output.text)}</pre>`;
+    }
+}
+
+/**
+ * Render a notebook as one self-contained HTML page: markdown cells, each code cell's
+ * source and its stored outputs. Images are embedded as data URIs.
+ */
+export function renderHtmlReport(notebook: RawNotebookData, options: ReportOptions): string {
+    const sections = notebook.cells.map((cell, index) => {
+        if (cell.kind === 'markdown') {
+            return `<section class="cell markdown">\n${markdownToHtml(cell.content, options)}\n</section>`;
+        }
+        const outputs = (cell.outputs ?? [])
+            .map(readOutput)
+            .filter((output): output is ReportOutput => output !== undefined)
+            .map(output => `<div class="output">\n${outputToHtml(output, options)}\n</div>`);
+        return [
+            '<section class="cell code">',
+            `<div class="cell-label">${escapeHtml(cellLabel(cell, index))}</div>`,
+            `<pre class="source"><code>${escapeHtml(cell.content)}</code></pre>`,
+            ...outputs,
+            '</section>'
+        ].join('\n');
+    });
+
+    const meta = describeSource(notebook, options.generatedAt ?? new Date()).map(escapeHtml).join(' · ');
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>${escapeHtml(options.title)}</title>
+<style>${REPORT_STYLE}
+</style>
+</head>
+<body>
+<header>
+<h1>${escapeHtml(options.title)}</h1>
+<p class="meta">${meta}</p>
+</header>
+${sections.join('\n')}
+</body>
+</html>
+`;
+}
+
+/**
+ * A fenced code block, with a fence longer than any backtick run in the text
+ */
+function fence(text: string, language = ''): string {
+    const longest = Math.max(2, ...(text.match(/`+/g) ?? []).map(run => run.length));
+    const marks = '`'.repeat(longest + 1);
+    return `${marks}${language}\n${text.replace(/\n$/, '')}\n${marks}`;
+}
+
+function outputToMarkdown(output: ReportOutput, options: ReportOptions): string {
+    const summary = (text?: string) => text ? `*${text.replace(/\*/g, '\\*')}*\n\n` : '';
+    switch (output.kind) {
+        case 'table':
+            return summary(output.summary)
+                + formatMarkdownTable(output.columns, flatRows(output.columns, output.rows, options)).trimEnd();
+        case 'api':
+            return summary(output.summary) + fence(output.text);
+        case 'error':
+            return output.text.split(/\r?\n/).map((line, idx) => idx === 0 ? `> **Error:** ${line}` : `> ${line}`).join('\n');
+        case 'image':
+            return `![Chart](data:${output.mime};base64,${output.base64})`;
+        case 'markdown':
+            return output.text.trimEnd();
+        case 'text':
+            return fence(output.text, output.language);
+    }
+}
+
+/**
+ * Render a notebook as GitHub-flavoured Markdown: markdown cells as they are, code cells
+ * as fenced blocks followed by their outputs (tables as Markdown tables)
+ */
+export function renderMarkdownReport(notebook: RawNotebookData, options: ReportOptions): string {
+    const blocks = [
+        `# ${options.title}`,
+        `*${describeSource(notebook, options.generatedAt ?? new Date()).join(' · ')}*`
+    ];
+    notebook.cells.forEach((cell, index) => {
+        if (cell.kind === 'markdown') {
+            blocks.push(cell.content.trimEnd());
+            return;
+        }
+        blocks.push(`**${cellLabel(cell, index)}**`, fence(cell.content, FENCE_LANGUAGES[cell.language]));
+        for (const output of cell.outputs ?? []) {
+            const read = readOutput(output);
+            if (read) {
+                blocks.push(outputToMarkdown(read, options));
+            }
+        }
+    });
+    return blocks.filter(block => block !== '').join('\n\n') + '\n';
+}
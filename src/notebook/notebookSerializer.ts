@@ -1,26 +1,12 @@
 import * as vscode from 'vscode';
-
-/**
- * Cell data structure for .dctmbook file format
- */
-interface RawNotebookCell {
-    kind: 'code' | 'markdown';
-    language: string;
-    content: string;
-    metadata?: Record<string, unknown>;
-}
-
-/**
- * .dctmbook file format structure
- */
-interface RawNotebookData {
-    version: number;
-    cells: RawNotebookCell[];
-    metadata?: {
-        connection?: string;
-        repository?: string;
-    };
-}
+import {
+    RawNotebookData,
+    RawCellOutput,
+    parseNotebook,
+    stringifyNotebook,
+    encodeOutputItem,
+    decodeOutputItem
+} from './notebookFormat';
 
 /**
  * Serializer for .dctmbook notebook files
@@ -30,11 +16,15 @@ interface RawNotebookData {
  *   "version": 1,
  *   "cells": [
  *     { "kind": "markdown", "language": "markdown", "content": "# Title" },
- *     { "kind": "code", "language": "dql", "content": "SELECT * FROM dm_document" }
+ *     { "kind": "code", "language": "dql", "content": "SELECT * FROM dm_document",
+ *       "outputs": [{ "items": [{ "mime": "text/plain", "data": "3 row(s) returned in 12ms" }] }] }
  *   ],
  *   "metadata": {
  *     "connection": "dev-docbase",
- *     "repository": "docbase1"
+ *     "repository": "docbase1",
+ *     "parameters": [
+ *       { "name": "folder", "type": "string", "default": "/Temp" }
+ *     ]
  *   }
  * }
  */
@@ -61,7 +51,7 @@ export class DctmNotebookSerializer implements vscode.NotebookSerializer {
         }
 
         try {
-            const raw: RawNotebookData = JSON.parse(text);
+            const raw = parseNotebook(text);
             const cells = raw.cells.map(cell => {
                 const kind = cell.kind === 'markdown'
                     ? vscode.NotebookCellKind.Markup
@@ -77,6 +67,13 @@ export class DctmNotebookSerializer implements vscode.NotebookSerializer {
                     cellData.metadata = cell.metadata;
                 }
 
+                if (cell.outputs && cell.outputs.length > 0) {
+                    cellData.outputs = cell.outputs.map(output => new vscode.NotebookCellOutput(
+                        output.items.map(item => new vscode.NotebookCellOutputItem(decodeOutputItem(item), item.mime)),
+                        output.metadata
+                    ));
+                }
+
                 return cellData;
             });
 
@@ -108,26 +105,45 @@ export class DctmNotebookSerializer implements vscode.NotebookSerializer {
         data: vscode.NotebookData,
         _token: vscode.CancellationToken
     ): Promise<Uint8Array> {
-        const raw: RawNotebookData = {
+        const text = stringifyNotebook(this.toRawNotebook(data));
+        return new TextEncoder().encode(text);
+    }
+
+    /**
+     * Convert NotebookData to the file format
+     */
+    toRawNotebook(data: vscode.NotebookData): RawNotebookData {
+        return {
             version: 1,
             cells: data.cells.map(cell => ({
                 kind: cell.kind === vscode.NotebookCellKind.Markup ? 'markdown' : 'code',
                 language: cell.languageId,
                 content: cell.value,
-                metadata: cell.metadata as Record<string, unknown> | undefined
+                metadata: cell.metadata as Record<string, unknown> | undefined,
+                outputs: this.serializeOutputs(cell.outputs)
             })),
             metadata: data.metadata as RawNotebookData['metadata']
         };
+    }
 
-        const text = JSON.stringify(raw, null, 2);
-        return new TextEncoder().encode(text);
+    /**
+     * Convert cell outputs to the file format; undefined when the cell has none
+     */
+    private serializeOutputs(outputs?: vscode.NotebookCellOutput[]): RawCellOutput[] | undefined {
+        if (!outputs || outputs.length === 0) {
+            return undefined;
+        }
+        return outputs.map(output => ({
+            items: output.items.map(item => encodeOutputItem(item.mime, item.data)),
+            metadata: output.metadata
+        }));
     }
 }
 
 /**
  * Supported languages in .dctmbook cells
  */
-export const NOTEBOOK_LANGUAGES = ['dql', 'dmapi', 'markdown'];
+export const NOTEBOOK_LANGUAGES = ['dql', 'dmapi', 'dqlassert', 'markdown'];
 
 /**
  * Get display name for a language
@@ -138,6 +154,8 @@ export function getLanguageDisplayName(language: string): string {
             return 'DQL Query';
         case 'dmapi':
             return 'API Command';
+        case 'dqlassert':
+            return 'Assertions';
         case 'markdown':
             return 'Markdown';
         default:
@@ -0,0 +1,292 @@
+import { escapeDqlString } from '../dqlUtils';
+import { NotebookParameter, formatParameterValue } from './notebookParameters';
+
+/**
+ * A named cell result that later cells can reference
+ */
+export interface NotebookVariable {
+    name: string;
+    columns: string[];
+    rows: Record<string, unknown>[];
+}
+
+/**
+ * The most recent DQL result of a notebook, which assertion cells check
+ */
+export interface PreviousResult {
+    columns: string[];
+    rows: Record<string, unknown>[];
+    /** True while further rows are only on the bridge, behind `cursor` */
+    hasMore: boolean;
+    cursor?: string;
+    totalCount?: number;
+}
+
+/**
+ * How interpolated values are written into a cell:
+ * - 'dql': strings are single-quoted with quotes doubled, lists are comma-separated
+ * - 'dmapi': raw values, lists are comma-separated
+ */
+export type InterpolationTarget = 'dql' | 'dmapi';
+
+/**
+ * Column under which a dmAPI cell's scalar result is stored
+ */
+export const API_RESULT_COLUMN = 'result';
+
+/**
+ * Matches a `-- @name docs` directive on its own line
+ */
+const NAME_DIRECTIVE = /^\s*--\s*@name\s+([A-Za-z_][A-Za-z0-9_]*)\s*$/m;
+
+/**
+ * Matches `${name}`, `${name.column}`, `${name[0]}` and `${name[0].column}`;
+ * a preceding backslash (`\${...}`) leaves the text untouched.
+ */
+const REFERENCE = /(\\?)\$\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*(?:\[\s*(\d+)\s*\])?\s*(?:\.\s*([A-Za-z_][A-Za-z0-9_]*)\s*)?\}/g;
+
+/**
+ * Get the name a cell's result should be stored under.
+ * A `-- @name` directive in the cell source takes precedence over the
+ * `resultName` cell metadata.
+ *
+ * @returns The variable name, or undefined if the result is not named
+ */
+export function parseResultName(source: string, metadata?: { [key: string]: unknown }): string | undefined {
+    const match = source.match(NAME_DIRECTIVE);
+    if (match) {
+        return match[1];
+    }
+    const fromMetadata = metadata?.resultName;
+    if (typeof fromMetadata === 'string' && /^[A-Za-z_][A-Za-z0-9_]*$/.test(fromMetadata)) {
+        return fromMetadata;
+    }
+    return undefined;
+}
+
+/**
+ * Format a single value for a DQL statement.
+ * Numbers and booleans are written as-is, null as NULL and everything else
+ * as a quoted string literal.
+ */
+export function formatDqlValue(value: unknown): string {
+    if (value === null || value === undefined) {
+        return 'NULL';
+    }
+    if (typeof value === 'number' && Number.isFinite(value)) {
+        return String(value);
+    }
+    if (typeof value === 'boolean') {
+        return value ? 'TRUE' : 'FALSE';
+    }
+    return `'${escapeDqlString(String(value))}'`;
+}
+
+/**
+ * Format a list of values for the target language.
+ * Repeating attribute values (arrays) are flattened into the list.
+ *
+ * @throws Error if a dmAPI value holds a comma or line break, which would add arguments or commands
+ */
+function formatValues(values: unknown[], target: InterpolationTarget, reference: string): string {
+    const flat = values.flatMap(v => Array.isArray(v) ? v : [v]);
+    if (target === 'dmapi') {
+        return flat.map(v => {
+            const text = v === null || v === undefined ? '' : String(v);
+            if (/[,\r\n]/.test(text)) {
+                throw new Error(`${reference} has a value with a comma or line break, which cannot be used in a dmAPI cell`);
+            }
+            return text;
+        }).join(',');
+    }
+    // An empty IN-list is not valid DQL; IN (NULL) matches nothing
+    return flat.length > 0 ? flat.map(formatDqlValue).join(',') : 'NULL';
+}
+
+/**
+ * Named cell results of the notebooks in this session.
+ *
+ * Variables live in memory only: they are set when a named cell runs and are
+ * gone when the notebook is closed or VS Code restarts.
+ */
+export class NotebookVariables {
+    /**
+     * Map from notebook URI to (variable name -> variable)
+     */
+    private notebooks: Map<string, Map<string, NotebookVariable>> = new Map();
+
+    /**
+     * Map from notebook URI to the parameter values entered for it
+     */
+    private parameters: Map<string, { declared: NotebookParameter[]; values: Record<string, string> }> = new Map();
+
+    /**
+     * Map from notebook URI to its most recent DQL result
+     */
+    private previousResults: Map<string, PreviousResult> = new Map();
+
+    /**
+     * Store (or replace) a named result
+     */
+    set(notebookUri: string, variable: NotebookVariable): void {
+        let variables = this.notebooks.get(notebookUri);
+        if (!variables) {
+            variables = new Map();
+            this.notebooks.set(notebookUri, variables);
+        }
+        variables.set(variable.name, variable);
+    }
+
+    /**
+     * Append rows to an existing variable (e.g. after loading more result pages)
+     */
+    appendRows(notebookUri: string, name: string, rows: Record<string, unknown>[]): void {
+        const variable = this.get(notebookUri, name);
+        if (variable) {
+            variable.rows = [...variable.rows, ...rows];
+        }
+    }
+
+    get(notebookUri: string, name: string): NotebookVariable | undefined {
+        return this.notebooks.get(notebookUri)?.get(name);
+    }
+
+    /**
+     * List the variables of a notebook
+     */
+    list(notebookUri: string): NotebookVariable[] {
+        return Array.from(this.notebooks.get(notebookUri)?.values() || []);
+    }
+
+    /**
+     * Forget every variable of a notebook
+     */
+    clear(notebookUri: string): void {
+        this.notebooks.delete(notebookUri);
+        this.parameters.delete(notebookUri);
+        this.previousResults.delete(notebookUri);
+    }
+
+    /**
+     * Record the latest DQL result of a notebook; undefined forgets it (e.g. when the query failed)
+     */
+    setPreviousResult(notebookUri: string, result: PreviousResult | undefined): void {
+        if (result) {
+            this.previousResults.set(notebookUri, result);
+        } else {
+            this.previousResults.delete(notebookUri);
+        }
+    }
+
+    getPreviousResult(notebookUri: string): PreviousResult | undefined {
+        return this.previousResults.get(notebookUri);
+    }
+
+    /**
+     * Add a further page to the previous result if it was loaded from that result's cursor
+     */
+    extendPreviousResult(
+        notebookUri: string,
+        cursor: string,
+        page: Pick<PreviousResult, 'rows' | 'hasMore' | 'cursor' | 'totalCount'>
+    ): void {
+        const previous = this.previousResults.get(notebookUri);
+        if (!previous || previous.cursor !== cursor) {
+            return;
+        }
+        this.previousResults.set(notebookUri, {
+            columns: previous.columns,
+            rows: [...previous.rows, ...page.rows],
+            hasMore: page.hasMore,
+            cursor: page.cursor,
+            totalCount: page.totalCount ?? previous.totalCount
+        });
+    }
+
+    /**
+     * Store the values entered for a notebook's declared parameters
+     */
+    setParameters(notebookUri: string, declared: NotebookParameter[], values: Record<string, string>): void {
+        this.parameters.set(notebookUri, { declared, values: { ...values } });
+    }
+
+    /**
+     * Get the parameter values entered for a notebook, if any
+     */
+    getParameterValues(notebookUri: string): Record<string, string> | undefined {
+        return this.parameters.get(notebookUri)?.values;
+    }
+
+    /**
+     * Replace variable references in cell text.
+     *
+     * - `${docs[0].r_object_id}` - one value from row 0
+     * - `${docs.r_object_id}` - every value of the column, comma-separated for use in IN (...)
+     * - `${docs[0]}` / `${docs}` - as above, for single-column results such as dmAPI cells
+     * - `${folder}` - the value of a notebook parameter, formatted for its type
+     *
+     * @throws Error naming the reference if the variable, row or column does not exist
+     */
+    interpolate(notebookUri: string, text: string, target: InterpolationTarget): string {
+        return text.replace(REFERENCE, (match, escape: string, name: string, index?: string, column?: string) => {
+            if (escape) {
+                return match.slice(1);
+            }
+
+            if (index === undefined && column === undefined) {
+                const parameter = this.resolveParameter(notebookUri, name, target);
+                if (parameter !== undefined) {
+                    return parameter;
+                }
+            }
+
+            const variable = this.get(notebookUri, name);
+            if (!variable) {
+                throw new Error(`Unknown notebook variable "${name}" in ${match}. Run the cell that defines it first.`);
+            }
+
+            const col = column ?? this.defaultColumn(variable, match);
+            if (!variable.columns.includes(col) && !variable.rows.some(r => col in r)) {
+                throw new Error(`Variable "${name}" has no column "${col}" (${match})`);
+            }
+
+            if (index !== undefined) {
+                const row = variable.rows[Number(index)];
+                if (!row) {
+                    throw new Error(`Variable "${name}" has ${variable.rows.length} row(s); ${match} is out of range`);
+                }
+                return formatValues([row[col]], target, match);
+            }
+
+            return formatValues(variable.rows.map(r => r[col]), target, match);
+        });
+    }
+
+    /**
+     * Format a parameter value, or return undefined if `name` is not a parameter of the notebook
+     */
+    private resolveParameter(notebookUri: string, name: string, target: InterpolationTarget): string | undefined {
+        const entry = this.parameters.get(notebookUri);
+        const parameter = entry?.declared.find(p => p.name === name);
+        if (!entry || !parameter) {
+            return undefined;
+        }
+        const value = entry.values[name] ?? (parameter.default !== undefined ? String(parameter.default) : undefined);
+        if (value === undefined) {
+            throw new Error(`No value for parameter "${name}". Run All to enter the notebook parameters.`);
+        }
+        return formatParameterValue(parameter, value, target);
+    }
+
+    /**
+     * Column used when a reference does not name one - only allowed for single-column results
+     */
+    private defaultColumn(variable: NotebookVariable, reference: string): string {
+        if (variable.columns.length === 1) {
+            return variable.columns[0];
+        }
+        throw new Error(
+            `Variable "${variable.name}" has ${variable.columns.length} columns; name one, e.g. \${${variable.name}.${variable.columns[0] || 'r_object_id'}} (${reference})`
+        );
+    }
+}
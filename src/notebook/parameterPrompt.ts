@@ -0,0 +1,119 @@
+import * as vscode from 'vscode';
+import { UserCache } from '../userCache';
+import { TypeCache } from '../typeCache';
+import { NotebookParameter, validateParameterValue } from './notebookParameters';
+
+/**
+ * Sources for the user and type pick-lists
+ */
+export interface ParameterPickSources {
+    userCache?: UserCache;
+    typeCache?: TypeCache;
+}
+
+/**
+ * Ask for the value of every notebook parameter, one input step per parameter.
+ * Each step is pre-filled with the previous value or the declared default.
+ *
+ * @returns The entered values, or undefined if the user cancelled
+ */
+export async function promptForParameters(
+    parameters: NotebookParameter[],
+    previous: Record<string, string> | undefined,
+    sources: ParameterPickSources
+): Promise<Record<string, string> | undefined> {
+    const values: Record<string, string> = {};
+
+    for (let i = 0; i < parameters.length; i++) {
+        const parameter = parameters[i];
+        const initial = previous?.[parameter.name]
+            ?? (parameter.default !== undefined ? String(parameter.default) : '');
+        const title = `Notebook parameters (${i + 1}/${parameters.length}): ${parameter.name}`;
+
+        const choices = getChoices(parameter, sources);
+        const value = choices.length > 0
+            ? await pickValue(parameter, title, initial, choices)
+            : await vscode.window.showInputBox({
+                title,
+                prompt: parameter.description || `Enter a ${parameter.type} value for ${parameter.name}`,
+                value: initial,
+                ignoreFocusOut: true,
+                validateInput: input => validateParameterValue(parameter.type, input) ?? null
+            });
+
+        if (value === undefined) {
+            return undefined;
+        }
+        values[parameter.name] = value;
+    }
+
+    return values;
+}
+
+/**
+ * Pick-list entries for user and type parameters (empty when the cache has not loaded)
+ */
+function getChoices(parameter: NotebookParameter, sources: ParameterPickSources): string[] {
+    if (parameter.type === 'user' && sources.userCache?.hasData()) {
+        return sources.userCache.getUserNames();
+    }
+    if (parameter.type === 'type' && sources.typeCache?.hasData()) {
+        return sources.typeCache.getTypeNames();
+    }
+    return [];
+}
+
+/**
+ * Show a filterable pick-list that also accepts a typed value not in the list
+ */
+function pickValue(
+    parameter: NotebookParameter,
+    title: string,
+    initial: string,
+    choices: string[]
+): Promise<string | undefined> {
+    return new Promise(resolve => {
+        const quickPick = vscode.window.createQuickPick();
+        quickPick.title = title;
+        quickPick.placeholder = parameter.description
+            || (parameter.type === 'user' ? 'Select or type a user name' : 'Select or type a type name');
+        quickPick.ignoreFocusOut = true;
+
+        const sorted = [...choices].sort((a, b) => a.localeCompare(b));
+        const baseItems: vscode.QuickPickItem[] = sorted.map(label => ({
+            label,
+            description: label === initial ? 'current' : undefined
+        }));
+        quickPick.items = baseItems;
+        quickPick.activeItems = baseItems.filter(item => item.label === initial);
+
+        // Offer the typed text as an entry when it does not match a known name
+        quickPick.onDidChangeValue(text => {
+            const typed = text.trim();
+            quickPick.items = typed && !sorted.includes(typed)
+                ? [{ label: typed, description: 'use typed value' }, ...baseItems]
+                : baseItems;
+        });
+
+        let accepted = false;
+        quickPick.onDidAccept(() => {
+            const selected = quickPick.selectedItems[0]?.label ?? quickPick.value.trim();
+            const problem = selected ? validateParameterValue(parameter.type, selected) : 'Select a value';
+            if (problem) {
+                vscode.window.showWarningMessage(problem);
+                return;
+            }
+            accepted = true;
+            resolve(selected);
+            quickPick.hide();
+        });
+        quickPick.onDidHide(() => {
+            if (!accepted) {
+                resolve(undefined);
+            }
+            quickPick.dispose();
+        });
+
+        quickPick.show();
+    });
+}
@@ -5,16 +5,159 @@
  * and provides interactive features like:
  * - Clickable object IDs that open the dump panel
  * - Column sorting and resizing
+ * - Per-column filters, quick search and a column chooser
+ * - Repeating attribute values shown as indexed chips
+ * - A row detail drawer with every column in full and the object dump of the row
+ * - Cell editing in rows with an r_object_id, applied as DQL UPDATE statements
+ * - Bar, line, pie and time series charts, saved into the notebook as SVG or PNG
+ * - Virtual scrolling: only the visible rows are in the DOM, so large results stay responsive
  * - Copy functionality
+ * - Loading further pages of large results on demand
  */
 
 import type { RendererContext, OutputItem } from 'vscode-notebook-renderer';
+import {
+    createResultViewState,
+    applyResultView,
+    parseViewFilters,
+    getVisibleColumns,
+    isViewFiltered,
+    describeFilters,
+    valueText
+} from './resultView';
+import {
+    ChartSettings,
+    ChartType,
+    CHART_TYPES,
+    CHART_LABELS,
+    buildChartPoints,
+    renderChartSvg,
+    suggestChartSettings
+} from './notebookChart';
+import {
+    AttributeChange,
+    RowEdit,
+    RowEditResult,
+    isEditableColumn,
+    getValueKind,
+    parseEditedValue,
+    isValueChanged,
+    getUpdateType,
+    buildUpdateDql,
+    buildDmApiScript
+} from './resultEdits';
+
+/**
+ * Row height assumed before the first rendered row is measured
+ */
+const DEFAULT_ROW_HEIGHT = 24;
+
+/**
+ * Height of the scrollable table area
+ */
+const VIEWPORT_HEIGHT = 400;
+
+/**
+ * Rows rendered above and below the visible ones so fast scrolling does not show gaps
+ */
+const OVERSCAN_ROWS = 10;
+
+/**
+ * Delay before a typed filter or search is applied
+ */
+const FILTER_DELAY_MS = 200;
+
+/**
+ * Repeating attribute values shown in a cell before the rest are collapsed into "+N"
+ */
+const MAX_CHIPS = 3;
+
+/**
+ * Height of a chart; its width follows the output
+ */
+const CHART_HEIGHT = 320;
+
+/**
+ * Width of the row detail drawer, and the output height it needs to be usable
+ */
+const DRAWER_WIDTH = 420;
+const DRAWER_MIN_HEIGHT = 360;
 
 interface DqlResultData {
     columns: string[];
     rows: Record<string, unknown>[];
     rowCount: number;
     executionTime: number;
+    hasMore?: boolean;
+    /** Left out of saved outputs, whose rows past the first page can no longer be loaded */
+    cursor?: string;
+    totalCount?: number;
+    /** Chart the result opens as, from the cell metadata when the cell ran */
+    chart?: ChartSettings;
+    /** Identifies the result's cell to the extension host; missing in outputs saved by older versions */
+    resultId?: string;
+    /** Type in the query's FROM clause, for updating edited rows */
+    queryType?: string;
+}
+
+/**
+ * Reply from the extension host to a loadMoreRows request
+ */
+interface MoreRowsMessage {
+    command: 'moreRows';
+    requestId: string;
+    rows?: Record<string, unknown>[];
+    hasMore?: boolean;
+    cursor?: string;
+    totalCount?: number;
+    executionTime?: number;
+    error?: string;
+}
+
+/**
+ * Current chart settings of a cell, sent by the extension host in reply to getChart
+ */
+interface ChartSettingsMessage {
+    command: 'chartSettings';
+    resultId: string;
+    chart: ChartSettings | null;
+}
+
+/**
+ * Attribute of an object dump, grouped as in the Object Dump panel
+ */
+interface DumpAttribute {
+    name: string;
+    type: string;
+    value: unknown;
+    isRepeating: boolean;
+}
+
+/**
+ * Reply from the extension host to a dumpObject request from the row detail drawer
+ */
+interface ObjectDumpMessage {
+    command: 'objectDump';
+    requestId: string;
+    dump?: {
+        objectId: string;
+        objectName: string;
+        typeName: string;
+        sections: { group: string; label: string; attributes: DumpAttribute[] }[];
+    };
+    error?: string;
+}
+
+/**
+ * Reply from the extension host to an applyEdits request
+ */
+interface EditsAppliedMessage {
+    command: 'editsApplied';
+    requestId: string;
+    results?: RowEditResult[];
+    /** The user declined the confirmation */
+    cancelled?: boolean;
+    error?: string;
 }
 
 interface ApiResultData {
@@ -29,12 +172,23 @@ interface RendererMessage {
     objectId?: string;
     value?: string;
     data?: ExportData;
+    requestId?: string;
+    cursor?: string;
+    all?: boolean;
+    resultId?: string;
+    chart?: ChartSettings | null;
+    mime?: string;
+    image?: string;
+    edits?: RowEdit[];
 }
 
 interface ExportData {
     columns: string[];
     rows: Record<string, unknown>[];
-    format: 'excel' | 'json';
+    /** Export format ID (see registerExportFormat); the extension asks for one when omitted */
+    format?: string;
+    /** Queried type, suggested as the target of DQL script formats */
+    typeName?: string;
 }
 
 /**
@@ -60,20 +214,45 @@ export function activate(context: RendererContext<void>): { renderOutputItem: (o
  */
 function renderDqlResult(
     element: HTMLElement,
-    data: DqlResultData,
+    output: DqlResultData,
     context: RendererContext<void>
 ): void {
     const tableId = `dql-table-${Date.now()}`;
 
+    // Work on a copy - loaded pages are appended to the rows
+    const data: DqlResultData = { ...output, rows: [...output.rows] };
+
+    // Paging state
+    let cursor = data.cursor;
+    let hasMore = data.hasMore === true && !!cursor && !!context.onDidReceiveMessage;
+    // A partial result saved with the notebook: its cursor is gone with the session
+    const truncated = data.hasMore === true && !cursor;
+    let totalCount = data.totalCount;
+    let executionTime = data.executionTime;
+    let loading = false;
+    const pageSize = data.rows.length;
+
     // State
-    let sortColumn: number | null = null;
-    let sortDirection: 'asc' | 'desc' = 'asc';
     let selectedCell: { row: number; col: number } | null = null;
     let selectedRow: number | null = null;
+
+    // View state: sortedRows holds the filtered rows in display order, over visibleColumns
+    const viewState = createResultViewState();
+    let visibleColumns = [...data.columns];
     let sortedRows = [...data.rows];
+    let filterTimer: ReturnType<typeof setTimeout> | undefined;
+
+    // Chart shown instead of the table, if any
+    let chart = data.chart;
+    const resultId = data.resultId;
+
+    // Virtual scrolling state: only rows in renderedRange are in the DOM
+    let rowHeight = DEFAULT_ROW_HEIGHT;
+    let renderedRange = { start: -1, end: -1 };
+    const columnWidths = new Map<string, number>();
 
     // Resize state
-    let resizing: { colIdx: number; th: HTMLElement } | null = null;
+    let resizing: { column: string; th: HTMLElement } | null = null;
     let startX = 0;
     let startWidth = 0;
 
@@ -129,9 +308,89 @@ function renderDqlResult(
             cursor: pointer;
             display: inline-block;
         }
+        .dql-result-container tr.filter-row th {
+            padding: 2px 4px 4px;
+            border-bottom: 1px solid var(--vscode-panel-border);
+        }
+        .dql-result-container tr.filter-row th:hover {
+            background: transparent;
+        }
+        .dql-result-container input {
+            width: 100%;
+            box-sizing: border-box;
+            background: var(--vscode-input-background);
+            color: var(--vscode-input-foreground);
+            border: 1px solid var(--vscode-input-border, transparent);
+            padding: 2px 4px;
+            font-size: 11px;
+        }
+        .dql-result-container input:focus {
+            outline: 1px solid var(--vscode-focusBorder);
+        }
+        .dql-result-container input.invalid {
+            border-color: var(--vscode-inputValidation-errorBorder);
+        }
+        .dql-result-container .toolbar input.search {
+            width: 160px;
+        }
+        .dql-result-container .active-filters {
+            color: var(--vscode-descriptionForeground);
+            font-style: italic;
+            overflow: hidden;
+            text-overflow: ellipsis;
+            white-space: nowrap;
+            max-width: 300px;
+        }
+        .dql-result-container .column-chooser {
+            position: absolute;
+            right: 0;
+            background: var(--vscode-menu-background);
+            border: 1px solid var(--vscode-menu-border);
+            border-radius: 4px;
+            padding: 4px 0;
+            box-shadow: 0 2px 8px rgba(0,0,0,0.2);
+            z-index: 1000;
+            max-height: 300px;
+            overflow-y: auto;
+            min-width: 200px;
+        }
+        .dql-result-container .column-chooser-item {
+            display: flex;
+            align-items: center;
+            gap: 4px;
+            padding: 2px 8px;
+        }
+        .dql-result-container .column-chooser-item:hover {
+            background: var(--vscode-list-hoverBackground);
+        }
+        .dql-result-container .column-chooser-item label {
+            flex-grow: 1;
+            white-space: nowrap;
+        }
+        .dql-result-container .column-chooser-item button {
+            background: transparent;
+            color: var(--vscode-foreground);
+            border: none;
+            cursor: pointer;
+            padding: 0 4px;
+        }
+        .dql-result-container .column-chooser-item button:disabled {
+            opacity: 0.3;
+            cursor: default;
+        }
+        .dql-result-container .no-match td,
+        .dql-result-container .no-match:hover td {
+            color: var(--vscode-descriptionForeground);
+            font-style: italic;
+            background: transparent;
+            cursor: default;
+        }
         .dql-result-container td {
             text-align: left;
-            padding: 4px 12px;
+            padding: 0 12px;
+            height: ${DEFAULT_ROW_HEIGHT}px;
+            line-height: ${DEFAULT_ROW_HEIGHT - 1}px;
+            box-sizing: border-box;
             border-bottom: 1px solid var(--vscode-panel-border);
             vertical-align: top;
             width: ${columnWidth};
@@ -151,10 +410,76 @@ function renderDqlResult(
         .dql-result-container tr:hover td {
             background: var(--vscode-list-hoverBackground);
         }
+        .dql-result-container tr.spacer td,
+        .dql-result-container tr.spacer:hover td {
+            padding: 0;
+            height: auto;
+            border: none;
+            background: transparent;
+            cursor: default;
+        }
         .dql-result-container .null-value {
             color: var(--vscode-descriptionForeground);
             font-style: italic;
         }
+        .dql-result-container .chart-controls {
+            display: flex;
+            gap: 8px;
+            align-items: center;
+            margin-bottom: 8px;
+        }
+        .dql-result-container .chart-controls select {
+            background: var(--vscode-dropdown-background);
+            color: var(--vscode-dropdown-foreground);
+            border: 1px solid var(--vscode-dropdown-border);
+            padding: 2px 4px;
+            font-size: 11px;
+        }
+        .dql-result-container .chart-controls button {
+            background: var(--vscode-button-secondaryBackground);
+            color: var(--vscode-button-secondaryForeground);
+            border: none;
+            padding: 4px 8px;
+            border-radius: 2px;
+            cursor: pointer;
+            font-size: 11px;
+        }
+        .dql-result-container .chart-controls button:hover {
+            background: var(--vscode-button-secondaryHoverBackground);
+        }
+        .dql-result-container .chip {
+            display: inline-block;
+            padding: 0 6px;
+            margin-right: 4px;
+            line-height: 16px;
+            border-radius: 8px;
+            background: var(--vscode-badge-background);
+            color: var(--vscode-badge-foreground);
+        }
+        .dql-result-container .chip-index {
+            opacity: 0.7;
+            margin-right: 4px;
+            font-size: 10px;
+        }
+        .dql-result-container .chip.more {
+            background: var(--vscode-button-secondaryBackground);
+            color: var(--vscode-button-secondaryForeground);
+        }
+        .dql-result-container .values-popup {
+            position: fixed;
+            background: var(--vscode-editorHoverWidget-background, var(--vscode-menu-background));
+            border: 1px solid var(--vscode-editorHoverWidget-border, var(--vscode-menu-border));
+            border-radius: 4px;
+            padding: 4px 8px;
+            box-shadow: 0 2px 8px rgba(0,0,0,0.2);
+            z-index: 1000;
+            max-height: 240px;
+            overflow-y: auto;
+        }
+        .dql-result-container .values-popup div {
+            white-space: nowrap;
+            line-height: 20px;
+        }
         .dql-result-container .object-id {
             color: var(--vscode-textLink-foreground);
             text-decoration: underline;
@@ -191,6 +516,7 @@ function renderDqlResult(
             gap: 8px;
             margin-bottom: 8px;
             align-items: center;
+            position: relative;
         }
         .dql-result-container .toolbar button {
             background: var(--vscode-button-secondaryBackground);
@@ -208,6 +534,213 @@ function renderDqlResult(
             color: var(--vscode-descriptionForeground);
             flex-grow: 1;
         }
+        .dql-result-container .paging {
+            display: flex;
+            gap: 8px;
+            margin-top: 8px;
+            align-items: center;
+        }
+        .dql-result-container .paging button {
+            background: var(--vscode-button-background);
+            color: var(--vscode-button-foreground);
+            border: none;
+            padding: 4px 8px;
+            border-radius: 2px;
+            cursor: pointer;
+            font-size: 11px;
+        }
+        .dql-result-container .paging button:hover {
+            background: var(--vscode-button-hoverBackground);
+        }
+        .dql-result-container .paging button:disabled {
+            opacity: 0.5;
+            cursor: default;
+        }
+        .dql-result-container.editing td.editable {
+            cursor: text;
+        }
+        .dql-result-container td.edited,
+        .dql-result-container tr:hover td.edited {
+            background: var(--vscode-diffEditor-insertedTextBackground);
+        }
+        .dql-result-container td.edit-failed {
+            outline: 1px solid var(--vscode-inputValidation-errorBorder);
+            outline-offset: -1px;
+        }
+        .dql-result-container td.cell-editing {
+            position: relative;
+            overflow: visible;
+            padding: 0;
+        }
+        .dql-result-container .cell-editor {
+            width: 100%;
+            height: 100%;
+            box-sizing: border-box;
+            font-family: inherit;
+            font-size: 12px;
+        }
+        .dql-result-container textarea.cell-editor {
+            position: absolute;
+            top: 0;
+            left: 0;
+            height: auto;
+            min-width: 200px;
+            z-index: 600;
+            background: var(--vscode-input-background);
+            color: var(--vscode-input-foreground);
+            border: 1px solid var(--vscode-focusBorder);
+        }
+        .dql-result-container .edit-bar {
+            display: flex;
+            gap: 8px;
+            align-items: center;
+            margin-bottom: 8px;
+            padding: 4px 8px;
+            background: var(--vscode-editorWidget-background);
+            border: 1px solid var(--vscode-editorWidget-border, var(--vscode-panel-border));
+        }
+        .dql-result-container .edit-bar button,
+        .dql-result-container .edit-preview button {
+            background: var(--vscode-button-secondaryBackground);
+            color: var(--vscode-button-secondaryForeground);
+            border: none;
+            padding: 4px 8px;
+            border-radius: 2px;
+            cursor: pointer;
+            font-size: 11px;
+        }
+        .dql-result-container .edit-bar button.primary {
+            background: var(--vscode-button-background);
+            color: var(--vscode-button-foreground);
+        }
+        .dql-result-container .edit-bar button:disabled {
+            opacity: 0.5;
+            cursor: default;
+        }
+        .dql-result-container .edit-preview {
+            margin-bottom: 8px;
+        }
+        .dql-result-container .edit-preview .preview-header {
+            display: flex;
+            gap: 8px;
+            align-items: center;
+            font-weight: 600;
+            margin: 4px 0;
+        }
+        .dql-result-container .edit-preview pre {
+            margin: 0;
+            padding: 4px 8px;
+            max-height: 160px;
+            overflow: auto;
+            background: var(--vscode-textCodeBlock-background);
+            font-family: var(--vscode-editor-font-family);
+            white-space: pre-wrap;
+        }
+        .dql-result-container .row-drawer {
+            position: absolute;
+            top: 0;
+            right: 0;
+            bottom: 0;
+            width: min(${DRAWER_WIDTH}px, 70%);
+            flex-direction: column;
+            background: var(--vscode-editor-background);
+            border-left: 1px solid var(--vscode-panel-border);
+            box-shadow: -2px 0 8px rgba(0,0,0,0.2);
+            z-index: 500;
+        }
+        .dql-result-container .drawer-header {
+            display: flex;
+            gap: 4px;
+            align-items: center;
+            padding: 4px 8px;
+            border-bottom: 1px solid var(--vscode-panel-border);
+        }
+        .dql-result-container .drawer-title {
+            flex-grow: 1;
+            font-weight: 600;
+            overflow: hidden;
+            text-overflow: ellipsis;
+            white-space: nowrap;
+        }
+        .dql-result-container .row-drawer button {
+            background: var(--vscode-button-secondaryBackground);
+            color: var(--vscode-button-secondaryForeground);
+            border: none;
+            padding: 2px 6px;
+            border-radius: 2px;
+            cursor: pointer;
+            font-size: 11px;
+        }
+        .dql-result-container .row-drawer button:hover {
+            background: var(--vscode-button-secondaryHoverBackground);
+        }
+        .dql-result-container .row-drawer button:disabled {
+            opacity: 0.5;
+            cursor: default;
+        }
+        .dql-result-container .drawer-tabs {
+            display: flex;
+            border-bottom: 1px solid var(--vscode-panel-border);
+        }
+        .dql-result-container .row-drawer .drawer-tabs button {
+            background: transparent;
+            color: var(--vscode-foreground);
+            border-bottom: 2px solid transparent;
+            border-radius: 0;
+            padding: 4px 10px;
+        }
+        .dql-result-container .row-drawer .drawer-tabs button.active {
+            border-bottom-color: var(--vscode-focusBorder);
+        }
+        .dql-result-container .drawer-body {
+            flex-grow: 1;
+            overflow-y: auto;
+            padding: 4px 8px;
+        }
+        .dql-result-container .drawer-field {
+            display: flex;
+            gap: 8px;
+            padding: 4px 0;
+            border-bottom: 1px solid var(--vscode-panel-border);
+        }
+        .dql-result-container .drawer-field .field-name {
+            width: 35%;
+            flex-shrink: 0;
+            color: var(--vscode-descriptionForeground);
+            word-break: break-all;
+        }
+        .dql-result-container .drawer-field .field-name.hidden-column {
+            font-style: italic;
+        }
+        .dql-result-container .drawer-field .field-type {
+            display: block;
+            font-size: 10px;
+            opacity: 0.7;
+        }
+        .dql-result-container .drawer-field .field-value {
+            flex-grow: 1;
+            min-width: 0;
+            white-space: pre-wrap;
+            word-break: break-word;
+            font-family: var(--vscode-editor-font-family);
+        }
+        .dql-result-container .drawer-field .copy {
+            visibility: hidden;
+            align-self: flex-start;
+        }
+        .dql-result-container .drawer-field:hover .copy {
+            visibility: visible;
+        }
+        .dql-result-container .drawer-section summary {
+            font-weight: 600;
+            cursor: pointer;
+            padding: 6px 0 2px;
+        }
+        .dql-result-container .drawer-note {
+            color: var(--vscode-descriptionForeground);
+            font-style: italic;
+            padding: 8px 0;
+        }
         .dql-result-container .copy-notification {
             position: fixed;
             bottom: 20px;
@@ -232,7 +765,7 @@ function renderDqlResult(
 
     const container = document.createElement('div');
     container.className = 'dql-result-container';
-    container.style.cssText = 'font-family: var(--vscode-font-family); font-size: 12px;';
+    container.style.cssText = 'font-family: var(--vscode-font-family); font-size: 12px; position: relative;';
     element.appendChild(container);
 
     // Handle empty results
@@ -247,13 +780,55 @@ function renderDqlResult(
     // Toolbar
     const toolbar = document.createElement('div');
     toolbar.className = 'toolbar';
-    toolbar.innerHTML = `
-        <span class="status">${data.rowCount} row(s) in ${data.executionTime}ms</span>
-    `;
+
+    const searchInput = document.createElement('input');
+    searchInput.type = 'search';
+    searchInput.className = 'search';
+    searchInput.placeholder = 'Search';
+    searchInput.title = 'Show only rows containing this text in a visible column';
+    searchInput.oninput = () => {
+        viewState.search = searchInput.value;
+        scheduleFilter();
+    };
+    toolbar.appendChild(searchInput);
+
+    const status = document.createElement('span');
+    status.className = 'status';
+    toolbar.appendChild(status);
+
+    const activeFilters = document.createElement('span');
+    activeFilters.className = 'active-filters';
+    toolbar.appendChild(activeFilters);
+
+    const clearFiltersBtn = document.createElement('button');
+    clearFiltersBtn.textContent = 'Clear Filters';
+    clearFiltersBtn.title = 'Remove all filters, the search and hidden columns';
+    clearFiltersBtn.onclick = () => clearFilters();
+    toolbar.appendChild(clearFiltersBtn);
+
+    const columnsBtn = document.createElement('button');
+    columnsBtn.textContent = 'Columns';
+    columnsBtn.title = 'Show, hide and reorder columns';
+    columnsBtn.onclick = (e: MouseEvent) => {
+        e.stopPropagation();
+        toggleColumnChooser();
+    };
+    toolbar.appendChild(columnsBtn);
+
+    const chartBtn = document.createElement('button');
+    chartBtn.title = 'Switch between the table and a chart of the shown rows';
+    chartBtn.onclick = () => {
+        if (chart) {
+            setChart(undefined);
+        } else {
+            setChart(suggestChartSettings(data.columns, data.rows));
+        }
+    };
+    toolbar.appendChild(chartBtn);
 
     const copyAllBtn = document.createElement('button');
     copyAllBtn.textContent = 'Copy All';
-    copyAllBtn.title = 'Copy all rows as TSV';
+    copyAllBtn.title = 'Copy the shown rows and columns as TSV';
     copyAllBtn.onclick = () => copyAllRows();
     toolbar.appendChild(copyAllBtn);
 
@@ -263,26 +838,167 @@ function renderDqlResult(
     copyRowBtn.onclick = () => copySelectedRow();
     toolbar.appendChild(copyRowBtn);
 
+    const detailsBtn = document.createElement('button');
+    detailsBtn.textContent = 'Details';
+    detailsBtn.title = 'Show every column of the selected row in full (or double-click a row)';
+    detailsBtn.onclick = () => {
+        if (selectedRow === null) {
+            showNotification('No row selected');
+        } else {
+            openDrawer(selectedRow);
+        }
+    };
+    toolbar.appendChild(detailsBtn);
+
+    // Cell editing: pending changes by object ID and column, and the errors of objects that failed to update
+    const canEdit = data.columns.includes('r_object_id') && !!context.postMessage && !!context.onDidReceiveMessage;
+    let editMode = false;
+    let applying = false;
+    let showPreview = false;
+    const pendingEdits = new Map<string, Map<string, AttributeChange>>();
+    const editErrors = new Map<string, string>();
+    let activeEditor: { commit: () => void } | null = null;
+
+    const editBtn = document.createElement('button');
+    editBtn.textContent = 'Edit';
+    editBtn.title = 'Edit cells of rows with an r_object_id and apply the changes as DQL UPDATE statements';
+    editBtn.style.display = canEdit ? '' : 'none';
+    editBtn.onclick = () => {
+        activeEditor?.commit();
+        editMode = !editMode;
+        editBtn.textContent = editMode ? 'Done Editing' : 'Edit';
+        container.classList.toggle('editing', editMode);
+        renderedRange = { start: -1, end: -1 };
+        renderRows();
+        updateEditBar();
+    };
+    toolbar.appendChild(editBtn);
+
     const exportExcelBtn = document.createElement('button');
     exportExcelBtn.textContent = 'Export Excel';
-    exportExcelBtn.title = 'Export results to Excel file (.xlsx)';
-    exportExcelBtn.onclick = () => exportToExcel();
+    exportExcelBtn.title = 'Export the shown rows and columns to Excel file (.xlsx)';
+    exportExcelBtn.onclick = () => exportRows('excel');
     toolbar.appendChild(exportExcelBtn);
 
-    const exportJsonBtn = document.createElement('button');
-    exportJsonBtn.textContent = 'Export JSON';
-    exportJsonBtn.title = 'Export results to JSON file (.json)';
-    exportJsonBtn.onclick = () => exportToJson();
-    toolbar.appendChild(exportJsonBtn);
+    const exportAsBtn = document.createElement('button');
+    exportAsBtn.textContent = 'Export...';
+    exportAsBtn.title = 'Export the shown rows and columns to CSV, TSV, Markdown, HTML, JSON or a DQL script';
+    exportAsBtn.onclick = () => exportRows();
+    toolbar.appendChild(exportAsBtn);
 
     container.appendChild(toolbar);
 
-    // Table container
-    const tableContainer = document.createElement('div');
-    tableContainer.style.cssText = 'overflow-x: auto; max-height: 400px; overflow-y: auto;';
-    container.appendChild(tableContainer);
-
-    const table = document.createElement('table');
+    // Pending edits with the statements that apply them
+    const editBar = document.createElement('div');
+    editBar.className = 'edit-bar';
+    editBar.style.display = 'none';
+    const editStatus = document.createElement('span');
+    editStatus.className = 'status';
+    editBar.appendChild(editStatus);
+
+    const previewBtn = document.createElement('button');
+    previewBtn.title = 'Show the DQL and dmAPI statements for the pending changes';
+    previewBtn.onclick = () => {
+        showPreview = !showPreview;
+        updateEditBar();
+    };
+    editBar.appendChild(previewBtn);
+
+    const applyBtn = document.createElement('button');
+    applyBtn.className = 'primary';
+    applyBtn.textContent = 'Apply';
+    applyBtn.title = 'Run the DQL UPDATE statements after confirmation';
+    applyBtn.onclick = () => applyEdits();
+    editBar.appendChild(applyBtn);
+
+    const discardBtn = document.createElement('button');
+    discardBtn.textContent = 'Discard';
+    discardBtn.title = 'Drop all pending changes';
+    discardBtn.onclick = () => discardEdits();
+    editBar.appendChild(discardBtn);
+    container.appendChild(editBar);
+
+    const editPreview = document.createElement('div');
+    editPreview.className = 'edit-preview';
+    editPreview.style.display = 'none';
+    editPreview.onclick = (e: MouseEvent) => {
+        const pre = (e.target as HTMLElement).closest('[data-copy-preview]')?.parentElement?.nextElementSibling;
+        if (pre) {
+            navigator.clipboard.writeText(pre.textContent ?? '').then(() => {
+                showNotification('Statements copied');
+            });
+        }
+    };
+    container.appendChild(editPreview);
+
+    const columnChooser = document.createElement('div');
+    columnChooser.className = 'column-chooser';
+    columnChooser.style.display = 'none';
+    columnChooser.onclick = (e: MouseEvent) => e.stopPropagation();
+    container.appendChild(columnChooser);
+
+    // Chart view: type and column pickers above the drawn chart
+    const chartPanel = document.createElement('div');
+    chartPanel.className = 'chart-panel';
+    const chartControls = document.createElement('div');
+    chartControls.className = 'chart-controls';
+    chartPanel.appendChild(chartControls);
+
+    const chartTypeSelect = createSelect('Chart type', CHART_TYPES.map((type): [string, string] => [type, CHART_LABELS[type]]));
+    const categorySelect = createSelect('Category column', data.columns.map((col): [string, string] => [col, col]));
+    const valueSelect = createSelect('Value column', [['', '(row count)'], ...data.columns.map((col): [string, string] => [col, col])]);
+    for (const [label, select] of [['Type', chartTypeSelect], ['Category', categorySelect], ['Value', valueSelect]] as const) {
+        const labelEl = document.createElement('label');
+        labelEl.textContent = `${label} `;
+        labelEl.appendChild(select);
+        chartControls.appendChild(labelEl);
+        select.onchange = () => setChart({
+            type: chartTypeSelect.value as ChartType,
+            category: categorySelect.value,
+            value: valueSelect.value || undefined
+        });
+    }
+
+    const saveSvgBtn = document.createElement('button');
+    saveSvgBtn.textContent = 'Save as SVG';
+    saveSvgBtn.title = 'Add the chart to the cell output as an SVG image, saved with the notebook';
+    saveSvgBtn.onclick = () => saveChartImage('svg');
+    chartControls.appendChild(saveSvgBtn);
+
+    const savePngBtn = document.createElement('button');
+    savePngBtn.textContent = 'Save as PNG';
+    savePngBtn.title = 'Add the chart to the cell output as a PNG image, saved with the notebook';
+    savePngBtn.onclick = () => saveChartImage('png');
+    chartControls.appendChild(savePngBtn);
+
+    const chartArea = document.createElement('div');
+    chartPanel.appendChild(chartArea);
+    container.appendChild(chartPanel);
+
+    // Table container
+    const tableContainer = document.createElement('div');
+    tableContainer.style.cssText = `overflow-x: auto; max-height: ${VIEWPORT_HEIGHT}px; overflow-y: auto;`;
+    container.appendChild(tableContainer);
+
+    // Paging controls (only shown while the bridge holds more rows)
+    const paging = document.createElement('div');
+    paging.className = 'paging';
+
+    const loadNextBtn = document.createElement('button');
+    loadNextBtn.textContent = `Load next ${pageSize} rows`;
+    loadNextBtn.title = 'Fetch the next page of results';
+    loadNextBtn.onclick = () => loadMoreRows(false);
+    paging.appendChild(loadNextBtn);
+
+    const loadAllBtn = document.createElement('button');
+    loadAllBtn.textContent = 'Load all';
+    loadAllBtn.title = 'Fetch every remaining row';
+    loadAllBtn.onclick = () => loadMoreRows(true);
+    paging.appendChild(loadAllBtn);
+
+    container.appendChild(paging);
+
+    const table = document.createElement('table');
     table.id = tableId;
     tableContainer.appendChild(table);
 
@@ -294,6 +1010,10 @@ function renderDqlResult(
     headerRow.id = `${tableId}-header`;
     thead.appendChild(headerRow);
 
+    const filterRow = document.createElement('tr');
+    filterRow.className = 'filter-row';
+    thead.appendChild(filterRow);
+
     const tbody = document.createElement('tbody');
     tbody.id = `${tableId}-body`;
     table.appendChild(tbody);
@@ -305,6 +1025,32 @@ function renderDqlResult(
     contextMenu.style.display = 'none';
     container.appendChild(contextMenu);
 
+    // Popup listing every value of a repeating attribute
+    const valuesPopup = document.createElement('div');
+    valuesPopup.className = 'values-popup';
+    valuesPopup.style.display = 'none';
+    valuesPopup.onclick = (e: MouseEvent) => {
+        const objectId = (e.target as HTMLElement).closest('.object-id')?.getAttribute('data-object-id');
+        if (objectId) {
+            dumpObject(objectId);
+        }
+    };
+    container.appendChild(valuesPopup);
+
+    // Row detail drawer: every column of one row, and the object dump when the row has an r_object_id
+    const drawer = document.createElement('div');
+    drawer.className = 'row-drawer';
+    drawer.style.display = 'none';
+    drawer.onclick = (e: MouseEvent) => handleDrawerClick(e);
+    container.appendChild(drawer);
+
+    // Row shown in the drawer, its tab, and the dumps fetched so far by object ID
+    let drawerRow: Record<string, unknown> | null = null;
+    let drawerTab: 'columns' | 'dump' = 'columns';
+    let drawerCopyValues: string[] = [];
+    const objectDumps = new Map<string, ObjectDumpMessage>();
+    const pendingDumps = new Set<string>();
+
     // Notification
     const notification = document.createElement('div');
     notification.id = `${tableId}-notification`;
@@ -341,13 +1087,69 @@ function renderDqlResult(
         }
     }
 
+    function updateStatus(): void {
+        let text = `${data.rows.length} row(s) in ${executionTime}ms`;
+        if (hasMore) {
+            text = totalCount !== undefined
+                ? `${data.rows.length} of ${totalCount} row(s) in ${executionTime}ms`
+                : `${data.rows.length} row(s) in ${executionTime}ms, more available`;
+        } else if (truncated) {
+            text = `First ${data.rows.length}${totalCount !== undefined ? ` of ${totalCount}` : ''} row(s) in ${executionTime}ms, `
+                + 'saved without the rest; run the cell again to load more';
+        }
+        const filtered = isViewFiltered(viewState);
+        if (filtered) {
+            text = `${sortedRows.length} of ${data.rows.length} rows | ${text}`;
+        }
+        status.textContent = text;
+        const descriptions = describeFilters(viewState);
+        activeFilters.textContent = descriptions.join('; ');
+        activeFilters.title = descriptions.join('\n');
+        clearFiltersBtn.style.display = filtered ? '' : 'none';
+        paging.style.display = hasMore ? 'flex' : 'none';
+        loadNextBtn.disabled = loading;
+        loadAllBtn.disabled = loading;
+    }
+
+    function loadMoreRows(all: boolean): void {
+        if (!hasMore || loading || !cursor || !context.postMessage || !context.onDidReceiveMessage) {
+            return;
+        }
+
+        const requestId = `${tableId}-${Date.now()}`;
+        loading = true;
+        updateStatus();
+        status.textContent = all ? 'Loading all remaining rows...' : `Loading next ${pageSize} rows...`;
+
+        // Listen only while the request is pending; replies are broadcast to every output
+        const listener = context.onDidReceiveMessage((message: MoreRowsMessage) => {
+            if (message.command !== 'moreRows' || message.requestId !== requestId) {
+                return;
+            }
+            listener.dispose();
+            loading = false;
+
+            if (message.error) {
+                updateStatus();
+                showNotification(message.error);
+                return;
+            }
+
+            data.rows.push(...(message.rows || []));
+            hasMore = message.hasMore === true && !!message.cursor;
+            cursor = message.cursor;
+            totalCount = message.totalCount ?? totalCount;
+            executionTime += message.executionTime || 0;
+            renderTable();
+        });
+
+        context.postMessage({ command: 'loadMoreRows', requestId, cursor, all } as RendererMessage);
+    }
+
     function copyAllRows(): void {
-        const header = data.columns.join('\t');
+        const header = visibleColumns.join('\t');
         const body = sortedRows.map(row =>
-            data.columns.map(col => {
-                const val = row[col];
-                return val === null || val === undefined ? '' : String(val);
-            }).join('\t')
+            visibleColumns.map(col => valueText(row[col])).join('\t')
         ).join('\n');
         const text = header + '\n' + body;
         navigator.clipboard.writeText(text).then(() => {
@@ -364,123 +1166,80 @@ function renderDqlResult(
         if (!row) {
             return;
         }
-        const text = data.columns.map(col => {
-            const val = row[col];
-            return val === null || val === undefined ? '' : String(val);
-        }).join('\t');
+        const text = visibleColumns.map(col => valueText(row[col])).join('\t');
         navigator.clipboard.writeText(text).then(() => {
             showNotification('Row copied to clipboard');
         });
     }
 
-    function exportToExcel(): void {
-        // Send message to extension host to create Excel file
+    function exportRows(format?: string): void {
+        // Send message to extension host to write the file
         if (context.postMessage) {
             context.postMessage({
                 command: 'exportData',
                 data: {
-                    columns: data.columns,
-                    rows: sortedRows,
-                    format: 'excel'
+                    columns: visibleColumns,
+                    rows: getVisibleRows(),
+                    format,
+                    typeName: data.queryType
                 }
             } as RendererMessage);
-            showNotification('Exporting to Excel...');
+            // Without a format the extension shows a picker instead
+            if (format) {
+                showNotification('Exporting...');
+            }
         }
     }
 
-    function exportToJson(): void {
-        // Send message to extension host to create JSON file
-        if (context.postMessage) {
-            context.postMessage({
-                command: 'exportData',
-                data: {
-                    columns: data.columns,
-                    rows: sortedRows,
-                    format: 'json'
-                }
-            } as RendererMessage);
-            showNotification('Exporting to JSON...');
-        }
+    /**
+     * The shown rows, limited to the shown columns
+     */
+    function getVisibleRows(): Record<string, unknown>[] {
+        return sortedRows.map(row => {
+            const visible: Record<string, unknown> = {};
+            for (const col of visibleColumns) {
+                visible[col] = row[col];
+            }
+            return visible;
+        });
     }
 
-    function sortTable(colIdx: number): void {
-        if (sortColumn === colIdx) {
-            sortDirection = sortDirection === 'asc' ? 'desc' : 'asc';
-        } else {
-            sortColumn = colIdx;
-            sortDirection = 'asc';
-        }
+    function sortTable(col: string): void {
+        viewState.sort = viewState.sort?.column === col
+            ? { column: col, direction: viewState.sort.direction === 'asc' ? 'desc' : 'asc' }
+            : { column: col, direction: 'asc' };
         renderTable();
     }
 
-    function renderTable(): void {
-        // Render headers
-        headerRow.innerHTML = data.columns.map((col, idx) => {
-            let sortClass = '';
-            if (sortColumn === idx) {
-                sortClass = sortDirection === 'asc' ? 'sorted-asc' : 'sorted-desc';
-            }
-            return `<th class="${sortClass}" data-col-idx="${idx}">
+    /**
+     * Render the header and filter row; rendered again only when the columns change,
+     * so sorting and filtering keep resized widths and the focused filter input
+     */
+    function renderHeader(): void {
+        visibleColumns = getVisibleColumns(data.columns, viewState);
+        const errors = parseViewFilters(viewState).errors;
+
+        headerRow.innerHTML = visibleColumns.map((col, idx) => {
+            const width = columnWidths.get(col);
+            const style = width !== undefined ? ` style="width: ${width}px; min-width: ${width}px; max-width: ${width}px"` : '';
+            return `<th data-col-idx="${idx}"${style}>
                 <span class="header-content">${escapeHtml(col)}<span class="sort-indicator"></span></span>
                 <span class="resize-handle" data-col-idx="${idx}"></span>
             </th>`;
         }).join('');
 
+        filterRow.innerHTML = visibleColumns.map(col => {
+            const error = errors.get(col);
+            return `<th><input type="text" class="${error ? 'invalid' : ''}" placeholder="Filter"
+                value="${escapeHtml(viewState.filters[col] ?? '')}"
+                title="${escapeHtml(error ?? 'text, =value, !=value, null, not null, >10, 1..5, 2024-01-01..2024-12-31')}"></th>`;
+        }).join('');
+
         // Add sort click handlers
         headerRow.querySelectorAll('.header-content').forEach((el, idx) => {
-            (el as HTMLElement).onclick = () => sortTable(idx);
+            (el as HTMLElement).onclick = () => sortTable(visibleColumns[idx]);
         });
 
-        // Sort rows
-        sortedRows = [...data.rows];
-        if (sortColumn !== null) {
-            const col = data.columns[sortColumn];
-            sortedRows.sort((a, b) => {
-                let aVal = a[col];
-                let bVal = b[col];
-                if (aVal === null || aVal === undefined) {
-                    aVal = '';
-                }
-                if (bVal === null || bVal === undefined) {
-                    bVal = '';
-                }
-                if (typeof aVal === 'number' && typeof bVal === 'number') {
-                    return sortDirection === 'asc' ? aVal - bVal : bVal - aVal;
-                }
-                const aStr = String(aVal).toLowerCase();
-                const bStr = String(bVal).toLowerCase();
-                if (aStr < bStr) {
-                    return sortDirection === 'asc' ? -1 : 1;
-                }
-                if (aStr > bStr) {
-                    return sortDirection === 'asc' ? 1 : -1;
-                }
-                return 0;
-            });
-        }
-
-        // Render body
-        tbody.innerHTML = sortedRows.map((row, rowIdx) => {
-            const cells = data.columns.map((col, colIdx) => {
-                const value = row[col];
-                let displayValue: string;
-                if (value === null || value === undefined) {
-                    displayValue = '<span class="null-value">NULL</span>';
-                } else if (isObjectId(value) && (col === 'r_object_id' || col.endsWith('_id'))) {
-                    displayValue = `<span class="object-id" data-object-id="${escapeHtml(value)}">${escapeHtml(value)}</span>`;
-                } else {
-                    displayValue = escapeHtml(String(value));
-                }
-                const dataValue = value === null || value === undefined ? '' : String(value);
-                return `<td data-row="${rowIdx}" data-col="${colIdx}" data-value="${escapeHtml(dataValue)}" title="${escapeHtml(dataValue || 'NULL')}">${displayValue}</td>`;
-            }).join('');
-            return `<tr data-row-idx="${rowIdx}">${cells}</tr>`;
-        }).join('');
-
-        attachEventHandlers();
-    }
-
-    function attachEventHandlers(): void {
         // Resize handlers
         headerRow.querySelectorAll('.resize-handle').forEach(handle => {
             (handle as HTMLElement).onmousedown = (e: MouseEvent) => {
@@ -488,7 +1247,7 @@ function renderDqlResult(
                 e.stopPropagation();
                 const colIdx = parseInt((handle as HTMLElement).getAttribute('data-col-idx') || '0');
                 const th = (handle as HTMLElement).parentElement!;
-                resizing = { colIdx, th };
+                resizing = { column: visibleColumns[colIdx], th };
                 startX = e.pageX;
                 startWidth = th.offsetWidth;
                 (handle as HTMLElement).classList.add('resizing');
@@ -497,9 +1256,287 @@ function renderDqlResult(
             };
         });
 
+        // Filter inputs
+        filterRow.querySelectorAll('input').forEach((input, idx) => {
+            input.oninput = () => {
+                viewState.filters[visibleColumns[idx]] = input.value;
+                scheduleFilter();
+            };
+        });
+    }
+
+    function updateSortIndicators(): void {
+        headerRow.querySelectorAll('th').forEach((th, idx) => {
+            const sorted = viewState.sort?.column === visibleColumns[idx];
+            th.classList.toggle('sorted-asc', sorted && viewState.sort?.direction === 'asc');
+            th.classList.toggle('sorted-desc', sorted && viewState.sort?.direction === 'desc');
+        });
+    }
+
+    /**
+     * Mark filter inputs whose expression cannot be parsed
+     */
+    function updateFilterErrors(): void {
+        const errors = parseViewFilters(viewState).errors;
+        filterRow.querySelectorAll('input').forEach((input, idx) => {
+            const error = errors.get(visibleColumns[idx]);
+            input.classList.toggle('invalid', error !== undefined);
+            input.title = error ?? 'text, =value, !=value, null, not null, >10, 1..5, 2024-01-01..2024-12-31';
+        });
+    }
+
+    /**
+     * Apply typed filters once typing pauses
+     */
+    function scheduleFilter(): void {
+        if (filterTimer !== undefined) {
+            clearTimeout(filterTimer);
+        }
+        filterTimer = setTimeout(() => {
+            filterTimer = undefined;
+            updateFilterErrors();
+            tableContainer.scrollTop = 0;
+            renderTable();
+        }, FILTER_DELAY_MS);
+    }
+
+    function clearFilters(): void {
+        viewState.filters = {};
+        viewState.search = '';
+        viewState.hiddenColumns = [];
+        searchInput.value = '';
+        tableContainer.scrollTop = 0;
+        renderHeader();
+        renderTable();
+        if (columnChooser.style.display !== 'none') {
+            renderColumnChooser();
+        }
+    }
+
+    function toggleColumnChooser(): void {
+        if (columnChooser.style.display !== 'none') {
+            columnChooser.style.display = 'none';
+            return;
+        }
+        renderColumnChooser();
+        columnChooser.style.top = `${toolbar.offsetTop + toolbar.offsetHeight}px`;
+        columnChooser.style.display = 'block';
+    }
+
+    /**
+     * List every column in display order with a checkbox to show it and buttons to move it
+     */
+    function renderColumnChooser(): void {
+        const ordered = getVisibleColumns(data.columns, { ...viewState, hiddenColumns: [] });
+        columnChooser.innerHTML = ordered.map((col, idx) => {
+            const checked = viewState.hiddenColumns.includes(col) ? '' : ' checked';
+            return `<div class="column-chooser-item">
+                <input type="checkbox" id="${tableId}-col-${idx}" data-idx="${idx}"${checked} style="width: auto">
+                <label for="${tableId}-col-${idx}">${escapeHtml(col)}</label>
+                <button data-move="-1" data-idx="${idx}" title="Move up"${idx === 0 ? ' disabled' : ''}>&#9650;</button>
+                <button data-move="1" data-idx="${idx}" title="Move down"${idx === ordered.length - 1 ? ' disabled' : ''}>&#9660;</button>
+            </div>`;
+        }).join('');
+
+        columnChooser.querySelectorAll('input[type="checkbox"]').forEach(el => {
+            const checkbox = el as HTMLInputElement;
+            checkbox.onchange = () => {
+                const col = ordered[parseInt(checkbox.getAttribute('data-idx') || '0')];
+                if (checkbox.checked) {
+                    viewState.hiddenColumns = viewState.hiddenColumns.filter(c => c !== col);
+                } else if (visibleColumns.length > 1) {
+                    viewState.hiddenColumns = [...viewState.hiddenColumns, col];
+                } else {
+                    // Keep at least one column
+                    checkbox.checked = true;
+                    return;
+                }
+                applyColumns();
+            };
+        });
+
+        columnChooser.querySelectorAll('button[data-move]').forEach(el => {
+            const button = el as HTMLButtonElement;
+            button.onclick = () => {
+                const idx = parseInt(button.getAttribute('data-idx') || '0');
+                const target = idx + parseInt(button.getAttribute('data-move') || '0');
+                [ordered[idx], ordered[target]] = [ordered[target], ordered[idx]];
+                viewState.columnOrder = ordered;
+                applyColumns();
+                renderColumnChooser();
+            };
+        });
+    }
+
+    /**
+     * Re-render after columns were hidden, shown or moved
+     */
+    function applyColumns(): void {
+        renderHeader();
+        renderTable();
+    }
+
+    /**
+     * Filter the loaded rows and sort the ones that pass
+     */
+    function sortRows(): void {
+        const view = applyResultView(data.columns, data.rows, viewState);
+        sortedRows = view.rows === data.rows ? [...view.rows] : view.rows;
+    }
+
+    function renderTable(): void {
+        activeEditor?.commit();
+        updateSortIndicators();
+        sortRows();
+        selectedCell = null;
+        selectedRow = null;
+        renderedRange = { start: -1, end: -1 };
+        renderRows();
+        updateStatus();
+        renderChart();
+        renderDrawer();
+    }
+
+    function renderValue(value: unknown, col: string): string {
+        if (isObjectId(value) && (col === 'r_object_id' || col.endsWith('_id'))) {
+            return `<span class="object-id" data-object-id="${escapeHtml(value)}">${escapeHtml(value)}</span>`;
+        }
+        return escapeHtml(String(value));
+    }
+
+    /**
+     * Show the first values of a repeating attribute as chips with their index;
+     * the rest are listed in a popup opened from the "+N" chip
+     */
+    function renderChips(values: unknown[], col: string): string {
+        if (values.length === 0) {
+            return '<span class="null-value">(no values)</span>';
+        }
+        const chips = values.slice(0, MAX_CHIPS).map((value, idx) => {
+            const text = value === null || value === undefined ? '<span class="null-value">NULL</span>' : renderValue(value, col);
+            return `<span class="chip"><span class="chip-index">${idx}</span>${text}</span>`;
+        });
+        if (values.length > MAX_CHIPS) {
+            chips.push(`<span class="chip more" data-expand="true" title="Show all ${values.length} values">+${values.length - MAX_CHIPS}</span>`);
+        }
+        return chips.join('');
+    }
+
+    function renderCell(row: Record<string, unknown>, rowIdx: number, col: string, colIdx: number): string {
+        // Cells with a pending edit show the new value
+        const objectId = editMode || pendingEdits.size > 0 ? getRowObjectId(row) : undefined;
+        const pending = objectId ? pendingEdits.get(objectId)?.get(col) : undefined;
+        const value = pending ? pending.value : row[col];
+        let displayValue: string;
+        let tooltip: string;
+        if (Array.isArray(value)) {
+            displayValue = renderChips(value, col);
+            tooltip = value.map((v, idx) => `[${idx}] ${valueText(v)}`).join('\n');
+        } else if (value === null || value === undefined) {
+            displayValue = '<span class="null-value">NULL</span>';
+            tooltip = 'NULL';
+        } else {
+            displayValue = renderValue(value, col);
+            tooltip = String(value);
+        }
+        const dataValue = valueText(value);
+        const classes: string[] = [];
+        if (selectedCell && selectedCell.row === rowIdx && selectedCell.col === colIdx) {
+            classes.push('selected');
+        }
+        if (editMode && objectId && isEditableColumn(col)) {
+            classes.push('editable');
+        }
+        if (pending && objectId) {
+            classes.push('edited');
+            tooltip = `Was: ${valueText(row[col]) || 'NULL'}`;
+            const error = editErrors.get(objectId);
+            if (error) {
+                classes.push('edit-failed');
+                tooltip += `\nUpdate failed: ${error}`;
+            }
+        }
+        const classAttr = classes.length > 0 ? ` class="${classes.join(' ')}"` : '';
+        const width = columnWidths.has(col) ? ` style="max-width: ${columnWidths.get(col)}px"` : '';
+        return `<td${classAttr}${width} data-row="${rowIdx}" data-col="${colIdx}" data-value="${escapeHtml(dataValue)}" title="${escapeHtml(tooltip)}">${displayValue}</td>`;
+    }
+
+    function showValuesPopup(anchor: HTMLElement, values: unknown[], col: string): void {
+        valuesPopup.innerHTML = values.map((value, idx) => {
+            const text = value === null || value === undefined ? '<span class="null-value">NULL</span>' : renderValue(value, col);
+            return `<div><span class="chip-index">[${idx}]</span>${text}</div>`;
+        }).join('');
+        const rect = anchor.getBoundingClientRect();
+        valuesPopup.style.left = `${rect.left}px`;
+        valuesPopup.style.top = `${rect.bottom}px`;
+        valuesPopup.style.display = 'block';
+    }
+
+    /**
+     * Render only the rows in (and just around) the visible part of the scroll area.
+     * Spacer rows above and below keep the scroll height of the full result, so the
+     * DOM stays the same size however many rows the result has.
+     */
+    function renderRows(): void {
+        const total = sortedRows.length;
+        const first = Math.floor(tableContainer.scrollTop / rowHeight);
+        const visible = Math.ceil((tableContainer.clientHeight || VIEWPORT_HEIGHT) / rowHeight);
+        const start = Math.max(0, first - OVERSCAN_ROWS);
+        const end = Math.min(total, first + visible + OVERSCAN_ROWS);
+        if (start === renderedRange.start && end === renderedRange.end) {
+            return;
+        }
+        renderedRange = { start, end };
+
+        const colSpan = visibleColumns.length;
+        if (total === 0) {
+            tbody.innerHTML = `<tr class="no-match"><td colspan="${colSpan}">No rows match the filters.</td></tr>`;
+            return;
+        }
+        const rows: string[] = [];
+        if (start > 0) {
+            rows.push(`<tr class="spacer" style="height: ${start * rowHeight}px"><td colspan="${colSpan}"></td></tr>`);
+        }
+        for (let rowIdx = start; rowIdx < end; rowIdx++) {
+            const row = sortedRows[rowIdx];
+            const cells = visibleColumns.map((col, colIdx) => renderCell(row, rowIdx, col, colIdx)).join('');
+            rows.push(`<tr data-row-idx="${rowIdx}">${cells}</tr>`);
+        }
+        if (end < total) {
+            rows.push(`<tr class="spacer" style="height: ${(total - end) * rowHeight}px"><td colspan="${colSpan}"></td></tr>`);
+        }
+        tbody.innerHTML = rows.join('');
+
+        // Spacers assume a row height; correct it once real rows can be measured
+        const measured = (tbody.querySelector('tr[data-row-idx]') as HTMLElement | null)?.offsetHeight;
+        if (measured && measured !== rowHeight) {
+            rowHeight = measured;
+            renderedRange = { start: -1, end: -1 };
+            renderRows();
+        }
+    }
+
+    function getCellValue(rowIdx: number, colIdx: number): string {
+        return valueText(sortedRows[rowIdx]?.[visibleColumns[colIdx]]);
+    }
+
+    function attachEventHandlers(): void {
+        // Re-render the row window while scrolling, at most once per frame
+        let scrollFrame = 0;
+        tableContainer.onscroll = () => {
+            valuesPopup.style.display = 'none';
+            activeEditor?.commit();
+            if (!scrollFrame) {
+                scrollFrame = requestAnimationFrame(() => {
+                    scrollFrame = 0;
+                    renderRows();
+                });
+            }
+        };
+
         // Cell click handler
         tbody.onclick = (e: MouseEvent) => {
-            const td = (e.target as HTMLElement).closest('td');
+            const td = (e.target as HTMLElement).closest('td[data-row]');
             if (!td) {
                 return;
             }
@@ -515,6 +1552,14 @@ function renderDqlResult(
             };
             selectedRow = selectedCell.row;
 
+            // Expand a repeating attribute
+            if ((e.target as HTMLElement).closest('[data-expand]')) {
+                e.stopPropagation();
+                const col = visibleColumns[selectedCell.col];
+                showValuesPopup(td as HTMLElement, sortedRows[selectedCell.row][col] as unknown[], col);
+                return;
+            }
+
             // Handle object ID click
             const objIdSpan = (e.target as HTMLElement).closest('.object-id') as HTMLElement | null;
             if (objIdSpan) {
@@ -525,9 +1570,22 @@ function renderDqlResult(
             }
         };
 
+        // Double-click edits the cell in edit mode, and otherwise opens the row in the detail drawer
+        tbody.ondblclick = (e: MouseEvent) => {
+            const td = (e.target as HTMLElement).closest('td[data-row]') as HTMLElement | null;
+            if (!td || td.classList.contains('cell-editing')) {
+                return;
+            }
+            if (editMode) {
+                startEdit(td);
+            } else if (!(e.target as HTMLElement).closest('.object-id, [data-expand]')) {
+                openDrawer(parseInt(td.getAttribute('data-row') || '0'));
+            }
+        };
+
         // Context menu handler
         tbody.oncontextmenu = (e: MouseEvent) => {
-            const td = (e.target as HTMLElement).closest('td');
+            const td = (e.target as HTMLElement).closest('td[data-row]');
             if (!td) {
                 return;
             }
@@ -536,15 +1594,15 @@ function renderDqlResult(
             const value = td.getAttribute('data-value') || '';
             const rowIdx = parseInt(td.getAttribute('data-row') || '0');
             const colIdx = parseInt(td.getAttribute('data-col') || '0');
-            const objIdSpan = td.querySelector('.object-id');
-            const isObjId = !!objIdSpan;
+            // In a repeating attribute, dump the value that was right-clicked
+            const objIdSpan = (e.target as HTMLElement).closest('.object-id') ?? td.querySelector('.object-id');
+            const objectId = objIdSpan?.getAttribute('data-object-id') ?? undefined;
 
             selectedRow = rowIdx;
-            showContextMenu(e, value, isObjId, rowIdx, colIdx);
+            showContextMenu(e, value, objectId, rowIdx, colIdx);
         };
     }
-
-    function showContextMenu(e: MouseEvent, cellValue: string, isObjId: boolean, rowIdx: number, colIdx: number): void {
+    function showContextMenu(e: MouseEvent, cellValue: string, objectId: string | undefined, rowIdx: number, colIdx: number): void {
         contextMenu.innerHTML = '';
 
         // Copy cell
@@ -575,11 +1633,8 @@ function renderDqlResult(
         copyCol.className = 'context-menu-item';
         copyCol.textContent = 'Copy Column';
         copyCol.onclick = () => {
-            const col = data.columns[colIdx];
-            const values = sortedRows.map(r => {
-                const v = r[col];
-                return v === null || v === undefined ? '' : String(v);
-            }).join('\n');
+            const col = visibleColumns[colIdx];
+            const values = sortedRows.map(r => valueText(r[col])).join('\n');
             navigator.clipboard.writeText(values).then(() => {
                 showNotification('Column copied');
             });
@@ -587,8 +1642,47 @@ function renderDqlResult(
         };
         contextMenu.appendChild(copyCol);
 
+        const showDetails = document.createElement('div');
+        showDetails.className = 'context-menu-item';
+        showDetails.textContent = 'Show Row Details';
+        showDetails.onclick = () => {
+            openDrawer(rowIdx);
+            hideContextMenu();
+        };
+        contextMenu.appendChild(showDetails);
+
+        if (editMode) {
+            const td = getCellElement(rowIdx, colIdx);
+            const editCell = document.createElement('div');
+            editCell.className = 'context-menu-item';
+            editCell.textContent = 'Edit Cell';
+            editCell.onclick = () => {
+                hideContextMenu();
+                if (td) {
+                    startEdit(td);
+                }
+            };
+            contextMenu.appendChild(editCell);
+
+            const objectId = sortedRows[rowIdx] ? getRowObjectId(sortedRows[rowIdx]) : undefined;
+            const col = visibleColumns[colIdx];
+            if (objectId && pendingEdits.get(objectId)?.has(col)) {
+                const revertCell = document.createElement('div');
+                revertCell.className = 'context-menu-item';
+                revertCell.textContent = 'Revert Cell';
+                revertCell.onclick = () => {
+                    setPendingEdit(objectId, col, undefined);
+                    renderedRange = { start: -1, end: -1 };
+                    renderRows();
+                    updateEditBar();
+                    hideContextMenu();
+                };
+                contextMenu.appendChild(revertCell);
+            }
+        }
+
         // Dump object (for object IDs)
-        if (isObjId) {
+        if (objectId) {
             const sep = document.createElement('div');
             sep.className = 'context-menu-separator';
             contextMenu.appendChild(sep);
@@ -597,7 +1691,7 @@ function renderDqlResult(
             dumpObj.className = 'context-menu-item';
             dumpObj.textContent = 'Dump Object';
             dumpObj.onclick = () => {
-                dumpObject(cellValue);
+                dumpObject(objectId);
                 hideContextMenu();
             };
             contextMenu.appendChild(dumpObj);
@@ -612,6 +1706,549 @@ function renderDqlResult(
         contextMenu.style.display = 'none';
     }
 
+    function getCellElement(rowIdx: number, colIdx: number): HTMLElement | null {
+        return tbody.querySelector(`td[data-row="${rowIdx}"][data-col="${colIdx}"]`);
+    }
+
+    /**
+     * Replace a cell with an input (a text area, one value per line, for repeating attributes)
+     */
+    function startEdit(td: HTMLElement): void {
+        const rowIdx = parseInt(td.getAttribute('data-row') || '0');
+        const col = visibleColumns[parseInt(td.getAttribute('data-col') || '0')];
+        const row = sortedRows[rowIdx];
+        const objectId = row ? getRowObjectId(row) : undefined;
+        if (!row || !objectId) {
+            showNotification('Only rows with an r_object_id can be edited');
+            return;
+        }
+        if (!isEditableColumn(col)) {
+            showNotification(`${col} cannot be edited`);
+            return;
+        }
+        activeEditor?.commit();
+
+        const original = row[col];
+        const repeating = Array.isArray(original);
+        const kind = getValueKind(original);
+        const pending = pendingEdits.get(objectId)?.get(col);
+        const current = pending ? pending.value : original;
+
+        const editor = document.createElement(repeating ? 'textarea' : 'input');
+        editor.className = 'cell-editor';
+        if (editor instanceof HTMLTextAreaElement) {
+            const values = current as unknown[];
+            editor.value = values.map(valueText).join('\n');
+            editor.rows = Math.max(2, values.length + 1);
+            editor.title = 'One value per line. Ctrl+Enter to keep, Escape to cancel';
+        } else {
+            editor.value = valueText(current);
+            editor.title = 'Enter to keep, Escape to cancel';
+        }
+        td.innerHTML = '';
+        td.classList.add('cell-editing');
+        td.appendChild(editor);
+        editor.focus();
+        editor.select();
+
+        let done = false;
+        const finish = (keep: boolean): void => {
+            if (done) {
+                return;
+            }
+            done = true;
+            activeEditor = null;
+            if (keep) {
+                try {
+                    const value = parseEditedValue(editor.value, kind, repeating);
+                    setPendingEdit(objectId, col, isValueChanged(original, value) ? { value, kind } : undefined);
+                } catch (error) {
+                    showNotification(error instanceof Error ? error.message : String(error));
+                }
+            }
+            renderedRange = { start: -1, end: -1 };
+            renderRows();
+            updateEditBar();
+        };
+        activeEditor = { commit: () => finish(true) };
+
+        editor.onkeydown = (e: Event) => {
+            const key = e as KeyboardEvent;
+            key.stopPropagation();
+            if (key.key === 'Escape') {
+                key.preventDefault();
+                finish(false);
+            } else if (key.key === 'Enter' && (!repeating || key.ctrlKey)) {
+                key.preventDefault();
+                finish(true);
+            }
+        };
+        editor.onblur = () => finish(true);
+        editor.onclick = (e: Event) => e.stopPropagation();
+        editor.ondblclick = (e: Event) => e.stopPropagation();
+    }
+
+    /**
+     * Record (or with undefined, drop) the new value of a cell
+     */
+    function setPendingEdit(objectId: string, col: string, change: AttributeChange | undefined): void {
+        const changes = pendingEdits.get(objectId) ?? new Map<string, AttributeChange>();
+        if (change) {
+            changes.set(col, change);
+        } else {
+            changes.delete(col);
+        }
+        if (changes.size > 0) {
+            pendingEdits.set(objectId, changes);
+        } else {
+            pendingEdits.delete(objectId);
+        }
+        editErrors.delete(objectId);
+    }
+
+    function buildEdits(): RowEdit[] {
+        return [...pendingEdits].map(([objectId, changes]) => {
+            const row = data.rows.find(r => r.r_object_id === objectId) ?? {};
+            return {
+                objectId,
+                typeName: getUpdateType(row, data.queryType),
+                changes: Object.fromEntries(changes)
+            };
+        });
+    }
+
+    function updateEditBar(): void {
+        const changeCount = [...pendingEdits.values()].reduce((count, changes) => count + changes.size, 0);
+        editBar.style.display = editMode || changeCount > 0 ? 'flex' : 'none';
+        editStatus.textContent = applying
+            ? 'Applying changes...'
+            : changeCount > 0
+                ? `${changeCount} change(s) in ${pendingEdits.size} row(s)${editErrors.size > 0 ? `, ${editErrors.size} failed` : ''}`
+                : 'Double-click a cell to edit it';
+        previewBtn.textContent = showPreview ? 'Hide Preview' : 'Preview';
+        previewBtn.disabled = changeCount === 0;
+        applyBtn.disabled = changeCount === 0 || applying;
+        discardBtn.disabled = changeCount === 0 || applying;
+
+        if (!showPreview || changeCount === 0) {
+            editPreview.style.display = 'none';
+            return;
+        }
+        let dql: string;
+        let dmApi: string;
+        try {
+            const edits = buildEdits();
+            dql = edits.map(buildUpdateDql).join('\n');
+            dmApi = edits.map(buildDmApiScript).join('\n');
+        } catch (error) {
+            dql = dmApi = error instanceof Error ? error.message : String(error);
+        }
+        editPreview.innerHTML = `<div class="preview-header">DQL <button data-copy-preview="dql">Copy</button></div>
+            <pre>${escapeHtml(dql)}</pre>
+            <div class="preview-header">dmAPI (IAPI script) <button data-copy-preview="dmapi">Copy</button></div>
+            <pre>${escapeHtml(dmApi)}</pre>`;
+        editPreview.style.display = 'block';
+    }
+
+    /**
+     * Send the pending edits to the extension host, which confirms and runs them
+     */
+    function applyEdits(): void {
+        activeEditor?.commit();
+        if (pendingEdits.size === 0 || applying || !context.postMessage || !context.onDidReceiveMessage) {
+            return;
+        }
+
+        const requestId = `${tableId}-edit-${Date.now()}`;
+        applying = true;
+        updateEditBar();
+
+        const listener = context.onDidReceiveMessage((message: EditsAppliedMessage) => {
+            if (message.command !== 'editsApplied' || message.requestId !== requestId) {
+                return;
+            }
+            listener.dispose();
+            applying = false;
+            if (message.error) {
+                showNotification(message.error);
+            } else if (!message.cancelled) {
+                applyEditResults(message.results ?? []);
+            }
+            updateEditBar();
+        });
+
+        context.postMessage({ command: 'applyEdits', requestId, edits: buildEdits() } as RendererMessage);
+    }
+
+    /**
+     * Show the values of updated objects as stored, and keep the edits that failed
+     */
+    function applyEditResults(results: RowEditResult[]): void {
+        let failed = 0;
+        for (const result of results) {
+            const changes = pendingEdits.get(result.objectId);
+            if (!result.success || !changes) {
+                failed++;
+                editErrors.set(result.objectId, result.error ?? 'Update failed');
+                continue;
+            }
+            // Every loaded row of the object takes the new values
+            for (const row of data.rows) {
+                if (row.r_object_id !== result.objectId) {
+                    continue;
+                }
+                for (const [col, change] of changes) {
+                    row[col] = result.values && col in result.values ? result.values[col] : change.value;
+                }
+            }
+            pendingEdits.delete(result.objectId);
+            editErrors.delete(result.objectId);
+        }
+        showNotification(failed > 0
+            ? `Updated ${results.length - failed} object(s), ${failed} failed`
+            : `Updated ${results.length} object(s)`);
+        renderTable();
+    }
+
+    function discardEdits(): void {
+        pendingEdits.clear();
+        editErrors.clear();
+        renderedRange = { start: -1, end: -1 };
+        renderRows();
+        updateEditBar();
+    }
+
+    function getRowObjectId(row: Record<string, unknown>): string | undefined {
+        return isObjectId(row.r_object_id) ? row.r_object_id as string : undefined;
+    }
+
+    function openDrawer(rowIdx: number): void {
+        const row = sortedRows[rowIdx];
+        if (!row) {
+            return;
+        }
+        drawerRow = row;
+        if (!getRowObjectId(row)) {
+            drawerTab = 'columns';
+        }
+        // Leave the toolbar uncovered
+        drawer.style.top = `${toolbar.offsetTop + toolbar.offsetHeight}px`;
+        drawer.style.display = 'flex';
+        container.style.minHeight = `${DRAWER_MIN_HEIGHT}px`;
+        renderDrawer();
+    }
+
+    function closeDrawer(): void {
+        drawerRow = null;
+        drawer.style.display = 'none';
+        container.style.minHeight = '';
+    }
+
+    /**
+     * Show the previous (-1) or next (1) of the shown rows in the drawer
+     */
+    function moveDrawer(step: number): void {
+        const idx = drawerRow ? sortedRows.indexOf(drawerRow) : -1;
+        if (idx !== -1) {
+            openDrawer(idx + step);
+        }
+    }
+
+    /**
+     * Full value of a cell or attribute: repeating values one per line with their index
+     */
+    function renderFullValue(value: unknown, col: string): string {
+        if (Array.isArray(value)) {
+            if (value.length === 0) {
+                return '<span class="null-value">(no values)</span>';
+            }
+            return value.map((v, idx) => {
+                const text = v === null || v === undefined ? '<span class="null-value">NULL</span>' : renderValue(v, col);
+                return `<div><span class="chip-index">[${idx}]</span>${text}</div>`;
+            }).join('');
+        }
+        if (value === null || value === undefined) {
+            return '<span class="null-value">NULL</span>';
+        }
+        return renderValue(value, col);
+    }
+
+    function renderDrawerField(name: string, value: unknown, options: { type?: string; hidden?: boolean } = {}): string {
+        const copyIdx = drawerCopyValues.push(valueText(value)) - 1;
+        const type = options.type ? `<span class="field-type">${escapeHtml(options.type)}</span>` : '';
+        const nameClass = options.hidden ? 'field-name hidden-column' : 'field-name';
+        const nameTitle = options.hidden ? `${name} (hidden column)` : name;
+        return `<div class="drawer-field">
+            <div class="${nameClass}" title="${escapeHtml(nameTitle)}">${escapeHtml(name)}${type}</div>
+            <div class="field-value">${renderFullValue(value, name)}</div>
+            <button class="copy" data-copy="${copyIdx}" title="Copy value">Copy</button>
+        </div>`;
+    }
+
+    function renderDrawer(): void {
+        if (!drawerRow) {
+            return;
+        }
+        const row = drawerRow;
+        const idx = sortedRows.indexOf(row);
+        const objectId = getRowObjectId(row);
+        drawerCopyValues = [];
+
+        const title = idx === -1 ? 'Row (filtered out)' : `Row ${idx + 1} of ${sortedRows.length}`;
+        const tabs = objectId
+            ? `<div class="drawer-tabs">
+                <button data-tab="columns" class="${drawerTab === 'columns' ? 'active' : ''}">Columns</button>
+                <button data-tab="dump" class="${drawerTab === 'dump' ? 'active' : ''}">Object Dump</button>
+            </div>`
+            : '';
+
+        let body: string;
+        if (drawerTab === 'dump' && objectId) {
+            body = renderDumpTab(objectId);
+        } else {
+            // Shown columns first, in display order, then the hidden ones
+            const hidden = data.columns.filter(col => !visibleColumns.includes(col));
+            body = [
+                ...visibleColumns.map(col => renderDrawerField(col, row[col])),
+                ...hidden.map(col => renderDrawerField(col, row[col], { hidden: true }))
+            ].join('');
+        }
+
+        drawer.innerHTML = `<div class="drawer-header">
+                <span class="drawer-title">${title}</span>
+                <button data-action="prev" title="Previous row"${idx <= 0 ? ' disabled' : ''}>&#9650;</button>
+                <button data-action="next" title="Next row"${idx === -1 || idx >= sortedRows.length - 1 ? ' disabled' : ''}>&#9660;</button>
+                <button data-action="copy-json" title="Copy the row as JSON">Copy JSON</button>
+                <button data-action="close" title="Close (Escape)">&#10005;</button>
+            </div>
+            ${tabs}
+            <div class="drawer-body">${body}</div>`;
+    }
+
+    function renderDumpTab(objectId: string): string {
+        const actions = `<div class="drawer-header">
+                <span class="drawer-title">${escapeHtml(objectId)}</span>
+                <button data-action="refresh-dump" title="Fetch the dump again">Refresh</button>
+                <button data-action="open-dump" title="Open the object in the Object Dump panel">Open in Panel</button>
+            </div>`;
+        const reply = objectDumps.get(objectId);
+        if (!reply) {
+            if (!pendingDumps.has(objectId)) {
+                fetchObjectDump(objectId);
+            }
+            return `${actions}<div class="drawer-note">Loading object dump...</div>`;
+        }
+        if (reply.error || !reply.dump) {
+            return `${actions}<div class="drawer-note">${escapeHtml(reply.error ?? 'No dump returned')}</div>`;
+        }
+        const dump = reply.dump;
+        const sections = dump.sections.map(section => `<details class="drawer-section" open>
+                <summary>${escapeHtml(section.label)} (${section.attributes.length})</summary>
+                ${section.attributes.map(attr => renderDrawerField(attr.name, attr.value, { type: attr.type })).join('')}
+            </details>`).join('');
+        return `${actions}<div class="drawer-note">${escapeHtml(dump.objectName)} (${escapeHtml(dump.typeName)})</div>${sections}`;
+    }
+
+    /**
+     * Ask the extension host for an object's dump; the reply is shown when it arrives
+     */
+    function fetchObjectDump(objectId: string): void {
+        if (!context.postMessage || !context.onDidReceiveMessage) {
+            objectDumps.set(objectId, { command: 'objectDump', requestId: '', error: 'Object dumps need a connection to the extension' });
+            return;
+        }
+
+        const requestId = `${tableId}-dump-${Date.now()}`;
+        pendingDumps.add(objectId);
+        objectDumps.delete(objectId);
+
+        const listener = context.onDidReceiveMessage((message: ObjectDumpMessage) => {
+            if (message.command !== 'objectDump' || message.requestId !== requestId) {
+                return;
+            }
+            listener.dispose();
+            pendingDumps.delete(objectId);
+            objectDumps.set(objectId, message);
+            if (drawerRow && getRowObjectId(drawerRow) === objectId && drawerTab === 'dump') {
+                renderDrawer();
+            }
+        });
+
+        context.postMessage({ command: 'dumpObject', objectId, requestId } as RendererMessage);
+    }
+
+    function handleDrawerClick(e: MouseEvent): void {
+        const target = e.target as HTMLElement;
+        const objectId = target.closest('.object-id')?.getAttribute('data-object-id');
+        if (objectId) {
+            dumpObject(objectId);
+            return;
+        }
+
+        const copyIdx = target.closest('[data-copy]')?.getAttribute('data-copy');
+        if (copyIdx !== null && copyIdx !== undefined) {
+            navigator.clipboard.writeText(drawerCopyValues[parseInt(copyIdx)] ?? '').then(() => {
+                showNotification('Value copied');
+            });
+            return;
+        }
+
+        const tab = target.closest('[data-tab]')?.getAttribute('data-tab');
+        if (tab === 'columns' || tab === 'dump') {
+            drawerTab = tab;
+            renderDrawer();
+            return;
+        }
+
+        const rowObjectId = drawerRow ? getRowObjectId(drawerRow) : undefined;
+        switch (target.closest('[data-action]')?.getAttribute('data-action')) {
+            case 'prev':
+                moveDrawer(-1);
+                break;
+            case 'next':
+                moveDrawer(1);
+                break;
+            case 'close':
+                closeDrawer();
+                break;
+            case 'copy-json':
+                navigator.clipboard.writeText(JSON.stringify(drawerRow, undefined, 2)).then(() => {
+                    showNotification('Row copied as JSON');
+                });
+                break;
+            case 'refresh-dump':
+                if (rowObjectId) {
+                    fetchObjectDump(rowObjectId);
+                    renderDrawer();
+                }
+                break;
+            case 'open-dump':
+                if (rowObjectId) {
+                    dumpObject(rowObjectId);
+                }
+                break;
+        }
+    }
+
+    function createSelect(title: string, options: [string, string][]): HTMLSelectElement {
+        const select = document.createElement('select');
+        select.title = title;
+        select.innerHTML = options.map(([value, label]) =>
+            `<option value="${escapeHtml(value)}">${escapeHtml(label)}</option>`
+        ).join('');
+        return select;
+    }
+
+    /**
+     * Show the chart (or the table when settings is undefined) and store the choice in the cell metadata
+     */
+    function setChart(settings: ChartSettings | undefined): void {
+        chart = settings;
+        showView();
+        if (context.postMessage && resultId) {
+            context.postMessage({ command: 'saveChartSettings', resultId, chart: settings ?? null } as RendererMessage);
+        }
+    }
+
+    function showView(): void {
+        chartBtn.textContent = chart ? 'Table' : 'Chart';
+        chartPanel.style.display = chart ? 'block' : 'none';
+        tableContainer.style.display = chart ? 'none' : 'block';
+        if (chart) {
+            chartTypeSelect.value = chart.type;
+            categorySelect.value = chart.category;
+            valueSelect.value = chart.value ?? '';
+            renderChart();
+        }
+    }
+
+    function getChartSvg(background?: string): string {
+        const styles = getComputedStyle(container);
+        return renderChartSvg(buildChartPoints(sortedRows, chart!), chart!, {
+            width: Math.max(300, container.clientWidth || 600),
+            height: CHART_HEIGHT,
+            foreground: styles.color || '#888888',
+            grid: styles.getPropertyValue('--vscode-panel-border').trim() || 'rgba(128, 128, 128, 0.35)',
+            background
+        });
+    }
+
+    /**
+     * Draw the chart from the shown rows, so filters apply to it
+     */
+    function renderChart(): void {
+        if (chart) {
+            chartArea.innerHTML = getChartSvg();
+        }
+    }
+
+    /**
+     * Draw an SVG onto a canvas and return the PNG as base64
+     */
+    function toPng(svg: string, width: number, height: number): Promise<string> {
+        return new Promise((resolve, reject) => {
+            const image = new Image();
+            image.onload = () => {
+                const canvas = document.createElement('canvas');
+                canvas.width = width * 2;
+                canvas.height = height * 2;
+                const ctx = canvas.getContext('2d');
+                if (!ctx) {
+                    reject(new Error('Canvas is not available'));
+                    return;
+                }
+                ctx.scale(2, 2);
+                ctx.drawImage(image, 0, 0);
+                resolve(canvas.toDataURL('image/png').split(',')[1]);
+            };
+            image.onerror = () => reject(new Error('Could not draw the chart'));
+            image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+        });
+    }
+
+    /**
+     * Send the chart to the extension host, which adds it to the cell outputs
+     */
+    async function saveChartImage(format: 'svg' | 'png'): Promise<void> {
+        if (!chart || !context.postMessage || !resultId) {
+            showNotification('Run the cell again to save its chart');
+            return;
+        }
+        // Images keep the theme's background so they stay readable elsewhere
+        const background = getComputedStyle(container).getPropertyValue('--vscode-editor-background').trim() || '#ffffff';
+        const svg = getChartSvg(background);
+        try {
+            const image = format === 'svg'
+                ? svg
+                : await toPng(svg, Math.max(300, container.clientWidth || 600), CHART_HEIGHT);
+            context.postMessage({
+                command: 'saveChartImage',
+                resultId,
+                mime: format === 'svg' ? 'image/svg+xml' : 'image/png',
+                image
+            } as RendererMessage);
+            showNotification(`Chart saved as ${format.toUpperCase()}`);
+        } catch (error) {
+            showNotification(error instanceof Error ? error.message : String(error));
+        }
+    }
+
+    // The cell metadata may hold a newer chart choice than the output did when the cell ran
+    if (context.postMessage && context.onDidReceiveMessage && resultId) {
+        const listener = context.onDidReceiveMessage((message: ChartSettingsMessage) => {
+            if (message.command !== 'chartSettings' || message.resultId !== resultId) {
+                return;
+            }
+            listener.dispose();
+            const latest = message.chart ?? undefined;
+            if (JSON.stringify(latest) !== JSON.stringify(chart)) {
+                chart = latest;
+                showView();
+            }
+        });
+        context.postMessage({ command: 'getChart', resultId } as RendererMessage);
+    }
+
     // Global event handlers
     document.addEventListener('mousemove', (e: MouseEvent) => {
         if (!resizing) {
@@ -622,8 +2259,10 @@ function renderDqlResult(
         resizing.th.style.width = newWidth + 'px';
         resizing.th.style.minWidth = newWidth + 'px';
         resizing.th.style.maxWidth = newWidth + 'px';
-        // Update td cells in this column
-        const tds = document.querySelectorAll(`#${tableId} td:nth-child(${resizing.colIdx + 1})`);
+        columnWidths.set(resizing.column, newWidth);
+        // Update the rendered td cells in this column; rows rendered later pick up columnWidths
+        const colIdx = visibleColumns.indexOf(resizing.column);
+        const tds = document.querySelectorAll(`#${tableId} td[data-col="${colIdx}"]`);
         tds.forEach(td => {
             (td as HTMLElement).style.maxWidth = newWidth + 'px';
         });
@@ -646,21 +2285,41 @@ function renderDqlResult(
         if (!(e.target as HTMLElement).closest('.context-menu')) {
             hideContextMenu();
         }
+        if (!(e.target as HTMLElement).closest('.column-chooser')) {
+            columnChooser.style.display = 'none';
+        }
+        if (!(e.target as HTMLElement).closest('.values-popup')) {
+            valuesPopup.style.display = 'none';
+        }
     });
 
     document.addEventListener('keydown', (e: KeyboardEvent) => {
-        if (e.ctrlKey && e.key === 'c' && selectedCell) {
-            const td = document.querySelector(`#${tableId} td[data-row="${selectedCell.row}"][data-col="${selectedCell.col}"]`) as HTMLElement | null;
+        if (e.key === 'Escape' && drawerRow) {
+            closeDrawer();
+            return;
+        }
+        if (e.key === 'F2' && editMode && selectedCell) {
+            const td = getCellElement(selectedCell.row, selectedCell.col);
             if (td) {
-                navigator.clipboard.writeText(td.getAttribute('data-value') || '').then(() => {
-                    showNotification('Cell copied');
-                });
+                e.preventDefault();
+                startEdit(td);
             }
+            return;
+        }
+        // Leave copying text typed into the search and filter inputs alone
+        if (e.ctrlKey && e.key === 'c' && selectedCell && !(e.target as HTMLElement).closest('input')) {
+            // Read from the data: the selected row may have been scrolled out of the DOM
+            navigator.clipboard.writeText(getCellValue(selectedCell.row, selectedCell.col)).then(() => {
+                showNotification('Cell copied');
+            });
         }
     });
 
     // Initial render
+    renderHeader();
+    attachEventHandlers();
     renderTable();
+    showView();
 }
 
 /**
@@ -0,0 +1,145 @@
+/**
+ * Row-by-row comparison of two DQL results.
+ *
+ * Used to compare two notebook cell outputs, or one cell's query run against two
+ * connections. This module must not use the VS Code API so it can be tested on its own.
+ */
+
+import { valueText } from './resultView';
+
+/**
+ * How a row differs between the two results
+ */
+export type DiffStatus = 'added' | 'removed' | 'changed' | 'unchanged';
+
+/**
+ * One side of a comparison
+ */
+export interface DiffInput {
+    columns: string[];
+    rows: Record<string, unknown>[];
+}
+
+/**
+ * Names of the two compared results, e.g. "Cell 2" and "Cell 2 on UAT"
+ */
+export interface DiffLabels {
+    left: string;
+    right: string;
+}
+
+/**
+ * A row of the comparison: a pair of rows with the same key, or a row only one result has
+ */
+export interface DiffRow {
+    status: DiffStatus;
+    /** Key column value as text */
+    key: string;
+    /** Row of the first result; missing for added rows */
+    left?: Record<string, unknown>;
+    /** Row of the second result; missing for removed rows */
+    right?: Record<string, unknown>;
+    /** Columns whose values differ, for changed rows */
+    changedColumns: string[];
+}
+
+export interface ResultDiff {
+    keyColumn: string;
+    /** The key column, the other columns of the first result, then those only the second has */
+    columns: string[];
+    /** Rows in the order of the first result, followed by the added rows */
+    rows: DiffRow[];
+    counts: Record<DiffStatus, number>;
+    /** Keys found more than once in a result; their rows are paired in order */
+    duplicateKeys: string[];
+}
+
+/**
+ * Columns both results have, which can serve as the key; r_object_id comes first
+ */
+export function getKeyCandidates(left: DiffInput, right: DiffInput): string[] {
+    const common = left.columns.filter(col => right.columns.includes(col));
+    return common.includes('r_object_id')
+        ? ['r_object_id', ...common.filter(col => col !== 'r_object_id')]
+        : common;
+}
+
+/**
+ * Whether two values show the same, so that 5 and '5', or NULL and '', are not reported as changes
+ */
+function sameValue(a: unknown, b: unknown): boolean {
+    const normalize = (v: unknown): unknown => Array.isArray(v) ? v.map(valueText) : valueText(v);
+    return JSON.stringify(normalize(a)) === JSON.stringify(normalize(b));
+}
+
+/**
+ * Compare two results by a key column.
+ *
+ * Rows with the same key are paired and compared on the columns both results have;
+ * columns only one result has are shown but never count as changed.
+ *
+ * @throws Error if the key column is missing from either result
+ */
+export function diffResults(left: DiffInput, right: DiffInput, keyColumn: string): ResultDiff {
+    if (!left.columns.includes(keyColumn) || !right.columns.includes(keyColumn)) {
+        throw new Error(`Key column ${keyColumn} is not in both results`);
+    }
+
+    const columns = [
+        keyColumn,
+        ...left.columns.filter(col => col !== keyColumn),
+        ...right.columns.filter(col => !left.columns.includes(col))
+    ];
+    const compared = columns.filter(col => col !== keyColumn && left.columns.includes(col) && right.columns.includes(col));
+
+    const duplicateKeys = new Set<string>();
+    const byKey = new Map<string, Record<string, unknown>[]>();
+    for (const row of right.rows) {
+        const key = valueText(row[keyColumn]);
+        const rows = byKey.get(key);
+        if (rows) {
+            rows.push(row);
+            duplicateKeys.add(key);
+        } else {
+            byKey.set(key, [row]);
+        }
+    }
+
+    const rows: DiffRow[] = [];
+    const paired = new Set<Record<string, unknown>>();
+    const leftKeys = new Set<string>();
+    for (const leftRow of left.rows) {
+        const key = valueText(leftRow[keyColumn]);
+        if (leftKeys.has(key)) {
+            duplicateKeys.add(key);
+        }
+        leftKeys.add(key);
+
+        const rightRow = byKey.get(key)?.shift();
+        if (!rightRow) {
+            rows.push({ status: 'removed', key, left: leftRow, changedColumns: [] });
+            continue;
+        }
+        paired.add(rightRow);
+        const changedColumns = compared.filter(col => !sameValue(leftRow[col], rightRow[col]));
+        rows.push({
+            status: changedColumns.length > 0 ? 'changed' : 'unchanged',
+            key,
+            left: leftRow,
+            right: rightRow,
+            changedColumns
+        });
+    }
+    for (const rightRow of right.rows) {
+        if (!paired.has(rightRow)) {
+            rows.push({ status: 'added', key: valueText(rightRow[keyColumn]), right: rightRow, changedColumns: [] });
+        }
+    }
+
+    const counts: Record<DiffStatus, number> = { added: 0, removed: 0, changed: 0, unchanged: 0 };
+    for (const row of rows) {
+        counts[row.status]++;
+    }
+
+    return { keyColumn, columns, rows, counts, duplicateKeys: [...duplicateKeys] };
+}
@@ -0,0 +1,235 @@
+/**
+ * Cell edits in result grids and the statements that apply them.
+ *
+ * Shared by the notebook renderer (which previews the statements) and the
+ * notebook controller (which runs them), so this module must not use the
+ * VS Code or DOM APIs.
+ */
+
+/**
+ * How an attribute value is written in DQL, taken from the value the query returned
+ */
+export type ValueKind = 'string' | 'number' | 'boolean' | 'date';
+
+/**
+ * New value of one attribute; repeating attributes hold all their values
+ */
+export interface AttributeChange {
+    value: unknown;
+    kind: ValueKind;
+}
+
+/**
+ * Changes to one object of a result
+ */
+export interface RowEdit {
+    objectId: string;
+    /** Type named in the UPDATE statement (see getUpdateType) */
+    typeName: string;
+    /** Changes by attribute name */
+    changes: Record<string, AttributeChange>;
+}
+
+/**
+ * Outcome of applying a RowEdit
+ */
+export interface RowEditResult {
+    objectId: string;
+    success: boolean;
+    error?: string;
+    /** The changed attributes as selected again after the update */
+    values?: Record<string, unknown>;
+}
+
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const OBJECT_ID = /^[0-9a-f]{16}$/i;
+const DATE_VALUE = /^\d{4}-\d{2}-\d{2}( \d{2}:\d{2}:\d{2})?$/;
+
+/**
+ * Whether a result column can be edited: the object ID and the server-maintained
+ * r_ and i_ attributes cannot, nor can columns that are not plain attribute names
+ */
+export function isEditableColumn(column: string): boolean {
+    return IDENTIFIER.test(column) && !/^[ri]_/i.test(column);
+}
+
+/**
+ * Kind of a value returned by a query; repeating attributes take the kind of their first value
+ */
+export function getValueKind(value: unknown): ValueKind {
+    const first = Array.isArray(value) ? value.find(v => v !== null && v !== undefined) : value;
+    if (typeof first === 'number') {
+        return 'number';
+    }
+    if (typeof first === 'boolean') {
+        return 'boolean';
+    }
+    if (typeof first === 'string' && DATE_VALUE.test(first)) {
+        return 'date';
+    }
+    return 'string';
+}
+
+function parseScalar(text: string, kind: ValueKind): unknown {
+    const trimmed = text.trim();
+    switch (kind) {
+        case 'number': {
+            const n = Number(trimmed);
+            if (trimmed === '' || Number.isNaN(n)) {
+                throw new Error(`Not a number: ${text}`);
+            }
+            return n;
+        }
+        case 'boolean': {
+            const lower = trimmed.toLowerCase();
+            if (lower === 'true' || lower === 't' || lower === '1') {
+                return true;
+            }
+            if (lower === 'false' || lower === 'f' || lower === '0') {
+                return false;
+            }
+            throw new Error(`Not a boolean (true or false): ${text}`);
+        }
+        case 'date':
+            if (trimmed !== '' && !DATE_VALUE.test(trimmed)) {
+                throw new Error(`Not a date (YYYY-MM-DD or YYYY-MM-DD HH:MM:SS): ${text}`);
+            }
+            return trimmed === '' ? null : trimmed;
+        default:
+            return text;
+    }
+}
+
+/**
+ * Convert the text typed into a cell to a value of the given kind.
+ * Repeating attributes take one value per line; blank lines are skipped.
+ *
+ * @throws Error if a value is not a valid number, boolean or date
+ */
+export function parseEditedValue(text: string, kind: ValueKind, repeating: boolean): unknown {
+    if (!repeating) {
+        return parseScalar(text, kind);
+    }
+    return text.split(/\r?\n/)
+        .filter(line => line.trim() !== '')
+        .map(line => parseScalar(line, kind));
+}
+
+/**
+ * Whether an edited value differs from the value the query returned.
+ * An empty string counts as NULL, since the grid shows both the same way.
+ */
+export function isValueChanged(original: unknown, edited: unknown): boolean {
+    const normalize = (v: unknown): unknown => Array.isArray(v)
+        ? v.map(normalize)
+        : (v === undefined || v === '' ? null : v);
+    return JSON.stringify(normalize(original)) !== JSON.stringify(normalize(edited));
+}
+
+/**
+ * Type named in the FROM clause of a query
+ */
+export function getQueryType(query: string): string | undefined {
+    return query.match(/\bFROM\s+([A-Za-z_][A-Za-z0-9_]*)/i)?.[1];
+}
+
+/**
+ * Type to update an edited row through: its r_object_type when the query selected it,
+ * otherwise the type the query selected from
+ */
+export function getUpdateType(row: Record<string, unknown>, queryType?: string): string {
+    const objectType = row.r_object_type;
+    if (typeof objectType === 'string' && IDENTIFIER.test(objectType)) {
+        return objectType;
+    }
+    return queryType ?? 'dm_sysobject';
+}
+
+function checkEdit(edit: RowEdit): void {
+    if (!OBJECT_ID.test(edit.objectId)) {
+        throw new Error(`Invalid object ID: ${edit.objectId}`);
+    }
+    if (!IDENTIFIER.test(edit.typeName)) {
+        throw new Error(`Invalid type name: ${edit.typeName}`);
+    }
+    for (const column of Object.keys(edit.changes)) {
+        if (!isEditableColumn(column)) {
+            throw new Error(`Attribute cannot be edited: ${column}`);
+        }
+    }
+}
+
+/**
+ * A value written as a DQL literal: quoted strings, DATE(...) for dates, NULL for missing values
+ */
+export function formatDqlLiteral(value: unknown, kind: ValueKind): string {
+    if (value === null || value === undefined) {
+        return 'NULL';
+    }
+    if (kind === 'number' && typeof value === 'number' && Number.isFinite(value)) {
+        return String(value);
+    }
+    if (kind === 'boolean' && typeof value === 'boolean') {
+        return value ? 'TRUE' : 'FALSE';
+    }
+    const quoted = `'${String(value).replace(/'/g, "''")}'`;
+    if (kind === 'date') {
+        return `DATE(${quoted}, '${String(value).length > 10 ? 'yyyy-mm-dd hh:mi:ss' : 'yyyy-mm-dd'}')`;
+    }
+    return quoted;
+}
+
+/**
+ * DQL UPDATE statement applying an edit. Repeating attributes are truncated and
+ * their values appended again.
+ *
+ * @throws Error if the object ID, type or an attribute name is invalid
+ */
+export function buildUpdateDql(edit: RowEdit): string {
+    checkEdit(edit);
+    const updates = Object.entries(edit.changes).flatMap(([column, change]) => Array.isArray(change.value)
+        ? [`TRUNCATE ${column}`, ...change.value.map(v => `APPEND ${column} = ${formatDqlLiteral(v, change.kind)}`)]
+        : [`SET ${column} = ${formatDqlLiteral(change.value, change.kind)}`]);
+    return `UPDATE ${edit.typeName} OBJECTS ${updates.join(', ')} WHERE r_object_id = '${edit.objectId}'`;
+}
+
+function formatApiValue(value: unknown, kind: ValueKind): string {
+    if (value === null || value === undefined) {
+        return '';
+    }
+    if (kind === 'boolean') {
+        return value ? 'T' : 'F';
+    }
+    return String(value);
+}
+
+/**
+ * The same edit as an IAPI script of set/append and save commands, each value on its own line
+ *
+ * @throws Error if the object ID, type or an attribute name is invalid
+ */
+export function buildDmApiScript(edit: RowEdit): string {
+    checkEdit(edit);
+    const lines: string[] = [];
+    for (const [column, change] of Object.entries(edit.changes)) {
+        if (Array.isArray(change.value)) {
+            lines.push(`truncate,c,${edit.objectId},${column},0`);
+            for (const value of change.value) {
+                lines.push(`append,c,${edit.objectId},${column}`, formatApiValue(value, change.kind));
+            }
+        } else {
+            lines.push(`set,c,${edit.objectId},${column}`, formatApiValue(change.value, change.kind));
+        }
+    }
+    lines.push(`save,c,${edit.objectId}`);
+    return lines.join('\n');
+}
+
+/**
+ * Query selecting the changed attributes of an edited object again
+ */
+export function buildRefreshDql(edit: RowEdit): string {
+    checkEdit(edit);
+    const columns = ['r_object_id', ...Object.keys(edit.changes)];
+    return `SELECT ${columns.join(', ')} FROM ${edit.typeName} WHERE r_object_id = '${edit.objectId}'`;
+}
@@ -0,0 +1,309 @@
+/**
+ * Filtering, sorting, quick search and column selection for result tables.
+ *
+ * Shared by the notebook renderer (in the webview) and the DQL results panel
+ * (in the extension host), so this module must not use the VS Code or DOM APIs.
+ */
+
+/**
+ * What the user has narrowed a result table down to
+ */
+export interface ResultViewState {
+    /** Filter expression per column name (see parseColumnFilter) */
+    filters: Record<string, string>;
+    /** Text searched for in every visible column */
+    search: string;
+    /** Columns the user has hidden */
+    hiddenColumns: string[];
+    /** Column display order; columns missing from it follow in their original order */
+    columnOrder: string[];
+    /** Column the rows are sorted by; unsorted rows keep the query order */
+    sort?: { column: string; direction: SortDirection };
+}
+
+export type SortDirection = 'asc' | 'desc';
+
+/**
+ * A parsed column filter expression
+ */
+export type ColumnFilter =
+    | { kind: 'contains'; text: string }
+    | { kind: 'equals'; text: string; negated: boolean }
+    | { kind: 'null'; negated: boolean }
+    | { kind: 'range'; valueType: 'number' | 'date'; min?: number; max?: number; minInclusive: boolean; maxInclusive: boolean };
+
+export function createResultViewState(): ResultViewState {
+    return { filters: {}, search: '', hiddenColumns: [], columnOrder: [] };
+}
+
+const COMPARISON = /^(>=|<=|>|<)\s*(.+)$/;
+const RANGE = /^(.+?)\s*\.\.\s*(.+)$/;
+const DATE_VALUE = /^\d{4}-\d{2}-\d{2}([ T]\d{2}:\d{2}(:\d{2})?)?/;
+
+/**
+ * Parse a column filter expression:
+ *
+ * - `text` - contains, case-insensitive
+ * - `=text` / `!=text` - equals / does not equal, case-insensitive
+ * - `null` / `not null` - empty or missing value
+ * - `>10`, `<=2.5`, `10..20` - numeric comparison or range (inclusive)
+ * - `>2024-01-01`, `2024-01-01..2024-03-31` - date comparison or range (inclusive)
+ *
+ * @returns undefined for an empty expression
+ * @throws Error if a comparison bound is neither a number nor a date, or range bounds mix the two
+ */
+export function parseColumnFilter(expression: string): ColumnFilter | undefined {
+    const text = expression.trim();
+    if (!text) {
+        return undefined;
+    }
+
+    const lower = text.toLowerCase();
+    if (lower === 'null' || lower === 'is null') {
+        return { kind: 'null', negated: false };
+    }
+    if (lower === 'not null' || lower === 'is not null') {
+        return { kind: 'null', negated: true };
+    }
+    if (text.startsWith('!=')) {
+        return { kind: 'equals', text: text.slice(2).trim(), negated: true };
+    }
+    if (text.startsWith('=')) {
+        return { kind: 'equals', text: text.slice(1).trim(), negated: false };
+    }
+
+    const comparison = text.match(COMPARISON);
+    if (comparison) {
+        const bound = parseBound(comparison[2]);
+        const operator = comparison[1];
+        return operator.startsWith('>')
+            ? { kind: 'range', valueType: bound.valueType, min: bound.value, minInclusive: operator === '>=', maxInclusive: false }
+            : { kind: 'range', valueType: bound.valueType, max: bound.value, minInclusive: false, maxInclusive: operator === '<=' };
+    }
+
+    // Text such as `file..txt` whose ends are not numbers or dates is a contains filter
+    const range = text.match(RANGE);
+    if (range && isBound(range[1]) && isBound(range[2])) {
+        const min = parseBound(range[1]);
+        const max = parseBound(range[2]);
+        if (min.valueType !== max.valueType) {
+            throw new Error(`Range bounds must both be numbers or both be dates: ${text}`);
+        }
+        return { kind: 'range', valueType: min.valueType, min: min.value, max: max.value, minInclusive: true, maxInclusive: true };
+    }
+
+    return { kind: 'contains', text };
+}
+
+function parseBound(text: string): { valueType: 'number' | 'date'; value: number } {
+    const trimmed = text.trim();
+    if (/^-?\d+(\.\d+)?$/.test(trimmed)) {
+        return { valueType: 'number', value: Number(trimmed) };
+    }
+    const date = parseDate(trimmed);
+    if (date !== undefined) {
+        return { valueType: 'date', value: date };
+    }
+    throw new Error(`Not a number or date (YYYY-MM-DD): ${trimmed}`);
+}
+
+function isBound(text: string): boolean {
+    try {
+        parseBound(text);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Parse a date value as returned by the bridge (`YYYY-MM-DD[ HH:MM[:SS]]` or ISO 8601)
+ */
+function parseDate(value: string): number | undefined {
+    if (!DATE_VALUE.test(value)) {
+        return undefined;
+    }
+    const time = Date.parse(value.replace(' ', 'T'));
+    return Number.isNaN(time) ? undefined : time;
+}
+
+function isEmpty(value: unknown): boolean {
+    return value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+/**
+ * Text of a value for searching and display; repeating attribute values are joined
+ */
+export function valueText(value: unknown): string {
+    if (value === null || value === undefined) {
+        return '';
+    }
+    return Array.isArray(value) ? value.map(valueText).join(', ') : String(value);
+}
+
+/**
+ * Value a cell sorts by: repeating attributes sort by their first value
+ */
+function sortKey(value: unknown): string | number {
+    const first = Array.isArray(value) ? value[0] : value;
+    if (typeof first === 'number') {
+        return first;
+    }
+    return first === null || first === undefined ? '' : String(first).toLowerCase();
+}
+
+/**
+ * Sort rows by a column; numbers compare numerically, everything else as lower-case text
+ */
+export function sortResultRows(
+    rows: Record<string, unknown>[],
+    column: string,
+    direction: SortDirection
+): Record<string, unknown>[] {
+    // Compute each sort key once rather than on every comparison
+    const sign = direction === 'asc' ? 1 : -1;
+    const keyed = rows.map(row => ({ row, key: sortKey(row[column]) }));
+    keyed.sort((a, b) => {
+        if (typeof a.key === 'number' && typeof b.key === 'number') {
+            return (a.key - b.key) * sign;
+        }
+        const aStr = String(a.key);
+        const bStr = String(b.key);
+        if (aStr < bStr) {
+            return -sign;
+        }
+        if (aStr > bStr) {
+            return sign;
+        }
+        return 0;
+    });
+    return keyed.map(k => k.row);
+}
+
+/**
+ * Whether a value passes a column filter.
+ * A repeating attribute passes when any of its values does.
+ */
+export function matchesFilter(value: unknown, filter: ColumnFilter): boolean {
+    if (filter.kind === 'null') {
+        return isEmpty(value) !== filter.negated;
+    }
+    if (Array.isArray(value) && value.length > 0) {
+        return filter.kind === 'equals' && filter.negated
+            ? value.every(v => matchesFilter(v, filter))
+            : value.some(v => matchesFilter(v, filter));
+    }
+
+    switch (filter.kind) {
+        case 'contains':
+            return valueText(value).toLowerCase().includes(filter.text.toLowerCase());
+        case 'equals':
+            return (valueText(value).toLowerCase() === filter.text.toLowerCase()) !== filter.negated;
+        case 'range': {
+            if (isEmpty(value)) {
+                return false;
+            }
+            const n = filter.valueType === 'number'
+                ? (typeof value === 'number' ? value : Number(String(value).trim()))
+                : parseDate(String(value).trim());
+            if (n === undefined || Number.isNaN(n)) {
+                return false;
+            }
+            if (filter.min !== undefined && (filter.minInclusive ? n < filter.min : n <= filter.min)) {
+                return false;
+            }
+            if (filter.max !== undefined && (filter.maxInclusive ? n > filter.max : n >= filter.max)) {
+                return false;
+            }
+            return true;
+        }
+    }
+}
+
+/**
+ * Columns to show, in display order
+ */
+export function getVisibleColumns(columns: string[], state: ResultViewState): string[] {
+    const ordered = [
+        ...state.columnOrder.filter(c => columns.includes(c)),
+        ...columns.filter(c => !state.columnOrder.includes(c))
+    ];
+    return ordered.filter(c => !state.hiddenColumns.includes(c));
+}
+
+/**
+ * Parse the filter expressions of a view, skipping invalid ones
+ *
+ * @returns The parsed filters by column and the error of each invalid expression
+ */
+export function parseViewFilters(state: ResultViewState): { filters: Map<string, ColumnFilter>; errors: Map<string, string> } {
+    const filters = new Map<string, ColumnFilter>();
+    const errors = new Map<string, string>();
+    for (const [column, expression] of Object.entries(state.filters)) {
+        try {
+            const filter = parseColumnFilter(expression);
+            if (filter) {
+                filters.set(column, filter);
+            }
+        } catch (error) {
+            errors.set(column, error instanceof Error ? error.message : String(error));
+        }
+    }
+    return { filters, errors };
+}
+
+/**
+ * Apply a view to a result: the visible columns, and the rows that pass
+ * every valid column filter and contain the quick-search text in a visible column,
+ * sorted when the view has a sort column
+ */
+export function applyResultView(
+    columns: string[],
+    rows: Record<string, unknown>[],
+    state: ResultViewState
+): { columns: string[]; rows: Record<string, unknown>[] } {
+    const visibleColumns = getVisibleColumns(columns, state);
+    const { filters } = parseViewFilters(state);
+    const search = state.search.trim().toLowerCase();
+
+    const filtered = filters.size === 0 && !search
+        ? rows
+        : rows.filter(row => {
+            for (const [column, filter] of filters) {
+                if (!matchesFilter(row[column], filter)) {
+                    return false;
+                }
+            }
+            return !search || visibleColumns.some(c => valueText(row[c]).toLowerCase().includes(search));
+        });
+
+    return {
+        columns: visibleColumns,
+        rows: state.sort ? sortResultRows(filtered, state.sort.column, state.sort.direction) : filtered
+    };
+}
+
+/**
+ * Whether a view narrows the rows or columns of a result
+ */
+export function isViewFiltered(state: ResultViewState): boolean {
+    return state.hiddenColumns.length > 0
+        || state.search.trim() !== ''
+        || Object.values(state.filters).some(f => f.trim() !== '');
+}
+
+/**
+ * Short descriptions of the active filters, for the toolbar
+ */
+export function describeFilters(state: ResultViewState): string[] {
+    const descriptions = Object.entries(state.filters)
+        .filter(([, expression]) => expression.trim() !== '')
+        .map(([column, expression]) => `${column}: ${expression.trim()}`);
+    if (state.search.trim()) {
+        descriptions.push(`search: "${state.search.trim()}"`);
+    }
+    if (state.hiddenColumns.length > 0) {
+        descriptions.push(`${state.hiddenColumns.length} column(s) hidden`);
+    }
+    return descriptions;
+}
@@ -92,7 +92,8 @@ export class ObjectBrowserProvider implements vscode.TreeDataProvider<ObjectBrow
         const activeConnection = this.connectionManager.getActiveConnection();
 
         return connections.map(conn => {
-            const isConnected = activeConnection?.config.name === conn.name;
+            const liveConnection = this.connectionManager.getConnection(conn.name);
+            const isConnected = liveConnection !== null;
             const data: ConnectionNodeData = {
                 id: createNodeId(conn.name, 'connection', conn.name),
                 name: conn.name,
@@ -100,7 +101,8 @@ export class ObjectBrowserProvider implements vscode.TreeDataProvider<ObjectBrow
                 connectionName: conn.name,
                 repository: conn.repository,
                 connected: isConnected,
-                username: isConnected ? activeConnection?.username : undefined
+                active: isConnected && activeConnection?.config.name === conn.name,
+                username: liveConnection?.username
             };
 
             return new ObjectBrowserItem(
@@ -138,7 +140,7 @@ export class ObjectBrowserProvider implements vscode.TreeDataProvider<ObjectBrow
      * The bridge handles REST vs DQL routing internally.
      */
     private async getCabinets(data: ContainerNodeData): Promise<ObjectBrowserItem[]> {
-        const connection = this.connectionManager.getActiveConnection();
+        const connection = this.connectionManager.getConnection(data.connectionName);
         if (!connection) {
             return [];
         }
@@ -169,7 +171,7 @@ export class ObjectBrowserProvider implements vscode.TreeDataProvider<ObjectBrow
      * The bridge handles REST vs DQL routing internally.
      */
     private async getFolderContents(data: CabinetNodeData | FolderNodeData): Promise<ObjectBrowserItem[]> {
-        const connection = this.connectionManager.getActiveConnection();
+        const connection = this.connectionManager.getConnection(data.connectionName);
         if (!connection) {
             return [];
         }
@@ -255,7 +257,7 @@ export function registerObjectBrowser(
         'dctm.connectFromTree',
         async (item: ObjectBrowserItem) => {
             if (item.data.type === 'connection') {
-                await connectionManager.connect();
+                await connectionManager.connect(item.data.connectionName);
             }
         }
     );
@@ -264,8 +266,8 @@ export function registerObjectBrowser(
     // Register disconnect from tree command
     const disconnectFromTreeCommand = vscode.commands.registerCommand(
         'dctm.disconnectFromTree',
-        async () => {
-            await connectionManager.disconnect();
+        async (item?: ObjectBrowserItem) => {
+            await connectionManager.disconnect(item?.data.connectionName);
         }
     );
     context.subscriptions.push(disconnectFromTreeCommand);
@@ -273,12 +275,23 @@ export function registerObjectBrowser(
     // Register switch user from tree command
     const switchUserFromTreeCommand = vscode.commands.registerCommand(
         'dctm.switchUserFromTree',
-        async () => {
-            await connectionManager.switchUser();
+        async (item?: ObjectBrowserItem) => {
+            await connectionManager.switchUser(item?.data.connectionName);
         }
     );
     context.subscriptions.push(switchUserFromTreeCommand);
 
+    // Register set active connection from tree command
+    const setActiveFromTreeCommand = vscode.commands.registerCommand(
+        'dctm.setActiveConnectionFromTree',
+        (item?: ObjectBrowserItem) => {
+            if (item?.data.type === 'connection') {
+                connectionManager.setActiveConnection(item.data.connectionName);
+            }
+        }
+    );
+    context.subscriptions.push(setActiveFromTreeCommand);
+
     // Register show properties command - delegates to dumpObject to show Object Dump panel
     const showPropertiesCommand = vscode.commands.registerCommand(
         'dctm.showObjectProperties',
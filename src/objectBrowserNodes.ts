@@ -33,6 +33,8 @@ export interface ConnectionNodeData extends NodeData {
     connectionName: string;
     repository: string;
     connected: boolean;
+    /** True for the live connection used by default (status bar, DQL editor, browsers) */
+    active?: boolean;
     username?: string;
 }
 
@@ -147,12 +149,15 @@ export class ObjectBrowserItem extends vscode.TreeItem {
     }
 
     /**
-     * Get context value for menus - connections include connected/disconnected suffix
+     * Get context value for menus - connections include active/connected/disconnected suffix
      */
     private getContextValue(): string {
         if (this.data.type === 'connection') {
             const connData = this.data as ConnectionNodeData;
-            return connData.connected ? 'connection-connected' : 'connection-disconnected';
+            if (!connData.connected) {
+                return 'connection-disconnected';
+            }
+            return connData.active ? 'connection-active' : 'connection-connected';
         }
         return this.data.type;
     }
@@ -162,7 +167,7 @@ export class ObjectBrowserItem extends vscode.TreeItem {
             case 'connection':
                 const connData = this.data as ConnectionNodeData;
                 const userInfo = connData.connected && connData.username ? `\nUser: ${connData.username}` : '';
-                return `${connData.connectionName}\nRepository: ${connData.repository}${userInfo}\nStatus: ${connData.connected ? 'Connected' : 'Disconnected'}`;
+                return `${connData.connectionName}\nRepository: ${connData.repository}${userInfo}\nStatus: ${connData.connected ? (connData.active ? 'Connected (active)' : 'Connected') : 'Disconnected'}`;
             case 'cabinet':
             case 'folder':
                 const folderData = this.data as CabinetNodeData | FolderNodeData;
@@ -188,9 +193,12 @@ export class ObjectBrowserItem extends vscode.TreeItem {
         switch (this.data.type) {
             case 'connection':
                 const connData = this.data as ConnectionNodeData;
+                if (!connData.connected) {
+                    return new vscode.ThemeIcon('debug-disconnect', new vscode.ThemeColor('errorForeground'));
+                }
                 return new vscode.ThemeIcon(
-                    connData.connected ? 'database' : 'debug-disconnect',
-                    connData.connected ? undefined : new vscode.ThemeColor('errorForeground')
+                    'database',
+                    connData.active ? new vscode.ThemeColor('charts.green') : undefined
                 );
             case 'cabinets-container':
                 return new vscode.ThemeIcon('folder-library');
@@ -247,7 +255,7 @@ export class ObjectBrowserItem extends vscode.TreeItem {
             case 'connection':
                 const connData = this.data as ConnectionNodeData;
                 if (connData.connected && connData.username) {
-                    return `${connData.repository} (${connData.username})`;
+                    return `${connData.repository} (${connData.username})${connData.active ? ' - active' : ''}`;
                 }
                 return connData.connected ? connData.repository : 'disconnected';
             case 'document':
@@ -269,16 +277,5 @@ export function createNodeId(connectionName: string, type: NodeType, identifier:
     return `${connectionName}::${type}::${identifier}`;
 }
 
-/**
- * Escape a string for use in DQL queries.
- * Escapes single quotes by doubling them to prevent SQL injection.
- *
- * @param value The string to escape
- * @returns The escaped string safe for use in DQL
- */
-export function escapeDqlString(value: string): string {
-    if (!value) {
-        return value;
-    }
-    return value.replace(/'/g, "''");
-}
+// Kept here for existing importers; lives in dqlUtils so it can be used without the VS Code API
+export { escapeDqlString } from './dqlUtils';
@@ -1,5 +1,5 @@
 import * as vscode from 'vscode';
-import { ConnectionManager } from './connectionManager';
+import { ActiveConnection, ConnectionManager } from './connectionManager';
 
 /**
  * Attribute grouping categories similar to Repoint's PropertiesView
@@ -37,6 +37,41 @@ export interface NavigationEntry {
     typeName: string;
 }
 
+/**
+ * The attributes of one group, shown as a section of the dump
+ */
+export interface AttributeSection {
+    group: AttributeGroup;
+    label: string;
+    attributes: AttributeInfo[];
+}
+
+const GROUP_LABELS: Record<AttributeGroup, string> = {
+    custom: 'Custom Attributes',
+    standard: 'Standard Attributes',
+    system: 'System Attributes (r_)',
+    application: 'Application Attributes (a_)',
+    internal: 'Internal Attributes (i_)'
+};
+
+const GROUP_ORDER: AttributeGroup[] = ['custom', 'standard', 'application', 'system', 'internal'];
+
+/**
+ * Split attributes into sections in display order, sorted by name within each section.
+ * Groups without attributes are left out.
+ */
+export function groupAttributes(attributes: AttributeInfo[]): AttributeSection[] {
+    return GROUP_ORDER
+        .map(group => ({
+            group,
+            label: GROUP_LABELS[group],
+            attributes: attributes
+                .filter(attr => attr.group === group)
+                .sort((a, b) => a.name.localeCompare(b.name))
+        }))
+        .filter(section => section.attributes.length > 0);
+}
+
 /**
  * WebviewPanel for displaying Documentum object dumps with grouped attributes
  * Similar to Repoint's PropertiesView with attribute categorization
@@ -49,6 +84,8 @@ export class ObjectDumpPanel {
 
     private readonly panel: vscode.WebviewPanel;
     private readonly connectionManager: ConnectionManager;
+    // Live connection the dumped objects belong to; undefined means the active connection
+    private connectionName: string | undefined;
     private disposables: vscode.Disposable[] = [];
 
     // Navigation history
@@ -58,7 +95,8 @@ export class ObjectDumpPanel {
     public static async createOrShow(
         extensionUri: vscode.Uri,
         connectionManager: ConnectionManager,
-        objectId: string
+        objectId: string,
+        connectionName?: string
     ): Promise<void> {
         const column = vscode.window.activeTextEditor
             ? vscode.window.activeTextEditor.viewColumn
@@ -71,6 +109,7 @@ export class ObjectDumpPanel {
         // If reuseWindow is true and we already have a panel, show it and update content
         if (reuseWindow && ObjectDumpPanel.currentPanel) {
             ObjectDumpPanel.currentPanel.panel.reveal(column);
+            ObjectDumpPanel.currentPanel.connectionName = connectionName;
             await ObjectDumpPanel.currentPanel.loadObject(objectId);
             return;
         }
@@ -90,6 +129,7 @@ export class ObjectDumpPanel {
         );
 
         const dumpPanel = new ObjectDumpPanel(panel, connectionManager, extensionUri);
+        dumpPanel.connectionName = connectionName;
         ObjectDumpPanel.allPanels.add(dumpPanel);
 
         // Only track as currentPanel when reuseWindow is true
@@ -151,7 +191,11 @@ export class ObjectDumpPanel {
         this.panel.webview.html = this.getLoadingHtml();
 
         try {
-            const dump = await this.fetchObjectDump(objectId);
+            const dump = await ObjectDumpPanel.fetchDump(
+                this.connectionManager,
+                objectId,
+                this.connectionManager.getConnectionFor(this.connectionName)
+            );
             // Format: {r_object_id} {object_name} {r_object_type}
             const titleParts = [dump.objectId];
             if (dump.objectName) {
@@ -222,19 +266,25 @@ export class ObjectDumpPanel {
     /**
      * Fetch object dump via the DFC Bridge.
      * Uses dmAPI dump for DFC connections, REST /objects endpoint for REST connections.
+     * Also used by the notebook renderer's row detail drawer.
+     *
+     * @param connection Connection whose session to use, e.g. a notebook's bound connection
      */
-    private async fetchObjectDump(objectId: string): Promise<ObjectDump> {
-        const connection = this.connectionManager.getActiveConnection();
+    public static async fetchDump(
+        connectionManager: ConnectionManager,
+        objectId: string,
+        connection: ActiveConnection | null
+    ): Promise<ObjectDump> {
         if (!connection || !connection.sessionId) {
             throw new Error('Not connected to Documentum');
         }
 
-        const bridge = this.connectionManager.getDctmBridge();
+        const bridge = connectionManager.getDctmBridge();
         const startTime = Date.now();
 
         // Check if this is a REST connection - REST doesn't support dmAPI
         if (bridge.isRestSession(connection.sessionId)) {
-            return this.fetchObjectViaRest(bridge, connection.sessionId, objectId, startTime);
+            return ObjectDumpPanel.fetchObjectViaRest(bridge, connection.sessionId, objectId, startTime);
         }
 
         // DFC connection - use dmAPIGet to get the dump
@@ -248,7 +298,7 @@ export class ObjectDumpPanel {
 
         // Parse the dump result (format is attribute=value lines)
         const dumpText = String(dumpResult.result);
-        const attributes = this.parseDump(dumpText, objectId);
+        const attributes = ObjectDumpPanel.parseDump(dumpText, objectId);
 
         // Extract type and name from attributes
         const typeAttr = attributes.find(a => a.name === 'r_object_type');
@@ -267,7 +317,7 @@ export class ObjectDumpPanel {
      * Fetch object via REST /objects endpoint.
      * Used for REST connections where dmAPI is not available.
      */
-    private async fetchObjectViaRest(
+    private static async fetchObjectViaRest(
         bridge: ReturnType<ConnectionManager['getDctmBridge']>,
         sessionId: string,
         objectId: string,
@@ -281,11 +331,11 @@ export class ObjectDumpPanel {
 
         for (const [name, value] of Object.entries(objectInfo.attributes)) {
             const isRepeating = Array.isArray(value);
-            const group = this.categorizeAttribute(name, -1);
+            const group = ObjectDumpPanel.categorizeAttribute(name, -1);
 
             attributes.push({
                 name,
-                type: this.inferType(value),
+                type: ObjectDumpPanel.inferType(value),
                 value,
                 isRepeating,
                 group
@@ -304,12 +354,12 @@ export class ObjectDumpPanel {
     /**
      * Infer the type of a value for display purposes
      */
-    private inferType(value: unknown): string {
+    private static inferType(value: unknown): string {
         if (value === null || value === undefined) {
             return 'null';
         }
         if (Array.isArray(value)) {
-            return value.length > 0 ? `${this.inferType(value[0])}[]` : 'array';
+            return value.length > 0 ? `${ObjectDumpPanel.inferType(value[0])}[]` : 'array';
         }
         if (typeof value === 'boolean') {
             return 'bool';
@@ -330,7 +380,7 @@ export class ObjectDumpPanel {
     /**
      * Parse dump output into structured attributes
      */
-    private parseDump(dumpText: string, _objectId: string): AttributeInfo[] {
+    private static parseDump(dumpText: string, _objectId: string): AttributeInfo[] {
         const attributes: AttributeInfo[] = [];
         const lines = dumpText.split('\n');
 
@@ -354,7 +404,7 @@ export class ObjectDumpPanel {
                 const isRepeating = index !== undefined;
 
                 // Determine attribute group based on Repoint-style categorization
-                const group = this.categorizeAttribute(name, customStartPos);
+                const group = ObjectDumpPanel.categorizeAttribute(name, customStartPos);
 
                 // Track if this is a repeating attribute
                 if (isRepeating) {
@@ -413,7 +463,7 @@ export class ObjectDumpPanel {
      * - Custom: determined by start_pos from type definition
      * - Standard: everything else
      */
-    private categorizeAttribute(name: string, _customStartPos: number): AttributeGroup {
+    private static categorizeAttribute(name: string, _customStartPos: number): AttributeGroup {
         if (name.startsWith('r_')) {
             return 'system';
         }
@@ -535,33 +585,7 @@ export class ObjectDumpPanel {
      * Generate content HTML with grouped attributes
      */
     private getContentHtml(dump: ObjectDump): string {
-        // Group attributes
-        const groups: Record<AttributeGroup, AttributeInfo[]> = {
-            custom: [],
-            standard: [],
-            system: [],
-            application: [],
-            internal: []
-        };
-
-        for (const attr of dump.attributes) {
-            groups[attr.group].push(attr);
-        }
-
-        // Sort attributes within each group
-        for (const group of Object.values(groups)) {
-            group.sort((a, b) => a.name.localeCompare(b.name));
-        }
-
-        const groupLabels: Record<AttributeGroup, string> = {
-            custom: 'Custom Attributes',
-            standard: 'Standard Attributes',
-            system: 'System Attributes (r_)',
-            application: 'Application Attributes (a_)',
-            internal: 'Internal Attributes (i_)'
-        };
-
-        const groupOrder: AttributeGroup[] = ['custom', 'standard', 'application', 'system', 'internal'];
+        const sections = groupAttributes(dump.attributes);
 
         return `<!DOCTYPE html>
         <html>
@@ -779,24 +803,18 @@ export class ObjectDumpPanel {
                 </div>
             </div>
             <div class="content">
-                ${groupOrder.map(groupKey => {
-                    const attrs = groups[groupKey];
-                    if (attrs.length === 0) {
-                        return '';
-                    }
-                    return `
-                        <div class="group" data-group="${groupKey}">
-                            <div class="group-header" onclick="toggleGroup('${groupKey}')">
+                ${sections.map(section => `
+                        <div class="group" data-group="${section.group}">
+                            <div class="group-header" onclick="toggleGroup('${section.group}')">
                                 <span class="toggle">&#9660;</span>
-                                ${groupLabels[groupKey]}
-                                <span class="count">${attrs.length}</span>
+                                ${section.label}
+                                <span class="count">${section.attributes.length}</span>
                             </div>
-                            <div class="group-content" id="group-${groupKey}">
-                                ${attrs.map(attr => this.renderAttribute(attr)).join('')}
+                            <div class="group-content" id="group-${section.group}">
+                                ${section.attributes.map(attr => this.renderAttribute(attr)).join('')}
                             </div>
                         </div>
-                    `;
-                }).join('')}
+                    `).join('')}
             </div>
             <div id="notification" class="copy-notification"></div>
             <script>
@@ -0,0 +1,286 @@
+import * as vscode from 'vscode';
+import { DiffLabels, DiffStatus, ResultDiff } from './notebook/resultDiff';
+import { exportDiffToExcel, getRepeatingValueOptions } from './notebook/exporter';
+
+export class ResultDiffPanel {
+    public static currentPanel: ResultDiffPanel | undefined;
+    private static readonly viewType = 'dctmResultDiff';
+
+    private readonly panel: vscode.WebviewPanel;
+    private disposables: vscode.Disposable[] = [];
+
+    private diff: ResultDiff | undefined;
+    private labels: DiffLabels = { left: '', right: '' };
+
+    private constructor(panel: vscode.WebviewPanel) {
+        this.panel = panel;
+
+        this.panel.onDidDispose(() => this.dispose(), null, this.disposables);
+
+        this.panel.webview.onDidReceiveMessage(
+            async (message: { type: string; statuses?: DiffStatus[] }) => {
+                if (message.type === 'export' && this.diff) {
+                    // Export the rows the panel shows
+                    const statuses = message.statuses ?? [];
+                    const rows = this.diff.rows.filter(row => statuses.includes(row.status));
+                    try {
+                        await exportDiffToExcel({ ...this.diff, rows }, this.labels);
+                    } catch (error) {
+                        const errorMsg = error instanceof Error ? error.message : String(error);
+                        vscode.window.showErrorMessage(`Export failed: ${errorMsg}`);
+                    }
+                }
+            },
+            null,
+            this.disposables
+        );
+    }
+
+    /**
+     * Show the comparison of two results
+     */
+    public static createOrShow(diff: ResultDiff, labels: DiffLabels): void {
+        const column = vscode.ViewColumn.Beside;
+
+        if (ResultDiffPanel.currentPanel) {
+            ResultDiffPanel.currentPanel.panel.reveal(column);
+            ResultDiffPanel.currentPanel.update(diff, labels);
+            return;
+        }
+
+        const panel = vscode.window.createWebviewPanel(
+            ResultDiffPanel.viewType,
+            'Result Diff',
+            column,
+            {
+                enableScripts: true,
+                retainContextWhenHidden: true
+            }
+        );
+
+        ResultDiffPanel.currentPanel = new ResultDiffPanel(panel);
+        ResultDiffPanel.currentPanel.update(diff, labels);
+    }
+
+    private update(diff: ResultDiff, labels: DiffLabels): void {
+        this.diff = diff;
+        this.labels = labels;
+        const { added, removed, changed } = diff.counts;
+        this.panel.title = `Result Diff (+${added} -${removed} ~${changed})`;
+        this.panel.webview.html = this.getHtmlForWebview(diff, labels);
+    }
+
+    private getHtmlForWebview(diff: ResultDiff, labels: DiffLabels): string {
+        const { counts } = diff;
+        const duplicates = diff.duplicateKeys.length > 0
+            ? `<div class="warning">Keys found more than once (paired in order): ${this.escapeHtml(diff.duplicateKeys.join(', '))}</div>`
+            : '';
+
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Result Diff</title>
+    <style>
+        body {
+            font-family: var(--vscode-font-family);
+            font-size: var(--vscode-font-size);
+            color: var(--vscode-foreground);
+            background-color: var(--vscode-editor-background);
+            padding: 10px;
+            margin: 0;
+        }
+        .info {
+            margin-bottom: 10px;
+            padding: 8px;
+            background-color: var(--vscode-textBlockQuote-background);
+            border-radius: 4px;
+        }
+        .info div + div {
+            margin-top: 4px;
+        }
+        .warning {
+            margin-bottom: 10px;
+            color: var(--vscode-editorWarning-foreground);
+        }
+        .toolbar {
+            display: flex;
+            gap: 16px;
+            align-items: center;
+            margin-bottom: 10px;
+        }
+        .toolbar .spacer {
+            flex-grow: 1;
+        }
+        table {
+            width: 100%;
+            border-collapse: collapse;
+            font-size: 12px;
+        }
+        thead {
+            position: sticky;
+            top: 0;
+            background-color: var(--vscode-editor-background);
+        }
+        th {
+            border-bottom: 2px solid var(--vscode-panel-border);
+            text-align: left;
+            padding: 8px 6px;
+            font-weight: 600;
+        }
+        td {
+            border-bottom: 1px solid var(--vscode-panel-border);
+            padding: 6px;
+            max-width: 300px;
+            overflow: hidden;
+            text-overflow: ellipsis;
+            white-space: nowrap;
+            vertical-align: top;
+        }
+        tr.added td {
+            background-color: var(--vscode-diffEditor-insertedLineBackground, rgba(155, 185, 85, 0.2));
+        }
+        tr.removed td {
+            background-color: var(--vscode-diffEditor-removedLineBackground, rgba(255, 0, 0, 0.2));
+        }
+        td.changed {
+            background-color: var(--vscode-editor-findMatchHighlightBackground);
+            white-space: normal;
+        }
+        .old {
+            text-decoration: line-through;
+            color: var(--vscode-gitDecoration-deletedResourceForeground);
+        }
+        .new {
+            color: var(--vscode-gitDecoration-addedResourceForeground);
+        }
+        .status {
+            font-weight: 600;
+            text-transform: capitalize;
+        }
+        .null, .no-match {
+            color: var(--vscode-descriptionForeground);
+            font-style: italic;
+        }
+        button {
+            background-color: var(--vscode-button-background);
+            color: var(--vscode-button-foreground);
+            border: none;
+            padding: 6px 14px;
+            border-radius: 2px;
+            cursor: pointer;
+        }
+        button:hover {
+            background-color: var(--vscode-button-hoverBackground);
+        }
+    </style>
+</head>
+<body>
+    <div class="info">
+        <div><strong>First:</strong> ${this.escapeHtml(labels.left)}</div>
+        <div><strong>Second:</strong> ${this.escapeHtml(labels.right)}</div>
+        <div><strong>Key:</strong> ${this.escapeHtml(diff.keyColumn)}</div>
+    </div>
+    ${duplicates}
+    <div class="toolbar">
+        <label><input type="checkbox" data-status="added" checked> Added (${counts.added})</label>
+        <label><input type="checkbox" data-status="removed" checked> Removed (${counts.removed})</label>
+        <label><input type="checkbox" data-status="changed" checked> Changed (${counts.changed})</label>
+        <label><input type="checkbox" data-status="unchanged"> Unchanged (${counts.unchanged})</label>
+        <span class="spacer"></span>
+        <button onclick="exportExcel()" title="Export the shown rows">Export Excel</button>
+    </div>
+    <table>
+        <thead>
+            <tr id="header"></tr>
+        </thead>
+        <tbody></tbody>
+    </table>
+    <script>
+        const vscode = acquireVsCodeApi();
+        const diff = ${JSON.stringify(diff)};
+        const SEPARATOR = ${JSON.stringify(getRepeatingValueOptions().separator)};
+
+        function escapeHtml(text) {
+            return String(text)
+                .replace(/&/g, '&amp;')
+                .replace(/</g, '&lt;')
+                .replace(/>/g, '&gt;')
+                .replace(/"/g, '&quot;')
+                .replace(/'/g, '&#039;');
+        }
+
+        function valueText(value) {
+            if (value === null || value === undefined) {
+                return '';
+            }
+            return Array.isArray(value) ? value.map(valueText).join(SEPARATOR) : String(value);
+        }
+
+        function renderValue(value) {
+            return value === null || value === undefined
+                ? '<span class="null">NULL</span>'
+                : escapeHtml(valueText(value));
+        }
+
+        function shownStatuses() {
+            return Array.from(document.querySelectorAll('input[data-status]'))
+                .filter(input => input.checked)
+                .map(input => input.dataset.status);
+        }
+
+        // Changed cells show the first result's value struck through, then the second's
+        function renderCell(row, col) {
+            if (row.changedColumns.includes(col)) {
+                return '<td class="changed" title="' + escapeHtml(valueText(row.left[col]) + ' \\u2192 ' + valueText(row.right[col])) + '">' +
+                    '<span class="old">' + renderValue(row.left[col]) + '</span> \\u2192 ' +
+                    '<span class="new">' + renderValue(row.right[col]) + '</span></td>';
+            }
+            const values = row.right || row.left;
+            return '<td>' + renderValue(values[col]) + '</td>';
+        }
+
+        function render() {
+            const statuses = shownStatuses();
+            const rows = diff.rows.filter(row => statuses.includes(row.status));
+            document.getElementById('header').innerHTML = '<th>Status</th>' +
+                diff.columns.map(col => '<th>' + escapeHtml(col) + '</th>').join('');
+            document.querySelector('tbody').innerHTML = rows.length === 0
+                ? '<tr><td class="no-match" colspan="' + (diff.columns.length + 1) + '">No rows to show.</td></tr>'
+                : rows.map(row => '<tr class="' + row.status + '"><td class="status">' + row.status + '</td>' +
+                    diff.columns.map(col => renderCell(row, col)).join('') + '</tr>').join('');
+        }
+
+        document.querySelectorAll('input[data-status]').forEach(input => input.addEventListener('change', render));
+
+        function exportExcel() {
+            vscode.postMessage({ type: 'export', statuses: shownStatuses() });
+        }
+
+        render();
+    </script>
+</body>
+</html>`;
+    }
+
+    private escapeHtml(text: string): string {
+        return text
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;')
+            .replace(/'/g, '&#039;');
+    }
+
+    public dispose(): void {
+        ResultDiffPanel.currentPanel = undefined;
+        this.panel.dispose();
+        while (this.disposables.length) {
+            const d = this.disposables.pop();
+            if (d) {
+                d.dispose();
+            }
+        }
+    }
+}
@@ -1,5 +1,45 @@
 import * as vscode from 'vscode';
-import { DqlResult } from './dqlExecutor';
+import { DqlResult, DqlPageLoader, DqlStatementResult, mergeDqlPages } from './dqlExecutor';
+import {
+    ResultViewState,
+    createResultViewState,
+    applyResultView,
+    parseViewFilters,
+    isViewFiltered,
+    describeFilters
+} from './notebook/resultView';
+import { exportResults, getRepeatingValueOptions } from './notebook/exporter';
+import { getQueryType } from './notebook/resultEdits';
+
+/**
+ * What the webview shows: the filtered rows over the visible columns, plus paging state
+ */
+interface ResultsView {
+    columns: string[];
+    rows: Record<string, unknown>[];
+    loadedCount: number;
+    hasMore: boolean;
+    totalCount?: number;
+    filtered: boolean;
+    filters: string[];
+    /** Error per column whose filter expression cannot be parsed */
+    errors: Record<string, string>;
+}
+
+/**
+ * One statement's result, error or skip, shown as a tab when a script ran
+ */
+interface ResultTab {
+    query: string;
+    results?: DqlResult;
+    error?: string;
+    skipped?: boolean;
+    executionTime: number;
+    /** Loader for further pages; undefined when fully loaded */
+    loadPage?: DqlPageLoader;
+    /** Filters, search and column choice, applied here so the webview only holds the shown rows */
+    viewState: ResultViewState;
+}
 
 export class ResultsPanel {
     public static currentPanel: ResultsPanel | undefined;
@@ -9,20 +49,96 @@ export class ResultsPanel {
     private readonly extensionUri: vscode.Uri;
     private disposables: vscode.Disposable[] = [];
 
+    // One tab per statement; a single query has one tab and no tab bar
+    private tabs: ResultTab[] = [];
+    private activeTab = 0;
+    private loading = false;
+
     private constructor(panel: vscode.WebviewPanel, extensionUri: vscode.Uri) {
         this.panel = panel;
         this.extensionUri = extensionUri;
 
         this.panel.onDidDispose(() => this.dispose(), null, this.disposables);
+
+        this.panel.webview.onDidReceiveMessage(
+            async (message: { type: string; all?: boolean; state?: ResultViewState; format?: string; index?: number }) => {
+                const tab = this.tabs[this.activeTab];
+                if (message.type === 'loadMore') {
+                    await this.loadMore(message.all === true);
+                } else if (message.type === 'view' && message.state && tab) {
+                    tab.viewState = message.state;
+                    this.postView();
+                } else if (message.type === 'selectTab' && message.index !== undefined && this.tabs[message.index]) {
+                    this.activeTab = message.index;
+                    this.render();
+                } else if (message.type === 'export' && tab?.results) {
+                    const view = this.getView(tab);
+                    try {
+                        await exportResults(message.format, view.columns, view.rows, getQueryType(tab.results.query));
+                    } catch (error) {
+                        const errorMsg = error instanceof Error ? error.message : String(error);
+                        vscode.window.showErrorMessage(`Export failed: ${errorMsg}`);
+                    }
+                }
+            },
+            null,
+            this.disposables
+        );
+    }
+
+    /**
+     * Rows loaded in the panel's current tab, if it is open
+     */
+    public static getCurrentResults(): DqlResult | undefined {
+        const panel = ResultsPanel.currentPanel;
+        return panel?.tabs[panel.activeTab]?.results;
+    }
+
+    /**
+     * Show query results.
+     *
+     * @param loadPage Loader for further pages when the result is paged
+     */
+    public static createOrShow(extensionUri: vscode.Uri, results: DqlResult, loadPage?: DqlPageLoader): void {
+        ResultsPanel.show(extensionUri).update([{
+            query: results.query,
+            results,
+            executionTime: results.executionTime,
+            loadPage: results.hasMore ? loadPage : undefined,
+            viewState: createResultViewState()
+        }], 0);
     }
 
-    public static createOrShow(extensionUri: vscode.Uri, results: DqlResult): void {
+    /**
+     * Show the results of a script, one tab per statement. The first failed statement's
+     * tab is opened, else the first.
+     *
+     * @param createLoader Creates the loader for further pages of a paged result
+     */
+    public static showScript(
+        extensionUri: vscode.Uri,
+        statements: DqlStatementResult[],
+        createLoader: (results: DqlResult) => DqlPageLoader | undefined
+    ): void {
+        const tabs = statements.map((statement): ResultTab => ({
+            query: statement.query,
+            results: statement.result,
+            error: statement.error,
+            skipped: statement.skipped,
+            executionTime: statement.executionTime,
+            loadPage: statement.result?.hasMore ? createLoader(statement.result) : undefined,
+            viewState: createResultViewState()
+        }));
+        const failed = tabs.findIndex(tab => tab.error !== undefined);
+        ResultsPanel.show(extensionUri).update(tabs, Math.max(failed, 0));
+    }
+
+    private static show(extensionUri: vscode.Uri): ResultsPanel {
         const column = vscode.ViewColumn.Beside;
 
         if (ResultsPanel.currentPanel) {
             ResultsPanel.currentPanel.panel.reveal(column);
-            ResultsPanel.currentPanel.update(results);
-            return;
+            return ResultsPanel.currentPanel;
         }
 
         const panel = vscode.window.createWebviewPanel(
@@ -36,29 +152,214 @@ export class ResultsPanel {
         );
 
         ResultsPanel.currentPanel = new ResultsPanel(panel, extensionUri);
-        ResultsPanel.currentPanel.update(results);
+        return ResultsPanel.currentPanel;
+    }
+
+    private update(tabs: ResultTab[], activeTab: number): void {
+        this.tabs = tabs;
+        this.activeTab = activeTab;
+        this.loading = false;
+        this.updateTitle();
+        this.render();
+    }
+
+    private render(): void {
+        const tab = this.tabs[this.activeTab];
+        this.panel.webview.html = tab.results
+            ? this.getHtmlForWebview(tab, tab.results)
+            : this.getMessageHtml(tab);
+    }
+
+    private getView(tab: ResultTab): ResultsView {
+        const results = tab.results ?? { columns: [], rows: [] };
+        const view = applyResultView(results.columns, results.rows, tab.viewState);
+        return {
+            columns: view.columns,
+            rows: view.rows,
+            loadedCount: results.rows.length,
+            hasMore: tab.results?.hasMore === true,
+            totalCount: tab.results?.totalCount,
+            filtered: isViewFiltered(tab.viewState),
+            filters: describeFilters(tab.viewState),
+            errors: Object.fromEntries(parseViewFilters(tab.viewState).errors)
+        };
     }
 
-    private update(results: DqlResult): void {
-        this.panel.title = `DQL Results (${results.rowCount} rows)`;
-        this.panel.webview.html = this.getHtmlForWebview(results);
+    private postView(): void {
+        const tab = this.tabs[this.activeTab];
+        if (tab?.results) {
+            this.panel.webview.postMessage({ type: 'view', view: this.getView(tab) });
+        }
     }
 
-    private getHtmlForWebview(results: DqlResult): string {
-        const tableRows = results.rows.map(row => {
-            const cells = results.columns.map(col => {
-                const value = row[col];
-                const displayValue = value === null || value === undefined
-                    ? '<span class="null">NULL</span>'
-                    : this.escapeHtml(String(value));
-                return `<td>${displayValue}</td>`;
-            }).join('');
-            return `<tr>${cells}</tr>`;
-        }).join('');
+    private updateTitle(): void {
+        if (this.tabs.length > 1) {
+            const failed = this.tabs.filter(tab => tab.error !== undefined).length;
+            this.panel.title = `DQL Results (${this.tabs.length} statements${failed > 0 ? `, ${failed} failed` : ''})`;
+            return;
+        }
+        const results = this.tabs[0]?.results;
+        if (!results) {
+            return;
+        }
+        const more = results.hasMore ? '+' : '';
+        this.panel.title = `DQL Results (${results.rows.length}${more} rows)`;
+    }
+
+    /**
+     * Fetch the next page (or all remaining rows) and append them to the table
+     */
+    private async loadMore(all: boolean): Promise<void> {
+        const tab = this.tabs[this.activeTab];
+        const current = tab?.results;
+        if (!current || !current.cursor || !tab.loadPage || this.loading) {
+            return;
+        }
+
+        this.loading = true;
+        try {
+            const page = await tab.loadPage(current.cursor, all);
+            // Ignore pages for a result that has since been replaced
+            if (tab.results !== current || !this.tabs.includes(tab)) {
+                return;
+            }
+            tab.results = mergeDqlPages(current, page);
+            if (!tab.results.hasMore) {
+                tab.loadPage = undefined;
+            }
+            this.updateTitle();
+            if (this.tabs[this.activeTab] === tab) {
+                this.postView();
+            }
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            vscode.window.showErrorMessage(`Failed to load more rows: ${message}`);
+            this.panel.webview.postMessage({ type: 'loadFailed' });
+        } finally {
+            this.loading = false;
+        }
+    }
+
+    /**
+     * Tab bar of a script's statements: row count and time, or whether it failed or was skipped
+     */
+    private getTabBarHtml(): string {
+        if (this.tabs.length < 2) {
+            return '';
+        }
+        const buttons = this.tabs.map((tab, index) => {
+            let status: string;
+            if (tab.skipped) {
+                status = 'Skipped';
+            } else if (tab.error !== undefined) {
+                status = 'Error';
+            } else {
+                const rows = tab.results ? `${tab.results.rows.length}${tab.results.hasMore ? '+' : ''} rows` : '';
+                status = `${rows}, ${tab.executionTime}ms`;
+            }
+            const classes = ['tab', index === this.activeTab ? 'active' : '', tab.error !== undefined ? 'failed' : '',
+                tab.skipped ? 'skipped' : ''].filter(Boolean).join(' ');
+            return `<button class="${classes}" title="${this.escapeHtml(tab.query)}" `
+                + `onclick="selectTab(${index})">${index + 1}: ${status}</button>`;
+        });
+        return `<div class="tabs">${buttons.join('')}</div>`;
+    }
+
+    private getTabStyles(): string {
+        return `
+        .tabs {
+            display: flex;
+            flex-wrap: wrap;
+            gap: 2px;
+            margin-bottom: 10px;
+            border-bottom: 1px solid var(--vscode-panel-border);
+        }
+        .tabs button.tab {
+            background: transparent;
+            color: var(--vscode-foreground);
+            border: none;
+            border-bottom: 2px solid transparent;
+            border-radius: 0;
+            padding: 4px 10px;
+            margin: 0;
+            opacity: 0.7;
+            cursor: pointer;
+        }
+        .tabs button.tab.active {
+            opacity: 1;
+            border-bottom-color: var(--vscode-focusBorder);
+        }
+        .tabs button.tab.failed {
+            color: var(--vscode-errorForeground);
+        }
+        .tabs button.tab.skipped {
+            font-style: italic;
+        }`;
+    }
+
+    /**
+     * Page of a statement without rows: its error, or that it was skipped
+     */
+    private getMessageHtml(tab: ResultTab): string {
+        const message = tab.skipped
+            ? 'Not run: an earlier statement failed or the script was cancelled.'
+            : `Error: ${tab.error ?? ''}`;
+
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>DQL Results</title>
+    <style>
+        body {
+            font-family: var(--vscode-font-family);
+            font-size: var(--vscode-font-size);
+            color: var(--vscode-foreground);
+            background-color: var(--vscode-editor-background);
+            padding: 10px;
+            margin: 0;
+        }
+        .message {
+            margin-bottom: 10px;
+            padding: 8px;
+            border-radius: 4px;
+            background-color: var(--vscode-inputValidation-errorBackground, var(--vscode-textBlockQuote-background));
+            border: 1px solid var(--vscode-inputValidation-errorBorder, transparent);
+            white-space: pre-wrap;
+        }
+        .message.skipped {
+            background-color: var(--vscode-textBlockQuote-background);
+            border-color: transparent;
+            font-style: italic;
+        }
+        .query {
+            font-family: var(--vscode-editor-font-family);
+            background-color: var(--vscode-textCodeBlock-background);
+            padding: 8px;
+            border-radius: 4px;
+            white-space: pre-wrap;
+            overflow-x: auto;
+        }${this.getTabStyles()}
+    </style>
+</head>
+<body>
+    ${this.getTabBarHtml()}
+    <div class="message${tab.skipped ? ' skipped' : ''}">${this.escapeHtml(message)}</div>
+    <div class="query">${this.escapeHtml(tab.query)}</div>
+    <script>
+        const vscode = acquireVsCodeApi();
+
+        function selectTab(index) {
+            vscode.postMessage({ type: 'selectTab', index });
+        }
+    </script>
+</body>
+</html>`;
+    }
 
-        const headerCells = results.columns.map(col =>
-            `<th>${this.escapeHtml(col)}</th>`
-        ).join('');
+    private getHtmlForWebview(tab: ResultTab, results: DqlResult): string {
+        const pageSize = results.rows.length;
 
         return `<!DOCTYPE html>
 <html lang="en">
@@ -93,20 +394,80 @@ export class ResultsPanel {
             white-space: pre-wrap;
             overflow-x: auto;
         }
+        .toolbar {
+            display: flex;
+            gap: 8px;
+            align-items: center;
+            margin-bottom: 10px;
+        }
+        .toolbar .filters {
+            flex-grow: 1;
+            color: var(--vscode-descriptionForeground);
+            font-style: italic;
+            overflow: hidden;
+            text-overflow: ellipsis;
+            white-space: nowrap;
+        }
+        input {
+            background: var(--vscode-input-background);
+            color: var(--vscode-input-foreground);
+            border: 1px solid var(--vscode-input-border, transparent);
+            padding: 3px 6px;
+            font-size: 12px;
+            box-sizing: border-box;
+        }
+        input:focus {
+            outline: 1px solid var(--vscode-focusBorder);
+        }
+        input.invalid {
+            border-color: var(--vscode-inputValidation-errorBorder);
+        }
+        .column-chooser {
+            margin-bottom: 10px;
+            padding: 8px;
+            background-color: var(--vscode-textBlockQuote-background);
+            border-radius: 4px;
+            display: flex;
+            flex-wrap: wrap;
+            gap: 4px 16px;
+        }
+        .column-chooser[hidden] {
+            display: none;
+        }
+        .column-chooser button {
+            background: transparent;
+            color: var(--vscode-foreground);
+            padding: 0 4px;
+            margin: 0;
+        }
+        .column-chooser button:disabled {
+            opacity: 0.3;
+            cursor: default;
+        }
         table {
             width: 100%;
             border-collapse: collapse;
             font-size: 12px;
         }
-        th {
+        thead {
             position: sticky;
             top: 0;
             background-color: var(--vscode-editor-background);
+        }
+        th {
             border-bottom: 2px solid var(--vscode-panel-border);
             text-align: left;
             padding: 8px 6px;
             font-weight: 600;
         }
+        tr.filter-row th {
+            border-bottom: 1px solid var(--vscode-panel-border);
+            padding: 2px 4px 4px;
+        }
+        tr.filter-row input {
+            width: 100%;
+            font-size: 11px;
+        }
         td {
             border-bottom: 1px solid var(--vscode-panel-border);
             padding: 6px;
@@ -118,13 +479,46 @@ export class ResultsPanel {
         tr:hover td {
             background-color: var(--vscode-list-hoverBackground);
         }
-        .null {
+        th.sortable {
+            cursor: pointer;
+            user-select: none;
+        }
+        th.sorted-asc::after { content: ' \\25B2'; opacity: 0.5; }
+        th.sorted-desc::after { content: ' \\25BC'; opacity: 0.5; }
+        .chip {
+            display: inline-block;
+            padding: 0 6px;
+            margin: 1px 4px 1px 0;
+            border-radius: 8px;
+            background: var(--vscode-badge-background);
+            color: var(--vscode-badge-foreground);
+        }
+        .chip-index {
+            opacity: 0.7;
+            margin-right: 4px;
+            font-size: 10px;
+        }
+        .chip.more {
+            cursor: pointer;
+            background: var(--vscode-button-secondaryBackground);
+            color: var(--vscode-button-secondaryForeground);
+        }
+        td.expanded {
+            white-space: normal;
+        }
+        .null, .no-match {
             color: var(--vscode-descriptionForeground);
             font-style: italic;
         }
         .actions {
             margin-top: 10px;
         }
+        .paging {
+            margin-top: 10px;
+        }
+        .paging[hidden] {
+            display: none;
+        }
         button {
             background-color: var(--vscode-button-background);
             color: var(--vscode-button-foreground);
@@ -137,54 +531,283 @@ export class ResultsPanel {
         button:hover {
             background-color: var(--vscode-button-hoverBackground);
         }
+        button[hidden] {
+            display: none;
+        }${this.getTabStyles()}
     </style>
 </head>
 <body>
+    ${this.getTabBarHtml()}
     <div class="info">
-        <span><strong>Rows:</strong> ${results.rowCount}</span>
+        <span><strong>Rows:</strong> <span id="rowCount"></span></span>
         <span><strong>Time:</strong> ${results.executionTime}ms</span>
         <span><strong>Columns:</strong> ${results.columns.length}</span>
     </div>
     <div class="query">${this.escapeHtml(results.query)}</div>
+    <div class="toolbar">
+        <input type="search" id="search" placeholder="Search" title="Show only rows containing this text in a visible column">
+        <span class="filters" id="filters"></span>
+        <button id="clearFilters" onclick="clearFilters()" hidden>Clear Filters</button>
+        <button onclick="toggleColumnChooser()">Columns</button>
+    </div>
+    <div class="column-chooser" id="columnChooser" hidden></div>
     <div class="table-container">
         <table>
             <thead>
-                <tr>${headerCells}</tr>
+                <tr id="header"></tr>
+                <tr class="filter-row" id="filterRow"></tr>
             </thead>
-            <tbody>
-                ${tableRows}
-            </tbody>
+            <tbody></tbody>
         </table>
     </div>
+    <div class="paging" id="paging">
+        <button id="loadNext" onclick="loadMore(false)">Load next ${pageSize} rows</button>
+        <button id="loadAll" onclick="loadMore(true)">Load all</button>
+    </div>
     <div class="actions">
-        <button onclick="exportCsv()">Export CSV</button>
-        <button onclick="copyToClipboard()">Copy All</button>
+        <button onclick="exportRows('csv')" title="Export the shown rows and columns to a CSV file">Export CSV</button>
+        <button onclick="exportRows()" title="Export the shown rows and columns to Excel, TSV, Markdown, HTML, JSON or a DQL script">Export...</button>
+        <button onclick="copyToClipboard()" title="Copy the shown rows and columns">Copy All</button>
     </div>
     <script>
         const vscode = acquireVsCodeApi();
-        const results = ${JSON.stringify(results)};
-
-        function exportCsv() {
-            const header = results.columns.join(',');
-            const rows = results.rows.map(row =>
-                results.columns.map(col => {
-                    const val = row[col];
-                    if (val === null || val === undefined) return '';
-                    const str = String(val);
-                    if (str.includes(',') || str.includes('"') || str.includes('\\n')) {
-                        return '"' + str.replace(/"/g, '""') + '"';
+        const allColumns = ${JSON.stringify(results.columns)};
+        let view = ${JSON.stringify(this.getView(tab))};
+        // Kept per tab by the extension, so switching tabs keeps the filters
+        const state = ${JSON.stringify(tab.viewState)};
+        if (state.columnOrder.length === 0) {
+            state.columnOrder = [...allColumns];
+        }
+        const FILTER_HELP = 'text, =value, !=value, null, not null, >10, 1..5, 2024-01-01..2024-12-31';
+        const SEPARATOR = ${JSON.stringify(getRepeatingValueOptions().separator)};
+        const MAX_CHIPS = 3;
+        let shownColumns = [];
+        let viewTimer;
+
+        function escapeHtml(text) {
+            return String(text)
+                .replace(/&/g, '&amp;')
+                .replace(/</g, '&lt;')
+                .replace(/>/g, '&gt;')
+                .replace(/"/g, '&quot;')
+                .replace(/'/g, '&#039;');
+        }
+
+        function updatePaging() {
+            let text = String(view.loadedCount);
+            if (view.hasMore) {
+                text += typeof view.totalCount === 'number' ? ' of ' + view.totalCount : ' (more available)';
+            }
+            if (view.filtered) {
+                text = view.rows.length + ' of ' + view.loadedCount + ' rows shown | ' + text + ' loaded';
+            }
+            document.getElementById('rowCount').textContent = text;
+            document.getElementById('paging').hidden = !view.hasMore;
+            document.getElementById('loadNext').disabled = false;
+            document.getElementById('loadAll').disabled = false;
+        }
+
+        function loadMore(all) {
+            document.getElementById('loadNext').disabled = true;
+            document.getElementById('loadAll').disabled = true;
+            vscode.postMessage({ type: 'loadMore', all });
+        }
+
+        // The header and filter inputs are only rebuilt when the columns change, so typing keeps focus
+        function renderHeader() {
+            shownColumns = view.columns;
+            const header = document.getElementById('header');
+            header.innerHTML = shownColumns.map(col =>
+                '<th class="sortable" title="Sort by ' + escapeHtml(col) + '">' + escapeHtml(col) + '</th>'
+            ).join('');
+            header.querySelectorAll('th').forEach((th, idx) => {
+                th.addEventListener('click', () => sortBy(shownColumns[idx]));
+            });
+            const filterRow = document.getElementById('filterRow');
+            filterRow.innerHTML = shownColumns.map(col =>
+                '<th><input type="text" placeholder="Filter" value="' + escapeHtml(state.filters[col] || '') + '"></th>'
+            ).join('');
+            filterRow.querySelectorAll('input').forEach((input, idx) => {
+                input.addEventListener('input', () => {
+                    state.filters[shownColumns[idx]] = input.value;
+                    requestView();
+                });
+            });
+        }
+
+        function renderView() {
+            if (view.columns.join('\\u0000') !== shownColumns.join('\\u0000')) {
+                renderHeader();
+            }
+            document.getElementById('filterRow').querySelectorAll('input').forEach((input, idx) => {
+                const error = view.errors[shownColumns[idx]];
+                input.classList.toggle('invalid', error !== undefined);
+                input.title = error || FILTER_HELP;
+            });
+
+            document.getElementById('header').querySelectorAll('th').forEach((th, idx) => {
+                const sorted = state.sort && state.sort.column === shownColumns[idx];
+                th.classList.toggle('sorted-asc', !!sorted && state.sort.direction === 'asc');
+                th.classList.toggle('sorted-desc', !!sorted && state.sort.direction === 'desc');
+            });
+
+            const tbody = document.querySelector('tbody');
+            tbody.innerHTML = view.rows.length === 0 && view.loadedCount > 0
+                ? '<tr><td class="no-match" colspan="' + shownColumns.length + '">No rows match the filters.</td></tr>'
+                : view.rows.map((row, rowIdx) => '<tr>' + shownColumns.map((col, colIdx) =>
+                    '<td data-row="' + rowIdx + '" data-col="' + colIdx + '"' + cellTitle(row[col]) + '>' + renderValue(row[col], false) + '</td>'
+                ).join('') + '</tr>').join('');
+
+            document.getElementById('filters').textContent = view.filters.join('; ');
+            document.getElementById('filters').title = view.filters.join('\\n');
+            document.getElementById('clearFilters').hidden = !view.filtered;
+            updatePaging();
+        }
+
+        function valueText(value) {
+            if (value === null || value === undefined) {
+                return '';
+            }
+            return Array.isArray(value) ? value.map(valueText).join(SEPARATOR) : String(value);
+        }
+
+        // Repeating attributes are shown as chips with their index; "+N" expands the rest
+        function renderValue(value, expanded) {
+            if (!Array.isArray(value)) {
+                return value === null || value === undefined ? '<span class="null">NULL</span>' : escapeHtml(value);
+            }
+            if (value.length === 0) {
+                return '<span class="null">(no values)</span>';
+            }
+            const shown = expanded ? value : value.slice(0, MAX_CHIPS);
+            let html = shown.map((v, idx) =>
+                '<span class="chip"><span class="chip-index">' + idx + '</span>' +
+                (v === null || v === undefined ? '<span class="null">NULL</span>' : escapeHtml(v)) + '</span>'
+            ).join('');
+            if (value.length > shown.length) {
+                html += '<span class="chip more" title="Show all ' + value.length + ' values">+' + (value.length - shown.length) + '</span>';
+            }
+            return html;
+        }
+
+        function cellTitle(value) {
+            return Array.isArray(value)
+                ? ' title="' + escapeHtml(value.map((v, idx) => '[' + idx + '] ' + valueText(v)).join('\\n')) + '"'
+                : '';
+        }
+
+        document.querySelector('tbody').addEventListener('click', event => {
+            const more = event.target.closest('.chip.more');
+            if (!more) {
+                return;
+            }
+            const td = more.closest('td');
+            const value = view.rows[Number(td.dataset.row)][shownColumns[Number(td.dataset.col)]];
+            td.classList.add('expanded');
+            td.innerHTML = renderValue(value, true);
+        });
+
+        function sortBy(col) {
+            state.sort = state.sort && state.sort.column === col
+                ? { column: col, direction: state.sort.direction === 'asc' ? 'desc' : 'asc' }
+                : { column: col, direction: 'asc' };
+            requestView(true);
+        }
+
+        // Filtering runs in the extension, which replies with a 'view' message
+        function requestView(immediate) {
+            clearTimeout(viewTimer);
+            viewTimer = setTimeout(() => vscode.postMessage({ type: 'view', state }), immediate ? 0 : 200);
+        }
+
+        function clearFilters() {
+            state.filters = {};
+            state.search = '';
+            state.hiddenColumns = [];
+            document.getElementById('search').value = '';
+            shownColumns = [];
+            renderColumnChooser();
+            requestView(true);
+        }
+
+        function toggleColumnChooser() {
+            const chooser = document.getElementById('columnChooser');
+            chooser.hidden = !chooser.hidden;
+            renderColumnChooser();
+        }
+
+        function renderColumnChooser() {
+            const chooser = document.getElementById('columnChooser');
+            if (chooser.hidden) {
+                return;
+            }
+            const last = state.columnOrder.length - 1;
+            chooser.innerHTML = state.columnOrder.map((col, idx) =>
+                '<span><label><input type="checkbox" data-idx="' + idx + '"' +
+                (state.hiddenColumns.includes(col) ? '' : ' checked') + '> ' + escapeHtml(col) + '</label>' +
+                '<button data-idx="' + idx + '" data-move="-1" title="Move left"' + (idx === 0 ? ' disabled' : '') + '>&#9664;</button>' +
+                '<button data-idx="' + idx + '" data-move="1" title="Move right"' + (idx === last ? ' disabled' : '') + '>&#9654;</button></span>'
+            ).join('');
+
+            chooser.querySelectorAll('input[type="checkbox"]').forEach(checkbox => {
+                checkbox.addEventListener('change', () => {
+                    const col = state.columnOrder[Number(checkbox.dataset.idx)];
+                    if (checkbox.checked) {
+                        state.hiddenColumns = state.hiddenColumns.filter(c => c !== col);
+                    } else if (state.hiddenColumns.length < allColumns.length - 1) {
+                        state.hiddenColumns = [...state.hiddenColumns, col];
+                    } else {
+                        // Keep at least one column
+                        checkbox.checked = true;
+                        return;
                     }
-                    return str;
-                }).join(',')
-            );
-            const csv = [header, ...rows].join('\\n');
-            vscode.postMessage({ type: 'export', format: 'csv', data: csv });
+                    requestView(true);
+                });
+            });
+            chooser.querySelectorAll('button[data-move]').forEach(button => {
+                button.addEventListener('click', () => {
+                    const idx = Number(button.dataset.idx);
+                    const target = idx + Number(button.dataset.move);
+                    const order = state.columnOrder;
+                    [order[idx], order[target]] = [order[target], order[idx]];
+                    renderColumnChooser();
+                    requestView(true);
+                });
+            });
+        }
+
+        function selectTab(index) {
+            vscode.postMessage({ type: 'selectTab', index });
+        }
+
+        document.getElementById('search').value = state.search;
+        document.getElementById('search').addEventListener('input', event => {
+            state.search = event.target.value;
+            requestView();
+        });
+
+        window.addEventListener('message', event => {
+            const message = event.data;
+            if (message.type === 'view') {
+                view = message.view;
+                renderView();
+            } else if (message.type === 'loadFailed') {
+                updatePaging();
+            }
+        });
+
+        renderView();
+
+        // The extension writes the file, so repeating values follow the documentum.export.* settings;
+        // without a format it asks for one
+        function exportRows(format) {
+            vscode.postMessage({ type: 'export', format });
         }
 
         function copyToClipboard() {
-            const header = results.columns.join('\\t');
-            const rows = results.rows.map(row =>
-                results.columns.map(col => row[col] ?? '').join('\\t')
+            const header = view.columns.join('\\t');
+            const rows = view.rows.map(row =>
+                view.columns.map(col => valueText(row[col])).join('\\t')
             );
             const text = [header, ...rows].join('\\n');
             navigator.clipboard.writeText(text);
@@ -0,0 +1,54 @@
+import {
+    parseRunnerArgs,
+    getRunnerUsage,
+    runNotebookFile,
+    HeadlessRunError
+} from './notebook/headlessRunner';
+
+/**
+ * Command line entry point for running a .dctmbook notebook without VS Code,
+ * e.g. from a nightly job:
+ *
+ *   DCTM_PASSWORD=... node out/runNotebook.js checks.dctmbook --connection prod --param since=YESTERDAY
+ *
+ * Exit codes: 0 when every cell succeeded, 1 when a cell failed,
+ * 2 when the run could not start (arguments, settings, connection).
+ */
+async function main(): Promise<number> {
+    let options;
+    try {
+        options = parseRunnerArgs(process.argv.slice(2), process.env);
+    } catch (error) {
+        console.error(error instanceof Error ? error.message : String(error));
+        console.error(getRunnerUsage());
+        return 2;
+    }
+    if (!options) {
+        console.log(getRunnerUsage());
+        return 0;
+    }
+
+    try {
+        const results = await runNotebookFile(options);
+        for (const result of results) {
+            const line = `Cell ${result.index + 1} (${result.language}): ${result.status}`;
+            if (result.status === 'success') {
+                console.log(line);
+            } else {
+                console.error(result.error ? `${line} - ${result.error}` : line);
+            }
+        }
+
+        const failed = results.filter(r => r.status !== 'success').length;
+        console.log(`${results.length - failed} of ${results.length} cell(s) succeeded`);
+        return failed > 0 ? 1 : 0;
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(error instanceof HeadlessRunError ? message : `Run failed: ${message}`);
+        return 2;
+    }
+}
+
+main().then(code => {
+    process.exitCode = code;
+});
@@ -0,0 +1,48 @@
+import * as assert from 'assert';
+import { parseDependencies, resolveRunOrder } from '../../notebook/cellDependencies';
+
+/**
+ * Tests for cell dependencies used by "Run Cell with Dependencies".
+ */
+suite('Cell Dependencies Test Suite', () => {
+    suite('parseDependencies()', () => {
+        test('reads @depends directives and dependsOn metadata', () => {
+            assert.deepStrictEqual(
+                parseDependencies('-- @depends docs, users\n-- @depends folders\nSELECT 1', { dependsOn: ['users', 'groups', 3] }),
+                ['docs', 'users', 'folders', 'groups']
+            );
+        });
+
+        test('returns nothing without declarations', () => {
+            assert.deepStrictEqual(parseDependencies('SELECT 1 -- @depends docs'), []);
+        });
+    });
+
+    suite('resolveRunOrder()', () => {
+        const cells = [
+            { source: '-- @name folders\nSELECT r_object_id FROM dm_folder' },
+            { source: '# Notes' },
+            { source: '-- @depends folders\n-- @name docs\nSELECT 1' },
+            { source: 'SELECT 2', metadata: { resultName: 'other' } },
+            { source: '-- @depends docs\nUPDATE dm_document OBJECTS SET title = \'x\'' }
+        ];
+
+        test('runs prerequisites first, in notebook order', () => {
+            assert.deepStrictEqual(resolveRunOrder(cells, 4), [0, 2, 4]);
+        });
+
+        test('runs a cell without dependencies on its own', () => {
+            assert.deepStrictEqual(resolveRunOrder(cells, 3), [3]);
+        });
+
+        test('uses the nearest named cell above', () => {
+            const renamed = [{ source: '-- @name a\nSELECT 1' }, { source: '-- @name a\nSELECT 2' }, { source: '-- @depends a' }];
+            assert.deepStrictEqual(resolveRunOrder(renamed, 2), [1, 2]);
+        });
+
+        test('rejects unknown and later cells', () => {
+            assert.throws(() => resolveRunOrder([{ source: '-- @depends missing' }], 0), /Cell 1 depends on "missing"/);
+            assert.throws(() => resolveRunOrder([{ source: '-- @depends b' }, { source: '-- @name b' }], 0), /no cell above it/);
+        });
+    });
+});
@@ -0,0 +1,144 @@
+import * as assert from 'assert';
+import { CredentialStore, StoredCredential } from '../../credentialStore';
+
+/**
+ * Tests for the SecretStorage-backed credential store.
+ *
+ * SecretStorage and Memento are replaced by in-memory mocks so the tests
+ * don't touch the real OS keychain.
+ */
+
+class MockSecretStorage {
+    readonly values: Map<string, string> = new Map();
+
+    async get(key: string): Promise<string | undefined> {
+        return this.values.get(key);
+    }
+
+    async store(key: string, value: string): Promise<void> {
+        this.values.set(key, value);
+    }
+
+    async delete(key: string): Promise<void> {
+        this.values.delete(key);
+    }
+
+    onDidChange = () => ({ dispose: () => {} });
+}
+
+class MockMemento {
+    private values: Map<string, unknown> = new Map();
+
+    keys(): readonly string[] {
+        return Array.from(this.values.keys());
+    }
+
+    get<T>(key: string, defaultValue?: T): T {
+        return (this.values.has(key) ? this.values.get(key) : defaultValue) as T;
+    }
+
+    async update(key: string, value: unknown): Promise<void> {
+        this.values.set(key, value);
+    }
+}
+
+suite('CredentialStore Test Suite', () => {
+    let secrets: MockSecretStorage;
+    let state: MockMemento;
+    let store: CredentialStore;
+
+    /**
+     * Seed a credential directly, bypassing the opt-in setting
+     */
+    async function seed(connectionName: string, username: string, password: string): Promise<void> {
+        await secrets.store(CredentialStore.getKey(connectionName, username), password);
+        const index = state.get<StoredCredential[]>('dctm.credentials.index', []);
+        await state.update('dctm.credentials.index', [...index, { connectionName, username }]);
+    }
+
+    setup(() => {
+        secrets = new MockSecretStorage();
+        state = new MockMemento();
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        store = new CredentialStore(secrets as any, state as any);
+    });
+
+    suite('getKey', () => {
+        test('includes connection name and username', () => {
+            const key = CredentialStore.getKey('DEV', 'dmadmin');
+            assert.strictEqual(key, 'dctm.password/DEV/dmadmin');
+        });
+
+        test('keeps keys distinct when names contain separators', () => {
+            const a = CredentialStore.getKey('a/b', 'c');
+            const b = CredentialStore.getKey('a', 'b/c');
+            assert.notStrictEqual(a, b);
+        });
+    });
+
+    suite('get', () => {
+        test('returns undefined when nothing is stored', async () => {
+            assert.strictEqual(await store.get('DEV', 'dmadmin'), undefined);
+        });
+
+        test('returns stored password for matching user', async () => {
+            await seed('DEV', 'dmadmin', 'secret');
+            assert.strictEqual(await store.get('DEV', 'dmadmin'), 'secret');
+        });
+
+        test('does not return password for another user on same connection', async () => {
+            await seed('DEV', 'dmadmin', 'secret');
+            assert.strictEqual(await store.get('DEV', 'tuser'), undefined);
+        });
+    });
+
+    suite('store', () => {
+        test('does nothing when remembering passwords is disabled', async () => {
+            const stored = await store.store('DEV', 'dmadmin', 'secret');
+            assert.strictEqual(stored, false);
+            assert.strictEqual(secrets.values.size, 0);
+            assert.strictEqual(store.list().length, 0);
+        });
+    });
+
+    suite('forget', () => {
+        test('removes password and index entry', async () => {
+            await seed('DEV', 'dmadmin', 'secret');
+            await seed('UAT', 'dmadmin', 'other');
+
+            await store.forget('DEV', 'dmadmin');
+
+            assert.strictEqual(await store.get('DEV', 'dmadmin'), undefined);
+            assert.strictEqual(await store.get('UAT', 'dmadmin'), 'other');
+            assert.deepStrictEqual(store.list(), [{ connectionName: 'UAT', username: 'dmadmin' }]);
+        });
+
+        test('is a no-op for unknown credentials', async () => {
+            await seed('DEV', 'dmadmin', 'secret');
+            await store.forget('PROD', 'nobody');
+            assert.strictEqual(store.list().length, 1);
+        });
+    });
+
+    suite('forgetAll', () => {
+        test('removes every stored password', async () => {
+            await seed('DEV', 'dmadmin', 'a');
+            await seed('UAT', 'tuser', 'b');
+
+            const count = await store.forgetAll();
+
+            assert.strictEqual(count, 2);
+            assert.strictEqual(secrets.values.size, 0);
+            assert.strictEqual(store.list().length, 0);
+        });
+    });
+
+    suite('list', () => {
+        test('returns a copy of the index', async () => {
+            await seed('DEV', 'dmadmin', 'secret');
+            const list = store.list();
+            list.push({ connectionName: 'X', username: 'Y' });
+            assert.strictEqual(store.list().length, 1);
+        });
+    });
+});
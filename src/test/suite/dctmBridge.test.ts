@@ -1,4 +1,6 @@
 import * as assert from 'assert';
+import { DctmBridge } from '../../dctmBridge';
+import { BridgeError, CancelledError } from '../../errorUtils';
 
 /**
  * Tests for DctmBridge connection routing functionality.
@@ -1423,4 +1425,332 @@ suite('DctmBridge Test Suite', () => {
             );
         });
     });
+
+    suite('Session recovery', () => {
+        /**
+         * Exercises the real DctmBridge with a fake axios client that can
+         * "forget" sessions, simulating a bridge restart or session timeout.
+         */
+        class FakeBridgeClient {
+            private sessionCounter = 0;
+            readonly liveSessions: Set<string> = new Set();
+            readonly requests: { url: string; sessionId?: string }[] = [];
+
+            async post(url: string, body: Record<string, unknown>) {
+                this.requests.push({ url, sessionId: body.sessionId as string | undefined });
+                if (url === '/api/v1/connect') {
+                    const sessionId = `sess-${++this.sessionCounter}`;
+                    this.liveSessions.add(sessionId);
+                    return { data: { sessionId } };
+                }
+                if (url === '/api/v1/disconnect') {
+                    this.liveSessions.delete(body.sessionId as string);
+                    return { data: {} };
+                }
+                if (!this.liveSessions.has(body.sessionId as string)) {
+                    throw new BridgeError({
+                        status: 404,
+                        code: 'SESSION_NOT_FOUND',
+                        message: `Session ${body.sessionId} not found`
+                    });
+                }
+                return {
+                    data: {
+                        columns: [{ name: 'r_object_id' }],
+                        rows: [{ r_object_id: '0900000180000001' }],
+                        rowCount: 1
+                    }
+                };
+            }
+
+            restart(): void {
+                this.liveSessions.clear();
+            }
+        }
+
+        let client: FakeBridgeClient;
+        let bridge: DctmBridge;
+
+        setup(() => {
+            client = new FakeBridgeClient();
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            bridge = new DctmBridge({} as any);
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            (bridge as any).dfcClient = client;
+        });
+
+        async function connect(): Promise<string> {
+            return bridge.connect({
+                docbroker: 'localhost',
+                port: 1489,
+                repository: 'MyRepo',
+                username: 'dmadmin',
+                password: 'secret'
+            });
+        }
+
+        test('reconnects and retries once when the session is lost', async () => {
+            const sessionId = await connect();
+            client.restart();
+
+            const result = await bridge.executeDql(sessionId, 'SELECT r_object_id FROM dm_document');
+
+            assert.strictEqual(result.rowCount, 1);
+            const connects = client.requests.filter(r => r.url === '/api/v1/connect');
+            assert.strictEqual(connects.length, 2);
+        });
+
+        test('notifies listeners with old and new session IDs', async () => {
+            const sessionId = await connect();
+            const recovered: [string, string][] = [];
+            bridge.onSessionRecovered((oldId, newId) => recovered.push([oldId, newId]));
+            client.restart();
+
+            await bridge.executeDql(sessionId, 'SELECT 1 FROM dm_docbase_config');
+
+            assert.deepStrictEqual(recovered, [[sessionId, 'sess-2']]);
+        });
+
+        test('routes later calls with the old session ID to the new session', async () => {
+            const sessionId = await connect();
+            client.restart();
+            await bridge.executeDql(sessionId, 'SELECT 1 FROM dm_docbase_config');
+
+            await bridge.executeDql(sessionId, 'SELECT 1 FROM dm_docbase_config');
+
+            const last = client.requests[client.requests.length - 1];
+            assert.strictEqual(last.sessionId, 'sess-2');
+            assert.strictEqual(bridge.isRestSession(sessionId), false);
+        });
+
+        test('shares one reconnect between concurrent failing requests', async () => {
+            const sessionId = await connect();
+            client.restart();
+
+            await Promise.all([
+                bridge.executeDql(sessionId, 'SELECT 1 FROM dm_docbase_config'),
+                bridge.executeDql(sessionId, 'SELECT 2 FROM dm_docbase_config')
+            ]);
+
+            const connects = client.requests.filter(r => r.url === '/api/v1/connect');
+            assert.strictEqual(connects.length, 2);
+        });
+
+        test('does not retry non-session errors', async () => {
+            const sessionId = await connect();
+            client.post = async () => {
+                throw new BridgeError({ status: 400, code: 'DM_QUERY_E_SYNTAX', message: 'Syntax error' });
+            };
+
+            await assert.rejects(
+                bridge.executeDql(sessionId, 'SELEC'),
+                (error: Error) => error.message.includes('Syntax error')
+            );
+        });
+
+        test('does not recover sessions after disconnect', async () => {
+            const sessionId = await connect();
+            await bridge.disconnect(sessionId);
+
+            await assert.rejects(
+                bridge.executeDql(sessionId, 'SELECT 1 FROM dm_docbase_config'),
+                (error: Error) => error instanceof BridgeError
+            );
+        });
+    });
+
+    suite('Paged DQL execution', () => {
+        /**
+         * Fake axios client that serves a fixed result set in pages,
+         * using the row offset as the continuation cursor.
+         */
+        class PagingBridgeClient {
+            readonly requests: { body: Record<string, unknown>; config?: { timeout?: number } }[] = [];
+
+            constructor(private readonly totalRows: number, private readonly reportTotal = true) {}
+
+            async post(url: string, body: Record<string, unknown>, config?: { timeout?: number }) {
+                if (url === '/api/v1/connect') {
+                    return { data: { sessionId: 'sess-1' } };
+                }
+                this.requests.push({ body, config });
+                const start = body.cursor ? Number(body.cursor) : 0;
+                const pageSize = typeof body.pageSize === 'number' ? body.pageSize : this.totalRows;
+                const end = Math.min(start + pageSize, this.totalRows);
+                const rows = [];
+                for (let i = start; i < end; i++) {
+                    rows.push({ r_object_id: `09000001800000${String(i).padStart(2, '0')}` });
+                }
+                return {
+                    data: {
+                        columns: [{ name: 'r_object_id' }],
+                        rows,
+                        rowCount: rows.length,
+                        hasMore: end < this.totalRows,
+                        cursor: end < this.totalRows ? String(end) : null,
+                        totalCount: this.reportTotal ? this.totalRows : undefined
+                    }
+                };
+            }
+        }
+
+        async function createBridge(client: PagingBridgeClient): Promise<{ bridge: DctmBridge; sessionId: string }> {
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            const bridge = new DctmBridge({} as any);
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            (bridge as any).dfcClient = client;
+            const sessionId = await bridge.connect({
+                docbroker: 'localhost',
+                repository: 'MyRepo',
+                username: 'dmadmin',
+                password: 'secret'
+            });
+            return { bridge, sessionId };
+        }
+
+        test('sends page size and returns a cursor when more rows exist', async () => {
+            const client = new PagingBridgeClient(25);
+            const { bridge, sessionId } = await createBridge(client);
+
+            const page = await bridge.executeDql(sessionId, 'SELECT r_object_id FROM dm_document', { pageSize: 10 });
+
+            assert.strictEqual(client.requests[0].body.pageSize, 10);
+            assert.strictEqual(page.rows.length, 10);
+            assert.strictEqual(page.hasMore, true);
+            assert.strictEqual(page.cursor, '10');
+            assert.strictEqual(page.totalCount, 25);
+        });
+
+        test('passes the cursor back to fetch the next page', async () => {
+            const client = new PagingBridgeClient(25);
+            const { bridge, sessionId } = await createBridge(client);
+
+            const page = await bridge.executeDql(sessionId, 'SELECT r_object_id FROM dm_document', {
+                pageSize: 10,
+                cursor: '20'
+            });
+
+            assert.strictEqual(client.requests[0].body.cursor, '20');
+            assert.strictEqual(page.rows.length, 5);
+            assert.strictEqual(page.hasMore, false);
+            assert.strictEqual(page.cursor, undefined);
+        });
+
+        test('omits paging fields when no page size is given', async () => {
+            const client = new PagingBridgeClient(25);
+            const { bridge, sessionId } = await createBridge(client);
+
+            const result = await bridge.executeDql(sessionId, 'SELECT r_object_id FROM dm_document');
+
+            assert.ok(!('pageSize' in client.requests[0].body));
+            assert.ok(!('cursor' in client.requests[0].body));
+            assert.strictEqual(client.requests[0].config, undefined);
+            assert.strictEqual(result.rows.length, 25);
+            assert.strictEqual(result.hasMore, false);
+        });
+
+        test('leaves total count undefined when the bridge does not know it', async () => {
+            const client = new PagingBridgeClient(25, false);
+            const { bridge, sessionId } = await createBridge(client);
+
+            const page = await bridge.executeDql(sessionId, 'SELECT r_object_id FROM dm_document', { pageSize: 10 });
+
+            assert.strictEqual(page.totalCount, undefined);
+            assert.strictEqual(page.hasMore, true);
+        });
+
+        test('applies the per-request timeout', async () => {
+            const client = new PagingBridgeClient(5);
+            const { bridge, sessionId } = await createBridge(client);
+
+            await bridge.executeDql(sessionId, 'SELECT r_object_id FROM dm_document', { timeoutMs: 0 });
+
+            assert.deepStrictEqual(client.requests[0].config, { timeout: 0 });
+        });
+    });
+
+    suite('Request cancellation', () => {
+        /**
+         * Fake axios client whose DQL requests never finish on their own;
+         * they reject once the request's AbortSignal fires.
+         */
+        class HangingBridgeClient {
+            readonly requests: { url: string; body: Record<string, unknown> }[] = [];
+
+            async post(url: string, body: Record<string, unknown>, config?: { signal?: AbortSignal }) {
+                this.requests.push({ url, body });
+                if (url === '/api/v1/connect') {
+                    return { data: { sessionId: 'sess-1' } };
+                }
+                if (url === '/api/v1/cancel') {
+                    return { data: {} };
+                }
+                return new Promise((_resolve, reject) => {
+                    config?.signal?.addEventListener('abort', () => reject(new CancelledError()));
+                });
+            }
+        }
+
+        let client: HangingBridgeClient;
+        let bridge: DctmBridge;
+        let sessionId: string;
+
+        setup(async () => {
+            client = new HangingBridgeClient();
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            bridge = new DctmBridge({} as any);
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            (bridge as any).dfcClient = client;
+            sessionId = await bridge.connect({
+                docbroker: 'localhost',
+                repository: 'MyRepo',
+                username: 'dmadmin',
+                password: 'secret'
+            });
+        });
+
+        test('aborting rejects the query with CancelledError', async () => {
+            const controller = new AbortController();
+            const pending = bridge.executeDql(sessionId, 'SELECT * FROM dm_sysobject', { signal: controller.signal });
+
+            controller.abort();
+
+            await assert.rejects(pending, (error: Error) => error instanceof CancelledError);
+        });
+
+        test('aborting asks the bridge to cancel the tagged request', async () => {
+            const controller = new AbortController();
+            const pending = bridge.executeDql(sessionId, 'SELECT * FROM dm_sysobject', { signal: controller.signal });
+
+            controller.abort();
+            await assert.rejects(pending);
+
+            const query = client.requests.find(r => r.url === '/api/v1/dql');
+            const cancel = client.requests.find(r => r.url === '/api/v1/cancel');
+            assert.ok(query?.body.requestId);
+            assert.deepStrictEqual(cancel?.body, { sessionId, requestId: query?.body.requestId });
+        });
+
+        test('an already aborted signal does not send the request', async () => {
+            const controller = new AbortController();
+            controller.abort();
+
+            await assert.rejects(
+                bridge.executeDmApi(sessionId, 'get', 'getservermap,session', controller.signal),
+                (error: Error) => error instanceof CancelledError
+            );
+            assert.ok(!client.requests.some(r => r.url === '/api/v1/dmapi'));
+        });
+
+        test('cancellation is not treated as a lost session', async () => {
+            const controller = new AbortController();
+            const pending = bridge.executeDql(sessionId, 'SELECT * FROM dm_sysobject', { signal: controller.signal });
+
+            controller.abort();
+            await assert.rejects(pending);
+
+            const connects = client.requests.filter(r => r.url === '/api/v1/connect');
+            assert.strictEqual(connects.length, 1);
+        });
+    });
 });
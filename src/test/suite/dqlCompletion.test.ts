@@ -0,0 +1,64 @@
+import * as assert from 'assert';
+import { getDqlCompletionContext, getTypesInScope } from '../../dqlCompletion';
+
+/**
+ * Tests for finding what DQL completion should offer at the cursor.
+ */
+suite('DQL Completion Context Test Suite', () => {
+    /** Context at the | in the text */
+    function contextAt(textWithCursor: string) {
+        const offset = textWithCursor.indexOf('|');
+        return getDqlCompletionContext(textWithCursor.replace('|', ''), offset);
+    }
+
+    suite('getDqlCompletionContext()', () => {
+        test('offers types after FROM, TYPE and commas in the FROM list', () => {
+            assert.strictEqual(contextAt('SELECT * FROM dm_|').kind, 'type');
+            assert.strictEqual(contextAt('SELECT * FROM dm_document, |').kind, 'type');
+            assert.strictEqual(contextAt('SELECT * FROM dm_sysobject WHERE TYPE(|').kind, 'type');
+        });
+
+        test('offers attributes of the statement\'s types in the select list and WHERE', () => {
+            const select = contextAt('SELECT obj| FROM dm_document');
+            assert.strictEqual(select.kind, 'attribute');
+            assert.deepStrictEqual(getTypesInScope(select), ['dm_document']);
+
+            assert.strictEqual(contextAt('SELECT * FROM dm_document WHERE a = 1 AND |').kind, 'attribute');
+            assert.strictEqual(contextAt('SELECT * FROM dm_document |').kind, 'keyword');
+        });
+
+        test('resolves aliases before a dot', () => {
+            const context = contextAt('SELECT f.| FROM dm_document d, dm_folder f');
+
+            assert.strictEqual(context.qualifier, 'f');
+            assert.deepStrictEqual(getTypesInScope(context), ['dm_folder']);
+        });
+
+        test('offers users and groups after owner_name =', () => {
+            const quoted = contextAt("SELECT * FROM dm_document WHERE owner_name = 'dm|");
+            assert.strictEqual(quoted.kind, 'principal');
+            assert.strictEqual(quoted.inString, true);
+
+            assert.strictEqual(contextAt('SELECT * FROM dm_document WHERE owner_name IN (\'a\', |').kind, 'principal');
+            assert.strictEqual(contextAt("SELECT * FROM dm_document WHERE title = 'dm|").kind, 'none');
+        });
+
+        test('offers nothing inside comments and other strings', () => {
+            assert.strictEqual(contextAt('SELECT * -- FROM |').kind, 'none');
+            assert.strictEqual(contextAt('SELECT * /* FROM | */ FROM dm_document').kind, 'none');
+            assert.strictEqual(contextAt("SELECT * FROM dm_document WHERE object_name = 'a''|'").kind, 'none');
+            assert.strictEqual(contextAt('SELECT /* note */ | FROM dm_document').kind, 'attribute');
+        });
+
+        test('finds the types of UPDATE and DELETE statements', () => {
+            assert.deepStrictEqual(getTypesInScope(contextAt("UPDATE my_doc OBJECTS SET |title = 'x'")), ['my_doc']);
+            assert.deepStrictEqual(getTypesInScope(contextAt('DELETE dm_document OBJECTS WHERE |')), ['dm_document']);
+        });
+
+        test('uses only the statement around the cursor', () => {
+            const context = contextAt('SELECT * FROM dm_folder;\nSELECT | FROM dm_document\ngo\nSELECT * FROM dm_user');
+
+            assert.deepStrictEqual(getTypesInScope(context), ['dm_document']);
+        });
+    });
+});
@@ -0,0 +1,86 @@
+import * as assert from 'assert';
+import { checkDql, findNearestName, DqlSchema } from '../../dqlDiagnostics';
+import { TypeAttribute } from '../../bridgeTypes';
+
+/**
+ * Tests for checking DQL against the repository schema.
+ */
+suite('DQL Diagnostics Test Suite', () => {
+    function attr(name: string, isRepeating = false): TypeAttribute {
+        return { name, dataType: 'string', length: 32, isRepeating, isInherited: false };
+    }
+
+    const types: Record<string, TypeAttribute[]> = {
+        dm_document: [attr('r_object_id'), attr('object_name'), attr('owner_name'), attr('keywords', true), attr('i_folder_id', true),
+            attr('r_creation_date')],
+        dm_folder: [attr('r_object_id'), attr('object_name'), attr('r_folder_path', true)]
+    };
+    const schema: DqlSchema = {
+        isTypeName: name => name.toLowerCase() in types,
+        typeNames: Object.keys(types),
+        getAttributes: name => types[name.toLowerCase()]
+    };
+
+    /** Codes and flagged text of the problems in a query */
+    function check(text: string): [string, string][] {
+        return checkDql(text, schema).map(problem => [problem.code, text.slice(problem.start, problem.end)]);
+    }
+
+    test('accepts a valid query', () => {
+        assert.deepStrictEqual(check(
+            "SELECT d.object_name, COUNT(*) AS cnt FROM dm_document d, dm_folder f " +
+            "WHERE ANY d.i_folder_id = f.r_object_id AND DATEDIFF(day, r_creation_date, DATE(TODAY)) > 1 ORDER BY cnt"
+        ), []);
+    });
+
+    test('flags unknown types with the nearest match', () => {
+        const problems = checkDql('SELECT * FROM dm_documnet', schema);
+
+        assert.strictEqual(problems.length, 1);
+        assert.strictEqual(problems[0].code, 'unknown-type');
+        assert.strictEqual(problems[0].replacement, 'dm_document');
+    });
+
+    test('flags attributes that are not on the referenced type', () => {
+        assert.deepStrictEqual(check("SELECT object_nam FROM dm_document WHERE owner_name = 'x'"), [['unknown-attribute', 'object_nam']]);
+        assert.deepStrictEqual(check('SELECT f.keywords FROM dm_document d, dm_folder f'), [['unknown-attribute', 'keywords']]);
+    });
+
+    test('flags repeating attributes used without ANY in WHERE', () => {
+        assert.deepStrictEqual(check("SELECT keywords FROM dm_document WHERE keywords = 'x'"), [['repeating-without-any', 'keywords']]);
+        assert.deepStrictEqual(check("SELECT * FROM dm_document WHERE ANY keywords = 'x' AND ANY (keywords = 'y')"), []);
+        assert.deepStrictEqual(check("SELECT * FROM dm_document d WHERE d.keywords = 'x'"), [['repeating-without-any', 'd.keywords']]);
+    });
+
+    test('flags unbalanced quotes and parentheses', () => {
+        assert.deepStrictEqual(check("SELECT * FROM dm_document WHERE object_name = 'x"), [['unbalanced-quote', "'"]]);
+        assert.deepStrictEqual(check('SELECT COUNT(* FROM dm_document'), [['unbalanced-parenthesis', '(']]);
+    });
+
+    test('flags FOLDER paths with unescaped quotes and offers the escaped path', () => {
+        const text = "SELECT * FROM dm_document WHERE FOLDER('/Temp/John's files', DESCEND)";
+        const problems = checkDql(text, schema);
+
+        assert.deepStrictEqual(problems.map(problem => problem.code), ['unescaped-folder-quote']);
+        assert.strictEqual(problems[0].replacement, "/Temp/John''s files");
+        assert.deepStrictEqual(checkDql("SELECT * FROM dm_document WHERE FOLDER('/Temp/John''s files')", schema), []);
+    });
+
+    test('does not take a FOLDER path to the quotes of later literals', () => {
+        assert.deepStrictEqual(check("SELECT * FROM dm_document WHERE FOLDER('/Temp') AND (object_name = 'x')"), []);
+        assert.deepStrictEqual(check("SELECT * FROM dm_document WHERE FOLDER('/Temp', DESCEND) AND object_name IN ('a','b')"), []);
+        assert.deepStrictEqual(check("SELECT * FROM dm_document WHERE CABINET('/Temp/John's files') AND object_name = 'x'"),
+            [['unescaped-folder-quote', "/Temp/John's files"]]);
+    });
+
+    test('skips attribute checks until the attributes are loaded', () => {
+        const unloaded: DqlSchema = { ...schema, getAttributes: () => undefined };
+
+        assert.deepStrictEqual(checkDql('SELECT nothing FROM dm_document', unloaded), []);
+    });
+
+    test('findNearestName() ignores names that are too different', () => {
+        assert.strictEqual(findNearestName('dm_foldr', ['dm_folder', 'dm_document']), 'dm_folder');
+        assert.strictEqual(findNearestName('my_type', ['dm_folder', 'dm_document']), undefined);
+    });
+});
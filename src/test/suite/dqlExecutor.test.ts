@@ -0,0 +1,118 @@
+import * as assert from 'assert';
+import { DqlResult, mergeDqlPages, runDqlStatements } from '../../dqlExecutor';
+import { splitDqlStatements } from '../../dqlParser';
+
+/**
+ * Tests for DQL result paging and script helpers
+ */
+suite('DqlExecutor Test Suite', () => {
+
+    function page(ids: string[], extra: Partial<DqlResult> = {}): DqlResult {
+        return {
+            columns: ['r_object_id'],
+            rows: ids.map(id => ({ r_object_id: id })),
+            rowCount: ids.length,
+            executionTime: 10,
+            query: 'SELECT r_object_id FROM dm_document',
+            ...extra
+        };
+    }
+
+    suite('mergeDqlPages', () => {
+        test('appends rows in order', () => {
+            const merged = mergeDqlPages(
+                page(['a', 'b'], { hasMore: true, cursor: '2' }),
+                page(['c'])
+            );
+            assert.deepStrictEqual(merged.rows.map(r => r.r_object_id), ['a', 'b', 'c']);
+            assert.strictEqual(merged.rowCount, 3);
+        });
+
+        test('takes paging state from the later page', () => {
+            const merged = mergeDqlPages(
+                page(['a'], { hasMore: true, cursor: '1' }),
+                page(['b'], { hasMore: true, cursor: '2' })
+            );
+            assert.strictEqual(merged.hasMore, true);
+            assert.strictEqual(merged.cursor, '2');
+        });
+
+        test('clears the cursor once the last page is merged', () => {
+            const merged = mergeDqlPages(
+                page(['a'], { hasMore: true, cursor: '1' }),
+                page(['b'], { hasMore: false })
+            );
+            assert.strictEqual(merged.hasMore, false);
+            assert.strictEqual(merged.cursor, undefined);
+        });
+
+        test('keeps a known total count', () => {
+            const merged = mergeDqlPages(
+                page(['a'], { hasMore: true, cursor: '1', totalCount: 3 }),
+                page(['b'], { hasMore: true, cursor: '2' })
+            );
+            assert.strictEqual(merged.totalCount, 3);
+        });
+
+        test('adds execution times and keeps the original query', () => {
+            const merged = mergeDqlPages(page(['a']), page(['b'], { query: 'other' }));
+            assert.strictEqual(merged.executionTime, 20);
+            assert.strictEqual(merged.query, 'SELECT r_object_id FROM dm_document');
+        });
+
+        test('does not modify the input pages', () => {
+            const first = page(['a'], { hasMore: true, cursor: '1' });
+            mergeDqlPages(first, page(['b']));
+            assert.strictEqual(first.rows.length, 1);
+        });
+    });
+
+    suite('runDqlStatements', () => {
+        const script = 'SELECT 1 FROM a;\nDELETE b OBJECTS\ngo\nSELECT 3 FROM c';
+
+        // Fails the statements containing DELETE
+        function executor(sent: string[]) {
+            return async (query: string) => {
+                sent.push(query);
+                if (query.startsWith('DELETE')) {
+                    throw new Error('Permission denied');
+                }
+                return page(['x'], { query });
+            };
+        }
+
+        test('runs the statements in order', async () => {
+            const sent: string[] = [];
+            const results = await runDqlStatements(splitDqlStatements('SELECT 1 FROM a; SELECT 2 FROM b'), executor(sent));
+
+            assert.deepStrictEqual(sent, ['SELECT 1 FROM a', 'SELECT 2 FROM b']);
+            assert.deepStrictEqual(results.map(r => r.result?.rowCount), [1, 1]);
+        });
+
+        test('stops at a failed statement and skips the rest', async () => {
+            const sent: string[] = [];
+            const results = await runDqlStatements(splitDqlStatements(script), executor(sent));
+
+            assert.deepStrictEqual(sent, ['SELECT 1 FROM a', 'DELETE b OBJECTS']);
+            assert.strictEqual(results[1].error, 'Permission denied');
+            assert.deepStrictEqual(results.map(r => r.skipped === true), [false, false, true]);
+        });
+
+        test('goes on after a failed statement when asked to', async () => {
+            const sent: string[] = [];
+            const results = await runDqlStatements(splitDqlStatements(script), executor(sent), { continueOnError: true });
+
+            assert.strictEqual(sent.length, 3);
+            assert.deepStrictEqual(results.map(r => r.error), [undefined, 'Permission denied', undefined]);
+        });
+
+        test('skips every statement once cancelled', async () => {
+            const sent: string[] = [];
+            const token = { isCancellationRequested: true, onCancellationRequested: () => ({ dispose: () => undefined }) };
+            const results = await runDqlStatements(splitDqlStatements(script), executor(sent), { token });
+
+            assert.deepStrictEqual(sent, []);
+            assert.ok(results.every(r => r.skipped));
+        });
+    });
+});
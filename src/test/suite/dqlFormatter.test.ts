@@ -0,0 +1,79 @@
+import * as assert from 'assert';
+import { DEFAULT_DQL_FORMAT_OPTIONS, DqlFormatOptions, formatDql, getDqlFormatRange } from '../../dqlFormatter';
+
+/**
+ * Tests for formatting DQL.
+ */
+suite('DQL Formatter Test Suite', () => {
+    function format(text: string, options: Partial<DqlFormatOptions> = {}): string {
+        return formatDql(text, { ...DEFAULT_DQL_FORMAT_OPTIONS, ...options });
+    }
+
+    test('breaks lines before clauses and aligns the select list', () => {
+        assert.strictEqual(
+            format('select d.object_name,count(*) as cnt from dm_document d where d.r_creation_date>date(today) order by cnt desc'),
+            'SELECT d.object_name,\n' +
+            '       COUNT(*) AS cnt\n' +
+            'FROM dm_document d\n' +
+            'WHERE d.r_creation_date > DATE(TODAY)\n' +
+            'ORDER BY cnt DESC'
+        );
+    });
+
+    test('keeps subqueries, predicates and signs on one line', () => {
+        assert.strictEqual(
+            format("SELECT * FROM dm_document WHERE FOLDER ( '/Temp' , DESCEND ) AND r_object_id IN(SELECT parent_id FROM dm_relation WHERE x=-1)"),
+            'SELECT *\nFROM dm_document\n' +
+            "WHERE FOLDER('/Temp', DESCEND) AND r_object_id IN (SELECT parent_id FROM dm_relation WHERE x = -1)"
+        );
+    });
+
+    test('keeps comments, hints and strings as written', () => {
+        const text = "-- Documents\nselect /*+ FETCH_ALL_RESULTS 0 */ * from dm_document -- all of them\nwhere object_name = 'a -- b'";
+
+        assert.strictEqual(
+            format(text),
+            "-- Documents\nSELECT /*+ FETCH_ALL_RESULTS 0 */ *\nFROM dm_document -- all of them\nWHERE object_name = 'a -- b'"
+        );
+    });
+
+    test('formats each statement of a script and keeps its separators', () => {
+        assert.strictEqual(
+            format("update dm_document objects set title='x' where r_object_id = '09'\ngo\n\n\ndelete dm_note objects;\n"),
+            "UPDATE dm_document OBJECTS\nSET title = 'x'\nWHERE r_object_id = '09'\ngo\n\nDELETE dm_note OBJECTS;\n"
+        );
+    });
+
+    test('keeps what follows a missing separator as written', () => {
+        assert.strictEqual(
+            format('select a from t\n\n-- next\nselect  b from u where x=1'),
+            'SELECT a\nFROM t\n\n-- next\nselect  b from u where x=1'
+        );
+        assert.strictEqual(format('alter type t drop attr1'), 'ALTER TYPE t DROP attr1');
+    });
+
+    test('follows the options', () => {
+        const text = 'SELECT a,b FROM t WHERE x=1';
+
+        assert.strictEqual(
+            format(text, { keywordCase: 'lower', clauseLineBreaks: false, alignSelectList: false, operatorSpacing: false }),
+            'select a, b from t where x=1'
+        );
+        assert.strictEqual(format('Select A From t', { keywordCase: 'preserve' }), 'Select A\nFrom t');
+    });
+
+    test('formats its own output to the same text', () => {
+        const formatted = format('select a, -- first\n b from t join u on t.x=u.y where any keywords[0]=\'k\'');
+
+        assert.strictEqual(formatted, "SELECT a, -- first\n       b\nFROM t\nJOIN u\n    ON t.x = u.y\nWHERE ANY keywords[0] = 'k'");
+        assert.strictEqual(format(formatted), formatted);
+    });
+
+    test('getDqlFormatRange() widens a selection to whole statements', () => {
+        const text = 'SELECT 1 FROM a;\nSELECT 2 FROM b;\nSELECT 3 FROM c';
+
+        assert.deepStrictEqual(getDqlFormatRange(text, text.indexOf('2'), text.indexOf('2')),
+            { start: text.indexOf('SELECT 2'), end: text.indexOf('b;') + 1 });
+        assert.strictEqual(getDqlFormatRange(text, text.length, text.length)?.start, text.indexOf('SELECT 3'));
+    });
+});
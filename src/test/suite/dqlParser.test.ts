@@ -0,0 +1,164 @@
+import * as assert from 'assert';
+import { tokenizeDql } from '../../dqlLexer';
+import {
+    DqlSelectStatement,
+    collectAttributeReferences,
+    collectTypeReferences,
+    findClauseAt,
+    findStatementAt,
+    parseDql,
+    splitDqlStatements
+} from '../../dqlParser';
+
+/**
+ * Tests for the DQL tokenizer and parser.
+ */
+suite('DQL Parser Test Suite', () => {
+    suite('tokenizeDql()', () => {
+        test('reads strings with doubled quotes, comments and hints', () => {
+            const tokens = tokenizeDql("SELECT 'it''s -- not a comment' /*+ hint */ FROM t -- note\n/* block */");
+
+            assert.deepStrictEqual(tokens.map(token => [token.kind, token.text]), [
+                ['keyword', 'SELECT'],
+                ['string', "'it''s -- not a comment'"],
+                ['hint', '/*+ hint */'],
+                ['keyword', 'FROM'],
+                ['identifier', 't'],
+                ['lineComment', '-- note'],
+                ['blockComment', '/* block */']
+            ]);
+        });
+
+        test('marks strings that are never closed', () => {
+            const tokens = tokenizeDql("WHERE a = 'x");
+            const string = tokens[tokens.length - 1];
+
+            assert.strictEqual(string.kind, 'string');
+            assert.strictEqual(string.text, "'x");
+            assert.strictEqual(string.terminated, false);
+        });
+
+        test('treats go as a separator only on a line of its own', () => {
+            const kinds = (text: string) => tokenizeDql(text).map(token => token.kind);
+
+            assert.deepStrictEqual(kinds('SELECT 1\n  go  \nSELECT 2'), ['keyword', 'number', 'separator', 'keyword', 'number']);
+            assert.deepStrictEqual(kinds('SELECT go FROM t'), ['keyword', 'identifier', 'keyword', 'identifier']);
+        });
+    });
+
+    suite('parseDql()', () => {
+        test('parses a query into its parts', () => {
+            const script = parseDql(
+                'SELECT DISTINCT d.object_name AS name, COUNT(*) FROM dm_document (ALL) d, dm_folder f ' +
+                "WHERE ANY d.i_folder_id = f.r_object_id AND d.object_name LIKE 'a%' ORDER BY name DESC"
+            );
+            const query = script.statements[0] as DqlSelectStatement;
+
+            assert.deepStrictEqual(script.errors, []);
+            assert.strictEqual(query.kind, 'select');
+            assert.strictEqual(query.distinct, true);
+            assert.deepStrictEqual(query.selectList.map(item => item.alias?.text), ['name', undefined]);
+            assert.deepStrictEqual(query.from.map(type => [type.name.text, type.alias?.text, type.modifier]),
+                [['dm_document', 'd', 'all'], ['dm_folder', 'f', undefined]]);
+            assert.deepStrictEqual(query.clauses.map(clause => clause.keyword), ['select', 'from', 'where', 'order by']);
+            assert.strictEqual(query.orderBy[0].direction, 'desc');
+        });
+
+        test('tracks ANY and the clause of every attribute', () => {
+            const statement = parseDql("SELECT keywords FROM dm_document WHERE ANY (keywords = 'a' OR authors = 'b') AND owner_name = 'c'").statements[0];
+
+            assert.deepStrictEqual(collectAttributeReferences(statement).map(ref => [ref.name.text, ref.clause, ref.any]), [
+                ['keywords', 'select', false],
+                ['keywords', 'where', true],
+                ['authors', 'where', true],
+                ['owner_name', 'where', false]
+            ]);
+        });
+
+        test('finds the types of every kind of statement', () => {
+            const types = (text: string) => collectTypeReferences(parseDql(text).statements[0])
+                .map(type => (type.owner ? `${type.owner.text}.` : '') + type.name.text + (type.definition ? '*' : ''));
+
+            assert.deepStrictEqual(types("UPDATE my_doc OBJECTS SET title = 'x' WHERE r_object_id IN (SELECT r_object_id FROM dm_folder)"), ['my_doc', 'dm_folder']);
+            assert.deepStrictEqual(types('DELETE dm_document OBJECTS WHERE TYPE(my_doc)'), ['dm_document', 'my_doc']);
+            assert.deepStrictEqual(types('CREATE TYPE my_doc (code string(16) REPEATING) WITH SUPERTYPE dm_document'), ['my_doc*', 'dm_document']);
+            assert.deepStrictEqual(types('REGISTER TABLE dm_dbo.my_table (id int)'), ['dm_dbo.my_table']);
+        });
+
+        test('keeps subquery clauses inside the parentheses', () => {
+            const text = 'SELECT * FROM dm_document WHERE r_object_id IN (SELECT parent_id FROM dm_relation) AND a = 1';
+            const statement = parseDql(text).statements[0];
+
+            assert.strictEqual(findClauseAt(statement, text.indexOf('parent_id'))?.depth, 1);
+            assert.strictEqual(findClauseAt(statement, text.indexOf('a = 1'))?.keyword, 'where');
+        });
+
+        test('collects hints from ENABLE and hint comments', () => {
+            const statement = parseDql('SELECT /*+ FETCH_ALL_RESULTS 0 */ * FROM dm_document ENABLE (RETURN_TOP 10, FORCE_ORDER)').statements[0];
+
+            assert.deepStrictEqual(statement.hints.map(hint => [hint.style, hint.hints.map(name => name.text)]), [
+                ['comment', ['FETCH_ALL_RESULTS 0']],
+                ['enable', ['RETURN_TOP 10', 'FORCE_ORDER']]
+            ]);
+        });
+
+        test('reports syntax errors without giving up', () => {
+            const script = parseDql('SELECT object_name FROM WHERE a = 1;\nSELECT * FROM dm_folder');
+
+            assert.ok(script.errors.some(error => error.message === 'Expected a type name'));
+            assert.strictEqual(script.statements.length, 2);
+            assert.deepStrictEqual((script.statements[1] as DqlSelectStatement).from.map(type => type.name.text), ['dm_folder']);
+        });
+    });
+
+    suite('splitDqlStatements()', () => {
+        test('splits on ; and go, keeping comments and skipping empty statements', () => {
+            const text = "-- first\nSELECT ';' FROM a;\n;\nUPDATE b OBJECTS SET c = 1\ngo\n-- only a comment\n";
+
+            assert.deepStrictEqual(splitDqlStatements(text).map(statement => statement.text), [
+                "-- first\nSELECT ';' FROM a",
+                'UPDATE b OBJECTS SET c = 1'
+            ]);
+            assert.deepStrictEqual(splitDqlStatements(text).map(statement => statement.query), [
+                "SELECT ';' FROM a",
+                'UPDATE b OBJECTS SET c = 1'
+            ]);
+        });
+
+        test('keeps statements whose actions and privileges are statement keywords whole', () => {
+            const split = (text: string) => splitDqlStatements(text).map(statement => statement.query);
+
+            assert.deepStrictEqual(split('ALTER TYPE t DROP attr1'), ['ALTER TYPE t DROP attr1']);
+            assert.deepStrictEqual(split("ALTER TYPE t ALTER attr1 SET label_text='x'"), ["ALTER TYPE t ALTER attr1 SET label_text='x'"]);
+            assert.deepStrictEqual(split('ALTER GROUP g1 DROP u3'), ['ALTER GROUP g1 DROP u3']);
+            assert.deepStrictEqual(split('GRANT CREATE TYPE, CREATE CABINET TO dmadmin'), ['GRANT CREATE TYPE, CREATE CABINET TO dmadmin']);
+            assert.deepStrictEqual(split('REVOKE CREATE GROUP FROM jdoe'), ['REVOKE CREATE GROUP FROM jdoe']);
+            assert.deepStrictEqual(parseDql('ALTER TYPE t DROP attr1; GRANT CREATE TYPE, CREATE CABINET TO dmadmin').errors, []);
+        });
+
+        test('reports a missing separator instead of splitting there', () => {
+            const text = 'SELECT * FROM a WHERE x = 1\n\nUPDATE b OBJECTS SET c = 1';
+            const script = parseDql(text);
+
+            assert.strictEqual(script.statements.length, 1);
+            assert.deepStrictEqual(script.statements[0].unparsed, { start: text.indexOf('UPDATE'), end: text.length });
+            assert.deepStrictEqual(script.errors.map(error => [error.message, error.start]),
+                [["Expected ';' or go before the next statement", text.indexOf('UPDATE')]]);
+        });
+
+        test('leaves out comments but keeps hints and strings over several lines', () => {
+            const text = "SELECT /*+ FETCH_ALL_RESULTS 0 */ title /* note */ FROM a\n    -- only b\n    WHERE title = 'one\n  two'";
+
+            assert.strictEqual(splitDqlStatements(text)[0].query,
+                "SELECT /*+ FETCH_ALL_RESULTS 0 */ title FROM a\nWHERE title = 'one\n  two'");
+        });
+
+        test('findStatementAt() finds the statement around an offset', () => {
+            const text = 'SELECT 1 FROM a; SELECT 2 FROM b';
+            const script = parseDql(text);
+
+            assert.strictEqual(findStatementAt(script, text.indexOf('2'))?.start, text.indexOf('SELECT 2'));
+            assert.strictEqual(findStatementAt(script, text.indexOf(';') + 1), undefined);
+        });
+    });
+});
@@ -236,12 +236,11 @@ suite('DqlSemanticTokensProvider Test Suite', () => {
 
         test('type name immediately after FROM (no space)', () => {
             // Edge case: no space between FROM and type name
-            // The regex looks for beforeWord.endsWith('from'), so "FROM" + immediate position
-            // would have beforeWord ending in 'from'
+            // The tokenizer reads FROMdm_document as one identifier, so there is no FROM
+            // keyword and nothing is a type here
             const line = 'SELECT * FROMdm_document';
             const position = line.indexOf('dm_document');
-            // beforeWord would be 'SELECT * FROM' - ends with 'from', so true
-            assert.strictEqual(provider.testIsTypeContext(line, position), true);
+            assert.strictEqual(provider.testIsTypeContext(line, position), false);
         });
 
         test('multiple spaces between keywords', () => {
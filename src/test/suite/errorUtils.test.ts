@@ -1,6 +1,14 @@
 import * as assert from 'assert';
-import { extractBridgeError, BridgeError, BridgeErrorResponse } from '../../errorUtils';
-import { AxiosError, AxiosHeaders } from 'axios';
+import {
+    extractBridgeError,
+    isAuthenticationError,
+    isSessionInvalidError,
+    isCancelledError,
+    BridgeError,
+    BridgeErrorResponse,
+    CancelledError
+} from '../../errorUtils';
+import { AxiosError, AxiosHeaders, CanceledError } from 'axios';
 
 /**
  * Tests for error extraction utility functions.
@@ -315,4 +323,112 @@ suite('Error Utils Test Suite', () => {
             assert.strictEqual(error.details, 'User lacks read permission');
         });
     });
+
+    suite('isAuthenticationError', () => {
+
+        test('returns true for HTTP 401 bridge error', () => {
+            const error = new BridgeError({ status: 401, message: 'Unauthorized' });
+            assert.strictEqual(isAuthenticationError(error), true);
+        });
+
+        test('returns true for authentication error code', () => {
+            const error = new BridgeError({
+                status: 400,
+                code: 'AUTHENTICATION_FAILED',
+                message: 'Authentication failed for user dmadmin'
+            });
+            assert.strictEqual(isAuthenticationError(error), true);
+        });
+
+        test('matches error code case-insensitively', () => {
+            const error = new BridgeError({ status: 500, code: 'dm_session_e_auth_fail', message: 'Login failed' });
+            assert.strictEqual(isAuthenticationError(error), true);
+        });
+
+        test('returns false for other bridge errors', () => {
+            const error = new BridgeError({ status: 404, code: 'E_OBJECT_NOT_FOUND', message: 'Not found' });
+            assert.strictEqual(isAuthenticationError(error), false);
+        });
+
+        test('returns false for authorization and permission codes', () => {
+            for (const code of ['E_NOT_AUTHORIZED', 'AUTHORIZATION_DENIED', 'DM_SYSOBJECT_E_NO_AUTHOR']) {
+                const error = new BridgeError({ status: 403, code, message: 'Permission denied' });
+                assert.strictEqual(isAuthenticationError(error), false, code);
+            }
+        });
+
+        test('returns false for plain errors', () => {
+            assert.strictEqual(isAuthenticationError(new Error('401 Unauthorized')), false);
+        });
+
+        test('returns false for non-error values', () => {
+            assert.strictEqual(isAuthenticationError(undefined), false);
+            assert.strictEqual(isAuthenticationError('AUTH'), false);
+        });
+    });
+
+    suite('isSessionInvalidError', () => {
+
+        test('returns true for SESSION_NOT_FOUND code', () => {
+            const error = new BridgeError({ status: 404, code: 'SESSION_NOT_FOUND', message: 'Session not found' });
+            assert.strictEqual(isSessionInvalidError(error), true);
+        });
+
+        test('returns true for SESSION_EXPIRED code', () => {
+            const error = new BridgeError({ status: 410, code: 'SESSION_EXPIRED', message: 'Gone' });
+            assert.strictEqual(isSessionInvalidError(error), true);
+        });
+
+        test('returns true for message naming the session ID', () => {
+            const error = new BridgeError({ status: 400, message: 'Session 0a1b2c3d not found' });
+            assert.strictEqual(isSessionInvalidError(error), true);
+        });
+
+        test('returns true for invalid session message', () => {
+            const error = new BridgeError({ status: 400, message: 'Invalid session ID supplied' });
+            assert.strictEqual(isSessionInvalidError(error), true);
+        });
+
+        test('returns false for object not found', () => {
+            const error = new BridgeError({
+                status: 404,
+                code: 'E_OBJECT_NOT_FOUND',
+                message: 'Object not found',
+                details: 'Session lookup for 0900000180001234 failed: document not found'
+            });
+            assert.strictEqual(isSessionInvalidError(error), false);
+        });
+
+        test('returns false for authentication errors', () => {
+            const error = new BridgeError({ status: 401, code: 'AUTHENTICATION_FAILED', message: 'Bad password' });
+            assert.strictEqual(isSessionInvalidError(error), false);
+        });
+
+        test('returns false for plain errors', () => {
+            assert.strictEqual(isSessionInvalidError(new Error('Session not found')), false);
+        });
+    });
+
+    suite('Cancellation', () => {
+
+        test('extractBridgeError maps aborted axios requests to CancelledError', () => {
+            const result = extractBridgeError(new CanceledError());
+            assert.ok(result instanceof CancelledError);
+            assert.strictEqual(result.name, 'CancelledError');
+        });
+
+        test('isCancelledError returns true for CancelledError', () => {
+            assert.strictEqual(isCancelledError(new CancelledError()), true);
+        });
+
+        test('isCancelledError returns false for timeouts', () => {
+            const timeout = extractBridgeError(createNetworkAxiosError('ECONNABORTED', 'timeout of 30000ms exceeded'));
+            assert.strictEqual(isCancelledError(timeout), false);
+        });
+
+        test('isCancelledError returns false for other errors', () => {
+            assert.strictEqual(isCancelledError(new Error('Request cancelled')), false);
+            assert.strictEqual(isCancelledError(undefined), false);
+        });
+    });
 });
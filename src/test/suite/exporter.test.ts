@@ -1,5 +1,18 @@
 import * as assert from 'assert';
-import { isDateValue, isDateColumn } from '../../notebook/exporter';
+import {
+    isDateValue,
+    isDateColumn,
+    flattenRepeatingValues,
+    formatCsv,
+    formatTsv,
+    formatMarkdownTable,
+    formatHtmlTable,
+    formatDqlInsert,
+    formatDqlCreateObject,
+    getExportFormats,
+    getExportFormat,
+    toSheetName
+} from '../../notebook/exporter';
 
 suite('Exporter Test Suite', () => {
 
@@ -249,4 +262,117 @@ suite('Exporter Test Suite', () => {
             });
         });
     });
+
+    suite('flattenRepeatingValues', () => {
+        const columns = ['object_name', 'r_version_label', 'keywords'];
+        const rows = [
+            { object_name: 'a.pdf', r_version_label: ['1.0', 'CURRENT'], keywords: ['x'] },
+            { object_name: 'b.pdf', r_version_label: ['1.1'], keywords: [] }
+        ];
+
+        test('joins values with the separator', () => {
+            assert.deepStrictEqual(flattenRepeatingValues(columns, rows, { mode: 'join', separator: ' | ' }), [
+                { object_name: 'a.pdf', r_version_label: '1.0 | CURRENT', keywords: 'x' },
+                { object_name: 'b.pdf', r_version_label: '1.1', keywords: '' }
+            ]);
+        });
+
+        test('writes one row per value, repeating single values', () => {
+            assert.deepStrictEqual(flattenRepeatingValues(columns, rows, { mode: 'rows', separator: ', ' }), [
+                { object_name: 'a.pdf', r_version_label: '1.0', keywords: 'x' },
+                { object_name: 'a.pdf', r_version_label: 'CURRENT', keywords: null },
+                { object_name: 'b.pdf', r_version_label: '1.1', keywords: null }
+            ]);
+        });
+
+        test('leaves rows without repeating values unchanged', () => {
+            const plain = [{ object_name: 'c.pdf', r_version_label: '1.0', keywords: null }];
+            assert.deepStrictEqual(flattenRepeatingValues(columns, plain, { mode: 'rows', separator: ', ' }), plain);
+        });
+    });
+
+    suite('text formats', () => {
+        const columns = ['object_name', 'title'];
+        const rows = [
+            { object_name: 'a,b.txt', title: 'Say "hi"\nthen | go' },
+            { object_name: 'c.txt', title: null }
+        ];
+
+        test('CSV quotes fields per RFC 4180', () => {
+            assert.strictEqual(
+                formatCsv(columns, rows),
+                'object_name,title\r\n"a,b.txt","Say ""hi""\nthen | go"\r\nc.txt,\r\n'
+            );
+        });
+
+        test('TSV replaces tabs and line breaks in values', () => {
+            assert.strictEqual(
+                formatTsv(['a'], [{ a: 'x\ty\r\nz' }]),
+                'a\nx y z\n'
+            );
+        });
+
+        test('Markdown escapes pipes and breaks lines with <br>', () => {
+            assert.strictEqual(
+                formatMarkdownTable(columns, rows),
+                '| object_name | title |\n| --- | --- |\n| a,b.txt | Say "hi"<br>then \\| go |\n| c.txt |  |\n'
+            );
+        });
+
+        test('HTML escapes values', () => {
+            const html = formatHtmlTable(['a'], [{ a: '<b>&' }]);
+
+            assert.ok(html.startsWith('<table>'));
+            assert.ok(html.includes('<td>&lt;b&gt;&amp;</td>'));
+        });
+    });
+
+    suite('DQL script formats', () => {
+        test('writes one INSERT per row, skipping columns that are not names', () => {
+            assert.strictEqual(
+                formatDqlInsert(['name', 'size', 'count(*)'], [{ name: "O'Neil", size: 3, 'count(*)': 1 }], 'dm_dbo.people'),
+                "INSERT INTO dm_dbo.people (name, size) VALUES ('O''Neil', 3)\ngo\n"
+            );
+        });
+
+        test('creates objects with settable attributes and appends repeating values', () => {
+            assert.strictEqual(
+                formatDqlCreateObject(
+                    ['r_object_id', 'object_name', 'title', 'keywords'],
+                    [{ r_object_id: '0900000180000001', object_name: 'a.txt', title: null, keywords: ['x', 'y'] }],
+                    'dm_document'
+                ),
+                "CREATE dm_document OBJECT SET object_name = 'a.txt', APPEND keywords = 'x', APPEND keywords = 'y'\ngo\n"
+            );
+        });
+    });
+
+    suite('export format registry', () => {
+        test('registers the built-in formats', () => {
+            assert.deepStrictEqual(
+                getExportFormats().map(format => format.id),
+                ['excel', 'csv', 'tsv', 'markdown', 'html', 'json', 'dql-insert', 'dql-create']
+            );
+            assert.strictEqual(getExportFormat('markdown')?.extension, 'md');
+            assert.ok(getExportFormat('dql-create')?.needsTypeName);
+        });
+    });
+
+    suite('toSheetName', () => {
+        test('removes characters Excel does not allow and shortens to 31 characters', () => {
+            assert.strictEqual(toSheetName('Docs: [draft] / review?', new Set()), 'Docs draft review');
+            assert.strictEqual(toSheetName('x'.repeat(40), new Set()).length, 31);
+            assert.strictEqual(toSheetName(' :: ', new Set()), 'Sheet');
+        });
+
+        test('numbers names already in use, ignoring case', () => {
+            const used = new Set(['summary']);
+
+            assert.strictEqual(toSheetName('Summary', used), 'Summary (2)');
+            assert.strictEqual(toSheetName('Orphans', used), 'Orphans');
+            assert.strictEqual(toSheetName('orphans', used), 'orphans (2)');
+            assert.strictEqual(toSheetName('y'.repeat(31), used), 'y'.repeat(31));
+            assert.strictEqual(toSheetName('y'.repeat(31), used), 'y'.repeat(27) + ' (2)');
+        });
+    });
 });
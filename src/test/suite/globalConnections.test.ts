@@ -0,0 +1,281 @@
+import * as assert from 'assert';
+
+/**
+ * Tests for multiple simultaneous global connections.
+ *
+ * These tests cover:
+ * - Several live connections at once
+ * - Selecting the active connection
+ * - Active connection fallback when disconnecting
+ * - getConnectionFor() lookup used by tree actions
+ *
+ * Note: These are unit tests that mirror the ConnectionManager logic
+ * with a mock bridge. Full integration tests require a running bridge instance.
+ */
+
+interface DocumentumConnection {
+    name: string;
+    type: 'dfc' | 'rest';
+    repository: string;
+}
+
+interface ActiveConnection {
+    config: DocumentumConnection;
+    sessionId: string;
+    username: string;
+}
+
+type ConnectionChangeEvent = { connected: boolean; name?: string; username?: string };
+
+/**
+ * Simplified ConnectionManager for testing global connection logic.
+ * Mirrors the actual implementation but uses a session counter instead of the bridge.
+ */
+class TestableConnectionManager {
+    private liveConnections: Map<string, ActiveConnection> = new Map();
+    private activeConnectionName: string | null = null;
+    private sessionCounter = 0;
+    public events: ConnectionChangeEvent[] = [];
+    public closedSessions: string[] = [];
+
+    constructor(private savedConnections: DocumentumConnection[]) {}
+
+    private notifyConnectionChange(connected: boolean, name?: string, username?: string): void {
+        this.events.push({ connected, name, username });
+    }
+
+    connect(connectionName: string, username: string): void {
+        const connection = this.savedConnections.find(c => c.name === connectionName);
+        if (!connection) {
+            throw new Error(`Connection "${connectionName}" not found`);
+        }
+
+        if (this.liveConnections.has(connection.name)) {
+            this.setActiveConnection(connection.name);
+            return;
+        }
+
+        this.liveConnections.set(connection.name, {
+            config: connection,
+            sessionId: `session-${++this.sessionCounter}`,
+            username
+        });
+        this.activeConnectionName = connection.name;
+        this.notifyConnectionChange(true, connection.name, username);
+    }
+
+    disconnect(connectionName?: string): void {
+        const name = connectionName ?? this.activeConnectionName;
+        const connection = name ? this.liveConnections.get(name) : undefined;
+        if (!connection) {
+            return;
+        }
+
+        this.closedSessions.push(connection.sessionId);
+        this.liveConnections.delete(connection.config.name);
+
+        if (this.activeConnectionName === connection.config.name) {
+            const next = this.liveConnections.values().next().value as ActiveConnection | undefined;
+            this.activeConnectionName = next ? next.config.name : null;
+            if (next) {
+                this.notifyConnectionChange(true, next.config.name, next.username);
+            } else {
+                this.notifyConnectionChange(false);
+            }
+        } else {
+            const active = this.getActiveConnection();
+            this.notifyConnectionChange(active !== null, active?.config.name, active?.username);
+        }
+    }
+
+    setActiveConnection(connectionName: string): boolean {
+        const connection = this.liveConnections.get(connectionName);
+        if (!connection) {
+            return false;
+        }
+        if (this.activeConnectionName !== connectionName) {
+            this.activeConnectionName = connectionName;
+            this.notifyConnectionChange(true, connection.config.name, connection.username);
+        }
+        return true;
+    }
+
+    getActiveConnection(): ActiveConnection | null {
+        if (!this.activeConnectionName) {
+            return null;
+        }
+        return this.liveConnections.get(this.activeConnectionName) || null;
+    }
+
+    getConnection(connectionName: string): ActiveConnection | null {
+        return this.liveConnections.get(connectionName) || null;
+    }
+
+    getConnectionFor(connectionName?: string): ActiveConnection | null {
+        if (connectionName) {
+            return this.getConnection(connectionName);
+        }
+        return this.getActiveConnection();
+    }
+
+    getLiveConnections(): ActiveConnection[] {
+        return Array.from(this.liveConnections.values());
+    }
+}
+
+suite('Global Connections Test Suite', () => {
+    const testConnections: DocumentumConnection[] = [
+        { name: 'DEV', type: 'dfc', repository: 'dev_repo' },
+        { name: 'UAT', type: 'dfc', repository: 'uat_repo' },
+        { name: 'PROD', type: 'rest', repository: 'prod_repo' }
+    ];
+
+    let manager: TestableConnectionManager;
+
+    setup(() => {
+        manager = new TestableConnectionManager(testConnections);
+    });
+
+    suite('connect()', () => {
+        test('keeps earlier connections live', () => {
+            manager.connect('DEV', 'dmadmin');
+            manager.connect('UAT', 'tester');
+
+            assert.strictEqual(manager.getLiveConnections().length, 2);
+            assert.strictEqual(manager.getConnection('DEV')?.username, 'dmadmin');
+            assert.strictEqual(manager.getConnection('UAT')?.username, 'tester');
+        });
+
+        test('makes the newest connection active', () => {
+            manager.connect('DEV', 'dmadmin');
+            manager.connect('UAT', 'tester');
+
+            assert.strictEqual(manager.getActiveConnection()?.config.name, 'UAT');
+        });
+
+        test('reconnecting a live connection only activates it', () => {
+            manager.connect('DEV', 'dmadmin');
+            manager.connect('UAT', 'tester');
+            const devSession = manager.getConnection('DEV')?.sessionId;
+
+            manager.connect('DEV', 'someone-else');
+
+            assert.strictEqual(manager.getActiveConnection()?.config.name, 'DEV');
+            assert.strictEqual(manager.getActiveConnection()?.sessionId, devSession);
+            assert.strictEqual(manager.getActiveConnection()?.username, 'dmadmin');
+            assert.strictEqual(manager.getLiveConnections().length, 2);
+        });
+    });
+
+    suite('setActiveConnection()', () => {
+        test('switches the active connection and notifies', () => {
+            manager.connect('DEV', 'dmadmin');
+            manager.connect('UAT', 'tester');
+            manager.events = [];
+
+            assert.strictEqual(manager.setActiveConnection('DEV'), true);
+
+            assert.strictEqual(manager.getActiveConnection()?.config.name, 'DEV');
+            assert.deepStrictEqual(manager.events, [{ connected: true, name: 'DEV', username: 'dmadmin' }]);
+        });
+
+        test('does not notify when already active', () => {
+            manager.connect('DEV', 'dmadmin');
+            manager.events = [];
+
+            manager.setActiveConnection('DEV');
+
+            assert.strictEqual(manager.events.length, 0);
+        });
+
+        test('returns false for a connection that is not live', () => {
+            manager.connect('DEV', 'dmadmin');
+
+            assert.strictEqual(manager.setActiveConnection('PROD'), false);
+            assert.strictEqual(manager.getActiveConnection()?.config.name, 'DEV');
+        });
+    });
+
+    suite('disconnect()', () => {
+        test('disconnecting a non-active connection keeps the active one', () => {
+            manager.connect('DEV', 'dmadmin');
+            manager.connect('UAT', 'tester');
+
+            manager.disconnect('DEV');
+
+            assert.strictEqual(manager.getConnection('DEV'), null);
+            assert.strictEqual(manager.getActiveConnection()?.config.name, 'UAT');
+            assert.deepStrictEqual(manager.events[manager.events.length - 1], {
+                connected: true, name: 'UAT', username: 'tester'
+            });
+        });
+
+        test('disconnecting the active connection falls back to another live one', () => {
+            manager.connect('DEV', 'dmadmin');
+            manager.connect('UAT', 'tester');
+
+            manager.disconnect();
+
+            assert.strictEqual(manager.getActiveConnection()?.config.name, 'DEV');
+            assert.strictEqual(manager.getLiveConnections().length, 1);
+        });
+
+        test('disconnecting the last connection notifies disconnected', () => {
+            manager.connect('DEV', 'dmadmin');
+
+            manager.disconnect('DEV');
+
+            assert.strictEqual(manager.getActiveConnection(), null);
+            assert.deepStrictEqual(manager.events[manager.events.length - 1], { connected: false, name: undefined, username: undefined });
+        });
+
+        test('closes only the named session', () => {
+            manager.connect('DEV', 'dmadmin');
+            manager.connect('UAT', 'tester');
+            const uatSession = manager.getConnection('UAT')?.sessionId;
+
+            manager.disconnect('UAT');
+
+            assert.deepStrictEqual(manager.closedSessions, [uatSession]);
+        });
+
+        test('ignores connections that are not live', () => {
+            manager.connect('DEV', 'dmadmin');
+            manager.events = [];
+
+            manager.disconnect('PROD');
+
+            assert.strictEqual(manager.events.length, 0);
+            assert.strictEqual(manager.closedSessions.length, 0);
+        });
+    });
+
+    suite('getConnectionFor()', () => {
+        test('returns the named live connection', () => {
+            manager.connect('DEV', 'dmadmin');
+            manager.connect('UAT', 'tester');
+
+            assert.strictEqual(manager.getConnectionFor('DEV')?.config.name, 'DEV');
+        });
+
+        test('falls back to the active connection when no name is given', () => {
+            manager.connect('DEV', 'dmadmin');
+            manager.connect('UAT', 'tester');
+
+            assert.strictEqual(manager.getConnectionFor()?.config.name, 'UAT');
+        });
+
+        test('returns null for a named connection that is no longer live', () => {
+            manager.connect('DEV', 'dmadmin');
+            manager.connect('UAT', 'tester');
+            manager.disconnect('DEV');
+
+            assert.strictEqual(manager.getConnectionFor('DEV'), null);
+            assert.strictEqual(manager.getConnectionFor('PROD'), null);
+        });
+
+        test('returns null when nothing is connected', () => {
+            assert.strictEqual(manager.getConnectionFor('DEV'), null);
+        });
+    });
+});
@@ -0,0 +1,172 @@
+import * as assert from 'assert';
+import {
+    parseRunnerArgs,
+    resolveParameterValues,
+    runNotebookCells,
+    toRawOutput,
+    parseSettings,
+    HeadlessRunError
+} from '../../notebook/headlessRunner';
+import { CellBackend } from '../../notebook/cellRunner';
+import { RawNotebookData, ERROR_MIME } from '../../notebook/notebookFormat';
+
+/**
+ * Tests for running notebooks outside VS Code: arguments, parameters and cell outputs.
+ */
+suite('Headless Runner Test Suite', () => {
+    suite('parseRunnerArgs()', () => {
+        test('reads notebook, options and credentials', () => {
+            const options = parseRunnerArgs(
+                ['checks.dctmbook', '--connection', 'PROD', '--param', 'since=2024-01-01', '--param', 'q=a=b', '--output', 'out.dctmbook'],
+                { DCTM_USERNAME: 'dmadmin', DCTM_PASSWORD: 'secret' }
+            );
+
+            assert.strictEqual(options?.notebookPath, 'checks.dctmbook');
+            assert.strictEqual(options?.connectionName, 'PROD');
+            assert.strictEqual(options?.outputPath, 'out.dctmbook');
+            assert.deepStrictEqual(options?.parameters, { since: '2024-01-01', q: 'a=b' });
+            assert.strictEqual(options?.username, 'dmadmin');
+            assert.strictEqual(options?.password, 'secret');
+        });
+
+        test('returns undefined for --help', () => {
+            assert.strictEqual(parseRunnerArgs(['--help'], {}), undefined);
+        });
+
+        test('rejects missing notebook, unknown options and bad parameters', () => {
+            assert.throws(() => parseRunnerArgs([], {}), HeadlessRunError);
+            assert.throws(() => parseRunnerArgs(['a.dctmbook', '--verbose', 'x'], {}), /Unknown option/);
+            assert.throws(() => parseRunnerArgs(['a.dctmbook', '--param', 'folder'], {}), /name=value/);
+            assert.throws(() => parseRunnerArgs(['a.dctmbook', '--connection'], {}), /Missing value/);
+        });
+    });
+
+    suite('resolveParameterValues()', () => {
+        const declared = [
+            { name: 'folder', type: 'string' as const, default: '/Temp' },
+            { name: 'limit', type: 'int' as const }
+        ];
+
+        test('fills in defaults', () => {
+            assert.deepStrictEqual(
+                resolveParameterValues(declared, { limit: '10' }),
+                { folder: '/Temp', limit: '10' }
+            );
+        });
+
+        test('rejects missing, invalid and undeclared values', () => {
+            assert.throws(() => resolveParameterValues(declared, {}), /No value for parameter "limit"/);
+            assert.throws(() => resolveParameterValues(declared, { limit: 'ten' }), /Invalid value/);
+            assert.throws(() => resolveParameterValues(declared, { limit: '1', owner: 'x' }), /does not declare/);
+        });
+    });
+
+    suite('runNotebookCells()', () => {
+        const backend: CellBackend = {
+            executeDql: async query => {
+                if (query.includes('bad')) {
+                    throw new Error('bad query');
+                }
+                return { columns: ['q'], rows: [{ q: query }], rowCount: 1, executionTime: 3, query };
+            },
+            executeDmApi: async () => ({ result: 'ok', resultType: 'String', executionTimeMs: 1 }),
+            executeApi: async () => ({ result: 'ok', resultType: 'String', executionTimeMs: 1 })
+        };
+
+        function createNotebook(): RawNotebookData {
+            return {
+                version: 1,
+                cells: [
+                    { kind: 'markdown', language: 'markdown', content: '# Checks' },
+                    { kind: 'code', language: 'dql', content: '-- @name docs\nSELECT 1 FROM dm_folder WHERE FOLDER(${folder})' },
+                    { kind: 'code', language: 'dql', content: 'SELECT ${docs.q} bad' },
+                    { kind: 'code', language: 'dmapi', content: 'dmAPIGet("getservermap,session")' }
+                ],
+                metadata: { parameters: [{ name: 'folder', type: 'string' }] }
+            };
+        }
+
+        test('runs every code cell and keeps going after a failure', async () => {
+            const notebook = createNotebook();
+            const results = await runNotebookCells(notebook, backend, { folder: '/Temp' }, 'file:///checks.dctmbook');
+
+            assert.deepStrictEqual(results.map(r => [r.index, r.status]), [[1, 'success'], [2, 'failed'], [3, 'success']]);
+            assert.strictEqual(results[1].error, 'DQL Error: bad query');
+            assert.strictEqual(notebook.cells[0].outputs, undefined);
+        });
+
+        test('writes outputs with parameters and variables substituted', async () => {
+            const notebook = createNotebook();
+            await runNotebookCells(notebook, backend, { folder: '/Temp' }, 'file:///checks.dctmbook');
+
+            const output = notebook.cells[1].outputs![0];
+            const items = output.items;
+            assert.strictEqual(items[0].mime, 'application/x-dctm-result');
+            assert.strictEqual(JSON.parse(items[0].data).resultId, output.metadata?.resultId);
+            assert.ok(output.metadata?.resultId);
+            assert.deepStrictEqual(JSON.parse(items[0].data).rows, [{ q: "SELECT 1 FROM dm_folder WHERE FOLDER('/Temp')" }]);
+            assert.strictEqual(items[1].data, '1 row(s) returned in 3ms - stored as docs');
+            assert.strictEqual(notebook.cells[2].outputs![0].items[0].mime, ERROR_MIME);
+        });
+
+        test('records the connection in the metadata of DQL results', async () => {
+            const notebook = createNotebook();
+            const connection = { name: 'DEV', type: 'rest' as const, repository: 'devrepo' };
+            await runNotebookCells(notebook, backend, { folder: '/Temp' }, 'file:///checks.dctmbook', connection);
+
+            assert.strictEqual(notebook.cells[1].outputs![0].metadata?.connection, 'DEV');
+            assert.strictEqual(notebook.cells[1].outputs![0].metadata?.repository, 'devrepo');
+        });
+
+        test('skips the remaining cells after a failure when stopOnError is set', async () => {
+            const notebook = createNotebook();
+            notebook.metadata!.stopOnError = true;
+            const results = await runNotebookCells(notebook, backend, { folder: '/Temp' }, 'file:///checks.dctmbook');
+
+            assert.deepStrictEqual(results.map(r => r.status), ['success', 'failed', 'skipped']);
+            assert.strictEqual(notebook.cells[3].outputs![0].items[0].data, 'Skipped: cell 3 failed.');
+        });
+    });
+
+    suite('parseSettings()', () => {
+        test('reads settings with comments and trailing commas', () => {
+            const settings = parseSettings([
+                '{',
+                '    // Local bridge',
+                '    "documentum.bridge.port": 9877,',
+                '    /* Repositories */',
+                '    "documentum.connections": [{ "name": "DEV", "repository": "devrepo", },],',
+                '}'
+            ].join('\n'));
+
+            assert.strictEqual(settings['documentum.bridge.port'], 9877);
+            assert.deepStrictEqual(settings['documentum.connections'], [{ name: 'DEV', repository: 'devrepo' }]);
+        });
+
+        test('rejects text that is not an object of settings', () => {
+            assert.throws(() => parseSettings('{ "documentum.bridge.port": }'), /ValueExpected/);
+            assert.throws(() => parseSettings('[]'), /Expected an object of settings/);
+        });
+    });
+
+    suite('toRawOutput()', () => {
+        test('stores errors and JSON as text', () => {
+            const output = toRawOutput([
+                { mime: ERROR_MIME, data: { name: 'Error', message: 'failed' } },
+                { mime: 'text/plain', data: 'done' }
+            ]);
+
+            assert.deepStrictEqual(JSON.parse(output.items[0].data), { name: 'Error', message: 'failed' });
+            assert.strictEqual(output.items[0].encoding, undefined);
+            assert.strictEqual(output.items[1].data, 'done');
+        });
+
+        test('leaves out the paging cursor of a partial result', () => {
+            const output = toRawOutput([
+                { mime: 'application/x-dctm-result', data: { columns: ['a'], rows: [{ a: 1 }], hasMore: true, cursor: '500' } }
+            ]);
+
+            assert.deepStrictEqual(JSON.parse(output.items[0].data), { columns: ['a'], rows: [{ a: 1 }], hasMore: true });
+        });
+    });
+});
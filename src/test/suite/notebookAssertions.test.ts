@@ -0,0 +1,143 @@
+import * as assert from 'assert';
+import {
+    parseAssertions,
+    evaluateAssertions,
+    formatAssertionMarkdown,
+    formatAssertionText,
+    MAX_REPORTED_ROWS
+} from '../../notebook/notebookAssertions';
+import { NotebookCellRunner, CellBackend } from '../../notebook/cellRunner';
+import { NotebookVariables, PreviousResult } from '../../notebook/notebookVariables';
+
+/**
+ * Tests for assertion cells: parsing `expect` lines and checking them against the previous DQL result.
+ */
+suite('Notebook Assertions Test Suite', () => {
+    const result: PreviousResult = {
+        columns: ['r_object_id', 'owner_name', 'keywords'],
+        rows: [
+            { r_object_id: '0900000180000001', owner_name: 'dmadmin', keywords: ['a', 'b'] },
+            { r_object_id: '0900000180000002', owner_name: 'jsmith', keywords: [] },
+            { r_object_id: '', owner_name: 'dmadmin', keywords: ['b'] }
+        ],
+        hasMore: false
+    };
+
+    suite('parseAssertions()', () => {
+        test('parses every assertion form', () => {
+            const assertions = parseAssertions([
+                '-- migration checks',
+                'expect rowCount == 0',
+                'expect row_count <> 3',
+                "expect column owner_name all in ('dmadmin', 'O''Brien', 12, NULL)",
+                "expect r_object_type none in ('dm_sysobject')",
+                'expect r_object_id not null',
+                'expect object_name is unique',
+                ''
+            ].join('\n'));
+
+            assert.deepStrictEqual(assertions.map(a => a.kind), ['rowCount', 'rowCount', 'in', 'in', 'notNull', 'unique']);
+            assert.deepStrictEqual(assertions[1], { text: 'expect row_count <> 3', kind: 'rowCount', operator: '!=', value: 3 });
+            assert.deepStrictEqual(assertions[2].kind === 'in' && assertions[2].values, ['dmadmin', "O'Brien", 12, null]);
+            assert.strictEqual(assertions[3].kind === 'in' && assertions[3].negated, true);
+        });
+
+        test('rejects lines that are not assertions', () => {
+            assert.throws(() => parseAssertions('expect rowCount == 0\nrowCount is 0'), /Line 2: not an assertion/);
+            assert.throws(() => parseAssertions("expect owner_name all in ('a' 'b')"), /invalid value list/);
+            assert.throws(() => parseAssertions('-- nothing here'), /No assertions found/);
+        });
+    });
+
+    suite('evaluateAssertions()', () => {
+        test('compares the row count', () => {
+            const [equal, greater] = evaluateAssertions(parseAssertions('expect rowCount == 3\nexpect rowCount > 3'), result);
+
+            assert.strictEqual(equal.passed, true);
+            assert.strictEqual(greater.passed, false);
+            assert.strictEqual(greater.message, 'rowCount is 3');
+        });
+
+        test('reports the offending rows of column checks', () => {
+            const [allIn, noneIn, notNull] = evaluateAssertions(parseAssertions([
+                "expect owner_name all in ('dmadmin')",
+                "expect keywords none in ('a')",
+                'expect r_object_id not null'
+            ].join('\n')), result);
+
+            assert.deepStrictEqual(allIn.offendingRows, [result.rows[1]]);
+            assert.strictEqual(allIn.message, '1 of 3 row(s) fail');
+            assert.deepStrictEqual(noneIn.offendingRows, [result.rows[0]]);
+            assert.deepStrictEqual(notNull.offendingRows, [result.rows[2]]);
+        });
+
+        test('finds duplicate values', () => {
+            const [unique] = evaluateAssertions(parseAssertions('expect owner_name unique'), result);
+
+            assert.deepStrictEqual(unique.offendingRows, [result.rows[0], result.rows[2]]);
+        });
+
+        test('fails on unknown columns and partially loaded results', () => {
+            const [unknown] = evaluateAssertions(parseAssertions('expect title not null'), result);
+            assert.match(unknown.message, /Column title is not in the result/);
+
+            const paged = { ...result, hasMore: true, cursor: 'c1', totalCount: 10 };
+            const [rowCount, column] = evaluateAssertions(parseAssertions('expect rowCount == 10\nexpect owner_name not null'), paged);
+            assert.strictEqual(rowCount.passed, true);
+            assert.strictEqual(column.passed, false);
+            assert.match(column.message, /load all rows/);
+        });
+    });
+
+    suite('reports', () => {
+        test('list each assertion with a table of offending rows', () => {
+            const results = evaluateAssertions(parseAssertions("expect rowCount == 3\nexpect owner_name all in ('dmadmin')"), result);
+
+            assert.strictEqual(
+                formatAssertionText(results),
+                "PASS expect rowCount == 3 - rowCount is 3\nFAIL expect owner_name all in ('dmadmin') - 1 of 3 row(s) fail"
+            );
+            const markdown = formatAssertionMarkdown(results, result.columns);
+            assert.ok(markdown.startsWith('**1 of 2 assertion(s) failed**'));
+            assert.ok(markdown.includes('| r\\_object\\_id | owner\\_name | keywords |'));
+            assert.ok(markdown.includes('| 0900000180000002 | jsmith |  |'));
+        });
+
+        test('limit the offending rows shown', () => {
+            const rows = Array.from({ length: MAX_REPORTED_ROWS + 5 }, (_, i) => ({ id: i, owner_name: null }));
+            const results = evaluateAssertions(parseAssertions('expect owner_name not null'), { columns: ['id', 'owner_name'], rows, hasMore: false });
+
+            assert.ok(formatAssertionMarkdown(results, ['id', 'owner_name']).includes('...and 5 more row(s)'));
+        });
+    });
+
+    suite('assertion cells', () => {
+        const backend: CellBackend = {
+            executeDql: async query => ({ columns: result.columns, rows: result.rows, rowCount: 3, executionTime: 1, query }),
+            executeDmApi: async () => ({ result: 'ok', resultType: 'String', executionTimeMs: 1 }),
+            executeApi: async () => ({ result: 'ok', resultType: 'String', executionTimeMs: 1 })
+        };
+        const notebookUri = 'file:///checks.dctmbook';
+
+        test('check the previous DQL result', async () => {
+            const runner = new NotebookCellRunner(new NotebookVariables());
+            await runner.run('dql', 'SELECT r_object_id, owner_name FROM dm_document', { notebookUri, backend });
+
+            const passed = await runner.run('dqlassert', 'expect rowCount == 3', { notebookUri, backend });
+            const failed = await runner.run('dqlassert', "expect owner_name all in ('dmadmin')", { notebookUri, backend });
+
+            assert.strictEqual(passed.status, 'success');
+            assert.strictEqual(failed.status, 'failed');
+            assert.strictEqual(failed.error, '1 of 1 assertion(s) failed');
+            assert.deepStrictEqual(failed.items.map(i => i.mime), ['text/markdown', 'text/plain']);
+        });
+
+        test('fail without a previous DQL result', async () => {
+            const runner = new NotebookCellRunner(new NotebookVariables());
+            const outcome = await runner.run('dqlassert', 'expect rowCount == 0', { notebookUri, backend });
+
+            assert.strictEqual(outcome.status, 'failed');
+            assert.match(outcome.error!, /^Assertion Error: No DQL result to check/);
+        });
+    });
+});
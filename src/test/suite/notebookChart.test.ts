@@ -0,0 +1,109 @@
+import * as assert from 'assert';
+import {
+    getChartSettings,
+    suggestChartSettings,
+    buildChartPoints,
+    niceTicks,
+    renderChartSvg
+} from '../../notebook/notebookChart';
+
+/**
+ * Tests for the chart view of DQL results.
+ */
+suite('Notebook Chart Test Suite', () => {
+    const style = { width: 400, height: 300, foreground: '#333333', grid: '#cccccc' };
+
+    suite('getChartSettings()', () => {
+        test('reads the chart cell metadata', () => {
+            assert.deepStrictEqual(
+                getChartSettings({ outputFormat: 'html', chart: { type: 'pie', category: 'r_object_type', value: 'cnt' } }),
+                { type: 'pie', category: 'r_object_type', value: 'cnt' }
+            );
+        });
+
+        test('ignores missing and malformed settings', () => {
+            assert.strictEqual(getChartSettings(undefined), undefined);
+            assert.strictEqual(getChartSettings({ chart: { type: 'radar', category: 'a' } }), undefined);
+            assert.strictEqual(getChartSettings({ chart: { type: 'bar' } }), undefined);
+            assert.strictEqual(getChartSettings({ chart: 'bar' }), undefined);
+        });
+    });
+
+    suite('suggestChartSettings()', () => {
+        test('uses the first text column as categories and the first numeric column as values', () => {
+            const rows = [{ cnt: 3, r_object_type: 'dm_document', size: '10' }];
+
+            assert.deepStrictEqual(
+                suggestChartSettings(['cnt', 'r_object_type', 'size'], rows),
+                { type: 'bar', category: 'r_object_type', value: 'cnt' }
+            );
+        });
+
+        test('suggests a time series for date categories', () => {
+            const rows = [{ day: '2024-01-02 00:00:00', cnt: 1 }, { day: '2024-01-01', cnt: 2 }];
+
+            assert.strictEqual(suggestChartSettings(['day', 'cnt'], rows)?.type, 'timeseries');
+        });
+    });
+
+    suite('buildChartPoints()', () => {
+        const rows = [
+            { owner: 'dmadmin', size: 10 },
+            { owner: 'jdoe', size: '5' },
+            { owner: 'dmadmin', size: 7 },
+            { owner: null, size: 'n/a' },
+            { owner: null, size: 1 }
+        ];
+
+        test('sums values per category in order of first appearance', () => {
+            assert.deepStrictEqual(
+                buildChartPoints(rows, { type: 'bar', category: 'owner', value: 'size' }),
+                [{ label: 'dmadmin', value: 17 }, { label: 'jdoe', value: 5 }, { label: '(null)', value: 1 }]
+            );
+        });
+
+        test('counts rows when no value column is chosen', () => {
+            assert.deepStrictEqual(
+                buildChartPoints(rows, { type: 'pie', category: 'owner' }).map(p => p.value),
+                [2, 1, 2]
+            );
+        });
+
+        test('orders time series by time and drops non-date categories', () => {
+            const points = buildChartPoints(
+                [{ day: '2024-02-01', n: 1 }, { day: 'unknown', n: 1 }, { day: '2024-01-01', n: 4 }],
+                { type: 'timeseries', category: 'day', value: 'n' }
+            );
+
+            assert.deepStrictEqual(points.map(p => [p.label, p.value]), [['2024-01-01', 4], ['2024-02-01', 1]]);
+        });
+    });
+
+    suite('niceTicks()', () => {
+        test('steps by 1, 2 or 5 times a power of ten', () => {
+            assert.deepStrictEqual(niceTicks(0, 17), [0, 5, 10, 15, 20]);
+            assert.deepStrictEqual(niceTicks(0, 0.9), [0, 0.2, 0.4, 0.6, 0.8, 1]);
+            assert.deepStrictEqual(niceTicks(3, 3), [3, 3.2, 3.4, 3.6, 3.8, 4]);
+        });
+    });
+
+    suite('renderChartSvg()', () => {
+        test('draws one bar per point and escapes labels', () => {
+            const svg = renderChartSvg(
+                [{ label: 'a<b', value: 2 }, { label: 'c', value: 1 }],
+                { type: 'bar', category: 'x', value: 'y' },
+                style
+            );
+
+            assert.ok(svg.startsWith('<svg'));
+            assert.strictEqual((svg.match(/<rect /g) ?? []).length, 2);
+            assert.ok(svg.includes('a&lt;b'));
+        });
+
+        test('shows a note when there is nothing to chart', () => {
+            const svg = renderChartSvg([], { type: 'pie', category: 'x' }, { ...style, background: '#ffffff' });
+
+            assert.ok(svg.includes('No data to chart'));
+        });
+    });
+});
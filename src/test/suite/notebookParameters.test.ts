@@ -0,0 +1,152 @@
+import * as assert from 'assert';
+import {
+    getNotebookParameters,
+    validateParameterValue,
+    formatParameterValue
+} from '../../notebook/notebookParameters';
+import { NotebookVariables } from '../../notebook/notebookVariables';
+
+/**
+ * Tests for parameterised notebooks: declarations, validation and safe substitution.
+ */
+suite('Notebook Parameters Test Suite', () => {
+    suite('getNotebookParameters()', () => {
+        test('reads declarations from notebook metadata', () => {
+            const parameters = getNotebookParameters({
+                connection: 'DEV',
+                parameters: [
+                    { name: 'folder', type: 'string', default: '/Temp' },
+                    { name: 'limit', type: 'int', default: 10, description: 'Max rows' }
+                ]
+            });
+
+            assert.deepStrictEqual(parameters, [
+                { name: 'folder', type: 'string', default: '/Temp', description: undefined },
+                { name: 'limit', type: 'int', default: 10, description: 'Max rows' }
+            ]);
+        });
+
+        test('returns nothing without declarations', () => {
+            assert.deepStrictEqual(getNotebookParameters(undefined), []);
+            assert.deepStrictEqual(getNotebookParameters({ parameters: 'folder' }), []);
+        });
+
+        test('skips invalid and duplicate names', () => {
+            const parameters = getNotebookParameters({
+                parameters: [{ name: 'my folder' }, { type: 'int' }, { name: 'a' }, { name: 'a', type: 'int' }, null]
+            });
+
+            assert.deepStrictEqual(parameters.map(p => p.name), ['a']);
+        });
+
+        test('treats unknown types as string', () => {
+            const [parameter] = getNotebookParameters({ parameters: [{ name: 'x', type: 'float' }] });
+            assert.strictEqual(parameter.type, 'string');
+        });
+    });
+
+    suite('validateParameterValue()', () => {
+        test('int', () => {
+            assert.strictEqual(validateParameterValue('int', '-42'), undefined);
+            assert.ok(validateParameterValue('int', '4.2'));
+            assert.ok(validateParameterValue('int', '1 OR 1=1'));
+        });
+
+        test('date', () => {
+            assert.strictEqual(validateParameterValue('date', '2024-01-31'), undefined);
+            assert.strictEqual(validateParameterValue('date', '2024-01-31 13:45'), undefined);
+            assert.strictEqual(validateParameterValue('date', 'today'), undefined);
+            assert.ok(validateParameterValue('date', '31/01/2024'));
+        });
+
+        test('id', () => {
+            assert.strictEqual(validateParameterValue('id', '0900000180000001'), undefined);
+            assert.ok(validateParameterValue('id', '09000001'));
+        });
+
+        test('type', () => {
+            assert.strictEqual(validateParameterValue('type', 'dm_document'), undefined);
+            assert.ok(validateParameterValue('type', 'dm_document; DELETE'));
+        });
+
+        test('user and string', () => {
+            assert.ok(validateParameterValue('user', '  '));
+            assert.strictEqual(validateParameterValue('string', ''), undefined);
+            assert.ok(validateParameterValue('string', 'a\nb'));
+        });
+    });
+
+    suite('formatParameterValue()', () => {
+        test('quotes strings, users and IDs for DQL', () => {
+            assert.strictEqual(formatParameterValue({ name: 'f', type: 'string' }, "/Temp/O'Brien", 'dql'), "'/Temp/O''Brien'");
+            assert.strictEqual(formatParameterValue({ name: 'u', type: 'user' }, 'dmadmin', 'dql'), "'dmadmin'");
+            assert.strictEqual(formatParameterValue({ name: 'i', type: 'id' }, '0900000180000001', 'dql'), "'0900000180000001'");
+        });
+
+        test('writes ints and type names as-is for DQL', () => {
+            assert.strictEqual(formatParameterValue({ name: 'n', type: 'int' }, ' 25 ', 'dql'), '25');
+            assert.strictEqual(formatParameterValue({ name: 't', type: 'type' }, 'dm_document', 'dql'), 'dm_document');
+        });
+
+        test('writes dates as DATE() expressions', () => {
+            assert.strictEqual(formatParameterValue({ name: 'd', type: 'date' }, '2024-01-31', 'dql'), "DATE('2024-01-31','yyyy-mm-dd')");
+            assert.strictEqual(
+                formatParameterValue({ name: 'd', type: 'date' }, '2024-01-31 13:45', 'dql'),
+                "DATE('2024-01-31 13:45:00','yyyy-mm-dd hh:mi:ss')"
+            );
+            assert.strictEqual(formatParameterValue({ name: 'd', type: 'date' }, 'today', 'dql'), 'DATE(TODAY)');
+        });
+
+        test('writes raw values for dmAPI', () => {
+            assert.strictEqual(formatParameterValue({ name: 'i', type: 'id' }, '0900000180000001', 'dmapi'), '0900000180000001');
+        });
+
+        test('rejects commas in dmAPI values', () => {
+            assert.throws(() => formatParameterValue({ name: 'f', type: 'string' }, 'a,b', 'dmapi'), /cannot contain a comma/);
+        });
+
+        test('rejects invalid values', () => {
+            assert.throws(() => formatParameterValue({ name: 'n', type: 'int' }, 'abc', 'dql'), /Invalid value for parameter "n"/);
+        });
+    });
+
+    suite('interpolation', () => {
+        const notebook = 'file:///work/runbook.dctmbook';
+        const declared = getNotebookParameters({
+            parameters: [
+                { name: 'folder', type: 'string', default: '/Temp' },
+                { name: 'since', type: 'date' }
+            ]
+        });
+
+        test('substitutes entered values', () => {
+            const variables = new NotebookVariables();
+            variables.setParameters(notebook, declared, { folder: '/Finance', since: '2024-06-01' });
+
+            const dql = variables.interpolate(
+                notebook,
+                'SELECT * FROM dm_document WHERE FOLDER(${folder}) AND r_modify_date > ${since}',
+                'dql'
+            );
+            assert.strictEqual(
+                dql,
+                "SELECT * FROM dm_document WHERE FOLDER('/Finance') AND r_modify_date > DATE('2024-06-01','yyyy-mm-dd')"
+            );
+        });
+
+        test('falls back to the declared default', () => {
+            const variables = new NotebookVariables();
+            variables.setParameters(notebook, declared, {});
+
+            assert.strictEqual(variables.interpolate(notebook, 'FOLDER(${folder})', 'dql'), "FOLDER('/Temp')");
+            assert.throws(() => variables.interpolate(notebook, '${since}', 'dql'), /No value for parameter "since"/);
+        });
+
+        test('does not re-interpolate substituted values', () => {
+            const variables = new NotebookVariables();
+            variables.setParameters(notebook, declared, { folder: '${since}' });
+
+            assert.strictEqual(variables.interpolate(notebook, '${folder}', 'dql'), "'${since}'");
+        });
+    });
+});
@@ -0,0 +1,91 @@
+import * as assert from 'assert';
+import { renderHtmlReport, renderMarkdownReport } from '../../notebook/notebookReport';
+import { RawNotebookData, ERROR_MIME } from '../../notebook/notebookFormat';
+
+/**
+ * Tests for HTML and Markdown reports of a notebook and its stored outputs.
+ */
+suite('Notebook Report Test Suite', () => {
+    const generatedAt = new Date('2026-03-01T09:30:00Z');
+
+    function createNotebook(): RawNotebookData {
+        return {
+            version: 1,
+            metadata: { connection: 'DEV', repository: 'devrepo' },
+            cells: [
+                { kind: 'markdown', language: 'markdown', content: '# Orphans' },
+                {
+                    kind: 'code',
+                    language: 'dql',
+                    content: 'SELECT object_name, keywords FROM dm_document',
+                    outputs: [{
+                        items: [
+                            {
+                                mime: 'application/x-dctm-result',
+                                data: JSON.stringify({ columns: ['object_name', 'keywords'], rows: [{ object_name: 'a|b<c>', keywords: ['x', 'y'] }] })
+                            },
+                            { mime: 'text/plain', data: '1 row(s) returned in 5ms' }
+                        ]
+                    }]
+                },
+                {
+                    kind: 'code',
+                    language: 'dmapi',
+                    content: 'dmAPIGet("getservermap,session")',
+                    outputs: [{ items: [{ mime: ERROR_MIME, data: JSON.stringify({ name: 'Error', message: 'Bad session' }) }] }]
+                },
+                {
+                    kind: 'code',
+                    language: 'dql',
+                    content: 'SELECT 1',
+                    outputs: [{ items: [{ mime: 'image/png', data: 'iVBORw0KGgo=', encoding: 'base64' }] }]
+                }
+            ]
+        };
+    }
+
+    suite('renderHtmlReport()', () => {
+        test('renders markdown, sources and result tables in one page', () => {
+            const html = renderHtmlReport(createNotebook(), {
+                title: 'audit',
+                generatedAt,
+                renderMarkdown: markdown => markdown === '# Orphans' ? '<h1>Orphans</h1>' : undefined
+            });
+
+            assert.ok(html.startsWith('<!DOCTYPE html>'));
+            assert.ok(html.includes('<h1>Orphans</h1>'));
+            assert.ok(html.includes('Connection: DEV · Repository: devrepo · Exported 2026-03-01 09:30:00 UTC'));
+            assert.ok(html.includes('<code>SELECT object_name, keywords FROM dm_document</code>'));
+            assert.ok(html.includes('<td>a|b&lt;c&gt;</td><td>x, y</td>'));
+            assert.ok(html.includes('<div class="error">Bad session</div>'));
+            assert.ok(html.includes('<img src="data:image/png;base64,iVBORw0KGgo="'));
+        });
+
+        test('shows markdown as text when it cannot be rendered', () => {
+            const html = renderHtmlReport(createNotebook(), { title: 'audit', generatedAt });
+
+            assert.ok(html.includes('<pre># Orphans</pre>'));
+        });
+    });
+
+    suite('renderMarkdownReport()', () => {
+        test('writes cells as fenced blocks and results as tables', () => {
+            const markdown = renderMarkdownReport(createNotebook(), { title: 'audit', generatedAt, separator: '; ' });
+
+            assert.ok(markdown.startsWith('# audit\n\n*Connection: DEV'));
+            assert.ok(markdown.includes('# Orphans\n\n**DQL · Cell 2**\n\n```sql\nSELECT object_name, keywords FROM dm_document\n```'));
+            assert.ok(markdown.includes('*1 row(s) returned in 5ms*\n\n| object_name | keywords |\n| --- | --- |\n| a\\|b&lt;c> | x; y |'));
+            assert.ok(markdown.includes('> **Error:** Bad session'));
+            assert.ok(markdown.includes('![Chart](data:image/png;base64,iVBORw0KGgo=)'));
+        });
+
+        test('uses a longer fence when the source contains backticks', () => {
+            const notebook: RawNotebookData = {
+                version: 1,
+                cells: [{ kind: 'code', language: 'dmapi', content: 'echo ```' }]
+            };
+
+            assert.ok(renderMarkdownReport(notebook, { title: 't', generatedAt }).includes('````\necho ```\n````'));
+        });
+    });
+});
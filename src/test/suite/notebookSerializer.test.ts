@@ -278,6 +278,43 @@ suite('NotebookSerializer Test Suite', () => {
             assert.deepStrictEqual(restored.metadata, { connection: 'test-conn' });
         });
 
+        test('parameter declarations roundtrip in notebook metadata', async () => {
+            const originalData = new vscode.NotebookData([]);
+            originalData.metadata = {
+                connection: 'test-conn',
+                parameters: [
+                    { name: 'folder', type: 'string', default: '/Temp' },
+                    { name: 'owner', type: 'user' }
+                ]
+            };
+
+            const serialized = await serializer.serializeNotebook(originalData, cancellationToken);
+            const restored = await serializer.deserializeNotebook(serialized, cancellationToken);
+
+            assert.deepStrictEqual(restored.metadata, originalData.metadata);
+        });
+
+        test('cell outputs roundtrip', async () => {
+            const cell = new vscode.NotebookCellData(vscode.NotebookCellKind.Code, 'SELECT 1', 'dql');
+            cell.outputs = [
+                new vscode.NotebookCellOutput([
+                    vscode.NotebookCellOutputItem.json({ rowCount: 1 }, 'application/x-dctm-result'),
+                    vscode.NotebookCellOutputItem.text('1 row(s) returned in 5ms', 'text/plain'),
+                    new vscode.NotebookCellOutputItem(new Uint8Array([0, 255, 7]), 'image/png')
+                ])
+            ];
+            const originalData = new vscode.NotebookData([cell]);
+
+            const serialized = await serializer.serializeNotebook(originalData, cancellationToken);
+            const restored = await serializer.deserializeNotebook(serialized, cancellationToken);
+
+            const items = restored.cells[0].outputs![0].items;
+            assert.deepStrictEqual(items.map(i => i.mime), ['application/x-dctm-result', 'text/plain', 'image/png']);
+            assert.deepStrictEqual(JSON.parse(new TextDecoder().decode(items[0].data)), { rowCount: 1 });
+            assert.strictEqual(new TextDecoder().decode(items[1].data), '1 row(s) returned in 5ms');
+            assert.deepStrictEqual(Array.from(items[2].data), [0, 255, 7]);
+        });
+
         test('empty cells array roundtrips correctly', async () => {
             const originalData = new vscode.NotebookData([]);
 
@@ -0,0 +1,161 @@
+import * as assert from 'assert';
+import {
+    NotebookVariables,
+    parseResultName,
+    formatDqlValue,
+    API_RESULT_COLUMN
+} from '../../notebook/notebookVariables';
+
+/**
+ * Tests for notebook variables: named cell results referenced from later cells.
+ */
+suite('Notebook Variables Test Suite', () => {
+    const notebook = 'file:///work/report.dctmbook';
+
+    suite('parseResultName()', () => {
+        test('reads the @name directive', () => {
+            const source = '-- @name docs\nSELECT r_object_id FROM dm_document';
+            assert.strictEqual(parseResultName(source), 'docs');
+        });
+
+        test('allows the directive after other lines', () => {
+            const source = 'SELECT r_object_id\n  --  @name   my_docs  \nFROM dm_document';
+            assert.strictEqual(parseResultName(source), 'my_docs');
+        });
+
+        test('falls back to resultName metadata', () => {
+            assert.strictEqual(parseResultName('SELECT 1 FROM dm_server_config', { resultName: 'cfg' }), 'cfg');
+        });
+
+        test('directive takes precedence over metadata', () => {
+            assert.strictEqual(parseResultName('-- @name a\nSELECT 1', { resultName: 'b' }), 'a');
+        });
+
+        test('ignores invalid names', () => {
+            assert.strictEqual(parseResultName('-- @name 1docs\nSELECT 1'), undefined);
+            assert.strictEqual(parseResultName('SELECT 1', { resultName: 'bad name' }), undefined);
+            assert.strictEqual(parseResultName('SELECT 1'), undefined);
+        });
+    });
+
+    suite('formatDqlValue()', () => {
+        test('quotes strings and doubles embedded quotes', () => {
+            assert.strictEqual(formatDqlValue("O'Brien"), "'O''Brien'");
+        });
+
+        test('writes numbers, booleans and null as literals', () => {
+            assert.strictEqual(formatDqlValue(42), '42');
+            assert.strictEqual(formatDqlValue(true), 'TRUE');
+            assert.strictEqual(formatDqlValue(null), 'NULL');
+            assert.strictEqual(formatDqlValue(undefined), 'NULL');
+        });
+    });
+
+    suite('interpolate()', () => {
+        let variables: NotebookVariables;
+
+        setup(() => {
+            variables = new NotebookVariables();
+            variables.set(notebook, {
+                name: 'docs',
+                columns: ['r_object_id', 'object_name'],
+                rows: [
+                    { r_object_id: '0900000180000001', object_name: "Smith's report" },
+                    { r_object_id: '0900000180000002', object_name: 'Budget' }
+                ]
+            });
+        });
+
+        test('substitutes a single value', () => {
+            const dql = variables.interpolate(
+                notebook,
+                'SELECT * FROM dm_document WHERE r_object_id = ${docs[0].r_object_id}',
+                'dql'
+            );
+            assert.strictEqual(dql, "SELECT * FROM dm_document WHERE r_object_id = '0900000180000001'");
+        });
+
+        test('substitutes a column as an IN-list', () => {
+            const dql = variables.interpolate(notebook, 'WHERE r_object_id IN (${docs.r_object_id})', 'dql');
+            assert.strictEqual(dql, "WHERE r_object_id IN ('0900000180000001','0900000180000002')");
+        });
+
+        test('escapes quotes in values', () => {
+            const dql = variables.interpolate(notebook, 'WHERE object_name = ${docs[0].object_name}', 'dql');
+            assert.strictEqual(dql, "WHERE object_name = 'Smith''s report'");
+        });
+
+        test('flattens repeating values', () => {
+            variables.set(notebook, { name: 'grp', columns: ['users_names'], rows: [{ users_names: ['alice', 'bob'] }] });
+            const dql = variables.interpolate(notebook, 'IN (${grp.users_names})', 'dql');
+            assert.strictEqual(dql, "IN ('alice','bob')");
+        });
+
+        test('writes an empty column as NULL', () => {
+            variables.set(notebook, { name: 'none', columns: ['r_object_id'], rows: [] });
+            assert.strictEqual(variables.interpolate(notebook, 'IN (${none.r_object_id})', 'dql'), 'IN (NULL)');
+        });
+
+        test('leaves escaped references untouched', () => {
+            assert.strictEqual(variables.interpolate(notebook, 'SELECT \'\\${docs}\'', 'dql'), 'SELECT \'${docs}\'');
+        });
+
+        test('writes raw values for dmAPI', () => {
+            const api = variables.interpolate(notebook, 'dmAPIGet("dump,c,${docs[1].r_object_id}")', 'dmapi');
+            assert.strictEqual(api, 'dmAPIGet("dump,c,0900000180000002")');
+        });
+
+        test('rejects dmAPI values with commas or line breaks', () => {
+            variables.set(notebook, { name: 'odd', columns: ['object_name'], rows: [{ object_name: 'a,b' }, { object_name: 'c\nd' }] });
+
+            assert.throws(() => variables.interpolate(notebook, 'set,c,${odd[0].object_name},title', 'dmapi'),
+                /\$\{odd\[0\]\.object_name\} has a value with a comma or line break/);
+            assert.throws(() => variables.interpolate(notebook, 'get,c,${odd[1].object_name}', 'dmapi'), /comma or line break/);
+            assert.strictEqual(variables.interpolate(notebook, "WHERE object_name = ${odd[0].object_name}", 'dql'),
+                "WHERE object_name = 'a,b'");
+        });
+
+        test('uses the only column of single-column results', () => {
+            variables.set(notebook, { name: 'id', columns: [API_RESULT_COLUMN], rows: [{ [API_RESULT_COLUMN]: '0c00000180000105' }] });
+            assert.strictEqual(variables.interpolate(notebook, 'get,c,${id},object_name', 'dmapi'), 'get,c,0c00000180000105,object_name');
+        });
+
+        test('rejects unknown variables', () => {
+            assert.throws(() => variables.interpolate(notebook, '${missing.x}', 'dql'), /Unknown notebook variable "missing"/);
+        });
+
+        test('rejects unknown columns', () => {
+            assert.throws(() => variables.interpolate(notebook, '${docs.owner_name}', 'dql'), /no column "owner_name"/);
+        });
+
+        test('rejects out-of-range rows', () => {
+            assert.throws(() => variables.interpolate(notebook, '${docs[5].r_object_id}', 'dql'), /out of range/);
+        });
+
+        test('requires a column for multi-column results', () => {
+            assert.throws(() => variables.interpolate(notebook, '${docs}', 'dql'), /name one/);
+        });
+
+        test('keeps notebooks separate', () => {
+            assert.throws(() => variables.interpolate('file:///other.dctmbook', '${docs.r_object_id}', 'dql'), /Unknown/);
+        });
+    });
+
+    suite('appendRows() / clear()', () => {
+        test('appends loaded pages to a variable', () => {
+            const variables = new NotebookVariables();
+            variables.set(notebook, { name: 'docs', columns: ['r_object_id'], rows: [{ r_object_id: 'a' }] });
+            variables.appendRows(notebook, 'docs', [{ r_object_id: 'b' }]);
+
+            assert.strictEqual(variables.interpolate(notebook, '${docs}', 'dql'), "'a','b'");
+        });
+
+        test('clear() forgets a notebook', () => {
+            const variables = new NotebookVariables();
+            variables.set(notebook, { name: 'docs', columns: ['r_object_id'], rows: [] });
+            variables.clear(notebook);
+
+            assert.deepStrictEqual(variables.list(notebook), []);
+        });
+    });
+});
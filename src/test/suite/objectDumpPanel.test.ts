@@ -1,4 +1,6 @@
 import * as assert from 'assert';
+import { AttributeInfo, ObjectDumpPanel, groupAttributes } from '../../objectDumpPanel';
+import { ActiveConnection, ConnectionManager } from '../../connectionManager';
 
 /**
  * Tests for ObjectDumpPanel helper functions
@@ -386,4 +388,48 @@ suite('ObjectDumpPanel Test Suite', () => {
             assert.strictEqual(nav.canGoForward(), false);
         });
     });
+
+    suite('groupAttributes()', () => {
+        function attr(name: string, group: AttributeInfo['group']): AttributeInfo {
+            return { name, type: 'string', value: '', isRepeating: false, group };
+        }
+
+        test('orders sections as the panel shows them and sorts attributes by name', () => {
+            const sections = groupAttributes([
+                attr('r_object_id', 'system'),
+                attr('title', 'standard'),
+                attr('object_name', 'standard'),
+                attr('my_status', 'custom')
+            ]);
+
+            assert.deepStrictEqual(sections.map(s => s.group), ['custom', 'standard', 'system']);
+            assert.deepStrictEqual(sections[1].attributes.map(a => a.name), ['object_name', 'title']);
+            assert.strictEqual(sections[2].label, 'System Attributes (r_)');
+        });
+    });
+
+    suite('fetchDump()', () => {
+        const calls: string[] = [];
+        const connectionManager = {
+            getDctmBridge: () => ({
+                isRestSession: () => false,
+                executeDmApi: async (sessionId: string, _method: string, command: string) => {
+                    calls.push(`${sessionId} ${command}`);
+                    return { result: 'object_name : Report\nr_object_type : dm_document' };
+                }
+            })
+        } as unknown as ConnectionManager;
+        const dev = { config: { name: 'DEV' }, sessionId: 'dev-session', username: 'dmadmin' } as ActiveConnection;
+
+        test('dumps the object through the given connection', async () => {
+            const dump = await ObjectDumpPanel.fetchDump(connectionManager, '0900000180000001', dev);
+
+            assert.deepStrictEqual(calls, ['dev-session dump,dev-session,0900000180000001']);
+            assert.strictEqual(dump.objectName, 'Report');
+        });
+
+        test('fails without a connection', async () => {
+            await assert.rejects(ObjectDumpPanel.fetchDump(connectionManager, '0900000180000001', null), /Not connected/);
+        });
+    });
 });
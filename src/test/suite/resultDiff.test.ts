@@ -0,0 +1,70 @@
+import * as assert from 'assert';
+import { diffResults, getKeyCandidates } from '../../notebook/resultDiff';
+
+/**
+ * Tests for comparing two DQL results by a key column.
+ */
+suite('Result Diff Test Suite', () => {
+    const before = {
+        columns: ['r_object_id', 'object_name', 'keywords'],
+        rows: [
+            { r_object_id: '0900000180000001', object_name: 'a.txt', keywords: ['x'] },
+            { r_object_id: '0900000180000002', object_name: 'b.txt', keywords: ['x', 'y'] },
+            { r_object_id: '0900000180000003', object_name: 'c.txt', keywords: [] }
+        ]
+    };
+    const after = {
+        columns: ['r_object_id', 'object_name', 'keywords', 'title'],
+        rows: [
+            { r_object_id: '0900000180000004', object_name: 'd.txt', keywords: [], title: 'new' },
+            { r_object_id: '0900000180000002', object_name: 'b.txt', keywords: ['y', 'x'], title: 'B' },
+            { r_object_id: '0900000180000001', object_name: 'a.txt', keywords: ['x'], title: 'A' }
+        ]
+    };
+
+    test('classifies rows and keeps the first result\'s order', () => {
+        const diff = diffResults(before, after, 'r_object_id');
+
+        assert.deepStrictEqual(
+            diff.rows.map(row => [row.key.slice(-1), row.status]),
+            [['1', 'unchanged'], ['2', 'changed'], ['3', 'removed'], ['4', 'added']]
+        );
+        assert.deepStrictEqual(diff.counts, { added: 1, removed: 1, changed: 1, unchanged: 1 });
+    });
+
+    test('compares only the columns both results have', () => {
+        const diff = diffResults(before, after, 'r_object_id');
+
+        assert.deepStrictEqual(diff.columns, ['r_object_id', 'object_name', 'keywords', 'title']);
+        assert.deepStrictEqual(diff.rows[1].changedColumns, ['keywords']);
+    });
+
+    test('treats values that show the same as equal', () => {
+        const diff = diffResults(
+            { columns: ['id', 'n', 'v'], rows: [{ id: 1, n: 5, v: null }] },
+            { columns: ['id', 'n', 'v'], rows: [{ id: '1', n: '5', v: '' }] },
+            'id'
+        );
+
+        assert.strictEqual(diff.rows[0].status, 'unchanged');
+    });
+
+    test('pairs duplicate keys in order and reports them', () => {
+        const diff = diffResults(
+            { columns: ['name', 'n'], rows: [{ name: 'a', n: 1 }, { name: 'a', n: 2 }] },
+            { columns: ['name', 'n'], rows: [{ name: 'a', n: 1 }, { name: 'a', n: 3 }, { name: 'a', n: 4 }] },
+            'name'
+        );
+
+        assert.deepStrictEqual(diff.rows.map(row => row.status), ['unchanged', 'changed', 'added']);
+        assert.deepStrictEqual(diff.duplicateKeys, ['a']);
+    });
+
+    test('requires the key column in both results', () => {
+        assert.throws(() => diffResults(before, after, 'title'), /not in both results/);
+        assert.deepStrictEqual(
+            getKeyCandidates({ columns: ['object_name', 'r_object_id'], rows: [] }, after),
+            ['r_object_id', 'object_name']
+        );
+    });
+});
@@ -0,0 +1,104 @@
+import * as assert from 'assert';
+import {
+    RowEdit,
+    isEditableColumn,
+    getValueKind,
+    parseEditedValue,
+    isValueChanged,
+    getQueryType,
+    getUpdateType,
+    buildUpdateDql,
+    buildDmApiScript,
+    buildRefreshDql
+} from '../../notebook/resultEdits';
+
+/**
+ * Tests for cell edits in result grids and the statements generated for them.
+ */
+suite('Result Edits Test Suite', () => {
+    const objectId = '0900000180000001';
+
+    suite('values', () => {
+        test('only plain, user-settable attributes are editable', () => {
+            assert.ok(isEditableColumn('title'));
+            assert.ok(isEditableColumn('a_status'));
+            assert.ok(!isEditableColumn('r_object_id'));
+            assert.ok(!isEditableColumn('i_chronicle_id'));
+            assert.ok(!isEditableColumn('count(*)'));
+        });
+
+        test('takes the kind of the returned value', () => {
+            assert.strictEqual(getValueKind(12), 'number');
+            assert.strictEqual(getValueKind(false), 'boolean');
+            assert.strictEqual(getValueKind('2024-01-15 10:00:00'), 'date');
+            assert.strictEqual(getValueKind([null, 'a']), 'string');
+            assert.strictEqual(getValueKind(null), 'string');
+        });
+
+        test('parses typed text by kind, one line per repeating value', () => {
+            assert.strictEqual(parseEditedValue(' 42 ', 'number', false), 42);
+            assert.strictEqual(parseEditedValue('F', 'boolean', false), false);
+            assert.strictEqual(parseEditedValue('', 'date', false), null);
+            assert.deepStrictEqual(parseEditedValue('a\n\nb\n', 'string', true), ['a', 'b']);
+            assert.throws(() => parseEditedValue('abc', 'number', false), /Not a number/);
+            assert.throws(() => parseEditedValue('15/01/2024', 'date', false), /Not a date/);
+        });
+
+        test('treats empty text and null as unchanged', () => {
+            assert.ok(!isValueChanged(null, ''));
+            assert.ok(!isValueChanged(['a'], ['a']));
+            assert.ok(isValueChanged(['a'], ['a', 'b']));
+            assert.ok(isValueChanged(1, 2));
+        });
+    });
+
+    suite('types', () => {
+        test('prefers the row type over the queried type', () => {
+            assert.strictEqual(getQueryType('select r_object_id from dm_document where folder(\'/Temp\')'), 'dm_document');
+            assert.strictEqual(getUpdateType({ r_object_type: 'my_doc' }, 'dm_document'), 'my_doc');
+            assert.strictEqual(getUpdateType({}, 'dm_document'), 'dm_document');
+            assert.strictEqual(getUpdateType({}), 'dm_sysobject');
+        });
+    });
+
+    suite('statements', () => {
+        const edit: RowEdit = {
+            objectId,
+            typeName: 'dm_document',
+            changes: {
+                title: { value: "Bob's report", kind: 'string' },
+                a_effective_date: { value: '2024-03-01', kind: 'date' },
+                keywords: { value: ['x', 'y'], kind: 'string' }
+            }
+        };
+
+        test('builds one UPDATE per object', () => {
+            assert.strictEqual(
+                buildUpdateDql(edit),
+                "UPDATE dm_document OBJECTS SET title = 'Bob''s report', "
+                + "SET a_effective_date = DATE('2024-03-01', 'yyyy-mm-dd'), "
+                + "TRUNCATE keywords, APPEND keywords = 'x', APPEND keywords = 'y' "
+                + `WHERE r_object_id = '${objectId}'`
+            );
+        });
+
+        test('builds the matching IAPI script', () => {
+            const script = buildDmApiScript({ objectId, typeName: 'dm_document', changes: { a_is_hidden: { value: true, kind: 'boolean' } } });
+
+            assert.strictEqual(script, `set,c,${objectId},a_is_hidden\nT\nsave,c,${objectId}`);
+        });
+
+        test('selects the changed attributes again', () => {
+            assert.strictEqual(
+                buildRefreshDql(edit),
+                `SELECT r_object_id, title, a_effective_date, keywords FROM dm_document WHERE r_object_id = '${objectId}'`
+            );
+        });
+
+        test('rejects invalid IDs, types and attributes', () => {
+            assert.throws(() => buildUpdateDql({ ...edit, objectId: "x' OR 1=1" }), /Invalid object ID/);
+            assert.throws(() => buildUpdateDql({ ...edit, typeName: 'dm_document;' }), /Invalid type name/);
+            assert.throws(() => buildUpdateDql({ ...edit, changes: { r_modify_date: { value: '', kind: 'date' } } }), /cannot be edited/);
+        });
+    });
+});
@@ -0,0 +1,131 @@
+import * as assert from 'assert';
+import {
+    parseColumnFilter,
+    matchesFilter,
+    applyResultView,
+    getVisibleColumns,
+    sortResultRows,
+    parseViewFilters,
+    describeFilters,
+    isViewFiltered,
+    createResultViewState
+} from '../../notebook/resultView';
+
+/**
+ * Tests for filtering, quick search and column selection of result tables.
+ */
+suite('Result View Test Suite', () => {
+    const columns = ['r_object_id', 'object_name', 'r_content_size', 'r_modify_date', 'keywords'];
+    const rows = [
+        { r_object_id: '0900000180000001', object_name: 'Report.pdf', r_content_size: 1200, r_modify_date: '2024-01-15 10:00:00', keywords: ['finance', 'q1'] },
+        { r_object_id: '0900000180000002', object_name: 'notes.txt', r_content_size: '80', r_modify_date: '2024-03-02 08:30:00', keywords: [] },
+        { r_object_id: '0900000180000003', object_name: 'report-draft.docx', r_content_size: null, r_modify_date: null, keywords: ['draft'] }
+    ];
+
+    suite('parseColumnFilter()', () => {
+        test('parses each expression form', () => {
+            assert.strictEqual(parseColumnFilter('  '), undefined);
+            assert.deepStrictEqual(parseColumnFilter('rep'), { kind: 'contains', text: 'rep' });
+            assert.deepStrictEqual(parseColumnFilter('= notes.txt'), { kind: 'equals', text: 'notes.txt', negated: false });
+            assert.deepStrictEqual(parseColumnFilter('!=a'), { kind: 'equals', text: 'a', negated: true });
+            assert.deepStrictEqual(parseColumnFilter('NULL'), { kind: 'null', negated: false });
+            assert.deepStrictEqual(parseColumnFilter('is not null'), { kind: 'null', negated: true });
+            assert.deepStrictEqual(
+                parseColumnFilter('>= 100'),
+                { kind: 'range', valueType: 'number', min: 100, minInclusive: true, maxInclusive: false }
+            );
+            assert.deepStrictEqual(
+                parseColumnFilter('1..5'),
+                { kind: 'range', valueType: 'number', min: 1, max: 5, minInclusive: true, maxInclusive: true }
+            );
+            const dates = parseColumnFilter('2024-01-01..2024-02-01');
+            assert.strictEqual(dates?.kind === 'range' && dates.valueType, 'date');
+        });
+
+        test('rejects bounds that are neither numbers nor dates', () => {
+            assert.throws(() => parseColumnFilter('>abc'), /Not a number or date/);
+            assert.throws(() => parseColumnFilter('1..2024-01-01'), /both be numbers or both be dates/);
+            assert.deepStrictEqual(parseColumnFilter('file..txt'), { kind: 'contains', text: 'file..txt' });
+        });
+    });
+
+    suite('matchesFilter()', () => {
+        test('compares text case-insensitively', () => {
+            assert.ok(matchesFilter('Report.pdf', parseColumnFilter('report')!));
+            assert.ok(matchesFilter('Report.pdf', parseColumnFilter('=REPORT.PDF')!));
+            assert.ok(!matchesFilter('Report.pdf', parseColumnFilter('!=report.pdf')!));
+        });
+
+        test('treats missing values and empty lists as null', () => {
+            const isNull = parseColumnFilter('null')!;
+            assert.ok(matchesFilter(null, isNull));
+            assert.ok(matchesFilter('', isNull));
+            assert.ok(matchesFilter([], isNull));
+            assert.ok(!matchesFilter(0, isNull));
+        });
+
+        test('checks numeric and date ranges, skipping other values', () => {
+            assert.ok(matchesFilter('80', parseColumnFilter('<100')!));
+            assert.ok(!matchesFilter(100, parseColumnFilter('<100')!));
+            assert.ok(!matchesFilter('n/a', parseColumnFilter('<100')!));
+            assert.ok(matchesFilter('2024-01-15 10:00:00', parseColumnFilter('2024-01-01..2024-01-31')!));
+            assert.ok(!matchesFilter('2024-03-02 08:30:00', parseColumnFilter('<2024-02-01')!));
+        });
+
+        test('matches repeating values when any value does', () => {
+            assert.ok(matchesFilter(['finance', 'q1'], parseColumnFilter('=q1')!));
+            assert.ok(!matchesFilter(['finance', 'q1'], parseColumnFilter('!=q1')!));
+        });
+    });
+
+    suite('applyResultView()', () => {
+        test('combines column filters and quick search', () => {
+            const state = createResultViewState();
+            state.filters = { object_name: 'report', r_content_size: 'not null' };
+            assert.deepStrictEqual(applyResultView(columns, rows, state).rows, [rows[0]]);
+
+            const search = { ...createResultViewState(), search: 'DRAFT' };
+            assert.deepStrictEqual(applyResultView(columns, rows, search).rows, [rows[2]]);
+        });
+
+        test('searches only visible columns', () => {
+            const state = { ...createResultViewState(), search: 'draft', hiddenColumns: ['object_name'] };
+            const view = applyResultView(columns, rows, state);
+
+            assert.deepStrictEqual(view.columns, ['r_object_id', 'r_content_size', 'r_modify_date', 'keywords']);
+            assert.deepStrictEqual(view.rows, [rows[2]]);
+        });
+
+        test('sorts numbers numerically and repeating values by their first value', () => {
+            assert.deepStrictEqual(
+                sortResultRows([{ n: 10 }, { n: 9 }, { n: null }], 'n', 'asc'),
+                [{ n: null }, { n: 9 }, { n: 10 }]
+            );
+            const state = { ...createResultViewState(), sort: { column: 'keywords', direction: 'desc' as const } };
+            assert.deepStrictEqual(applyResultView(columns, rows, state).rows, [rows[0], rows[2], rows[1]]);
+        });
+
+        test('ignores invalid filters and reports them', () => {
+            const state = { ...createResultViewState(), filters: { r_content_size: '>big' } };
+
+            assert.strictEqual(applyResultView(columns, rows, state).rows.length, 3);
+            assert.match(parseViewFilters(state).errors.get('r_content_size')!, /Not a number or date/);
+        });
+    });
+
+    suite('columns and descriptions', () => {
+        test('orders columns, appending ones missing from the order', () => {
+            const state = { ...createResultViewState(), columnOrder: ['keywords', 'object_name', 'gone'], hiddenColumns: ['r_modify_date'] };
+
+            assert.deepStrictEqual(getVisibleColumns(columns, state), ['keywords', 'object_name', 'r_object_id', 'r_content_size']);
+        });
+
+        test('describe the active filters', () => {
+            const state = { ...createResultViewState(), filters: { object_name: ' rep ', keywords: '' }, search: 'x', hiddenColumns: ['keywords'] };
+
+            assert.deepStrictEqual(describeFilters(state), ['object_name: rep', 'search: "x"', '1 column(s) hidden']);
+            assert.ok(isViewFiltered(state));
+            assert.ok(!isViewFiltered({ ...createResultViewState(), columnOrder: ['keywords'] }));
+        });
+    });
+});